@@ -2,8 +2,9 @@ import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
-import { Route, Switch, Redirect } from "wouter";
+import { Route, Switch, Redirect, useLocation } from "wouter";
 import { Layout } from "@/components/Sidebar";
+import { SessionTimeout } from "@/components/SessionTimeout";
 import { useAuth } from "@/hooks/useAuth";
 import Dashboard from "@/pages/dashboard";
 import UploadStartForm from "@/pages/extraction";
@@ -15,6 +16,8 @@ import AccountManagement from "@/pages/AccountManagement";
 import AuditLogs from "@/pages/AuditLogs";
 import Login from "@/pages/Login";
 import Register from "@/pages/Register";
+import AcceptInvitation from "@/pages/AcceptInvitation";
+import ResetPassword from "@/pages/ResetPassword";
 
 function AuthenticatedRouter() {
   return (
@@ -32,12 +35,22 @@ function AuthenticatedRouter() {
           <Redirect to="/dashboard" />
         </Route>
       </Switch>
+      <SessionTimeout />
     </Layout>
   );
 }
 
 function Router() {
   const { isAuthenticated, isLoading } = useAuth();
+  const [location] = useLocation();
+
+  // Invitation and reset links work whether or not someone is already signed in on this browser
+  if (location.startsWith("/invite/")) {
+    return <AcceptInvitation />;
+  }
+  if (location.startsWith("/reset-password/")) {
+    return <ResetPassword />;
+  }
 
   if (isLoading) {
     return (
@@ -52,6 +65,7 @@ function Router() {
       <Switch>
         <Route path="/register" component={Register} />
         <Route path="/login" component={Login} />
+        <Route path="/forgot-password" component={ResetPassword} />
         <Route>
           <Redirect to="/login" />
         </Route>
@@ -0,0 +1,259 @@
+import { useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { KeyRound, Copy, X } from 'lucide-react'
+import { useToast } from '@/hooks/use-toast'
+import { API_KEY_SCOPES, type ApiKeyScope } from '@shared/permissions'
+
+interface OrganizationApiKey {
+  id: number
+  name: string
+  keyPrefix: string
+  scopes: ApiKeyScope[]
+  expiresAt?: string | null
+  lastUsedAt?: string | null
+  lastUsedIp?: string | null
+  revokedAt?: string | null
+  createdAt: string
+  active: boolean
+}
+
+const EXPIRY_OPTIONS = [
+  { value: '30', label: '30 days' },
+  { value: '90', label: '90 days' },
+  { value: '365', label: '1 year' },
+  { value: 'never', label: 'Never' },
+]
+
+export const ApiKeysCard = () => {
+  const [name, setName] = useState('')
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(['patient:read'])
+  const [expiry, setExpiry] = useState('90')
+  const [createdKey, setCreatedKey] = useState<string | null>(null)
+
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+
+  const { data: apiKeys = [] } = useQuery<OrganizationApiKey[]>({
+    queryKey: ['/api/organization/api-keys'],
+    retry: false,
+  })
+
+  const createKeyMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch('/api/organization/api-keys', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name,
+          scopes,
+          expiresInDays: expiry === 'never' ? undefined : parseInt(expiry),
+        }),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: 'Unknown error' }))
+        throw new Error(errorData.error || `HTTP ${response.status}`)
+      }
+
+      return await response.json()
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/organization/api-keys'] })
+      setCreatedKey(data.key)
+      setName('')
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to create API key',
+        variant: 'destructive',
+      })
+    },
+  })
+
+  const revokeKeyMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await fetch(`/api/organization/api-keys/${id}`, { method: 'DELETE' })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: 'Unknown error' }))
+        throw new Error(errorData.error || `HTTP ${response.status}`)
+      }
+
+      return await response.json()
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/organization/api-keys'] })
+      toast({
+        title: 'Success',
+        description: 'API key revoked',
+      })
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to revoke API key',
+        variant: 'destructive',
+      })
+    },
+  })
+
+  const toggleScope = (scope: ApiKeyScope, checked: boolean) => {
+    setScopes(current => checked ? [...current, scope] : current.filter(s => s !== scope))
+  }
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!name.trim() || scopes.length === 0) {
+      toast({
+        title: 'Error',
+        description: 'Give the key a name and at least one scope',
+        variant: 'destructive',
+      })
+      return
+    }
+    createKeyMutation.mutate()
+  }
+
+  const handleRevoke = (apiKey: OrganizationApiKey) => {
+    if (confirm(`Revoke "${apiKey.name}"? Scripts using it will stop working immediately.`)) {
+      revokeKeyMutation.mutate(apiKey.id)
+    }
+  }
+
+  const copyKey = async () => {
+    if (!createdKey) return
+    await navigator.clipboard.writeText(createdKey)
+    toast({
+      title: 'Copied',
+      description: 'API key copied to clipboard',
+    })
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="h-5 w-5" />
+          API Keys
+        </CardTitle>
+        <CardDescription>
+          Keys let integration scripts call the patient and appointment APIs with the <code>X-API-Key</code> header
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {createdKey && (
+          <div className="p-4 rounded-lg border border-amber-300 bg-amber-50 space-y-2">
+            <p className="text-sm font-medium text-amber-900">
+              Copy this key now. It will not be shown again.
+            </p>
+            <div className="flex gap-2">
+              <Input readOnly value={createdKey} className="font-mono text-xs" />
+              <Button variant="outline" onClick={copyKey}>
+                <Copy className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" onClick={() => setCreatedKey(null)}>
+                Done
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <form onSubmit={handleCreate} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="apiKeyName">Key Name</Label>
+              <Input
+                id="apiKeyName"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Nightly EHR sync"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="apiKeyExpiry">Expires</Label>
+              <Select value={expiry} onValueChange={setExpiry}>
+                <SelectTrigger id="apiKeyExpiry">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPIRY_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Scopes</Label>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+              {API_KEY_SCOPES.map(scope => (
+                <label key={scope} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={scopes.includes(scope)}
+                    onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                  />
+                  <span className="font-mono">{scope}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+          <Button type="submit" disabled={createKeyMutation.isPending}>
+            {createKeyMutation.isPending ? 'Creating...' : 'Create API Key'}
+          </Button>
+        </form>
+
+        {apiKeys.length > 0 && (
+          <div className="space-y-3">
+            {apiKeys.map(apiKey => (
+              <div key={apiKey.id} className="flex items-center justify-between p-3 rounded-lg border">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{apiKey.name}</span>
+                    <span className="font-mono text-xs text-gray-500">{apiKey.keyPrefix}…</span>
+                    {!apiKey.active && (
+                      <Badge variant="destructive">{apiKey.revokedAt ? 'Revoked' : 'Expired'}</Badge>
+                    )}
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    {apiKey.scopes.map(scope => (
+                      <Badge key={scope} variant="outline" className="font-mono text-xs">{scope}</Badge>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-400">
+                    Created {new Date(apiKey.createdAt).toLocaleDateString()}
+                    {' · '}
+                    {apiKey.expiresAt ? `Expires ${new Date(apiKey.expiresAt).toLocaleDateString()}` : 'No expiry'}
+                    {' · '}
+                    {apiKey.lastUsedAt
+                      ? `Last used ${new Date(apiKey.lastUsedAt).toLocaleString()}${apiKey.lastUsedIp ? ` from ${apiKey.lastUsedIp}` : ''}`
+                      : 'Never used'}
+                  </p>
+                </div>
+                {apiKey.active && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRevoke(apiKey)}
+                    disabled={revokeKeyMutation.isPending}
+                  >
+                    <X className="h-4 w-4 mr-1" />
+                    Revoke
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,172 @@
+import { useEffect, useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+import { BellRing } from 'lucide-react'
+import { useToast } from '@/hooks/use-toast'
+import {
+  DEFAULT_AUDIT_ALERT_SETTINGS,
+  AUDIT_ALERT_THRESHOLD_MAX,
+  type AuditAlertSettings,
+} from '@shared/audit-alerts'
+
+type NumberField = 'patientViewsPerHour' | 'failedLoginsPerHour' | 'exportMinRecords' | 'businessHoursStart' | 'businessHoursEnd'
+type ToggleField = 'enabled' | 'emailOwners' | 'businessDaysOnly' | 'newIpAddress'
+
+const THRESHOLDS: Array<{ field: NumberField; label: string; hint: string }> = [
+  { field: 'patientViewsPerHour', label: 'Patients Viewed per Hour', hint: 'Distinct patients one member opens in an hour.' },
+  { field: 'failedLoginsPerHour', label: 'Failed Sign-ins per Hour', hint: 'Failed attempts on one account in an hour.' },
+  { field: 'exportMinRecords', label: 'Off-hours Export Size', hint: 'Records in one export outside business hours.' },
+]
+
+const TOGGLES: Array<{ field: ToggleField; label: string }> = [
+  { field: 'enabled', label: 'Scan the audit log every hour' },
+  { field: 'emailOwners', label: 'Email owners when alerts are raised' },
+  { field: 'newIpAddress', label: 'Alert on sign-ins from a new IP address' },
+  { field: 'businessDaysOnly', label: 'Weekends are outside business hours' },
+]
+
+export const AuditAlertSettingsCard = () => {
+  const [settings, setSettings] = useState<AuditAlertSettings>(DEFAULT_AUDIT_ALERT_SETTINGS)
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+
+  const { data: organization } = useQuery<{ auditAlertSettings?: AuditAlertSettings | null }>({
+    queryKey: ['/api/organization'],
+  })
+
+  useEffect(() => {
+    if (organization) {
+      setSettings({ ...DEFAULT_AUDIT_ALERT_SETTINGS, ...organization.auditAlertSettings })
+    }
+  }, [organization])
+
+  const saveSettingsMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch('/api/organization', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ auditAlertSettings: settings }),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: 'Unknown error' }))
+        throw new Error(errorData.error || `HTTP ${response.status}`)
+      }
+
+      return await response.json()
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/organization'] })
+      toast({
+        title: 'Success',
+        description: 'Security alert settings saved. They apply from the next hourly scan.',
+      })
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to save security alert settings',
+        variant: 'destructive',
+      })
+    },
+  })
+
+  const setNumber = (field: NumberField, value: string) => {
+    setSettings(current => ({ ...current, [field]: parseInt(value) || 0 }))
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BellRing className="h-5 w-5" />
+          Security Alerts
+        </CardTitle>
+        <CardDescription>
+          Every hour the audit log is checked for unusual activity. Alerts appear on the Audit Logs page for owners and admins. A threshold of 0 turns that check off.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault()
+            saveSettingsMutation.mutate()
+          }}
+          className="space-y-4"
+        >
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {THRESHOLDS.map(({ field, label, hint }) => (
+              <div key={field} className="space-y-2">
+                <Label htmlFor={`alert-${field}`}>{label}</Label>
+                <Input
+                  id={`alert-${field}`}
+                  type="number"
+                  min={0}
+                  max={AUDIT_ALERT_THRESHOLD_MAX}
+                  value={settings[field]}
+                  onChange={(e) => setNumber(field, e.target.value)}
+                />
+                <p className="text-xs text-gray-500">{hint}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="alertBusinessStart">Business Hours Start</Label>
+              <Input
+                id="alertBusinessStart"
+                type="number"
+                min={0}
+                max={23}
+                value={settings.businessHoursStart}
+                onChange={(e) => setNumber('businessHoursStart', e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="alertBusinessEnd">Business Hours End</Label>
+              <Input
+                id="alertBusinessEnd"
+                type="number"
+                min={1}
+                max={24}
+                value={settings.businessHoursEnd}
+                onChange={(e) => setNumber('businessHoursEnd', e.target.value)}
+              />
+              <p className="text-xs text-gray-500">Hours of the day, 24-hour clock.</p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="alertTimeZone">Time Zone</Label>
+              <Input
+                id="alertTimeZone"
+                value={settings.timeZone}
+                onChange={(e) => setSettings(current => ({ ...current, timeZone: e.target.value }))}
+                placeholder="America/New_York"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            {TOGGLES.map(({ field, label }) => (
+              <label key={field} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={settings[field]}
+                  onCheckedChange={(checked) => setSettings(current => ({ ...current, [field]: checked === true }))}
+                />
+                <span>{label}</span>
+              </label>
+            ))}
+          </div>
+
+          <Button type="submit" disabled={saveSettingsMutation.isPending}>
+            {saveSettingsMutation.isPending ? 'Saving...' : 'Save Alert Settings'}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,127 @@
+import { useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { BellRing, Check, Loader2 } from 'lucide-react'
+import { useToast } from '@/hooks/use-toast'
+import { AUDIT_ALERT_TYPE_LABELS, type AuditAlertType } from '@shared/audit-alerts'
+
+interface AuditAlert {
+  id: number
+  type: AuditAlertType
+  summary: string
+  details: Record<string, any> | null
+  windowStart: string
+  windowEnd: string
+  acknowledgedAt: string | null
+  acknowledgedByName: string | null
+  createdAt: string
+}
+
+interface AuditAlertList {
+  alerts: AuditAlert[]
+  openCount: number
+}
+
+export const AuditAlertsCard = () => {
+  const [showAll, setShowAll] = useState(false)
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+
+  const { data, isLoading, error } = useQuery<AuditAlertList>({
+    queryKey: [showAll ? '/api/audit-alerts?status=all' : '/api/audit-alerts'],
+  })
+
+  const acknowledgeMutation = useMutation({
+    mutationFn: async (alertId: number) => {
+      const response = await fetch(`/api/audit-alerts/${alertId}/acknowledge`, { method: 'POST' })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: 'Unknown error' }))
+        throw new Error(errorData.error || `HTTP ${response.status}`)
+      }
+
+      return await response.json()
+    },
+    onSuccess: () => {
+      // Also refreshes the open count in the sidebar
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith('/api/audit-alerts'),
+      })
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to acknowledge alert',
+        variant: 'destructive',
+      })
+    },
+  })
+
+  const alerts = data?.alerts ?? []
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <BellRing className="h-5 w-5" />
+            Security Alerts
+            {!!data?.openCount && <Badge variant="destructive">{data.openCount} open</Badge>}
+          </CardTitle>
+          <Button variant="outline" size="sm" onClick={() => setShowAll(!showAll)}>
+            {showAll ? 'Show Open Only' : 'Show Acknowledged'}
+          </Button>
+        </div>
+        <CardDescription>
+          Found by the hourly review of this log. Acknowledge an alert once it has been looked into; thresholds are set on the Organization page.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-gray-500">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading alerts...
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-600">{(error as Error).message}</p>
+        ) : alerts.length === 0 ? (
+          <p className="text-sm text-gray-500">{showAll ? 'No alerts have been raised.' : 'No open alerts.'}</p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto space-y-2">
+            {alerts.map(alert => (
+              <div key={alert.id} className="p-3 rounded-lg border text-sm flex items-start justify-between gap-4">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <Badge variant={alert.acknowledgedAt ? 'secondary' : 'destructive'}>
+                      {AUDIT_ALERT_TYPE_LABELS[alert.type] ?? alert.type}
+                    </Badge>
+                    <span className="text-gray-500">{new Date(alert.createdAt).toLocaleString()}</span>
+                  </div>
+                  <p>{alert.summary}</p>
+                  {alert.acknowledgedAt && (
+                    <p className="text-gray-500">
+                      Acknowledged {new Date(alert.acknowledgedAt).toLocaleString()}{alert.acknowledgedByName && ` by ${alert.acknowledgedByName}`}
+                    </p>
+                  )}
+                </div>
+                {!alert.acknowledgedAt && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => acknowledgeMutation.mutate(alert.id)}
+                    disabled={acknowledgeMutation.isPending}
+                  >
+                    <Check className="h-4 w-4 mr-1" />
+                    Acknowledge
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,113 @@
+import { useState } from 'react'
+import { useQuery, useMutation } from '@tanstack/react-query'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Archive, Loader2, ShieldAlert, ShieldCheck } from 'lucide-react'
+import { useToast } from '@/hooks/use-toast'
+
+interface AuditArchive {
+  id: number
+  entryCount: number
+  ranges: Array<{ fromChainSeq: number; toChainSeq: number }>
+  sha256: string
+  createdAt: string
+}
+
+interface ArchiveVerification {
+  valid: boolean
+  entriesChecked: number
+  problem?: string
+}
+
+const describeRanges = (archive: AuditArchive) =>
+  archive.ranges.map(range => (range.fromChainSeq === range.toChainSeq
+    ? `#${range.fromChainSeq}`
+    : `#${range.fromChainSeq}–#${range.toChainSeq}`)).join(', ')
+
+export const AuditArchivesCard = () => {
+  const [results, setResults] = useState<Record<number, ArchiveVerification>>({})
+  const { toast } = useToast()
+
+  const { data: archives = [], isLoading } = useQuery<AuditArchive[]>({
+    queryKey: ['/api/audit-archives'],
+  })
+
+  const verifyMutation = useMutation({
+    mutationFn: async (archiveId: number) => {
+      const response = await fetch(`/api/audit-archives/${archiveId}/verify`, { method: 'POST' })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: 'Unknown error' }))
+        throw new Error(errorData.error || `HTTP ${response.status}`)
+      }
+
+      return await response.json() as ArchiveVerification
+    },
+    onSuccess: (result, archiveId) => {
+      setResults(current => ({ ...current, [archiveId]: result }))
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to verify archive',
+        variant: 'destructive',
+      })
+    },
+  })
+
+  // Nothing to show until the first retention purge has run
+  if (!isLoading && archives.length === 0) return null
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Archive className="h-5 w-5" />
+          Retention Archive
+        </CardTitle>
+        <CardDescription>
+          Expired entries are written to a compressed, checksummed file before they are deleted. Verify checks the file against its signed manifest.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-gray-500">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading archives...
+          </div>
+        ) : (
+          <div className="max-h-72 overflow-y-auto space-y-2">
+            {archives.map(archive => {
+              const result = results[archive.id]
+              return (
+                <div key={archive.id} className="p-3 rounded-lg border text-sm flex items-start justify-between gap-4">
+                  <div className="space-y-1">
+                    <div className="font-medium">
+                      {archive.entryCount} entries archived {new Date(archive.createdAt).toLocaleString()}
+                    </div>
+                    {archive.ranges.length > 0 && <div className="text-gray-500">Entries {describeRanges(archive)}</div>}
+                    <div className="text-xs text-gray-500 break-all">SHA-256 {archive.sha256}</div>
+                    {result && (
+                      <div className={`flex items-center gap-1 ${result.valid ? 'text-green-700' : 'text-red-700'}`}>
+                        {result.valid ? <ShieldCheck className="h-4 w-4" /> : <ShieldAlert className="h-4 w-4" />}
+                        {result.valid ? `Intact: ${result.entriesChecked} entries checked` : result.problem}
+                      </div>
+                    )}
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => verifyMutation.mutate(archive.id)}
+                    disabled={verifyMutation.isPending}
+                  >
+                    Verify
+                  </Button>
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
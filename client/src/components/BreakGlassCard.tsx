@@ -0,0 +1,105 @@
+import { useState } from 'react'
+import { useMutation } from '@tanstack/react-query'
+import { Link } from 'wouter'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { ShieldAlert, ArrowLeft } from 'lucide-react'
+import { useToast } from '@/hooks/use-toast'
+import { queryClient } from '@/lib/queryClient'
+
+interface BreakGlassCardProps {
+  patientId: number
+}
+
+// Shown in place of a restricted patient record the current user is not on the access list for
+export const BreakGlassCard = ({ patientId }: BreakGlassCardProps) => {
+  const [justification, setJustification] = useState('')
+  const { toast } = useToast()
+
+  const breakGlassMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(`/api/patients/${patientId}/break-glass`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ justification }),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: 'Unknown error' }))
+        throw new Error(errorData.error || `HTTP ${response.status}`)
+      }
+
+      return await response.json()
+    },
+    onSuccess: (data) => {
+      toast({
+        title: 'Access granted',
+        description: `Access expires at ${new Date(data.expiresAt).toLocaleTimeString()}. Administrators have been notified.`,
+      })
+      // Reload the record and everything under it that was refused
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith(`/api/patients/${patientId}`),
+      })
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to grant access',
+        variant: 'destructive',
+      })
+    },
+  })
+
+  return (
+    <Card className="border-red-200">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-red-700">
+          <ShieldAlert className="h-5 w-5" />
+          Restricted Patient Record
+        </CardTitle>
+        <CardDescription>
+          You are not on this patient's access list. If you need this record for patient care, explain why below.
+          Your access will be recorded in the audit log, administrators will be notified, and access expires after one hour.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault()
+            breakGlassMutation.mutate()
+          }}
+          className="space-y-4"
+        >
+          <div className="space-y-2">
+            <Label htmlFor="breakGlassJustification">Justification</Label>
+            <Textarea
+              id="breakGlassJustification"
+              value={justification}
+              onChange={(e) => setJustification(e.target.value)}
+              placeholder="e.g. Covering for the assigned coordinator to schedule an urgent injection"
+              rows={3}
+              required
+            />
+          </div>
+          <div className="flex gap-2">
+            <Button
+              type="submit"
+              variant="destructive"
+              disabled={justification.trim().length < 10 || breakGlassMutation.isPending}
+            >
+              {breakGlassMutation.isPending ? 'Requesting...' : 'Break the Glass'}
+            </Button>
+            <Link href="/patients">
+              <Button type="button" variant="outline">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back to Patients
+              </Button>
+            </Link>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
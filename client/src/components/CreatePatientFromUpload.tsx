@@ -31,7 +31,7 @@ export function CreatePatientFromUpload({ onPatientCreated }: CreatePatientFromU
       
       if (!response.ok) {
         const error = await response.json();
-        throw new Error(error.message || 'Failed to create patient');
+        throw new Error(error.error || error.message || 'Failed to create patient');
       }
       
       return response.json();
@@ -38,7 +38,10 @@ export const EpicInsuranceExtractor = ({ patientId, onDataExtracted }: EpicInsur
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ epicText: text, patientId: patientId })
       })
-      if (!response.ok) throw new Error('Extraction failed')
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || 'Extraction failed')
+      }
       return response.json()
     },
     onSuccess: (data) => {
@@ -0,0 +1,240 @@
+import { useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Gavel, Loader2 } from 'lucide-react'
+import { useToast } from '@/hooks/use-toast'
+import { useAuth } from '@/hooks/useAuth'
+import type { LegalHoldScope } from '@shared/schema'
+
+interface LegalHold {
+  id: number
+  scope: LegalHoldScope
+  subjectId: number | null
+  subjectName: string | null
+  reason: string
+  createdAt: string
+  createdByName: string | null
+  releasedAt: string | null
+  releasedByName: string | null
+}
+
+interface Member {
+  id: number
+  name: string | null
+  email: string
+}
+
+const SCOPE_LABELS: Record<LegalHoldScope, string> = {
+  organization: 'Whole organization',
+  patient: 'Patient',
+  user: 'User',
+}
+
+const describeSubject = (hold: LegalHold) => {
+  if (hold.scope === 'organization') return SCOPE_LABELS.organization
+  const name = hold.subjectName ?? `#${hold.subjectId}`
+  return `${SCOPE_LABELS[hold.scope]}: ${name}`
+}
+
+export const LegalHoldsCard = () => {
+  const [scope, setScope] = useState<LegalHoldScope>('patient')
+  const [patientId, setPatientId] = useState('')
+  const [userId, setUserId] = useState('')
+  const [reason, setReason] = useState('')
+  const { toast } = useToast()
+  const { can } = useAuth()
+  const queryClient = useQueryClient()
+  const canHold = can('audit:hold')
+
+  const { data: holds = [], isLoading } = useQuery<LegalHold[]>({
+    queryKey: ['/api/legal-holds'],
+  })
+
+  // Former members can still be the subject of a hold
+  const { data: activeMembers = [] } = useQuery<Member[]>({
+    queryKey: ['/api/organization/members'],
+    enabled: canHold,
+  })
+  const { data: inactiveMembers = [] } = useQuery<Member[]>({
+    queryKey: ['/api/organization/members?status=inactive'],
+    enabled: canHold,
+  })
+
+  const sendHoldRequest = async (url: string, body?: unknown) => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: body ? JSON.stringify(body) : undefined,
+    })
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Unknown error' }))
+      throw new Error(errorData.error || `HTTP ${response.status}`)
+    }
+
+    return await response.json()
+  }
+
+  const placeHoldMutation = useMutation({
+    mutationFn: () => sendHoldRequest('/api/legal-holds', {
+      scope,
+      subjectId: scope === 'patient' ? parseInt(patientId) || undefined : scope === 'user' ? parseInt(userId) || undefined : undefined,
+      reason,
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/legal-holds'] })
+      setPatientId('')
+      setUserId('')
+      setReason('')
+      toast({
+        title: 'Legal hold placed',
+        description: 'Matching audit entries will be kept past their retention date until the hold is released.',
+      })
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to place legal hold',
+        variant: 'destructive',
+      })
+    },
+  })
+
+  const releaseHoldMutation = useMutation({
+    mutationFn: (holdId: number) => sendHoldRequest(`/api/legal-holds/${holdId}/release`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/legal-holds'] })
+      toast({
+        title: 'Legal hold released',
+        description: 'Entries it kept are purged with the next daily retention run if they have expired.',
+      })
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to release legal hold',
+        variant: 'destructive',
+      })
+    },
+  })
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Gavel className="h-5 w-5" />
+          Legal Holds
+        </CardTitle>
+        <CardDescription>
+          Audit entries are archived and deleted seven years after they are written. Entries covered by an active hold are kept until it is released.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {canHold && (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault()
+              placeHoldMutation.mutate()
+            }}
+            className="space-y-4 p-4 rounded-lg border"
+          >
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Hold</Label>
+                <Select value={scope} onValueChange={(value) => setScope(value as LegalHoldScope)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(SCOPE_LABELS) as LegalHoldScope[]).map(value => (
+                      <SelectItem key={value} value={value}>{SCOPE_LABELS[value]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {scope === 'patient' && (
+                <div className="space-y-2">
+                  <Label htmlFor="holdPatientId">Patient ID</Label>
+                  <Input id="holdPatientId" type="number" min={1} value={patientId} onChange={(e) => setPatientId(e.target.value)} />
+                </div>
+              )}
+              {scope === 'user' && (
+                <div className="space-y-2">
+                  <Label>User</Label>
+                  <Select value={userId} onValueChange={setUserId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Choose a member" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {activeMembers.map(member => (
+                        <SelectItem key={member.id} value={String(member.id)}>{member.name || member.email}</SelectItem>
+                      ))}
+                      {inactiveMembers.map(member => (
+                        <SelectItem key={member.id} value={String(member.id)}>{member.name || member.email} (deactivated)</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="holdReason">Reason</Label>
+              <Textarea
+                id="holdReason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Matter name or reference, and who requested the hold"
+              />
+            </div>
+            <Button type="submit" disabled={placeHoldMutation.isPending}>
+              {placeHoldMutation.isPending ? 'Placing...' : 'Place Hold'}
+            </Button>
+          </form>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-gray-500">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading legal holds...
+          </div>
+        ) : holds.length === 0 ? (
+          <p className="text-sm text-gray-500">No legal holds have been placed.</p>
+        ) : (
+          <div className="space-y-2">
+            {holds.map(hold => (
+              <div key={hold.id} className="p-3 rounded-lg border text-sm flex items-start justify-between gap-4">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{describeSubject(hold)}</span>
+                    <Badge variant={hold.releasedAt ? 'secondary' : 'default'}>{hold.releasedAt ? 'Released' : 'Active'}</Badge>
+                  </div>
+                  <p>{hold.reason}</p>
+                  <p className="text-gray-500">
+                    Placed {new Date(hold.createdAt).toLocaleString()}{hold.createdByName && ` by ${hold.createdByName}`}
+                    {hold.releasedAt && ` · released ${new Date(hold.releasedAt).toLocaleString()}${hold.releasedByName ? ` by ${hold.releasedByName}` : ''}`}
+                  </p>
+                </div>
+                {canHold && !hold.releasedAt && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => releaseHoldMutation.mutate(hold.id)}
+                    disabled={releaseHoldMutation.isPending}
+                  >
+                    Release
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,154 @@
+import { useEffect, useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+import { KeyRound } from 'lucide-react'
+import { useToast } from '@/hooks/use-toast'
+import {
+  DEFAULT_PASSWORD_POLICY,
+  PASSWORD_MIN_LENGTH_FLOOR,
+  PASSWORD_MAX_LENGTH,
+  PASSWORD_HISTORY_MAX,
+  type PasswordPolicy,
+} from '@shared/password-policy'
+
+const CHARACTER_CLASSES: Array<{ field: 'requireUppercase' | 'requireLowercase' | 'requireNumber' | 'requireSymbol'; label: string }> = [
+  { field: 'requireUppercase', label: 'Uppercase letter' },
+  { field: 'requireLowercase', label: 'Lowercase letter' },
+  { field: 'requireNumber', label: 'Number' },
+  { field: 'requireSymbol', label: 'Symbol' },
+]
+
+export const PasswordPolicyCard = () => {
+  const [policy, setPolicy] = useState<PasswordPolicy>(DEFAULT_PASSWORD_POLICY)
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+
+  const { data: organization } = useQuery<{ passwordPolicy?: PasswordPolicy | null }>({
+    queryKey: ['/api/organization'],
+  })
+
+  useEffect(() => {
+    if (organization) {
+      setPolicy(organization.passwordPolicy ?? DEFAULT_PASSWORD_POLICY)
+    }
+  }, [organization])
+
+  const savePolicyMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch('/api/organization', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ passwordPolicy: policy }),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: 'Unknown error' }))
+        throw new Error(errorData.error || `HTTP ${response.status}`)
+      }
+
+      return await response.json()
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/organization'] })
+      toast({
+        title: 'Success',
+        description: 'Password policy saved. It applies the next time members set or change a password.',
+      })
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to save password policy',
+        variant: 'destructive',
+      })
+    },
+  })
+
+  const setNumber = (field: 'minLength' | 'maxAgeDays' | 'historyCount', value: string) => {
+    setPolicy(current => ({ ...current, [field]: parseInt(value) || 0 }))
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="h-5 w-5" />
+          Password Policy
+        </CardTitle>
+        <CardDescription>
+          Rules for new passwords. Passwords on the breached-password list are always rejected. Members of several organizations follow the strictest policy.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault()
+            savePolicyMutation.mutate()
+          }}
+          className="space-y-4"
+        >
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="policyMinLength">Minimum Length</Label>
+              <Input
+                id="policyMinLength"
+                type="number"
+                min={PASSWORD_MIN_LENGTH_FLOOR}
+                max={PASSWORD_MAX_LENGTH}
+                value={policy.minLength}
+                onChange={(e) => setNumber('minLength', e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="policyMaxAge">Maximum Age (days)</Label>
+              <Input
+                id="policyMaxAge"
+                type="number"
+                min={0}
+                max={730}
+                value={policy.maxAgeDays}
+                onChange={(e) => setNumber('maxAgeDays', e.target.value)}
+              />
+              <p className="text-xs text-gray-500">0 never expires. Expired passwords must be changed at login.</p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="policyHistory">Password History</Label>
+              <Input
+                id="policyHistory"
+                type="number"
+                min={0}
+                max={PASSWORD_HISTORY_MAX}
+                value={policy.historyCount}
+                onChange={(e) => setNumber('historyCount', e.target.value)}
+              />
+              <p className="text-xs text-gray-500">Recent passwords that cannot be reused.</p>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Required Characters</Label>
+            <div className="flex flex-wrap gap-4">
+              {CHARACTER_CLASSES.map(({ field, label }) => (
+                <label key={field} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={policy[field]}
+                    onCheckedChange={(checked) => setPolicy(current => ({ ...current, [field]: checked === true }))}
+                  />
+                  <span>{label}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <Button type="submit" disabled={savePolicyMutation.isPending}>
+            {savePolicyMutation.isPending ? 'Saving...' : 'Save Password Policy'}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
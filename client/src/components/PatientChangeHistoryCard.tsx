@@ -0,0 +1,107 @@
+import { useQuery } from '@tanstack/react-query'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { History, Loader2 } from 'lucide-react'
+
+interface PatientChangeHistoryCardProps {
+  patientId: number
+}
+
+type ChangeValue = string | number | boolean | null
+
+interface PatientHistory {
+  history: Array<{
+    id: number
+    timestamp: string
+    actor: string
+    changes: Array<{
+      field: string
+      from: ChangeValue
+      to: ChangeValue
+      masked?: boolean
+      truncated?: boolean
+    }> | null
+    fields: string[]
+  }>
+  total: number
+}
+
+// primaryInsuranceNumber -> Primary Insurance Number, orderingMD -> Ordering MD
+const formatField = (field: string) =>
+  field.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/^./, c => c.toUpperCase())
+
+const formatValue = (value: ChangeValue) => {
+  if (value === null) return '(empty)'
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No'
+  return String(value)
+}
+
+export const PatientChangeHistoryCard = ({ patientId }: PatientChangeHistoryCardProps) => {
+  const { data, isLoading } = useQuery<PatientHistory>({
+    queryKey: [`/api/patients/${patientId}/history`],
+  })
+
+  const history = data?.history ?? []
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Change History
+        </CardTitle>
+        <CardDescription>
+          Every edit to this record with the previous and new value, from the audit log. Identifiers show only their last four characters.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-gray-500">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading history...
+          </div>
+        ) : history.length === 0 ? (
+          <p className="text-sm text-gray-500">No changes have been recorded for this patient.</p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto space-y-3">
+            {history.map(entry => (
+              <div key={entry.id} className="p-3 rounded-lg border text-sm">
+                <div className="flex justify-between gap-2">
+                  <span className="font-medium">{entry.actor}</span>
+                  <span className="text-gray-500 whitespace-nowrap">{new Date(entry.timestamp).toLocaleString()}</span>
+                </div>
+                {entry.changes === null ? (
+                  <p className="text-gray-500 mt-1">
+                    Values not recorded{entry.fields.length > 0 && ` (fields sent: ${entry.fields.map(formatField).join(', ')})`}
+                  </p>
+                ) : entry.changes.length === 0 ? (
+                  <p className="text-gray-500 mt-1">Saved without changes</p>
+                ) : (
+                  <div className="mt-2 space-y-1">
+                    {entry.changes.map(change => (
+                      <div key={change.field} className="grid grid-cols-1 md:grid-cols-[12rem_1fr] gap-1">
+                        <span className="text-gray-600 flex items-center gap-1">
+                          {formatField(change.field)}
+                          {change.masked && <Badge variant="outline" className="text-xs">Masked</Badge>}
+                        </span>
+                        <span className="break-words">
+                          <span className="text-red-700 line-through">{formatValue(change.from)}</span>
+                          {' → '}
+                          <span className="text-green-700">{formatValue(change.to)}</span>
+                          {change.truncated && <span className="text-gray-500"> (shortened)</span>}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+            {data && data.total > history.length && (
+              <p className="text-xs text-gray-500">Showing the {history.length} most recent of {data.total} changes.</p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
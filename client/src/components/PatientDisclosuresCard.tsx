@@ -0,0 +1,178 @@
+import { useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Download, FileSearch, Loader2 } from 'lucide-react'
+import { useToast } from '@/hooks/use-toast'
+
+interface PatientDisclosuresCardProps {
+  patientId: number
+}
+
+type DisclosureCategory = 'access' | 'change' | 'document' | 'disclosure'
+
+interface DisclosureReport {
+  from: string
+  to: string
+  generatedAt: string
+  entries: Array<{
+    auditLogId: number
+    timestamp: string
+    category: DisclosureCategory
+    description: string
+    actor: string
+    ipAddress: string | null
+    documentIds: number[]
+    recipient: string | null
+    purpose: string | null
+  }>
+  summary: Record<DisclosureCategory, number>
+  truncated: boolean
+  signature: { keyId: string; digest: string }
+}
+
+const CATEGORY_LABELS: Record<DisclosureCategory, string> = {
+  access: 'Access',
+  change: 'Change',
+  document: 'Document',
+  disclosure: 'Disclosure',
+}
+
+// Dates are whole local days; empty fields leave the server default (the last six years)
+const buildRangeParams = (from: string, to: string) => {
+  const params = new URLSearchParams()
+  if (from) params.set('from', new Date(`${from}T00:00:00`).toISOString())
+  if (to) params.set('to', new Date(`${to}T23:59:59.999`).toISOString())
+  return params.toString()
+}
+
+export const PatientDisclosuresCard = ({ patientId }: PatientDisclosuresCardProps) => {
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+  // Opening the report is itself audited, so it only loads on request
+  const [requestedRange, setRequestedRange] = useState<string | null>(null)
+  const [isDownloading, setIsDownloading] = useState(false)
+  const { toast } = useToast()
+
+  const { data: report, isFetching, error } = useQuery<DisclosureReport>({
+    queryKey: [`/api/patients/${patientId}/disclosures?${requestedRange}`],
+    enabled: requestedRange !== null,
+  })
+
+  const downloadPdf = async () => {
+    setIsDownloading(true)
+    try {
+      const response = await fetch(`/api/patients/${patientId}/disclosures/pdf?${buildRangeParams(from, to)}`)
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: 'Unknown error' }))
+        throw new Error(errorData.error || `HTTP ${response.status}`)
+      }
+
+      const blob = await response.blob()
+      const url = window.URL.createObjectURL(blob)
+      const a = document.createElement('a')
+      a.href = url
+      a.download = `accounting-of-disclosures-${patientId}.pdf`
+      document.body.appendChild(a)
+      a.click()
+      document.body.removeChild(a)
+      window.URL.revokeObjectURL(url)
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to download accounting of disclosures',
+        variant: 'destructive',
+      })
+    } finally {
+      setIsDownloading(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileSearch className="h-5 w-5" />
+          Accounting of Disclosures
+        </CardTitle>
+        <CardDescription>
+          Everyone who viewed, changed or sent on this patient's record, from the audit log. Patients are entitled to this report on request; the PDF is signed so it can be checked later.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="disclosuresFrom">From</Label>
+            <Input id="disclosuresFrom" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="disclosuresTo">To</Label>
+            <Input id="disclosuresTo" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+          </div>
+        </div>
+        <p className="text-xs text-gray-500">Leave the dates empty for the last six years.</p>
+
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setRequestedRange(buildRangeParams(from, to))} disabled={isFetching}>
+            {isFetching ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileSearch className="h-4 w-4 mr-2" />}
+            View Report
+          </Button>
+          <Button onClick={downloadPdf} disabled={isDownloading}>
+            {isDownloading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+            Download Signed PDF
+          </Button>
+        </div>
+
+        {error && (
+          <p className="text-sm text-red-600">{(error as Error).message}</p>
+        )}
+
+        {report && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-2 text-sm">
+              {(Object.keys(CATEGORY_LABELS) as DisclosureCategory[]).map(category => (
+                <Badge key={category} variant={category === 'disclosure' ? 'default' : 'secondary'}>
+                  {CATEGORY_LABELS[category]}: {report.summary[category]}
+                </Badge>
+              ))}
+            </div>
+            {report.truncated && (
+              <p className="text-sm text-amber-700">This period has more events than one report can hold; the oldest are not shown. Choose a shorter period.</p>
+            )}
+
+            {report.entries.length === 0 ? (
+              <p className="text-sm text-gray-500">No access or disclosures were recorded in this period.</p>
+            ) : (
+              <div className="max-h-96 overflow-y-auto space-y-2">
+                {report.entries.map(entry => (
+                  <div key={entry.auditLogId} className="p-3 rounded-lg border text-sm">
+                    <div className="flex justify-between gap-2">
+                      <span className="font-medium">{entry.description}</span>
+                      <span className="text-gray-500 whitespace-nowrap">{new Date(entry.timestamp).toLocaleString()}</span>
+                    </div>
+                    <div className="text-gray-700 mt-1">
+                      {entry.actor}{entry.ipAddress && <span className="text-gray-500"> · {entry.ipAddress}</span>}
+                    </div>
+                    {entry.recipient && (
+                      <div className="text-gray-700 mt-1">Sent to {entry.recipient}{entry.purpose && `: ${entry.purpose}`}</div>
+                    )}
+                    {entry.documentIds.length > 0 && (
+                      <div className="text-gray-500 mt-1">Documents {entry.documentIds.join(', ')}</div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <p className="text-xs text-gray-500 break-all">
+              Generated {new Date(report.generatedAt).toLocaleString()} · SHA-256 {report.signature.digest} · key {report.signature.keyId}
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,270 @@
+import { useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import { Badge } from '@/components/ui/badge'
+import { FileText, History, Loader2, Pencil, Pin, PinOff } from 'lucide-react'
+import { useToast } from '@/hooks/use-toast'
+import type { PatientNoteCategory } from '@shared/schema'
+
+interface PatientNotesCardProps {
+  patientId: number
+  canEdit: boolean
+}
+
+interface PatientNote {
+  id: number
+  category: PatientNoteCategory
+  body: string
+  pinned: boolean
+  authorName: string | null
+  updatedByName: string | null
+  revisionCount: number
+  createdAt: string
+  updatedAt: string
+}
+
+interface NoteRevision {
+  id: number
+  body: string
+  writtenByName: string | null
+  writtenAt: string
+}
+
+const CATEGORY_LABELS: Record<PatientNoteCategory, string> = {
+  user: 'Note',
+  voicemail: 'Voicemail',
+  insurance: 'Insurance & Auth',
+  system: 'System',
+}
+
+const CATEGORY_STYLES: Record<PatientNoteCategory, string> = {
+  user: 'bg-gray-100 text-gray-800',
+  voicemail: 'bg-blue-100 text-blue-800',
+  insurance: 'bg-green-100 text-green-800',
+  system: 'bg-purple-100 text-purple-800',
+}
+
+// Voicemail and insurance notes are a record of what happened, so they are never edited
+const isEditable = (note: PatientNote) => note.category === 'user' || note.category === 'system'
+
+const NoteRevisions = ({ patientId, noteId }: { patientId: number; noteId: number }) => {
+  const { data: revisions = [], isLoading } = useQuery<NoteRevision[]>({
+    queryKey: [`/api/patients/${patientId}/notes/${noteId}/revisions`],
+  })
+
+  if (isLoading) {
+    return <Loader2 className="h-4 w-4 animate-spin text-gray-500" />
+  }
+
+  return (
+    <div className="mt-2 space-y-2 border-l-2 pl-3">
+      {revisions.map(revision => (
+        <div key={revision.id} className="text-gray-500">
+          <div className="text-xs">
+            {new Date(revision.writtenAt).toLocaleString()}{revision.writtenByName && ` · ${revision.writtenByName}`}
+          </div>
+          <p className="whitespace-pre-wrap">{revision.body}</p>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export const PatientNotesCard = ({ patientId, canEdit }: PatientNotesCardProps) => {
+  const [filter, setFilter] = useState<PatientNoteCategory | 'all'>('all')
+  const [newNote, setNewNote] = useState('')
+  const [editing, setEditing] = useState<{ id: number; body: string } | null>(null)
+  const [historyNoteId, setHistoryNoteId] = useState<number | null>(null)
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+  const notesKey = [`/api/patients/${patientId}/notes`]
+
+  const { data: notes = [], isLoading } = useQuery<PatientNote[]>({
+    queryKey: notesKey,
+  })
+
+  const sendNoteRequest = async (method: string, url: string, body: unknown) => {
+    const response = await fetch(url, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    })
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Unknown error' }))
+      throw new Error(errorData.error || `HTTP ${response.status}`)
+    }
+
+    return await response.json()
+  }
+
+  const onError = (error: any) => {
+    toast({
+      title: 'Error',
+      description: error.message || 'Failed to save note',
+      variant: 'destructive',
+    })
+  }
+
+  const addNoteMutation = useMutation({
+    mutationFn: (body: string) => sendNoteRequest('POST', `/api/patients/${patientId}/notes`, { body }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: notesKey })
+      setNewNote('')
+    },
+    onError,
+  })
+
+  const editNoteMutation = useMutation({
+    mutationFn: (note: { id: number; body: string }) =>
+      sendNoteRequest('PATCH', `/api/patients/${patientId}/notes/${note.id}`, { body: note.body }),
+    onSuccess: (_, note) => {
+      queryClient.invalidateQueries({ queryKey: notesKey })
+      queryClient.invalidateQueries({ queryKey: [`/api/patients/${patientId}/notes/${note.id}/revisions`] })
+      setEditing(null)
+    },
+    onError,
+  })
+
+  const pinNoteMutation = useMutation({
+    mutationFn: (note: PatientNote) =>
+      sendNoteRequest('PUT', `/api/patients/${patientId}/notes/${note.id}/pin`, { pinned: !note.pinned }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: notesKey })
+    },
+    onError,
+  })
+
+  const visibleNotes = filter === 'all' ? notes : notes.filter(note => note.category === filter)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileText className="h-5 w-5" />
+          Notes
+        </CardTitle>
+        <CardDescription>
+          Voicemails and insurance or authorization changes are added automatically. Pinned notes stay at the top.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {canEdit && (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault()
+              if (newNote.trim()) addNoteMutation.mutate(newNote)
+            }}
+            className="space-y-2"
+          >
+            <Textarea
+              value={newNote}
+              onChange={(e) => setNewNote(e.target.value)}
+              className="min-h-20"
+              placeholder="Add a note about this patient..."
+            />
+            <Button type="submit" size="sm" disabled={!newNote.trim() || addNoteMutation.isPending}>
+              {addNoteMutation.isPending ? 'Adding...' : 'Add Note'}
+            </Button>
+          </form>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          {(['all', 'user', 'voicemail', 'insurance', 'system'] as const).map(category => (
+            <Button
+              key={category}
+              variant={filter === category ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setFilter(category)}
+            >
+              {category === 'all' ? 'All' : CATEGORY_LABELS[category]}
+            </Button>
+          ))}
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-gray-500">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading notes...
+          </div>
+        ) : visibleNotes.length === 0 ? (
+          <p className="text-sm text-gray-400 italic">No notes</p>
+        ) : (
+          <div className="max-h-[32rem] overflow-y-auto space-y-3">
+            {visibleNotes.map(note => (
+              <div key={note.id} className={`p-3 rounded-lg border text-sm ${note.pinned ? 'border-amber-300 bg-amber-50' : ''}`}>
+                <div className="flex justify-between items-start gap-2">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Badge className={CATEGORY_STYLES[note.category]}>{CATEGORY_LABELS[note.category]}</Badge>
+                    {note.pinned && <Pin className="h-3 w-3 text-amber-600" />}
+                    <span className="font-medium">{note.authorName ?? (note.category === 'user' ? 'Imported' : 'Automatic')}</span>
+                    <span className="text-gray-500">{new Date(note.createdAt).toLocaleString()}</span>
+                  </div>
+                  {canEdit && (
+                    <div className="flex gap-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title={note.pinned ? 'Unpin' : 'Pin'}
+                        onClick={() => pinNoteMutation.mutate(note)}
+                        disabled={pinNoteMutation.isPending}
+                      >
+                        {note.pinned ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+                      </Button>
+                      {isEditable(note) && (
+                        <Button variant="ghost" size="sm" title="Edit" onClick={() => setEditing({ id: note.id, body: note.body })}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                </div>
+
+                {editing?.id === note.id ? (
+                  <div className="mt-2 space-y-2">
+                    <Textarea
+                      value={editing.body}
+                      onChange={(e) => setEditing({ id: note.id, body: e.target.value })}
+                      className="min-h-20"
+                    />
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        onClick={() => editNoteMutation.mutate(editing)}
+                        disabled={!editing.body.trim() || editNoteMutation.isPending}
+                      >
+                        Save
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => setEditing(null)}>
+                        Cancel
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <p className="mt-2 whitespace-pre-wrap text-gray-700">{note.body}</p>
+                )}
+
+                {note.revisionCount > 0 && (
+                  <div className="mt-2">
+                    <button
+                      type="button"
+                      onClick={() => setHistoryNoteId(historyNoteId === note.id ? null : note.id)}
+                      className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-700"
+                    >
+                      <History className="h-3 w-3" />
+                      Edited {new Date(note.updatedAt).toLocaleString()}{note.updatedByName && ` by ${note.updatedByName}`}
+                      {' '}· {note.revisionCount} earlier {note.revisionCount === 1 ? 'version' : 'versions'}
+                    </button>
+                    {historyNoteId === note.id && <NoteRevisions patientId={patientId} noteId={note.id} />}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
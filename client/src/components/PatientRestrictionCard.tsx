@@ -0,0 +1,148 @@
+import { useEffect, useState } from 'react'
+import { useQuery, useMutation } from '@tanstack/react-query'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Lock } from 'lucide-react'
+import { useToast } from '@/hooks/use-toast'
+import { queryClient } from '@/lib/queryClient'
+
+interface PatientRestrictionCardProps {
+  patientId: number
+}
+
+interface PatientRestriction {
+  isRestricted: boolean
+  allowedUserIds: number[]
+  breakGlassAccesses: Array<{
+    id: number
+    userName: string | null
+    userEmail: string
+    justification: string
+    expiresAt: string
+    createdAt: string
+  }>
+}
+
+interface OrganizationMember {
+  id: number
+  name: string | null
+  email: string
+}
+
+export const PatientRestrictionCard = ({ patientId }: PatientRestrictionCardProps) => {
+  const [isRestricted, setIsRestricted] = useState(false)
+  const [allowedUserIds, setAllowedUserIds] = useState<number[]>([])
+  const { toast } = useToast()
+
+  const { data: restriction } = useQuery<PatientRestriction>({
+    queryKey: [`/api/patients/${patientId}/restriction`],
+  })
+
+  const { data: members = [] } = useQuery<OrganizationMember[]>({
+    queryKey: ['/api/organization/members'],
+  })
+
+  useEffect(() => {
+    if (restriction) {
+      setIsRestricted(restriction.isRestricted)
+      setAllowedUserIds(restriction.allowedUserIds)
+    }
+  }, [restriction])
+
+  const saveRestrictionMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(`/api/patients/${patientId}/restriction`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ isRestricted, allowedUserIds }),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: 'Unknown error' }))
+        throw new Error(errorData.error || `HTTP ${response.status}`)
+      }
+
+      return await response.json()
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/patients/${patientId}/restriction`] })
+      queryClient.invalidateQueries({ queryKey: [`/api/patients/${patientId}`] })
+      queryClient.invalidateQueries({ queryKey: ['/api/patients'] })
+      toast({
+        title: 'Success',
+        description: isRestricted ? 'Patient access list updated' : 'Patient is no longer restricted',
+      })
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to update patient restriction',
+        variant: 'destructive',
+      })
+    },
+  })
+
+  const toggleMember = (userId: number, checked: boolean) => {
+    setAllowedUserIds(current => checked ? [...current, userId] : current.filter(id => id !== userId))
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Lock className="h-5 w-5" />
+          Access Restriction
+        </CardTitle>
+        <CardDescription>
+          Restricted records (staff, VIP) can only be opened by members on the access list. Anyone else must give a justification, which is audited and reported to administrators.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex items-center gap-3">
+          <Switch id="patientRestricted" checked={isRestricted} onCheckedChange={setIsRestricted} />
+          <Label htmlFor="patientRestricted">Restrict this patient record</Label>
+        </div>
+
+        {isRestricted && (
+          <div className="space-y-2">
+            <Label>Access List</Label>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+              {members.map(member => (
+                <label key={member.id} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={allowedUserIds.includes(member.id)}
+                    onCheckedChange={(checked) => toggleMember(member.id, checked === true)}
+                  />
+                  <span>{member.name || member.email}</span>
+                </label>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500">You are always kept on the list when you restrict a record.</p>
+          </div>
+        )}
+
+        <Button onClick={() => saveRestrictionMutation.mutate()} disabled={saveRestrictionMutation.isPending}>
+          {saveRestrictionMutation.isPending ? 'Saving...' : 'Save Restriction'}
+        </Button>
+
+        {restriction && restriction.breakGlassAccesses.length > 0 && (
+          <div className="space-y-2">
+            <Label>Break-the-Glass History</Label>
+            {restriction.breakGlassAccesses.map(access => (
+              <div key={access.id} className="p-3 rounded-lg border text-sm">
+                <div className="flex justify-between">
+                  <span className="font-medium">{access.userName || access.userEmail}</span>
+                  <span className="text-gray-500">{new Date(access.createdAt).toLocaleString()}</span>
+                </div>
+                <p className="text-gray-700 mt-1">{access.justification}</p>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,275 @@
+import { useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Badge } from '@/components/ui/badge'
+import { Layers, Loader2, RotateCcw } from 'lucide-react'
+import { useToast } from '@/hooks/use-toast'
+import type { PatientChangeSourceType } from '@shared/schema'
+
+interface PatientVersionsCardProps {
+  patientId: number
+  canRevert: boolean
+}
+
+interface PatientVersion {
+  id: number
+  version: number
+  changedFields: string[]
+  source: PatientChangeSourceType
+  changedByName: string | null
+  apiKeyId: number | null
+  documentId: number | null
+  automationLogId: number | null
+  rule: string | null
+  revertedFromVersion: number | null
+  createdAt: string
+}
+
+interface PatientVersionView {
+  version: PatientVersion
+  patient: Record<string, unknown>
+}
+
+// Columns that are not part of the editable record
+const FIXED_FIELDS = new Set(['id', 'userId', 'organizationId', 'createdAt', 'updatedAt', 'isRestricted'])
+
+const SOURCE_STYLES: Record<PatientChangeSourceType, string> = {
+  user: 'bg-gray-100 text-gray-800',
+  api_key: 'bg-green-100 text-green-800',
+  document: 'bg-blue-100 text-blue-800',
+  aigents: 'bg-purple-100 text-purple-800',
+  system: 'bg-amber-100 text-amber-800',
+}
+
+const describeSource = (version: PatientVersion) => {
+  switch (version.source) {
+    case 'user':
+      return version.revertedFromVersion
+        ? `${version.changedByName ?? 'User'} reverted to version ${version.revertedFromVersion}`
+        : version.changedByName ?? 'User'
+    case 'api_key':
+      return `API key: ${version.changedByName ?? version.apiKeyId}`
+    case 'document':
+      return `Document #${version.documentId} (OCR)`
+    case 'aigents':
+      return `AIGENTS run #${version.automationLogId}`
+    case 'system':
+      return version.rule ?? 'System'
+  }
+}
+
+// primaryInsuranceNumber -> Primary Insurance Number, orderingMD -> Ordering MD
+const formatField = (field: string) =>
+  field.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/^./, c => c.toUpperCase())
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '(empty)'
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No'
+  return String(value)
+}
+
+const sameValue = (a: unknown, b: unknown) => formatValue(a) === formatValue(b)
+
+export const PatientVersionsCard = ({ patientId, canRevert }: PatientVersionsCardProps) => {
+  const [selectedVersionId, setSelectedVersionId] = useState<number | null>(null)
+  const [asOf, setAsOf] = useState('')
+  const [fields, setFields] = useState<string[]>([])
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+
+  const { data: versions = [], isLoading } = useQuery<PatientVersion[]>({
+    queryKey: [`/api/patients/${patientId}/versions`],
+  })
+
+  const { data: currentPatient } = useQuery<Record<string, unknown>>({
+    queryKey: [`/api/patients/${patientId}`],
+  })
+
+  // A version picked from the list wins over the date picker
+  const viewUrl = selectedVersionId !== null
+    ? `/api/patients/${patientId}/versions/${selectedVersionId}`
+    : asOf
+      ? `/api/patients/${patientId}/versions/as-of?asOf=${encodeURIComponent(new Date(asOf).toISOString())}`
+      : null
+
+  const { data: view, isLoading: isViewLoading, error: viewError } = useQuery<PatientVersionView>({
+    queryKey: [viewUrl],
+    enabled: viewUrl !== null,
+    retry: false,
+  })
+
+  const differences = view && currentPatient
+    ? Object.keys(view.patient).filter(field => !FIXED_FIELDS.has(field) && !sameValue(view.patient[field], currentPatient[field]))
+    : []
+
+  const revertMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(`/api/patients/${patientId}/versions/${view!.version.id}/revert`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ fields }),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: 'Unknown error' }))
+        throw new Error(errorData.error || `HTTP ${response.status}`)
+      }
+
+      return await response.json()
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/patients/${patientId}`] })
+      queryClient.invalidateQueries({ queryKey: [`/api/patients/${patientId}/versions`] })
+      queryClient.invalidateQueries({ queryKey: [`/api/patients/${patientId}/history`] })
+      toast({
+        title: 'Fields reverted',
+        description: `${fields.length} ${fields.length === 1 ? 'field was' : 'fields were'} restored from version ${view!.version.version}.`,
+      })
+      setFields([])
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to revert patient',
+        variant: 'destructive',
+      })
+    },
+  })
+
+  const selectVersion = (versionId: number | null) => {
+    setSelectedVersionId(versionId)
+    setFields([])
+  }
+
+  const toggleField = (field: string, checked: boolean) => {
+    setFields(current => checked ? [...current, field] : current.filter(f => f !== field))
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Layers className="h-5 w-5" />
+          Record Versions
+        </CardTitle>
+        <CardDescription>
+          A full copy of the record is kept after every change, whether made by a user or an API key, read from a document, or written by AIGENTS or a status rule.
+          Open a version or pick a date to compare it with the record now.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end gap-2">
+          <div className="space-y-2">
+            <Label htmlFor="versionAsOf">View as of</Label>
+            <Input
+              id="versionAsOf"
+              type="datetime-local"
+              value={asOf}
+              onChange={(e) => {
+                setAsOf(e.target.value)
+                selectVersion(null)
+              }}
+            />
+          </div>
+          {(asOf || selectedVersionId !== null) && (
+            <Button
+              variant="outline"
+              onClick={() => {
+                setAsOf('')
+                selectVersion(null)
+              }}
+            >
+              Clear
+            </Button>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-gray-500">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading versions...
+          </div>
+        ) : versions.length === 0 ? (
+          <p className="text-sm text-gray-500">No versions have been recorded for this patient yet.</p>
+        ) : (
+          <div className="max-h-72 overflow-y-auto space-y-2">
+            {versions.map(version => (
+              <button
+                key={version.id}
+                type="button"
+                onClick={() => selectVersion(version.id)}
+                className={`w-full text-left p-3 rounded-lg border text-sm ${view?.version.id === version.id ? 'border-blue-400 bg-blue-50' : 'hover:bg-gray-50'}`}
+              >
+                <div className="flex justify-between gap-2">
+                  <span className="flex items-center gap-2">
+                    <span className="font-medium">Version {version.version}</span>
+                    <Badge className={SOURCE_STYLES[version.source]}>{describeSource(version)}</Badge>
+                  </span>
+                  <span className="text-gray-500 whitespace-nowrap">{new Date(version.createdAt).toLocaleString()}</span>
+                </div>
+                {version.changedFields.length > 0 && (
+                  <p className="text-gray-500 mt-1">{version.changedFields.map(formatField).join(', ')}</p>
+                )}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {viewUrl && (
+          isViewLoading ? (
+            <div className="flex items-center gap-2 text-sm text-gray-500">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Loading version...
+            </div>
+          ) : viewError || !view ? (
+            <p className="text-sm text-gray-500">No version of this record exists at that time.</p>
+          ) : (
+            <div className="p-4 rounded-lg border space-y-3 text-sm">
+              <div className="font-medium">
+                Version {view.version.version} · {new Date(view.version.createdAt).toLocaleString()} · {describeSource(view.version)}
+              </div>
+              {differences.length === 0 ? (
+                <p className="text-gray-500">This version matches the current record.</p>
+              ) : (
+                <>
+                  <div className="space-y-1">
+                    {differences.map(field => (
+                      <div key={field} className="grid grid-cols-[1.5rem_12rem_1fr] gap-1 items-start">
+                        {canRevert ? (
+                          <Checkbox
+                            checked={fields.includes(field)}
+                            onCheckedChange={(checked) => toggleField(field, checked === true)}
+                            aria-label={`Revert ${formatField(field)}`}
+                          />
+                        ) : <span />}
+                        <span className="text-gray-600">{formatField(field)}</span>
+                        <span className="break-words">
+                          <span className="text-green-700">{formatValue(view.patient[field])}</span>
+                          <span className="text-gray-500"> (now {formatValue(currentPatient?.[field])})</span>
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                  {canRevert && (
+                    <Button
+                      size="sm"
+                      onClick={() => revertMutation.mutate()}
+                      disabled={fields.length === 0 || revertMutation.isPending}
+                    >
+                      <RotateCcw className="h-4 w-4 mr-2" />
+                      {revertMutation.isPending ? 'Reverting...' : 'Revert Selected'}
+                    </Button>
+                  )}
+                </>
+              )}
+            </div>
+          )
+        )}
+      </CardContent>
+    </Card>
+  )
+}
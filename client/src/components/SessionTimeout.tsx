@@ -0,0 +1,257 @@
+import { useEffect, useRef, useState } from 'react'
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Clock, Lock } from 'lucide-react'
+import { useToast } from '@/hooks/use-toast'
+import { useAuth } from '@/hooks/useAuth'
+import { markSessionExpired, type SessionExpiryReason } from '@/lib/session'
+
+// Warn this long before the session ends
+const WARNING_LEAD_MS = 2 * 60 * 1000
+// While the user is active, extend the server session at most this often
+const KEEPALIVE_INTERVAL_MS = 60 * 1000
+const ACTIVITY_EVENTS = ['mousedown', 'keydown', 'scroll', 'touchstart'] as const
+
+const EXPIRY_MESSAGES: Record<SessionExpiryReason, string> = {
+  idle: 'You were signed out after 15 minutes of inactivity.',
+  max_lifetime: 'Sessions end a fixed time after sign-in, however active they are.',
+  unauthorized: 'You have been signed out.',
+}
+
+interface Deadlines {
+  idle: number
+  absolute: number
+}
+
+const formatCountdown = (ms: number) => {
+  const seconds = Math.max(0, Math.ceil(ms / 1000))
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`
+}
+
+const postJson = async (url: string, body?: unknown) => {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    credentials: 'include',
+    body: body ? JSON.stringify(body) : undefined,
+  })
+
+  const data = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new Error(data.error || `HTTP ${response.status}`)
+  }
+  return data
+}
+
+// Counts down to the end of the session and offers to extend it. User activity extends it silently.
+const IdleWarning = () => {
+  const [deadlines, setDeadlines] = useState<Deadlines | null>(null)
+  const [now, setNow] = useState(Date.now())
+  const [dismissedLifetimeWarning, setDismissedLifetimeWarning] = useState(false)
+  const lastActivityAt = useRef(Date.now())
+  const lastKeepaliveAt = useRef(0)
+
+  const keepAlive = async () => {
+    lastKeepaliveAt.current = Date.now()
+    try {
+      const response = await fetch('/api/auth/session/keepalive', { method: 'POST', credentials: 'include' })
+      if (response.status === 401) {
+        markSessionExpired('unauthorized')
+        return
+      }
+      if (response.ok) {
+        const data = await response.json()
+        setDeadlines({ idle: Date.parse(data.idleExpiresAt), absolute: Date.parse(data.absoluteExpiresAt) })
+      }
+    } catch (error) {
+      console.error('Session keepalive failed:', error)
+    }
+  }
+
+  useEffect(() => {
+    keepAlive()
+
+    const recordActivity = () => {
+      lastActivityAt.current = Date.now()
+    }
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, recordActivity, { passive: true, capture: true }))
+    const timer = setInterval(() => setNow(Date.now()), 1000)
+
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, recordActivity, { capture: true }))
+      clearInterval(timer)
+    }
+  }, [])
+
+  const endsAt = deadlines ? Math.min(deadlines.idle, deadlines.absolute) : Infinity
+  const endsAtLifetime = !!deadlines && deadlines.absolute <= deadlines.idle
+  const showWarning = endsAt - now <= WARNING_LEAD_MS && !(endsAtLifetime && dismissedLifetimeWarning)
+
+  useEffect(() => {
+    if (!deadlines) return
+
+    if (now >= deadlines.absolute) {
+      markSessionExpired('max_lifetime')
+    } else if (now >= deadlines.idle) {
+      markSessionExpired('idle')
+    } else if (
+      endsAt - now > WARNING_LEAD_MS &&
+      lastActivityAt.current > lastKeepaliveAt.current &&
+      now - lastKeepaliveAt.current >= KEEPALIVE_INTERVAL_MS
+    ) {
+      // Activity only counts before the warning; once it shows, the user has to choose
+      keepAlive()
+    }
+  }, [now, deadlines])
+
+  return (
+    <AlertDialog open={showWarning}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2">
+            <Clock className="h-5 w-5" />
+            Your session ends in {formatCountdown(endsAt - now)}
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            {endsAtLifetime
+              ? 'Your session has reached its maximum length and cannot be extended. Save your work now; you will need to sign in again.'
+              : 'You will be signed out soon because of inactivity. Unsaved changes stay on the page while you sign back in.'}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          {endsAtLifetime ? (
+            <Button onClick={() => setDismissedLifetimeWarning(true)}>OK</Button>
+          ) : (
+            <Button onClick={keepAlive}>Stay signed in</Button>
+          )}
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
+
+// Signs the same user back in without leaving the page, so forms keep whatever was typed into them
+const SessionExpiredDialog = () => {
+  const { user, sessionExpiryReason, resumeSession, abandonExpiredSession } = useAuth()
+  const [password, setPassword] = useState('')
+  const [mfaCode, setMfaCode] = useState('')
+  const [mfaRequired, setMfaRequired] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const { toast } = useToast()
+
+  const email: string = user?.user?.email ?? ''
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true)
+    try {
+      if (!mfaRequired) {
+        const result = await postJson('/api/auth/login', { email, password })
+        setPassword('')
+        // Enrollment and forced password changes need the full sign-in page
+        if (result.passwordExpired || result.enrollmentRequired) {
+          abandonExpiredSession()
+          return
+        }
+        if (result.mfaRequired) {
+          setMfaRequired(true)
+          return
+        }
+      } else {
+        const result = await postJson('/api/auth/login/mfa', { code: mfaCode })
+        setMfaCode('')
+        if (result.passwordExpired) {
+          abandonExpiredSession()
+          return
+        }
+      }
+      resumeSession()
+    } catch (error) {
+      setMfaCode('')
+      if (error instanceof Error && error.message.includes('sign in again')) {
+        setMfaRequired(false)
+      }
+      toast({
+        title: 'Sign in failed',
+        description: error instanceof Error ? error.message : 'Invalid email or password',
+        variant: 'destructive',
+      })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <AlertDialog open>
+      <AlertDialogContent>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault()
+            handleSubmit()
+          }}
+          className="space-y-4"
+        >
+          <AlertDialogHeader>
+            <AlertDialogTitle className="flex items-center gap-2">
+              <Lock className="h-5 w-5" />
+              Your session has expired
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {EXPIRY_MESSAGES[sessionExpiryReason ?? 'unauthorized']} Sign in again to continue; anything you had not saved is still on this page.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+
+          {mfaRequired ? (
+            <div className="space-y-2">
+              <Label htmlFor="sessionMfaCode">Authentication Code</Label>
+              <Input
+                id="sessionMfaCode"
+                value={mfaCode}
+                onChange={(e) => setMfaCode(e.target.value)}
+                placeholder="6-digit code or recovery code"
+                autoComplete="one-time-code"
+                autoFocus
+                required
+              />
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Label htmlFor="sessionPassword">Password for {email}</Label>
+              <Input
+                id="sessionPassword"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoComplete="current-password"
+                autoFocus
+                required
+              />
+            </div>
+          )}
+
+          <AlertDialogFooter>
+            <Button type="button" variant="outline" onClick={abandonExpiredSession}>
+              Use another sign-in method
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? 'Signing in...' : mfaRequired ? 'Verify' : 'Sign in'}
+            </Button>
+          </AlertDialogFooter>
+        </form>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
+
+export const SessionTimeout = () => {
+  const { sessionExpired } = useAuth()
+  return sessionExpired ? <SessionExpiredDialog /> : <IdleWarning />
+}
@@ -14,13 +14,15 @@ import {
 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
 import { useAuth } from '@/hooks/useAuth'
+import type { Permission } from '@shared/permissions'
 
 interface SidebarProps {
   className?: string
 }
 
-const navigation = [
+const navigation: { name: string; href: string; icon: typeof LayoutDashboard; permission?: Permission }[] = [
   {
     name: 'Dashboard',
     href: '/dashboard',
@@ -35,11 +37,13 @@ const navigation = [
     name: 'New Patient',
     href: '/patient/new',
     icon: UserPlus,
+    permission: 'patient:create',
   },
   {
     name: 'Upload Start Form',
     href: '/extraction',
     icon: FileText,
+    permission: 'extraction:run',
   },
   {
     name: 'Organization',
@@ -55,14 +59,21 @@ const navigation = [
     name: 'Audit Logs',
     href: '/audit-logs',
     icon: Shield,
-    adminOnly: true,
+    permission: 'audit:read',
   },
 ]
 
 export function Sidebar({ className }: SidebarProps) {
   const [location] = useLocation()
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false)
-  const { user, logout } = useAuth()
+  const { user, logout, can } = useAuth()
+
+  // Open security alerts from the hourly audit log scan, shown next to Audit Logs
+  const { data: auditAlerts } = useQuery<{ openCount: number }>({
+    queryKey: ['/api/audit-alerts'],
+    enabled: can('audit:read'),
+    refetchInterval: 5 * 60 * 1000,
+  })
 
   return (
     <>
@@ -124,12 +135,9 @@ export function Sidebar({ className }: SidebarProps) {
 
           {/* Navigation */}
           <nav className="flex-1 px-3 py-4 space-y-1">
-            {navigation.filter((item: any) => {
-              // Filter out admin-only items for non-admin users
-              if (item.adminOnly && (!user?.role || (user.role !== 'admin' && user.role !== 'owner'))) {
-                return false;
-              }
-              return true;
+            {navigation.filter((item) => {
+              // Hide items the current role cannot use
+              return !item.permission || can(item.permission);
             }).map((item) => {
               const isActive = location === item.href || 
                 (item.href === '/patients' && location.startsWith('/patient/') && location !== '/patient/new')
@@ -150,6 +158,11 @@ export function Sidebar({ className }: SidebarProps) {
                       isActive ? "text-blue-700" : "text-gray-400"
                     )} />
                     {item.name}
+                    {item.href === '/audit-logs' && !!auditAlerts?.openCount && (
+                      <span className="ml-auto rounded-full bg-red-600 px-1.5 text-xs text-white">
+                        {auditAlerts.openCount}
+                      </span>
+                    )}
                   </div>
                 </Link>
               )
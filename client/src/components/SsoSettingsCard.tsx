@@ -0,0 +1,273 @@
+import { useEffect, useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Badge } from '@/components/ui/badge'
+import { Building2, CheckCircle2, Copy } from 'lucide-react'
+import { useToast } from '@/hooks/use-toast'
+import { ASSIGNABLE_ROLES, ROLE_LABELS, type AssignableRole } from '@shared/permissions'
+
+interface SsoDomain {
+  domain: string
+  verified: boolean
+  record: { name: string; value: string }
+}
+
+interface SsoSettings {
+  issuer: string
+  clientId: string
+  emailDomains: string[]
+  defaultRole: AssignableRole
+  enabled: boolean
+  hasClientSecret: boolean
+  callbackUrl: string
+  domains: SsoDomain[]
+}
+
+export const SsoSettingsCard = () => {
+  const [issuer, setIssuer] = useState('')
+  const [clientId, setClientId] = useState('')
+  const [clientSecret, setClientSecret] = useState('')
+  const [emailDomains, setEmailDomains] = useState('')
+  const [defaultRole, setDefaultRole] = useState<AssignableRole>('read_only')
+  const [enabled, setEnabled] = useState(true)
+
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+
+  const { data: settings } = useQuery<SsoSettings | null>({
+    queryKey: ['/api/organization/sso'],
+  })
+
+  useEffect(() => {
+    if (settings) {
+      setIssuer(settings.issuer)
+      setClientId(settings.clientId)
+      setEmailDomains(settings.emailDomains.join(', '))
+      setDefaultRole(settings.defaultRole)
+      setEnabled(settings.enabled)
+    }
+  }, [settings])
+
+  const saveSettingsMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch('/api/organization/sso', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          issuer,
+          clientId,
+          clientSecret: clientSecret || undefined,
+          emailDomains: emailDomains.split(',').map(domain => domain.trim()).filter(Boolean),
+          defaultRole,
+          enabled,
+        }),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: 'Unknown error' }))
+        throw new Error(errorData.error || `HTTP ${response.status}`)
+      }
+
+      return await response.json()
+    },
+    onSuccess: () => {
+      setClientSecret('')
+      queryClient.invalidateQueries({ queryKey: ['/api/organization/sso'] })
+      toast({
+        title: 'Success',
+        description: 'Single sign-on settings saved',
+      })
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to save single sign-on settings',
+        variant: 'destructive',
+      })
+    },
+  })
+
+  const verifyDomainMutation = useMutation({
+    mutationFn: async (domain: string) => {
+      const response = await fetch(`/api/organization/sso/domains/${encodeURIComponent(domain)}/verify`, {
+        method: 'POST',
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: 'Unknown error' }))
+        throw new Error(errorData.error || `HTTP ${response.status}`)
+      }
+
+      return await response.json()
+    },
+    onSuccess: (_, domain) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/organization/sso'] })
+      toast({
+        title: 'Domain verified',
+        description: `Members with ${domain} addresses can now use single sign-on`,
+      })
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to verify domain',
+        variant: 'destructive',
+      })
+    },
+  })
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Building2 className="h-5 w-5" />
+          Single Sign-On (OIDC)
+        </CardTitle>
+        <CardDescription>
+          Let members sign in with your identity provider. Once a domain is verified, anyone with an email on it who signs in for the first time joins this organization with the default role.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault()
+            saveSettingsMutation.mutate()
+          }}
+          className="space-y-4"
+        >
+          <div className="flex items-center gap-3">
+            <Switch id="ssoEnabled" checked={enabled} onCheckedChange={setEnabled} />
+            <Label htmlFor="ssoEnabled">Enable single sign-on</Label>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="ssoIssuer">Issuer URL</Label>
+              <Input
+                id="ssoIssuer"
+                value={issuer}
+                onChange={(e) => setIssuer(e.target.value)}
+                placeholder="https://login.example.org"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="ssoClientId">Client ID</Label>
+              <Input
+                id="ssoClientId"
+                value={clientId}
+                onChange={(e) => setClientId(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="ssoClientSecret">Client Secret</Label>
+              <Input
+                id="ssoClientSecret"
+                type="password"
+                autoComplete="new-password"
+                value={clientSecret}
+                onChange={(e) => setClientSecret(e.target.value)}
+                placeholder={settings?.hasClientSecret ? 'Leave blank to keep the current secret' : 'Optional for public clients'}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Default Role</Label>
+              <Select value={defaultRole} onValueChange={(value) => setDefaultRole(value as AssignableRole)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ASSIGNABLE_ROLES.map(role => (
+                    <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="ssoDomains">Email Domains</Label>
+            <Input
+              id="ssoDomains"
+              value={emailDomains}
+              onChange={(e) => setEmailDomains(e.target.value)}
+              placeholder="hospital.org, cardiology.hospital.org"
+              required
+            />
+          </div>
+
+          {settings && settings.domains.length > 0 && (
+            <div className="space-y-2">
+              <Label>Domain Verification</Label>
+              <p className="text-xs text-gray-500">
+                Add a TXT record for each domain to prove your organization owns it. Unverified domains cannot be used to sign in.
+              </p>
+              {settings.domains.map(({ domain, verified, record }) => (
+                <div key={domain} className="p-3 rounded-lg border space-y-2 text-sm">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium">{domain}</span>
+                    {verified ? (
+                      <Badge className="bg-green-100 text-green-800">
+                        <CheckCircle2 className="h-3 w-3 mr-1" />
+                        Verified
+                      </Badge>
+                    ) : (
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => verifyDomainMutation.mutate(domain)}
+                        disabled={verifyDomainMutation.isPending}
+                      >
+                        Verify
+                      </Button>
+                    )}
+                  </div>
+                  {!verified && (
+                    <div className="grid grid-cols-[4rem_1fr] gap-1 text-xs">
+                      <span className="text-gray-500">Name</span>
+                      <code className="break-all">{record.name}</code>
+                      <span className="text-gray-500">Value</span>
+                      <code className="break-all">{record.value}</code>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {settings?.callbackUrl && (
+            <div className="space-y-1">
+              <Label>Redirect URI</Label>
+              <div className="flex items-center gap-2">
+                <code className="flex-1 p-2 bg-gray-50 rounded border text-sm break-all">{settings.callbackUrl}</code>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => {
+                    navigator.clipboard.writeText(settings.callbackUrl)
+                    toast({ title: 'Copied', description: 'Redirect URI copied to clipboard' })
+                  }}
+                >
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+              <p className="text-xs text-gray-500">Register this URI with your identity provider.</p>
+            </div>
+          )}
+
+          <Button type="submit" disabled={saveSettingsMutation.isPending}>
+            {saveSettingsMutation.isPending ? 'Saving...' : 'Save SSO Settings'}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
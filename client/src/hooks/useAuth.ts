@@ -1,5 +1,8 @@
+import { useSyncExternalStore } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
+import { getSessionExpiryReason, markSessionExpired, markSessionResumed, subscribeToSessionExpiry } from "@/lib/session";
+import type { Permission } from "@shared/permissions";
 
 export interface User {
   id: number;
@@ -7,6 +10,7 @@ export interface User {
   name?: string;
   organizationId?: number;
   role?: string;
+  permissions?: Permission[];
   createdAt: string;
   lastLoginAt?: string;
 }
@@ -26,6 +30,7 @@ export interface RegisterData {
 
 export function useAuth() {
   const queryClient = useQueryClient();
+  const sessionExpiryReason = useSyncExternalStore(subscribeToSessionExpiry, getSessionExpiryReason);
 
   const { data: user, isLoading, error } = useQuery({
     queryKey: ["/api/auth/user"],
@@ -39,6 +44,12 @@ export function useAuth() {
       });
       
       if (response.status === 401) {
+        // Keep a lapsed user's identity so open pages, and their unsaved edits, survive until they sign back in
+        const previous = queryClient.getQueryData(["/api/auth/user"]);
+        if (previous) {
+          markSessionExpired("unauthorized");
+          return previous;
+        }
         return null; // Return null for unauthenticated state
       }
       
@@ -68,6 +79,10 @@ export function useAuth() {
       return response.json();
     },
     onSuccess: (data) => {
+      // An MFA challenge or expired password means the session is not authenticated yet
+      if (data.mfaRequired || data.passwordExpired) {
+        return;
+      }
       queryClient.setQueryData(["/api/auth/user"], data);
       queryClient.invalidateQueries({ queryKey: ["/api/patients"] });
     },
@@ -111,13 +126,39 @@ export function useAuth() {
     onSuccess: () => {
       queryClient.setQueryData(["/api/auth/user"], null);
       queryClient.clear();
+      markSessionResumed();
     },
   });
 
+  // The same user signed back in after their session lapsed; refetch everything that failed meanwhile
+  const resumeSession = () => {
+    markSessionResumed();
+    queryClient.invalidateQueries();
+  };
+
+  // Give up on the lapsed session and go to the full sign-in page, returning here afterwards
+  const abandonExpiredSession = () => {
+    const returnTo = window.location.pathname + window.location.search;
+    window.history.replaceState(null, "", `/login?expired=1&returnTo=${encodeURIComponent(returnTo)}`);
+    queryClient.setQueryData(["/api/auth/user"], null);
+    queryClient.clear();
+    markSessionResumed();
+  };
+
+  // Permissions are resolved server-side for the current organization role
+  const permissions: Permission[] = user?.user?.permissions ?? [];
+  const can = (permission: Permission) => permissions.includes(permission);
+
   return {
     user: user,
+    permissions,
+    can,
     isLoading,
     isAuthenticated: !!user,
+    sessionExpired: sessionExpiryReason !== null,
+    sessionExpiryReason,
+    resumeSession,
+    abandonExpiredSession,
     error,
     login: loginMutation.mutateAsync,
     register: registerMutation.mutateAsync,
@@ -1,8 +1,21 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import { markSessionExpired } from "./session";
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
+    // A 401 while we think someone is signed in means their session lapsed on the server
+    if (res.status === 401 && queryClient.getQueryData(["/api/auth/user"])) {
+      markSessionExpired(text.includes("SESSION_EXPIRED") ? "max_lifetime" : "unauthorized");
+    }
+    // Rate limit messages already tell the user when to retry, so surface them as-is
+    if (res.status === 429) {
+      let message = "Too many requests. Please try again later.";
+      try {
+        message = JSON.parse(text).error || message;
+      } catch {}
+      throw new Error(message);
+    }
     throw new Error(`${res.status}: ${text}`);
   }
 }
@@ -0,0 +1,34 @@
+// Session expiry signal shared by the API helpers, useAuth and the session timeout dialog.
+// Nothing is cleared when a session lapses: pages stay mounted behind the sign-in prompt so unsaved edits survive.
+
+export type SessionExpiryReason = "idle" | "max_lifetime" | "unauthorized";
+
+export const SESSION_EXPIRED_EVENT = "session-expired";
+export const SESSION_RESUMED_EVENT = "session-resumed";
+
+let expiryReason: SessionExpiryReason | null = null;
+
+export function markSessionExpired(reason: SessionExpiryReason): void {
+  if (expiryReason) return;
+  expiryReason = reason;
+  window.dispatchEvent(new CustomEvent(SESSION_EXPIRED_EVENT, { detail: { reason } }));
+}
+
+export function markSessionResumed(): void {
+  if (!expiryReason) return;
+  expiryReason = null;
+  window.dispatchEvent(new CustomEvent(SESSION_RESUMED_EVENT));
+}
+
+export function getSessionExpiryReason(): SessionExpiryReason | null {
+  return expiryReason;
+}
+
+export function subscribeToSessionExpiry(listener: () => void): () => void {
+  window.addEventListener(SESSION_EXPIRED_EVENT, listener);
+  window.addEventListener(SESSION_RESUMED_EVENT, listener);
+  return () => {
+    window.removeEventListener(SESSION_EXPIRED_EVENT, listener);
+    window.removeEventListener(SESSION_RESUMED_EVENT, listener);
+  };
+}
@@ -0,0 +1,215 @@
+import { useState } from "react";
+import { useLocation, useRoute } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { UserPlus, AlertTriangle } from "lucide-react";
+import { PASSWORD_MIN_LENGTH_FLOOR } from "@shared/password-policy";
+
+interface InvitationDetails {
+  email: string;
+  name?: string;
+  role: string;
+  organizationName?: string;
+  expiresAt: string;
+  existingAccount: boolean;
+  passwordRequirements?: string;
+}
+
+export default function AcceptInvitation() {
+  const [, params] = useRoute("/invite/:token");
+  const [, setLocation] = useLocation();
+  const token = params?.token || "";
+  const [name, setName] = useState("");
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const { toast } = useToast();
+
+  const { data: invitation, isLoading, error } = useQuery<InvitationDetails>({
+    queryKey: ["/api/invitations", token],
+    retry: false,
+    queryFn: async () => {
+      const response = await fetch(`/api/invitations/${token}`);
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
+        throw new Error(errorData.error || `HTTP ${response.status}`);
+      }
+      const data = await response.json();
+      setName(data.name || "");
+      return data;
+    },
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async (body: { name?: string; password: string }) => {
+      const response = await fetch(`/api/invitations/${token}/accept`, {
+        method: "POST",
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
+        throw new Error(errorData.error || `HTTP ${response.status}`);
+      }
+
+      return await response.json();
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Success",
+        description: data.message,
+      });
+      setLocation("/login");
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to accept invitation",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!invitation) return;
+
+    if (!invitation.existingAccount) {
+      if (!name.trim()) {
+        toast({
+          title: "Error",
+          description: "Name is required",
+          variant: "destructive",
+        });
+        return;
+      }
+      if (password.length < PASSWORD_MIN_LENGTH_FLOOR) {
+        toast({
+          title: "Error",
+          description: `Password must be at least ${PASSWORD_MIN_LENGTH_FLOOR} characters`,
+          variant: "destructive",
+        });
+        return;
+      }
+      if (password !== confirmPassword) {
+        toast({
+          title: "Error",
+          description: "Passwords do not match",
+          variant: "destructive",
+        });
+        return;
+      }
+    }
+
+    acceptMutation.mutate({
+      name: invitation.existingAccount ? undefined : name,
+      password,
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-lg">Loading invitation...</div>
+      </div>
+    );
+  }
+
+  if (error || !invitation) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4">
+        <Card className="w-full max-w-md">
+          <CardHeader className="text-center">
+            <div className="mx-auto mb-4 flex h-12 w-12 items-center justify-center rounded-full bg-red-100">
+              <AlertTriangle className="h-6 w-6 text-red-600" />
+            </div>
+            <CardTitle>Invitation unavailable</CardTitle>
+            <CardDescription>
+              {(error as Error)?.message || "This invitation is no longer valid"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button variant="outline" className="w-full" onClick={() => setLocation("/login")}>
+              Go to sign in
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-1">
+          <div className="mx-auto mb-2 flex h-12 w-12 items-center justify-center rounded-full bg-blue-100">
+            <UserPlus className="h-6 w-6 text-blue-600" />
+          </div>
+          <CardTitle className="text-2xl font-bold text-center">
+            Join {invitation.organizationName}
+          </CardTitle>
+          <CardDescription className="text-center">
+            {invitation.existingAccount
+              ? `Confirm your password for ${invitation.email} to accept this invitation`
+              : `Set up your account for ${invitation.email}`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {!invitation.existingAccount && (
+              <div className="space-y-2">
+                <Label htmlFor="name">Full Name</Label>
+                <Input
+                  id="name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="Enter your full name"
+                  required
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="password">{invitation.existingAccount ? "Password" : "Choose a Password"}</Label>
+              <Input
+                id="password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoComplete={invitation.existingAccount ? "current-password" : "new-password"}
+                required
+              />
+              {!invitation.existingAccount && invitation.passwordRequirements && (
+                <p className="text-xs text-gray-500">{invitation.passwordRequirements}</p>
+              )}
+            </div>
+            {!invitation.existingAccount && (
+              <div className="space-y-2">
+                <Label htmlFor="confirmPassword">Confirm Password</Label>
+                <Input
+                  id="confirmPassword"
+                  type="password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  autoComplete="new-password"
+                  required
+                />
+              </div>
+            )}
+            <Button type="submit" className="w-full" disabled={acceptMutation.isPending}>
+              {acceptMutation.isPending ? "Accepting..." : "Accept Invitation"}
+            </Button>
+            <p className="text-xs text-center text-gray-500">
+              This invitation expires on {new Date(invitation.expiresAt).toLocaleDateString()}
+            </p>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -7,8 +7,10 @@ import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient } from "@/lib/queryClient";
-import { User, Lock, Mail, Shield, AlertTriangle } from "lucide-react";
+import { User, Lock, Mail, Shield, AlertTriangle, KeyRound, Monitor, LogOut } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
+import { ROLE_LABELS, normalizeRole } from "@shared/permissions";
+import { PASSWORD_MIN_LENGTH_FLOOR } from "@shared/password-policy";
 
 interface UserProfile {
   id: number;
@@ -20,6 +22,41 @@ interface UserProfile {
   lastLoginAt?: string;
 }
 
+interface MfaStatus {
+  enabled: boolean;
+  enrolledAt?: string;
+  requiredByOrganization: boolean;
+  recoveryCodesRemaining: number;
+}
+
+interface ActiveSession {
+  id: string;
+  current: boolean;
+  ipAddress?: string;
+  userAgent?: string;
+  createdAt?: string;
+  lastActivityAt: string;
+}
+
+// Rough "Browser on OS" label from a user agent string
+const describeDevice = (userAgent?: string) => {
+  if (!userAgent) return "Unknown device";
+  const browser =
+    /Edg\//.test(userAgent) ? "Edge" :
+    /Chrome\//.test(userAgent) ? "Chrome" :
+    /Firefox\//.test(userAgent) ? "Firefox" :
+    /Safari\//.test(userAgent) ? "Safari" :
+    "Unknown browser";
+  const os =
+    /Windows/.test(userAgent) ? "Windows" :
+    /iPhone|iPad/.test(userAgent) ? "iOS" :
+    /Mac OS X/.test(userAgent) ? "macOS" :
+    /Android/.test(userAgent) ? "Android" :
+    /Linux/.test(userAgent) ? "Linux" :
+    "Unknown OS";
+  return `${browser} on ${os}`;
+};
+
 export default function AccountManagement() {
   const [editingProfile, setEditingProfile] = useState(false);
   const [editingPassword, setEditingPassword] = useState(false);
@@ -28,6 +65,9 @@ export default function AccountManagement() {
   const [currentPassword, setCurrentPassword] = useState("");
   const [newPassword, setNewPassword] = useState("");
   const [confirmPassword, setConfirmPassword] = useState("");
+  const [mfaSetup, setMfaSetup] = useState<{ qrCodeDataUrl: string; secret: string } | null>(null);
+  const [mfaCode, setMfaCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
   const { toast } = useToast();
   const { user } = useAuth();
 
@@ -37,6 +77,18 @@ export default function AccountManagement() {
     retry: false,
   });
 
+  // Fetch MFA enrollment status
+  const { data: mfaStatus } = useQuery<MfaStatus>({
+    queryKey: ["/api/auth/mfa"],
+    retry: false,
+  });
+
+  // Fetch active sessions across devices
+  const { data: activeSessions = [] } = useQuery<ActiveSession[]>({
+    queryKey: ["/api/auth/sessions"],
+    retry: false,
+  });
+
   // Initialize form values when profile data loads
   React.useEffect(() => {
     if (profile) {
@@ -118,6 +170,161 @@ export default function AccountManagement() {
     },
   });
 
+  // Sign out a single other session
+  const revokeSessionMutation = useMutation({
+    mutationFn: async (sessionId: string) => {
+      const response = await fetch(`/api/auth/sessions/${sessionId}`, {
+        method: "DELETE",
+      });
+      
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
+        throw new Error(errorData.error || `HTTP ${response.status}`);
+      }
+      
+      return await response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/sessions"] });
+      toast({
+        title: "Success",
+        description: data.message,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to sign out session",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Sign out every session except this one
+  const revokeOtherSessionsMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch("/api/auth/sessions/revoke-others", {
+        method: "POST",
+      });
+      
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
+        throw new Error(errorData.error || `HTTP ${response.status}`);
+      }
+      
+      return await response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/sessions"] });
+      toast({
+        title: "Success",
+        description: data.message,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to sign out other sessions",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // MFA mutations - all share the same JSON POST shape
+  const postMfa = async (url: string, body?: { code: string }) => {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
+      throw new Error(errorData.error || `HTTP ${response.status}`);
+    }
+    
+    return await response.json();
+  };
+
+  const startMfaSetupMutation = useMutation({
+    mutationFn: () => postMfa("/api/auth/mfa/setup"),
+    onSuccess: (data) => {
+      setMfaSetup({ qrCodeDataUrl: data.qrCodeDataUrl, secret: data.secret });
+      setRecoveryCodes(null);
+      setMfaCode("");
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to start MFA setup",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const verifyMfaSetupMutation = useMutation({
+    mutationFn: (code: string) => postMfa("/api/auth/mfa/verify", { code }),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/mfa"] });
+      setMfaSetup(null);
+      setMfaCode("");
+      setRecoveryCodes(data.recoveryCodes);
+      toast({
+        title: "Success",
+        description: "Two-factor authentication enabled",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to verify code",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const regenerateRecoveryCodesMutation = useMutation({
+    mutationFn: (code: string) => postMfa("/api/auth/mfa/recovery-codes", { code }),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/mfa"] });
+      setMfaCode("");
+      setRecoveryCodes(data.recoveryCodes);
+      toast({
+        title: "Success",
+        description: "New recovery codes generated",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to regenerate recovery codes",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const disableMfaMutation = useMutation({
+    mutationFn: (code: string) => postMfa("/api/auth/mfa/disable", { code }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/mfa"] });
+      setMfaCode("");
+      setRecoveryCodes(null);
+      toast({
+        title: "Success",
+        description: "Two-factor authentication disabled",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to disable MFA",
+        variant: "destructive",
+      });
+    },
+  });
+
   // Delete account mutation
   const deleteAccountMutation = useMutation({
     mutationFn: async () => {
@@ -183,10 +390,10 @@ export default function AccountManagement() {
       });
       return;
     }
-    if (newPassword.length < 6) {
+    if (newPassword.length < PASSWORD_MIN_LENGTH_FLOOR) {
       toast({
         title: "Error",
-        description: "Password must be at least 6 characters long",
+        description: `Password must be at least ${PASSWORD_MIN_LENGTH_FLOOR} characters long`,
         variant: "destructive",
       });
       return;
@@ -200,11 +407,15 @@ export default function AccountManagement() {
     }
   };
 
+  const getRoleLabel = (role?: string) => {
+    const normalized = normalizeRole(role);
+    return normalized ? ROLE_LABELS[normalized] : role;
+  };
+
   const getRoleBadgeVariant = (role: string) => {
     switch (role) {
       case 'owner': return 'default';
       case 'admin': return 'secondary';
-      case 'user': return 'outline';
       default: return 'outline';
     }
   };
@@ -289,7 +500,7 @@ export default function AccountManagement() {
                       getRoleBadgeVariant(profile?.role) === 'secondary' ? 'bg-gray-100 text-gray-800' :
                       'bg-green-100 text-green-800'
                     }`}>
-                      {profile?.role}
+                      {getRoleLabel(profile?.role)}
                     </span>
                   </div>
                 </div>
@@ -379,6 +590,190 @@ export default function AccountManagement() {
         </CardContent>
       </Card>
 
+      {/* Two-Factor Authentication */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <KeyRound className="h-5 w-5" />
+            Two-Factor Authentication
+          </CardTitle>
+          <CardDescription>
+            Require a code from an authenticator app in addition to your password
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-4">
+            <div className="flex items-center gap-2">
+              <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                mfaStatus?.enabled ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+              }`}>
+                {mfaStatus?.enabled ? "Enabled" : "Not enabled"}
+              </span>
+              {mfaStatus?.requiredByOrganization && (
+                <span className="text-sm text-gray-600">Required by your organization</span>
+              )}
+            </div>
+
+            {recoveryCodes && (
+              <div className="p-4 border border-yellow-200 rounded-lg bg-yellow-50 space-y-2">
+                <h4 className="font-medium text-yellow-800">Save your recovery codes</h4>
+                <p className="text-sm text-yellow-700">
+                  Each code can be used once if you lose your authenticator. They will not be shown again.
+                </p>
+                <div className="grid grid-cols-2 gap-2 font-mono text-sm">
+                  {recoveryCodes.map((code) => (
+                    <span key={code}>{code}</span>
+                  ))}
+                </div>
+                <Button variant="outline" size="sm" onClick={() => setRecoveryCodes(null)}>
+                  Done
+                </Button>
+              </div>
+            )}
+
+            {mfaStatus?.enabled ? (
+              <div className="space-y-4">
+                <p className="text-sm text-gray-600">
+                  Enabled {mfaStatus.enrolledAt ? new Date(mfaStatus.enrolledAt).toLocaleDateString() : ""} · {mfaStatus.recoveryCodesRemaining} recovery codes remaining
+                </p>
+                <div className="space-y-2 max-w-sm">
+                  <Label htmlFor="mfaManageCode">Authenticator Code</Label>
+                  <Input
+                    id="mfaManageCode"
+                    value={mfaCode}
+                    onChange={(e) => setMfaCode(e.target.value)}
+                    placeholder="Enter current 6-digit code"
+                    autoComplete="one-time-code"
+                  />
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    onClick={() => regenerateRecoveryCodesMutation.mutate(mfaCode.trim())}
+                    disabled={!mfaCode.trim() || regenerateRecoveryCodesMutation.isPending}
+                  >
+                    {regenerateRecoveryCodesMutation.isPending ? "Generating..." : "Regenerate Recovery Codes"}
+                  </Button>
+                  {!mfaStatus.requiredByOrganization && (
+                    <Button
+                      variant="destructive"
+                      onClick={() => disableMfaMutation.mutate(mfaCode.trim())}
+                      disabled={!mfaCode.trim() || disableMfaMutation.isPending}
+                    >
+                      {disableMfaMutation.isPending ? "Disabling..." : "Disable MFA"}
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ) : mfaSetup ? (
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  verifyMfaSetupMutation.mutate(mfaCode.trim());
+                }}
+                className="space-y-4"
+              >
+                <p className="text-sm text-gray-600">
+                  Scan this QR code with your authenticator app, then enter the 6-digit code it shows.
+                </p>
+                <img src={mfaSetup.qrCodeDataUrl} alt="MFA QR code" className="h-48 w-48" />
+                <p className="text-xs text-gray-500 break-all">
+                  Manual entry key: <span className="font-mono">{mfaSetup.secret}</span>
+                </p>
+                <div className="space-y-2 max-w-sm">
+                  <Label htmlFor="mfaSetupCode">Verification Code</Label>
+                  <Input
+                    id="mfaSetupCode"
+                    value={mfaCode}
+                    onChange={(e) => setMfaCode(e.target.value)}
+                    placeholder="123456"
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    required
+                  />
+                </div>
+                <div className="flex gap-2">
+                  <Button type="submit" disabled={verifyMfaSetupMutation.isPending}>
+                    {verifyMfaSetupMutation.isPending ? "Verifying..." : "Verify & Enable"}
+                  </Button>
+                  <Button type="button" variant="outline" onClick={() => setMfaSetup(null)}>
+                    Cancel
+                  </Button>
+                </div>
+              </form>
+            ) : (
+              <Button onClick={() => startMfaSetupMutation.mutate()} disabled={startMfaSetupMutation.isPending}>
+                <KeyRound className="h-4 w-4 mr-2" />
+                {startMfaSetupMutation.isPending ? "Preparing..." : "Set Up Two-Factor Authentication"}
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Active Sessions */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Monitor className="h-5 w-5" />
+                Active Sessions
+              </CardTitle>
+              <CardDescription>
+                Devices currently signed in to your account
+              </CardDescription>
+            </div>
+            {activeSessions.length > 1 && (
+              <Button
+                variant="outline"
+                onClick={() => revokeOtherSessionsMutation.mutate()}
+                disabled={revokeOtherSessionsMutation.isPending}
+              >
+                <LogOut className="h-4 w-4 mr-2" />
+                Sign Out Other Sessions
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-3">
+            {activeSessions.map((activeSession) => (
+              <div key={activeSession.id} className="flex items-center justify-between p-3 rounded-lg border">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{describeDevice(activeSession.userAgent)}</span>
+                    {activeSession.current && (
+                      <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                        This device
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-sm text-gray-500">
+                    {activeSession.ipAddress || "Unknown IP"} · Last active {new Date(activeSession.lastActivityAt).toLocaleString()}
+                  </p>
+                  {activeSession.createdAt && (
+                    <p className="text-xs text-gray-400">
+                      Signed in {new Date(activeSession.createdAt).toLocaleString()}
+                    </p>
+                  )}
+                </div>
+                {!activeSession.current && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => revokeSessionMutation.mutate(activeSession.id)}
+                    disabled={revokeSessionMutation.isPending}
+                  >
+                    Sign Out
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
       {/* Account Actions */}
       <Card>
         <CardHeader>
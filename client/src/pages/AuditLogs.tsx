@@ -3,16 +3,22 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { Shield, Search, Filter, Download, Calendar, User, Eye, Edit, Trash } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { AuditAlertsCard } from "@/components/AuditAlertsCard";
+import { LegalHoldsCard } from "@/components/LegalHoldsCard";
+import { AuditArchivesCard } from "@/components/AuditArchivesCard";
+import { Shield, Search, Filter, Download, Calendar, User, Eye, Edit, Trash, ShieldCheck, ShieldAlert } from "lucide-react";
 
 interface AuditLog {
   id: number;
   userId?: number;
   userName?: string;
-  organizationId?: number;
-  organizationName?: string;
+  userEmail?: string;
+  apiKeyId?: number;
+  apiKeyName?: string;
   action: string;
   resourceType?: string;
   resourceId?: number;
@@ -23,114 +29,195 @@ interface AuditLog {
   timestamp: string;
 }
 
+interface ChainVerification {
+  valid: boolean;
+  entriesChecked: number;
+  firstChainSeq: number | null;
+  lastChainSeq: number | null;
+  startsAfterPurge: boolean;
+  unchainedEntries: number;
+  archivedEntries: number;
+  checkpointsChecked: number;
+  signingKeyId: string;
+  brokenLink?: {
+    reason: string;
+    chainSeq: number;
+    entryId?: number;
+    message: string;
+  };
+  verifiedAt: string;
+}
+
+const PAGE_SIZE = 100;
+
+interface AuditLogFilterOptions {
+  actions: string[];
+  resourceTypes: string[];
+  users: Array<{ id: number; name: string | null; email: string }>;
+}
+
+interface Filters {
+  userId: string;
+  action: string;
+  resourceType: string;
+  resourceId: string;
+  patientId: string;
+  from: string; // yyyy-mm-dd, local time
+  to: string;
+  ipAddress: string;
+}
+
+const EMPTY_FILTERS: Filters = {
+  userId: 'all',
+  action: 'all',
+  resourceType: 'all',
+  resourceId: '',
+  patientId: '',
+  from: '',
+  to: '',
+  ipAddress: '',
+};
+
+// Query string for the filters the server understands; dates cover whole local days
+const buildFilterParams = (filters: Filters) => {
+  const params = new URLSearchParams();
+  if (filters.userId !== 'all') params.set('userId', filters.userId);
+  if (filters.action !== 'all') params.set('action', filters.action);
+  if (filters.resourceType !== 'all') params.set('resourceType', filters.resourceType);
+  if (filters.resourceId.trim()) params.set('resourceId', filters.resourceId.trim());
+  if (filters.patientId.trim()) params.set('patientId', filters.patientId.trim());
+  if (filters.ipAddress.trim()) params.set('ipAddress', filters.ipAddress.trim());
+  if (filters.from) params.set('from', new Date(`${filters.from}T00:00:00`).toISOString());
+  if (filters.to) params.set('to', new Date(`${filters.to}T23:59:59.999`).toISOString());
+  return params;
+};
+
 export default function AuditLogs() {
   const [auditLogs, setAuditLogs] = useState<AuditLog[]>([]);
-  const [filteredLogs, setFilteredLogs] = useState<AuditLog[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
   const [loading, setLoading] = useState(true);
+  const [loaded, setLoaded] = useState(false);
+  const [accessError, setAccessError] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
-  
-  // Filters
-  const [searchTerm, setSearchTerm] = useState('');
-  const [actionFilter, setActionFilter] = useState('all');
-  const [resourceTypeFilter, setResourceTypeFilter] = useState('all');
-  const [dateRange, setDateRange] = useState('today');
-  
+  const [filterOptions, setFilterOptions] = useState<AuditLogFilterOptions>({ actions: [], resourceTypes: [], users: [] });
+
+  // Edits go into the draft; every search is itself audited, so the server is queried only on Apply
+  const [draftFilters, setDraftFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [appliedFilters, setAppliedFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [exporting, setExporting] = useState<'csv' | 'json' | null>(null);
+
+  const [verification, setVerification] = useState<ChainVerification | null>(null);
+  const [verifying, setVerifying] = useState(false);
+  const [verifyError, setVerifyError] = useState<string | null>(null);
+
   useEffect(() => {
-    fetchAuditLogs();
+    fetchFilterOptions();
   }, []);
 
   useEffect(() => {
-    applyFilters();
-  }, [auditLogs, searchTerm, actionFilter, resourceTypeFilter, dateRange]);
+    fetchAuditLogs();
+  }, [appliedFilters, page]);
 
   const fetchAuditLogs = async () => {
+    setLoading(true);
+    setError(null);
     try {
-      const response = await fetch('/api/audit-logs');
+      const params = buildFilterParams(appliedFilters);
+      params.set('page', String(page));
+      params.set('limit', String(PAGE_SIZE));
+
+      const response = await fetch(`/api/audit-logs?${params}`);
       if (!response.ok) {
         if (response.status === 403) {
-          throw new Error('Access denied. Admin privileges required.');
+          setAccessError('Access denied. Admin privileges required.');
+          return;
         }
-        throw new Error('Failed to fetch audit logs');
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to fetch audit logs');
       }
       const data = await response.json();
-      setAuditLogs(data);
+      setAuditLogs(data.logs);
+      setTotal(data.total);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to fetch audit logs');
     } finally {
       setLoading(false);
+      setLoaded(true);
     }
   };
 
-  const applyFilters = () => {
-    let filtered = auditLogs;
-
-    // Search filter
-    if (searchTerm) {
-      const term = searchTerm.toLowerCase();
-      filtered = filtered.filter(log => 
-        log.action.toLowerCase().includes(term) ||
-        log.userName?.toLowerCase().includes(term) ||
-        log.organizationName?.toLowerCase().includes(term) ||
-        log.ipAddress?.toLowerCase().includes(term) ||
-        (log.details && JSON.stringify(log.details).toLowerCase().includes(term))
-      );
+  const fetchFilterOptions = async () => {
+    try {
+      const response = await fetch('/api/audit-logs/filters');
+      if (response.ok) {
+        setFilterOptions(await response.json());
+      }
+    } catch (err) {
+      console.error('Failed to fetch audit log filters:', err);
     }
+  };
 
-    // Action filter
-    if (actionFilter !== 'all') {
-      filtered = filtered.filter(log => log.action === actionFilter);
-    }
+  const updateDraft = (field: keyof Filters, value: string) => {
+    setDraftFilters(current => ({ ...current, [field]: value }));
+  };
 
-    // Resource type filter
-    if (resourceTypeFilter !== 'all') {
-      filtered = filtered.filter(log => log.resourceType === resourceTypeFilter);
-    }
+  const applyFilters = () => {
+    setPage(1);
+    setAppliedFilters(draftFilters);
+  };
+
+  const clearFilters = () => {
+    setPage(1);
+    setDraftFilters(EMPTY_FILTERS);
+    setAppliedFilters(EMPTY_FILTERS);
+  };
 
-    // Date range filter
-    const now = new Date();
-    if (dateRange !== 'all') {
-      const cutoffDate = new Date();
-      switch (dateRange) {
-        case 'today':
-          cutoffDate.setHours(0, 0, 0, 0);
-          break;
-        case 'week':
-          cutoffDate.setDate(now.getDate() - 7);
-          break;
-        case 'month':
-          cutoffDate.setMonth(now.getMonth() - 1);
-          break;
+  const verifyIntegrity = async () => {
+    setVerifying(true);
+    setVerifyError(null);
+    try {
+      const response = await fetch('/api/audit-logs/verify', { method: 'POST' });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to verify audit log integrity');
       }
-      filtered = filtered.filter(log => new Date(log.timestamp) >= cutoffDate);
+      setVerification(await response.json());
+    } catch (err) {
+      setVerifyError(err instanceof Error ? err.message : 'Failed to verify audit log integrity');
+    } finally {
+      setVerifying(false);
     }
-
-    setFilteredLogs(filtered);
   };
 
-  const exportToCSV = () => {
-    const headers = ['Timestamp', 'User', 'Action', 'Resource Type', 'Resource ID', 'IP Address', 'Details'];
-    const csvContent = [
-      headers.join(','),
-      ...filteredLogs.map(log => [
-        new Date(log.timestamp).toISOString(),
-        log.userName || 'System',
-        log.action,
-        log.resourceType || '',
-        log.resourceId || '',
-        log.ipAddress || '',
-        log.details ? JSON.stringify(log.details).replace(/,/g, ';') : ''
-      ].map(field => `"${field}"`).join(','))
-    ].join('\n');
-
-    const blob = new Blob([csvContent], { type: 'text/csv' });
-    const url = window.URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `audit-logs-${new Date().toISOString().split('T')[0]}.csv`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    window.URL.revokeObjectURL(url);
+  // Exports every entry matching the applied filters, not just the current page
+  const exportLogs = async (format: 'csv' | 'json') => {
+    setExporting(format);
+    setError(null);
+    try {
+      const params = buildFilterParams(appliedFilters);
+      params.set('format', format);
+
+      const response = await fetch(`/api/audit-logs/export?${params}`);
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to export audit logs');
+      }
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `audit-logs-${new Date().toISOString().split('T')[0]}.${format}`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      window.URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export audit logs');
+    } finally {
+      setExporting(null);
+    }
   };
 
   const getActionIcon = (action: string) => {
@@ -152,10 +239,17 @@ export default function AuditLogs() {
     return new Date(timestamp).toLocaleString();
   };
 
-  const uniqueActions = [...new Set(auditLogs.map(log => log.action))];
-  const uniqueResourceTypes = [...new Set(auditLogs.map(log => log.resourceType).filter(Boolean))];
+  const formatActor = (log: AuditLog) => {
+    if (log.userName || log.userEmail) return log.userName || log.userEmail;
+    if (log.apiKeyId) return `API key: ${log.apiKeyName ?? log.apiKeyId}`;
+    return 'System';
+  };
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  const firstShown = total === 0 ? 0 : (page - 1) * PAGE_SIZE + 1;
+  const lastShown = Math.min(page * PAGE_SIZE, total);
 
-  if (loading) {
+  if (!loaded) {
     return (
       <div className="container mx-auto p-6">
         <div className="flex items-center justify-center h-64">
@@ -168,7 +262,7 @@ export default function AuditLogs() {
     );
   }
 
-  if (error) {
+  if (accessError) {
     return (
       <div className="container mx-auto p-6">
         <Card>
@@ -176,7 +270,7 @@ export default function AuditLogs() {
             <div className="text-center">
               <Shield className="h-12 w-12 text-destructive mx-auto mb-4" />
               <h3 className="text-lg font-semibold mb-2">Access Error</h3>
-              <p className="text-muted-foreground">{error}</p>
+              <p className="text-muted-foreground">{accessError}</p>
             </div>
           </CardContent>
         </Card>
@@ -194,6 +288,52 @@ export default function AuditLogs() {
         </div>
       </div>
 
+      {/* Hash chain verification result */}
+      {verifyError && (
+        <Alert variant="destructive" className="mb-6">
+          <ShieldAlert className="h-4 w-4" />
+          <AlertTitle>Verification failed</AlertTitle>
+          <AlertDescription>{verifyError}</AlertDescription>
+        </Alert>
+      )}
+      {verification && (
+        <Alert variant={verification.valid ? "default" : "destructive"} className="mb-6">
+          {verification.valid ? <ShieldCheck className="h-4 w-4" /> : <ShieldAlert className="h-4 w-4" />}
+          <AlertTitle>
+            {verification.valid ? 'Audit trail intact' : 'Audit trail has been tampered with'}
+          </AlertTitle>
+          <AlertDescription className="space-y-1">
+            {verification.brokenLink ? (
+              <p>
+                First broken link at entry #{verification.brokenLink.chainSeq}
+                {verification.brokenLink.entryId ? ` (record ${verification.brokenLink.entryId})` : ''}: {verification.brokenLink.message}.
+              </p>
+            ) : (
+              <p>
+                {verification.entriesChecked} entries checked
+                {verification.lastChainSeq !== null && ` (#${verification.firstChainSeq} to #${verification.lastChainSeq})`},
+                {' '}{verification.checkpointsChecked} signed checkpoints matched.
+              </p>
+            )}
+            {verification.startsAfterPurge && (
+              <p>Earlier entries were removed by the retention policy before #{verification.firstChainSeq}.</p>
+            )}
+            {verification.archivedEntries > 0 && (
+              <p>{verification.archivedEntries} archived entries were accounted for by signed archive manifests.</p>
+            )}
+            {verification.unchainedEntries > 0 && (
+              <p>{verification.unchainedEntries} entries predate hash chaining and are not covered.</p>
+            )}
+            <p className="text-xs text-muted-foreground">
+              Verified {formatTimestamp(verification.verifiedAt)} · signing key {verification.signingKeyId}
+            </p>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {/* Anomalies found by the hourly scan */}
+      <AuditAlertsCard />
+
       {/* Filters and Controls */}
       <Card className="mb-6">
         <CardHeader>
@@ -202,69 +342,156 @@ export default function AuditLogs() {
               <Filter className="h-5 w-5" />
               Filters & Controls
             </CardTitle>
-            <Button onClick={exportToCSV} variant="outline" size="sm">
-              <Download className="h-4 w-4 mr-2" />
-              Export CSV
-            </Button>
+            <div className="flex items-center gap-2">
+              <Button onClick={verifyIntegrity} variant="outline" size="sm" disabled={verifying}>
+                <ShieldCheck className="h-4 w-4 mr-2" />
+                {verifying ? 'Verifying...' : 'Verify Integrity'}
+              </Button>
+              <Button onClick={() => exportLogs('csv')} variant="outline" size="sm" disabled={exporting !== null}>
+                <Download className="h-4 w-4 mr-2" />
+                {exporting === 'csv' ? 'Exporting...' : 'Export CSV'}
+              </Button>
+              <Button onClick={() => exportLogs('json')} variant="outline" size="sm" disabled={exporting !== null}>
+                <Download className="h-4 w-4 mr-2" />
+                {exporting === 'json' ? 'Exporting...' : 'Export JSON'}
+              </Button>
+            </div>
           </div>
         </CardHeader>
         <CardContent>
-          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
-            <div className="relative">
-              <Search className="h-4 w-4 absolute left-3 top-3 text-muted-foreground" />
-              <Input
-                placeholder="Search logs..."
-                value={searchTerm}
-                onChange={(e) => setSearchTerm(e.target.value)}
-                className="pl-10"
-              />
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              applyFilters();
+            }}
+            className="space-y-4"
+          >
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div className="space-y-2">
+                <Label>User</Label>
+                <Select value={draftFilters.userId} onValueChange={(value) => updateDraft('userId', value)}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Filter by user" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Users</SelectItem>
+                    {filterOptions.users.map(user => (
+                      <SelectItem key={user.id} value={String(user.id)}>{user.name || user.email}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Action</Label>
+                <Select value={draftFilters.action} onValueChange={(value) => updateDraft('action', value)}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Filter by action" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Actions</SelectItem>
+                    {filterOptions.actions.map(action => (
+                      <SelectItem key={action} value={action}>{action}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Resource Type</Label>
+                <Select value={draftFilters.resourceType} onValueChange={(value) => updateDraft('resourceType', value)}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Filter by resource" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Resources</SelectItem>
+                    {filterOptions.resourceTypes.map(type => (
+                      <SelectItem key={type} value={type}>{type}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="resourceId">Resource ID</Label>
+                <Input
+                  id="resourceId"
+                  type="number"
+                  min={1}
+                  placeholder="Any"
+                  value={draftFilters.resourceId}
+                  onChange={(e) => updateDraft('resourceId', e.target.value)}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="patientId">Patient ID</Label>
+                <Input
+                  id="patientId"
+                  type="number"
+                  min={1}
+                  placeholder="Any"
+                  value={draftFilters.patientId}
+                  onChange={(e) => updateDraft('patientId', e.target.value)}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="fromDate">From</Label>
+                <Input
+                  id="fromDate"
+                  type="date"
+                  value={draftFilters.from}
+                  onChange={(e) => updateDraft('from', e.target.value)}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="toDate">To</Label>
+                <Input
+                  id="toDate"
+                  type="date"
+                  value={draftFilters.to}
+                  onChange={(e) => updateDraft('to', e.target.value)}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="ipAddress">IP Address</Label>
+                <Input
+                  id="ipAddress"
+                  placeholder="Any"
+                  value={draftFilters.ipAddress}
+                  onChange={(e) => updateDraft('ipAddress', e.target.value)}
+                />
+              </div>
             </div>
-            
-            <Select value={actionFilter} onValueChange={setActionFilter}>
-              <SelectTrigger>
-                <SelectValue placeholder="Filter by action" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="all">All Actions</SelectItem>
-                {uniqueActions.map(action => (
-                  <SelectItem key={action} value={action}>{action}</SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-
-            <Select value={resourceTypeFilter} onValueChange={setResourceTypeFilter}>
-              <SelectTrigger>
-                <SelectValue placeholder="Filter by resource" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="all">All Resources</SelectItem>
-                {uniqueResourceTypes.map(type => (
-                  <SelectItem key={type} value={type}>{type}</SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-
-            <Select value={dateRange} onValueChange={setDateRange}>
-              <SelectTrigger>
-                <SelectValue placeholder="Date range" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="all">All Time</SelectItem>
-                <SelectItem value="today">Today</SelectItem>
-                <SelectItem value="week">Last 7 Days</SelectItem>
-                <SelectItem value="month">Last 30 Days</SelectItem>
-              </SelectContent>
-            </Select>
-          </div>
+
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={clearFilters}>
+                Clear
+              </Button>
+              <Button type="submit">
+                <Search className="h-4 w-4 mr-2" />
+                Apply Filters
+              </Button>
+            </div>
+          </form>
         </CardContent>
       </Card>
 
+      {error && (
+        <Alert variant="destructive" className="mb-6">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
       {/* Audit Logs Table */}
       <Card>
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
             <Calendar className="h-5 w-5" />
-            Audit Trail ({filteredLogs.length} records)
+            Audit Trail ({total} records){loading && <span className="text-sm font-normal text-muted-foreground">Loading...</span>}
           </CardTitle>
         </CardHeader>
         <CardContent>
@@ -281,7 +508,7 @@ export default function AuditLogs() {
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {filteredLogs.map((log) => (
+                {auditLogs.map((log) => (
                   <TableRow key={log.id}>
                     <TableCell className="font-mono text-sm">
                       {formatTimestamp(log.timestamp)}
@@ -289,12 +516,7 @@ export default function AuditLogs() {
                     <TableCell>
                       <div className="flex items-center gap-2">
                         <User className="h-4 w-4 text-muted-foreground" />
-                        <span>{log.userName || 'System'}</span>
-                        {log.organizationName && (
-                          <Badge variant="outline" className="text-xs">
-                            {log.organizationName}
-                          </Badge>
-                        )}
+                        <span>{formatActor(log)}</span>
                       </div>
                     </TableCell>
                     <TableCell>
@@ -330,7 +552,7 @@ export default function AuditLogs() {
                     </TableCell>
                   </TableRow>
                 ))}
-                {filteredLogs.length === 0 && (
+                {auditLogs.length === 0 && (
                   <TableRow>
                     <TableCell colSpan={6} className="text-center py-8">
                       <div className="text-muted-foreground">
@@ -343,8 +565,29 @@ export default function AuditLogs() {
               </TableBody>
             </Table>
           </div>
+
+          <div className="flex items-center justify-between mt-4">
+            <p className="text-sm text-muted-foreground">
+              Showing {firstShown}-{lastShown} of {total}
+            </p>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page <= 1 || loading}>
+                Previous
+              </Button>
+              <span className="text-sm">Page {page} of {pageCount}</span>
+              <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page >= pageCount || loading}>
+                Next
+              </Button>
+            </div>
+          </div>
         </CardContent>
       </Card>
+
+      {/* Retention: legal holds and archived entries */}
+      <div className="mt-6">
+        <LegalHoldsCard />
+        <AuditArchivesCard />
+      </div>
     </div>
   );
 }
\ No newline at end of file
@@ -1,28 +1,70 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useLocation } from "wouter";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Mail, CheckCircle, Heart, Shield, FileText } from "lucide-react";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Mail, CheckCircle, Heart, Shield, FileText, KeyRound, Copy, Building2 } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
 
 const loginFormSchema = z.object({
   email: z.string().email("Please enter a valid email address"),
 });
 
+const passwordLoginSchema = z.object({
+  email: z.string().email("Please enter a valid email address"),
+  password: z.string().min(1, "Password is required"),
+});
+
 type LoginFormValues = z.infer<typeof loginFormSchema>;
+type PasswordLoginValues = z.infer<typeof passwordLoginSchema>;
+
+type MfaStep = { mode: "challenge" } | { mode: "enroll"; qrCodeDataUrl?: string; secret?: string };
+
+// Only same-origin paths, so a crafted link cannot bounce users elsewhere after sign-in
+function getReturnPath(): string {
+  const returnTo = new URLSearchParams(window.location.search).get("returnTo");
+  return returnTo && returnTo.startsWith("/") && !returnTo.startsWith("//") && !returnTo.startsWith("/login") ? returnTo : "/dashboard";
+}
+
+async function postJson(url: string, body?: unknown) {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || "Request failed");
+  }
+  return data;
+}
 
 export default function LoginPage() {
   const [, setLocation] = useLocation();
   const [emailSent, setEmailSent] = useState(false);
-  const [magicLink, setMagicLink] = useState<string | null>(null);
+  const [mfaStep, setMfaStep] = useState<MfaStep | null>(null);
+  const [mfaCode, setMfaCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [pendingUser, setPendingUser] = useState<any>(null);
   const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [ssoEmail, setSsoEmail] = useState("");
+  const [expiredPassword, setExpiredPassword] = useState<{ requirements?: string } | null>(null);
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmNewPassword, setConfirmNewPassword] = useState("");
+  const { login, isLoginLoading } = useAuth();
+  const [returnPath] = useState(getReturnPath);
 
   const form = useForm<LoginFormValues>({
     resolver: zodResolver(loginFormSchema),
@@ -31,17 +73,171 @@ export default function LoginPage() {
     },
   });
 
+  const passwordForm = useForm<PasswordLoginValues>({
+    resolver: zodResolver(passwordLoginSchema),
+    defaultValues: {
+      email: "",
+      password: "",
+    },
+  });
+
+  // Magic link and SSO logins for MFA users land here with ?mfa=challenge|enroll, magic links with an expired
+  // password with ?password=expired, and failed ones with ?error=
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const mode = params.get("mfa");
+    if (mode === "challenge" || mode === "enroll") {
+      setMfaStep({ mode });
+    }
+    if (params.get("password") === "expired") {
+      setExpiredPassword({});
+      window.history.replaceState(null, "", "/login");
+    }
+    if (params.get("expired")) {
+      toast({
+        title: "Session expired",
+        description: "Sign in again to pick up where you left off.",
+      });
+      window.history.replaceState(null, "", "/login");
+    }
+    const error = params.get("error");
+    if (error) {
+      toast({
+        title: "Sign in failed",
+        description: error,
+        variant: "destructive",
+      });
+      window.history.replaceState(null, "", "/login");
+    }
+  }, []);
+
+  const finishLogin = (data: any) => {
+    // A password that expired is replaced once the second factor has passed
+    if (data.passwordExpired) {
+      setMfaStep(null);
+      setRecoveryCodes(null);
+      setExpiredPassword({ requirements: data.passwordRequirements });
+      return;
+    }
+    queryClient.setQueryData(["/api/auth/user"], { user: data.user });
+    queryClient.invalidateQueries({ queryKey: ["/api/patients"] });
+    setLocation(returnPath);
+  };
+
+  const startEnrollmentMutation = useMutation({
+    mutationFn: () => postJson("/api/auth/login/mfa/enroll"),
+    onSuccess: (data) => {
+      setMfaStep({ mode: "enroll", qrCodeDataUrl: data.qrCodeDataUrl, secret: data.secret });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not start MFA setup",
+        description: error.message,
+        variant: "destructive",
+      });
+      setMfaStep(null);
+    },
+  });
+
+  // Fetch the QR code as soon as an enrollment step is shown
+  useEffect(() => {
+    if (mfaStep?.mode === "enroll" && !mfaStep.qrCodeDataUrl && !startEnrollmentMutation.isPending) {
+      startEnrollmentMutation.mutate();
+    }
+  }, [mfaStep]);
+
+  const verifyMfaMutation = useMutation({
+    mutationFn: (code: string) => postJson("/api/auth/login/mfa", { code }),
+    onSuccess: (data) => {
+      setMfaCode("");
+      if (data.recoveryCodes) {
+        // Newly enrolled - show recovery codes once before entering the app
+        setRecoveryCodes(data.recoveryCodes);
+        setPendingUser(data);
+        return;
+      }
+      finishLogin(data);
+    },
+    onError: (error: Error) => {
+      setMfaCode("");
+      toast({
+        title: "Verification failed",
+        description: error.message,
+        variant: "destructive",
+      });
+      if (error.message.includes("sign in again")) {
+        setMfaStep(null);
+      }
+    },
+  });
+
+  // Expired passwords are replaced after the second factor, and that completes the login
+  const changeExpiredPasswordMutation = useMutation({
+    mutationFn: (password: string) => postJson("/api/auth/login/password", { newPassword: password }),
+    onSuccess: (data) => {
+      setExpiredPassword(null);
+      setNewPassword("");
+      setConfirmNewPassword("");
+      finishLogin(data);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Password not accepted",
+        description: error.message,
+        variant: "destructive",
+      });
+      if (error.message.includes("sign in again")) {
+        setExpiredPassword(null);
+      }
+    },
+  });
+
+  const onPasswordSubmit = async (data: PasswordLoginValues) => {
+    try {
+      const result = await login(data);
+      if (result.passwordExpired) {
+        setExpiredPassword({ requirements: result.passwordRequirements });
+        return;
+      }
+      if (result.mfaRequired) {
+        setMfaStep({ mode: result.enrollmentRequired ? "enroll" : "challenge" });
+        return;
+      }
+      setLocation(returnPath);
+    } catch (error) {
+      toast({
+        title: "Login failed",
+        description: error instanceof Error ? error.message : "Invalid email or password",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Hand off to the organization's identity provider; it redirects back to /api/auth/sso/callback
+  const startSsoMutation = useMutation({
+    mutationFn: (email: string) => postJson("/api/auth/sso/start", { email }),
+    onSuccess: (data) => {
+      window.location.href = data.redirectUrl;
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Single sign-on unavailable",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const sendMagicLinkMutation = useMutation({
     mutationFn: async (data: LoginFormValues) => {
       const res = await apiRequest("POST", "/api/auth/send-magic-link", data);
       return res.json();
     },
-    onSuccess: (data) => {
+    onSuccess: () => {
       setEmailSent(true);
-      setMagicLink(data.magicLink);
       toast({
-        title: "Magic link created",
-        description: "Click the link below to log in",
+        title: "Login link sent",
+        description: "Check your email for the link",
       });
     },
     onError: (error: Error) => {
@@ -57,7 +253,7 @@ export default function LoginPage() {
     sendMagicLinkMutation.mutate(data);
   };
 
-  if (emailSent) {
+  if (recoveryCodes) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-white dark:from-gray-900 dark:to-gray-800">
         <Card className="w-full max-w-md">
@@ -65,42 +261,221 @@ export default function LoginPage() {
             <div className="mx-auto mb-4 flex h-12 w-12 items-center justify-center rounded-full bg-green-100 dark:bg-green-900">
               <CheckCircle className="h-6 w-6 text-green-600 dark:text-green-400" />
             </div>
-            <CardTitle>Check your email</CardTitle>
+            <CardTitle>Save your recovery codes</CardTitle>
+            <CardDescription>
+              Each code can be used once if you lose access to your authenticator app. They will not be shown again.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 gap-2 rounded-lg bg-gray-50 dark:bg-gray-800 p-4 font-mono text-sm">
+              {recoveryCodes.map((code) => (
+                <span key={code}>{code}</span>
+              ))}
+            </div>
+            <Button
+              variant="outline"
+              className="w-full"
+              onClick={() => {
+                navigator.clipboard.writeText(recoveryCodes.join("\n"));
+                toast({ title: "Copied", description: "Recovery codes copied to clipboard" });
+              }}
+            >
+              <Copy className="h-4 w-4 mr-2" />
+              Copy codes
+            </Button>
+            <Button
+              className="w-full bg-blue-600 hover:bg-blue-700"
+              onClick={() => finishLogin(pendingUser)}
+            >
+              I have saved my codes
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (expiredPassword) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-white dark:from-gray-900 dark:to-gray-800">
+        <Card className="w-full max-w-md">
+          <CardHeader className="text-center">
+            <div className="mx-auto mb-4 flex h-12 w-12 items-center justify-center rounded-full bg-amber-100 dark:bg-amber-900">
+              <KeyRound className="h-6 w-6 text-amber-600 dark:text-amber-400" />
+            </div>
+            <CardTitle>Your password has expired</CardTitle>
             <CardDescription>
-              Magic link created for {form.getValues("email")}
+              Your organization requires passwords to be changed regularly. Choose a new password to continue.
             </CardDescription>
           </CardHeader>
           <CardContent>
-            <div className="text-center space-y-4">
-              {magicLink ? (
-                <div className="space-y-3">
-                  <p className="text-sm text-gray-600 dark:text-gray-400">
-                    Click the button below to log in:
-                  </p>
-                  <Button
-                    onClick={() => window.location.href = magicLink}
-                    className="w-full bg-blue-600 hover:bg-blue-700"
-                  >
-                    Login to LEQVIO Patient Management
-                  </Button>
-                  <p className="text-xs text-gray-500 dark:text-gray-400">
-                    Link expires in 15 minutes
-                  </p>
+            <form
+              className="space-y-4"
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (newPassword !== confirmNewPassword) {
+                  toast({
+                    title: "Error",
+                    description: "Passwords do not match",
+                    variant: "destructive",
+                  });
+                  return;
+                }
+                changeExpiredPasswordMutation.mutate(newPassword);
+              }}
+            >
+              <div className="space-y-2">
+                <Label htmlFor="expiredNewPassword">New Password</Label>
+                <Input
+                  id="expiredNewPassword"
+                  type="password"
+                  autoComplete="new-password"
+                  value={newPassword}
+                  onChange={(e) => setNewPassword(e.target.value)}
+                  autoFocus
+                  required
+                />
+                {expiredPassword.requirements && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400">{expiredPassword.requirements}</p>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="expiredConfirmPassword">Confirm New Password</Label>
+                <Input
+                  id="expiredConfirmPassword"
+                  type="password"
+                  autoComplete="new-password"
+                  value={confirmNewPassword}
+                  onChange={(e) => setConfirmNewPassword(e.target.value)}
+                  required
+                />
+              </div>
+              <Button
+                type="submit"
+                className="w-full bg-blue-600 hover:bg-blue-700 text-white"
+                disabled={changeExpiredPasswordMutation.isPending || !newPassword}
+              >
+                {changeExpiredPasswordMutation.isPending ? "Saving..." : "Change Password and Continue"}
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                className="w-full"
+                onClick={() => {
+                  setExpiredPassword(null);
+                  setNewPassword("");
+                  setConfirmNewPassword("");
+                }}
+              >
+                Back to sign in
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (mfaStep) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-white dark:from-gray-900 dark:to-gray-800">
+        <Card className="w-full max-w-md">
+          <CardHeader className="text-center">
+            <div className="mx-auto mb-4 flex h-12 w-12 items-center justify-center rounded-full bg-blue-100 dark:bg-blue-900">
+              <KeyRound className="h-6 w-6 text-blue-600 dark:text-blue-400" />
+            </div>
+            <CardTitle>
+              {mfaStep.mode === "enroll" ? "Set up two-factor authentication" : "Two-factor authentication"}
+            </CardTitle>
+            <CardDescription>
+              {mfaStep.mode === "enroll"
+                ? "Your organization requires MFA. Scan this QR code with an authenticator app, then enter the 6-digit code."
+                : "Enter the 6-digit code from your authenticator app, or one of your recovery codes."}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form
+              className="space-y-4"
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (mfaCode.trim()) {
+                  verifyMfaMutation.mutate(mfaCode.trim());
+                }
+              }}
+            >
+              {mfaStep.mode === "enroll" && (
+                <div className="flex flex-col items-center space-y-2">
+                  {mfaStep.qrCodeDataUrl ? (
+                    <img src={mfaStep.qrCodeDataUrl} alt="MFA QR code" className="h-48 w-48" />
+                  ) : (
+                    <p className="text-sm text-gray-500">Generating QR code...</p>
+                  )}
+                  {mfaStep.secret && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400 break-all text-center">
+                      Can't scan? Enter this key manually: <span className="font-mono">{mfaStep.secret}</span>
+                    </p>
+                  )}
                 </div>
-              ) : (
-                <p className="text-sm text-gray-600 dark:text-gray-400">
-                  Generating your login link...
-                </p>
               )}
+              <Input
+                autoFocus
+                autoComplete="one-time-code"
+                inputMode={mfaStep.mode === "enroll" ? "numeric" : "text"}
+                placeholder={mfaStep.mode === "enroll" ? "123456" : "123456 or recovery code"}
+                value={mfaCode}
+                onChange={(e) => setMfaCode(e.target.value)}
+                maxLength={32}
+              />
               <Button
-                variant="outline"
+                type="submit"
+                className="w-full bg-blue-600 hover:bg-blue-700 text-white"
+                disabled={verifyMfaMutation.isPending || !mfaCode.trim()}
+              >
+                {verifyMfaMutation.isPending ? "Verifying..." : "Verify"}
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                className="w-full"
                 onClick={() => {
-                  setEmailSent(false);
-                  setMagicLink(null);
+                  setMfaStep(null);
+                  setMfaCode("");
+                  window.history.replaceState(null, "", "/login");
                 }}
+              >
+                Back to sign in
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (emailSent) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-white dark:from-gray-900 dark:to-gray-800">
+        <Card className="w-full max-w-md">
+          <CardHeader className="text-center">
+            <div className="mx-auto mb-4 flex h-12 w-12 items-center justify-center rounded-full bg-green-100 dark:bg-green-900">
+              <CheckCircle className="h-6 w-6 text-green-600 dark:text-green-400" />
+            </div>
+            <CardTitle>Check your email</CardTitle>
+            <CardDescription>
+              Login link sent to {form.getValues("email")}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="text-center space-y-4">
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                Open the link in the email to log in. It expires in 15 minutes.
+              </p>
+              <Button
+                variant="outline"
+                onClick={() => setEmailSent(false)}
                 className="w-full"
               >
-                Generate another link
+                Send another link
               </Button>
             </div>
           </CardContent>
@@ -124,34 +499,130 @@ export default function LoginPage() {
             </CardDescription>
           </CardHeader>
           <CardContent>
-            <Form {...form}>
-              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-                <FormField
-                  control={form.control}
-                  name="email"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Email</FormLabel>
-                      <FormControl>
-                        <Input
-                          type="email"
-                          placeholder="your.email@example.com"
-                          {...field}
-                        />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <Button
-                  type="submit"
-                  className="w-full bg-blue-600 hover:bg-blue-700 text-white"
-                  disabled={sendMagicLinkMutation.isPending}
+            <Tabs defaultValue="password" className="w-full">
+              <TabsList className="grid w-full grid-cols-3 mb-4">
+                <TabsTrigger value="password">Password</TabsTrigger>
+                <TabsTrigger value="magic-link">Email Link</TabsTrigger>
+                <TabsTrigger value="sso">SSO</TabsTrigger>
+              </TabsList>
+              <TabsContent value="password">
+                <Form {...passwordForm}>
+                  <form onSubmit={passwordForm.handleSubmit(onPasswordSubmit)} className="space-y-4">
+                    <FormField
+                      control={passwordForm.control}
+                      name="email"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Email</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="email"
+                              placeholder="your.email@example.com"
+                              {...field}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={passwordForm.control}
+                      name="password"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Password</FormLabel>
+                          <FormControl>
+                            <Input type="password" autoComplete="current-password" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <Button
+                      type="submit"
+                      className="w-full bg-blue-600 hover:bg-blue-700 text-white"
+                      disabled={isLoginLoading}
+                    >
+                      {isLoginLoading ? "Signing in..." : "Sign In"}
+                    </Button>
+                    <div className="text-center">
+                      <Button
+                        type="button"
+                        variant="link"
+                        className="text-sm"
+                        onClick={() => setLocation("/forgot-password")}
+                      >
+                        Forgot your password?
+                      </Button>
+                    </div>
+                  </form>
+                </Form>
+              </TabsContent>
+              <TabsContent value="magic-link">
+                <Form {...form}>
+                  <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                    <FormField
+                      control={form.control}
+                      name="email"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Email</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="email"
+                              placeholder="your.email@example.com"
+                              {...field}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <Button
+                      type="submit"
+                      className="w-full bg-blue-600 hover:bg-blue-700 text-white"
+                      disabled={sendMagicLinkMutation.isPending}
+                    >
+                      {sendMagicLinkMutation.isPending ? "Sending..." : "Send Secure Login Link"}
+                    </Button>
+                  </form>
+                </Form>
+              </TabsContent>
+              <TabsContent value="sso">
+                <form
+                  className="space-y-4"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    if (ssoEmail.trim()) {
+                      startSsoMutation.mutate(ssoEmail.trim());
+                    }
+                  }}
                 >
-                  {sendMagicLinkMutation.isPending ? "Sending..." : "Send Secure Login Link"}
-                </Button>
-              </form>
-            </Form>
+                  <div className="space-y-2">
+                    <Label htmlFor="ssoEmail">Work Email</Label>
+                    <Input
+                      id="ssoEmail"
+                      type="email"
+                      placeholder="your.email@hospital.org"
+                      value={ssoEmail}
+                      onChange={(e) => setSsoEmail(e.target.value)}
+                      required
+                    />
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      You will be sent to your organization's identity provider to sign in.
+                    </p>
+                  </div>
+                  <Button
+                    type="submit"
+                    className="w-full bg-blue-600 hover:bg-blue-700 text-white"
+                    disabled={startSsoMutation.isPending || !ssoEmail.trim()}
+                  >
+                    <Building2 className="h-4 w-4 mr-2" />
+                    {startSsoMutation.isPending ? "Redirecting..." : "Sign in with SSO"}
+                  </Button>
+                </form>
+              </TabsContent>
+            </Tabs>
           </CardContent>
         </Card>
 
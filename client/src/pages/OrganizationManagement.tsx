@@ -7,9 +7,18 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { Users, Building2, UserPlus, Settings, Copy, Check } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { ApiKeysCard } from "@/components/ApiKeysCard";
+import { SsoSettingsCard } from "@/components/SsoSettingsCard";
+import { PasswordPolicyCard } from "@/components/PasswordPolicyCard";
+import { AuditAlertSettingsCard } from "@/components/AuditAlertSettingsCard";
+import { ASSIGNABLE_ROLES, ROLE_LABELS, normalizeRole, type AssignableRole } from "@shared/permissions";
+import { Users, Building2, UserPlus, Settings, ShieldCheck, Lock, Unlock, RefreshCw, X, Crown, UserCheck, LogOut } from "lucide-react";
 
 interface OrganizationMember {
   id: number;
@@ -18,31 +27,52 @@ interface OrganizationMember {
   role: string;
   createdAt: string;
   lastLoginAt?: string;
-  tempPassword?: string;
+  mfaEnabled?: boolean;
+  failedLoginAttempts?: number;
+  lockedUntil?: string | null;
+  isActive?: boolean;
 }
 
+interface PendingInvitation {
+  id: number;
+  email: string;
+  name?: string;
+  role: string;
+  expiresAt: string;
+  lastSentAt: string;
+  createdAt: string;
+}
+
+const getRoleLabel = (role: string) => {
+  const normalized = normalizeRole(role);
+  return normalized ? ROLE_LABELS[normalized] : role;
+};
+
 interface Organization {
   id: number;
   name: string;
   description?: string;
+  requireMfa?: boolean;
   createdAt: string;
 }
 
 export default function OrganizationManagement() {
   const [inviteEmail, setInviteEmail] = useState("");
   const [inviteName, setInviteName] = useState("");
+  const [inviteRole, setAssignableRole] = useState<AssignableRole>("coordinator");
   const [editingOrg, setEditingOrg] = useState(false);
   const [orgName, setOrgName] = useState("");
   const [orgDescription, setOrgDescription] = useState("");
-  const [lastInviteResult, setLastInviteResult] = useState<{
-    tempPassword?: string;
-    user: OrganizationMember;
-    isExisting: boolean;
-    message: string;
-  } | null>(null);
-  const [copiedPassword, setCopiedPassword] = useState(false);
+  const [transferTarget, setTransferTarget] = useState<OrganizationMember | null>(null);
+  const [transferPassword, setTransferPassword] = useState("");
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { user: authData, can } = useAuth();
+  const currentUserId: number | undefined = authData?.user?.id;
+  const isOwner = authData?.user?.role === "owner";
+  const canUpdateOrg = can("organization:update");
+  const canInvite = can("member:invite");
+  const canManageMembers = can("member:manage");
 
   // Fetch organization details
   const { data: organization, isLoading: orgLoading } = useQuery({
@@ -56,6 +86,28 @@ export default function OrganizationManagement() {
     retry: false,
   });
 
+  // Fetch deactivated members so they can be reactivated
+  const { data: inactiveMembers = [] } = useQuery<OrganizationMember[]>({
+    queryKey: ["/api/organization/members", "inactive"],
+    retry: false,
+    enabled: canManageMembers,
+    queryFn: async () => {
+      const response = await fetch("/api/organization/members?status=inactive");
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
+        throw new Error(errorData.error || `HTTP ${response.status}`);
+      }
+      return response.json();
+    },
+  });
+
+  // Fetch pending invitations
+  const { data: invitations = [] } = useQuery<PendingInvitation[]>({
+    queryKey: ["/api/organization/invitations"],
+    retry: false,
+    enabled: canInvite,
+  });
+
   // Initialize form values when organization data loads
   React.useEffect(() => {
     if (organization) {
@@ -66,8 +118,7 @@ export default function OrganizationManagement() {
 
   // Invite user mutation
   const inviteUserMutation = useMutation({
-    mutationFn: async (userData: { email: string; name: string }) => {
-      console.log("Inviting user:", userData);
+    mutationFn: async (userData: { email: string; name: string; role: string }) => {
       const response = await fetch("/api/organization/invite", {
         method: "POST",
         headers: {
@@ -81,24 +132,20 @@ export default function OrganizationManagement() {
         throw new Error(errorData.error || `HTTP ${response.status}`);
       }
       
-      const result = await response.json();
-      console.log("Invite response:", result);
-      return result;
+      return await response.json();
     },
     onSuccess: (data) => {
-      console.log("Invite success:", data);
-      queryClient.invalidateQueries({ queryKey: ["/api/organization/members"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/organization/invitations"] });
       setInviteEmail("");
       setInviteName("");
-      setLastInviteResult(data);
-      setCopiedPassword(false);
+      setAssignableRole("coordinator");
       toast({
-        title: "Success",
+        title: data.emailSent ? "Success" : "Invitation created",
         description: data.message,
+        variant: data.emailSent ? "default" : "destructive",
       });
     },
     onError: (error: any) => {
-      console.error("Invite error:", error);
       toast({
         title: "Error",
         description: error.message || "Failed to invite user",
@@ -107,6 +154,73 @@ export default function OrganizationManagement() {
     },
   });
 
+  // Resend invitation mutation
+  const resendInvitationMutation = useMutation({
+    mutationFn: async (invitationId: number) => {
+      const response = await fetch(`/api/organization/invitations/${invitationId}/resend`, {
+        method: "POST",
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+      
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
+        throw new Error(errorData.error || `HTTP ${response.status}`);
+      }
+      
+      return await response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/organization/invitations"] });
+      toast({
+        title: data.emailSent ? "Success" : "Error",
+        description: data.message,
+        variant: data.emailSent ? "default" : "destructive",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to resend invitation",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Revoke invitation mutation
+  const revokeInvitationMutation = useMutation({
+    mutationFn: async (invitationId: number) => {
+      const response = await fetch(`/api/organization/invitations/${invitationId}`, {
+        method: "DELETE",
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+      
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
+        throw new Error(errorData.error || `HTTP ${response.status}`);
+      }
+      
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/organization/invitations"] });
+      toast({
+        title: "Success",
+        description: "Invitation revoked",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to revoke invitation",
+        variant: "destructive",
+      });
+    },
+  });
+
   // Update organization mutation
   const updateOrgMutation = useMutation({
     mutationFn: async (orgData: { name: string; description: string }) => {
@@ -142,6 +256,75 @@ export default function OrganizationManagement() {
     },
   });
 
+  // Update security settings mutation
+  const updateSecurityMutation = useMutation({
+    mutationFn: async (settings: { requireMfa: boolean }) => {
+      const response = await fetch("/api/organization", {
+        method: "PUT",
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(settings),
+      });
+      
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
+        throw new Error(errorData.error || `HTTP ${response.status}`);
+      }
+      
+      return await response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/organization"] });
+      toast({
+        title: "Success",
+        description: data.requireMfa
+          ? "Members without MFA will be asked to enroll at their next login"
+          : "MFA is no longer required for members",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update security settings",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Unlock locked-out user mutation
+  const unlockUserMutation = useMutation({
+    mutationFn: async (userId: number) => {
+      const response = await fetch(`/api/organization/members/${userId}/unlock`, {
+        method: "POST",
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+      
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
+        throw new Error(errorData.error || `HTTP ${response.status}`);
+      }
+      
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/organization/members"] });
+      toast({
+        title: "Success",
+        description: "Account unlocked",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to unlock account",
+        variant: "destructive",
+      });
+    },
+  });
+
   // Remove user mutation
   const removeUserMutation = useMutation({
     mutationFn: async (userId: number) => {
@@ -163,47 +346,166 @@ export default function OrganizationManagement() {
       queryClient.invalidateQueries({ queryKey: ["/api/organization/members"] });
       toast({
         title: "Success",
-        description: "User removed from organization",
+        description: "Member deactivated",
       });
     },
     onError: (error: any) => {
       toast({
         title: "Error",
-        description: error.message || "Failed to remove user",
+        description: error.message || "Failed to deactivate member",
         variant: "destructive",
       });
     },
   });
 
-  const handleInviteUser = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!inviteEmail.trim() || !inviteName.trim()) {
+  // Force logout mutation - signs a member out on every device
+  const signOutMemberMutation = useMutation({
+    mutationFn: async (userId: number) => {
+      const response = await fetch(`/api/organization/members/${userId}/sign-out`, {
+        method: "POST",
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+      
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
+        throw new Error(errorData.error || `HTTP ${response.status}`);
+      }
+      
+      return await response.json();
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Success",
+        description: data.message,
+      });
+    },
+    onError: (error: any) => {
       toast({
         title: "Error",
-        description: "Please fill in all fields",
+        description: error.message || "Failed to sign out member",
         variant: "destructive",
       });
-      return;
-    }
-    inviteUserMutation.mutate({ email: inviteEmail, name: inviteName });
-  };
+    },
+  });
+
+  // Reactivate member mutation
+  const reactivateMemberMutation = useMutation({
+    mutationFn: async (userId: number) => {
+      const response = await fetch(`/api/organization/members/${userId}/reactivate`, {
+        method: "POST",
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+      
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
+        throw new Error(errorData.error || `HTTP ${response.status}`);
+      }
+      
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/organization/members"] });
+      toast({
+        title: "Success",
+        description: "Member reactivated",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to reactivate member",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Change member role mutation
+  const updateRoleMutation = useMutation({
+    mutationFn: async ({ userId, role }: { userId: number; role: AssignableRole }) => {
+      const response = await fetch(`/api/organization/members/${userId}/role`, {
+        method: "PATCH",
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ role }),
+      });
+      
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
+        throw new Error(errorData.error || `HTTP ${response.status}`);
+      }
+      
+      return await response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/organization/members"] });
+      toast({
+        title: "Success",
+        description: data.message,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update role",
+        variant: "destructive",
+      });
+    },
+  });
 
-  const copyPasswordToClipboard = async (password: string) => {
-    try {
-      await navigator.clipboard.writeText(password);
-      setCopiedPassword(true);
+  // Transfer ownership mutation
+  const transferOwnershipMutation = useMutation({
+    mutationFn: async (transfer: { userId: number; password: string }) => {
+      const response = await fetch("/api/organization/transfer-ownership", {
+        method: "POST",
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(transfer),
+      });
+      
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
+        throw new Error(errorData.error || `HTTP ${response.status}`);
+      }
+      
+      return await response.json();
+    },
+    onSuccess: (data) => {
+      // Our own role changed too, so refresh permissions along with the member list
+      queryClient.invalidateQueries({ queryKey: ["/api/organization/members"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+      setTransferTarget(null);
+      setTransferPassword("");
+      toast({
+        title: "Success",
+        description: data.message,
+      });
+    },
+    onError: (error: any) => {
       toast({
-        title: "Copied!",
-        description: "Temporary password copied to clipboard",
+        title: "Error",
+        description: error.message || "Failed to transfer ownership",
+        variant: "destructive",
       });
-      setTimeout(() => setCopiedPassword(false), 2000);
-    } catch (err) {
+    },
+  });
+
+  const handleInviteUser = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!inviteEmail.trim() || !inviteName.trim()) {
       toast({
         title: "Error",
-        description: "Failed to copy password",
+        description: "Please fill in all fields",
         variant: "destructive",
       });
+      return;
     }
+    inviteUserMutation.mutate({ email: inviteEmail, name: inviteName, role: inviteRole });
   };
 
   const handleUpdateOrg = (e: React.FormEvent) => {
@@ -219,17 +521,41 @@ export default function OrganizationManagement() {
     updateOrgMutation.mutate({ name: orgName, description: orgDescription });
   };
 
+  const handleRevokeInvitation = (invitation: PendingInvitation) => {
+    if (confirm(`Revoke the pending invitation for ${invitation.email}? The emailed link will stop working.`)) {
+      revokeInvitationMutation.mutate(invitation.id);
+    }
+  };
+
   const handleRemoveUser = (userId: number, userName: string) => {
-    if (confirm(`Are you sure you want to remove ${userName} from the organization?`)) {
+    if (confirm(`Deactivate ${userName}? They will lose access to this organization until reactivated.`)) {
       removeUserMutation.mutate(userId);
     }
   };
 
+  const handleSignOutMember = (member: OrganizationMember) => {
+    if (confirm(`Sign ${member.name} out of all devices? They will need to log in again.`)) {
+      signOutMemberMutation.mutate(member.id);
+    }
+  };
+
+  const handleTransferOwnership = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!transferTarget) return;
+    transferOwnershipMutation.mutate({ userId: transferTarget.id, password: transferPassword });
+  };
+
+  // Admins manage coordinators, schedulers and read-only members; admin changes are owner-only
+  const canChangeMember = (member: OrganizationMember) =>
+    canManageMembers && member.id !== currentUserId && member.role !== 'owner' && (isOwner || member.role !== 'admin');
+
+  const isLocked = (member: OrganizationMember) =>
+    !!member.lockedUntil && new Date(member.lockedUntil) > new Date();
+
   const getRoleBadgeVariant = (role: string) => {
     switch (role) {
       case 'owner': return 'default';
       case 'admin': return 'secondary';
-      case 'user': return 'outline';
       default: return 'outline';
     }
   };
@@ -262,12 +588,14 @@ export default function OrganizationManagement() {
                 Manage your organization information
               </CardDescription>
             </div>
-            <Button
-              variant="outline"
-              onClick={() => setEditingOrg(!editingOrg)}
-            >
-              {editingOrg ? "Cancel" : "Edit"}
-            </Button>
+            {canUpdateOrg && (
+              <Button
+                variant="outline"
+                onClick={() => setEditingOrg(!editingOrg)}
+              >
+                {editingOrg ? "Cancel" : "Edit"}
+              </Button>
+            )}
           </div>
         </CardHeader>
         <CardContent>
@@ -323,7 +651,49 @@ export default function OrganizationManagement() {
         </CardContent>
       </Card>
 
+      {/* Security Settings */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5" />
+            Security
+          </CardTitle>
+          <CardDescription>
+            Sign-in requirements that apply to every member of this organization
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="requireMfa" className="text-sm font-medium">Require two-factor authentication</Label>
+              <p className="text-sm text-gray-500">
+                Members must sign in with an authenticator app code. Members who have not enrolled will be prompted at their next login.
+              </p>
+            </div>
+            <Switch
+              id="requireMfa"
+              checked={!!(organization as Organization | undefined)?.requireMfa}
+              disabled={!canUpdateOrg || updateSecurityMutation.isPending}
+              onCheckedChange={(checked) => updateSecurityMutation.mutate({ requireMfa: checked })}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Password Policy */}
+      {canUpdateOrg && <PasswordPolicyCard />}
+
+      {/* Security Alerts */}
+      {canUpdateOrg && <AuditAlertSettingsCard />}
+
+      {/* Single Sign-On */}
+      {canUpdateOrg && <SsoSettingsCard />}
+
+      {/* API Keys */}
+      {can("api_key:manage") && <ApiKeysCard />}
+
       {/* Invite New User */}
+      {canInvite && (
       <Card>
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
@@ -331,12 +701,12 @@ export default function OrganizationManagement() {
             Invite New User
           </CardTitle>
           <CardDescription>
-            Add a new team member to your organization
+            Email a single-use link; the invitee sets their own password when accepting
           </CardDescription>
         </CardHeader>
         <CardContent>
           <form onSubmit={handleInviteUser} className="space-y-4">
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
               <div className="space-y-2">
                 <Label htmlFor="inviteEmail">Email Address</Label>
                 <Input
@@ -358,54 +728,72 @@ export default function OrganizationManagement() {
                   required
                 />
               </div>
+              <div className="space-y-2">
+                <Label htmlFor="inviteRole">Role</Label>
+                <Select value={inviteRole} onValueChange={(value) => setAssignableRole(value as AssignableRole)}>
+                  <SelectTrigger id="inviteRole">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ASSIGNABLE_ROLES.filter((role) => isOwner || role !== 'admin').map((role) => (
+                      <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
             </div>
             <Button type="submit" disabled={inviteUserMutation.isPending}>
               {inviteUserMutation.isPending ? "Inviting..." : "Send Invitation"}
             </Button>
           </form>
           
-          {/* Display temporary password for new users */}
-          {lastInviteResult && lastInviteResult.tempPassword && (
-            <div className="mt-4 p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
-              <div className="flex items-center justify-between">
-                <div>
-                  <h4 className="font-medium text-yellow-800">
-                    {lastInviteResult.isExisting ? "User Added" : "User Created"}
-                  </h4>
-                  <p className="text-sm text-yellow-700 mt-1">
-                    Temporary password for {lastInviteResult.user.email}:
-                  </p>
-                  <div className="flex items-center gap-2 mt-2">
-                    <code className="px-2 py-1 bg-yellow-100 text-yellow-900 rounded font-mono">
-                      {lastInviteResult.tempPassword}
-                    </code>
-                    <Button
-                      size="sm"
-                      variant="outline"
-                      onClick={() => copyPasswordToClipboard(lastInviteResult.tempPassword!)}
-                      disabled={copiedPassword}
-                    >
-                      {copiedPassword ? (
-                        <Check className="h-4 w-4" />
-                      ) : (
-                        <Copy className="h-4 w-4" />
-                      )}
-                      {copiedPassword ? "Copied" : "Copy"}
-                    </Button>
+          {/* Pending invitations */}
+          {invitations.length > 0 && (
+            <div className="mt-6 space-y-3">
+              <h4 className="font-medium">Pending Invitations ({invitations.length})</h4>
+              {invitations.map((invitation) => {
+                const expired = new Date(invitation.expiresAt) < new Date();
+                return (
+                  <div key={invitation.id} className="flex items-center justify-between p-3 rounded-lg border">
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">{invitation.name || invitation.email}</span>
+                        <Badge variant="outline">{getRoleLabel(invitation.role)}</Badge>
+                        {expired && <Badge variant="destructive">Expired</Badge>}
+                      </div>
+                      <p className="text-sm text-gray-500">{invitation.email}</p>
+                      <p className="text-xs text-gray-400">
+                        Last sent {new Date(invitation.lastSentAt).toLocaleString()} · Expires {new Date(invitation.expiresAt).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => resendInvitationMutation.mutate(invitation.id)}
+                        disabled={resendInvitationMutation.isPending}
+                      >
+                        <RefreshCw className="h-4 w-4 mr-1" />
+                        Resend
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleRevokeInvitation(invitation)}
+                        disabled={revokeInvitationMutation.isPending}
+                      >
+                        <X className="h-4 w-4 mr-1" />
+                        Revoke
+                      </Button>
+                    </div>
                   </div>
-                </div>
-                <Button
-                  size="sm"
-                  variant="ghost"
-                  onClick={() => setLastInviteResult(null)}
-                >
-                  ×
-                </Button>
-              </div>
+                );
+              })}
             </div>
           )}
         </CardContent>
       </Card>
+      )}
 
       {/* Organization Members */}
       <Card>
@@ -436,9 +824,37 @@ export default function OrganizationManagement() {
                           <h3 className="font-medium">{member.name}</h3>
                           <p className="text-sm text-gray-500">{member.email}</p>
                         </div>
-                        <Badge variant={getRoleBadgeVariant(member.role)}>
-                          {member.role}
-                        </Badge>
+                        {canChangeMember(member) ? (
+                          <Select
+                            value={normalizeRole(member.role) ?? member.role}
+                            onValueChange={(value) => updateRoleMutation.mutate({ userId: member.id, role: value as AssignableRole })}
+                            disabled={updateRoleMutation.isPending}
+                          >
+                            <SelectTrigger className="h-7 w-36">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {ASSIGNABLE_ROLES.filter((role) => isOwner || role !== 'admin').map((role) => (
+                                <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        ) : (
+                          <Badge variant={getRoleBadgeVariant(member.role)}>
+                            {getRoleLabel(member.role)}
+                          </Badge>
+                        )}
+                        {member.mfaEnabled && (
+                          <Badge variant="outline" className="text-green-700 border-green-300">
+                            MFA
+                          </Badge>
+                        )}
+                        {isLocked(member) && (
+                          <Badge variant="destructive" className="flex items-center gap-1">
+                            <Lock className="h-3 w-3" />
+                            Locked until {new Date(member.lockedUntil!).toLocaleTimeString()}
+                          </Badge>
+                        )}
                       </div>
                       <div className="mt-2 text-xs text-gray-400">
                         Joined: {new Date(member.createdAt).toLocaleDateString()}
@@ -448,55 +864,130 @@ export default function OrganizationManagement() {
                           </span>
                         )}
                       </div>
-                      {/* Show temporary password if user hasn't logged in yet */}
-                      {member.tempPassword && !member.lastLoginAt && (
-                        <div className="mt-3 p-3 bg-yellow-50 border border-yellow-200 rounded">
-                          <div className="flex items-center justify-between">
-                            <div className="flex-1">
-                              <p className="text-sm text-yellow-700 font-medium">
-                                Temporary Password:
-                              </p>
-                              <div className="flex items-center gap-2 mt-1">
-                                <code className="px-2 py-1 bg-yellow-100 text-yellow-900 rounded text-sm font-mono">
-                                  {member.tempPassword}
-                                </code>
-                                <Button
-                                  size="sm"
-                                  variant="outline"
-                                  onClick={() => copyPasswordToClipboard(member.tempPassword!)}
-                                  disabled={copiedPassword}
-                                  className="h-6 px-2"
-                                >
-                                  {copiedPassword ? (
-                                    <Check className="h-3 w-3" />
-                                  ) : (
-                                    <Copy className="h-3 w-3" />
-                                  )}
-                                </Button>
-                              </div>
-                            </div>
-                          </div>
-                        </div>
+                    </div>
+                    <div className="flex gap-2">
+                      {canManageMembers && isLocked(member) && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => unlockUserMutation.mutate(member.id)}
+                          disabled={unlockUserMutation.isPending}
+                        >
+                          <Unlock className="h-4 w-4 mr-1" />
+                          Unlock
+                        </Button>
+                      )}
+                      {can("organization:transfer") && member.id !== currentUserId && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setTransferTarget(member)}
+                        >
+                          <Crown className="h-4 w-4 mr-1" />
+                          Make Owner
+                        </Button>
+                      )}
+                      {canChangeMember(member) && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleSignOutMember(member)}
+                          disabled={signOutMemberMutation.isPending}
+                        >
+                          <LogOut className="h-4 w-4 mr-1" />
+                          Sign Out
+                        </Button>
+                      )}
+                      {canChangeMember(member) && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleRemoveUser(member.id, member.name)}
+                          disabled={removeUserMutation.isPending}
+                        >
+                          Deactivate
+                        </Button>
                       )}
                     </div>
-                    {member.role !== 'owner' && (
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => handleRemoveUser(member.id, member.name)}
-                        disabled={removeUserMutation.isPending}
-                      >
-                        Remove
-                      </Button>
-                    )}
                   </div>
                   {index < members.length - 1 && <Separator />}
                 </div>
               ))}
             </div>
           )}
+
+          {/* Deactivated members */}
+          {inactiveMembers.length > 0 && (
+            <div className="mt-6 space-y-3">
+              <h4 className="font-medium">Deactivated Members ({inactiveMembers.length})</h4>
+              {inactiveMembers.map((member) => (
+                <div key={member.id} className="flex items-center justify-between p-3 rounded-lg border bg-gray-50">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-gray-600">{member.name}</span>
+                      <Badge variant="outline">{getRoleLabel(member.role)}</Badge>
+                    </div>
+                    <p className="text-sm text-gray-500">{member.email}</p>
+                  </div>
+                  {(isOwner || member.role !== 'admin') && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => reactivateMemberMutation.mutate(member.id)}
+                      disabled={reactivateMemberMutation.isPending}
+                    >
+                      <UserCheck className="h-4 w-4 mr-1" />
+                      Reactivate
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
         </CardContent>
       </Card>
+
+      {/* Transfer ownership confirmation */}
+      <Dialog
+        open={!!transferTarget}
+        onOpenChange={(open) => {
+          if (!open) {
+            setTransferTarget(null);
+            setTransferPassword("");
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Transfer ownership</DialogTitle>
+            <DialogDescription>
+              {transferTarget?.name} will become the owner of {(organization as Organization | undefined)?.name}. You will become an admin and
+              can no longer undo this yourself.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleTransferOwnership} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="transferPassword">Confirm your password</Label>
+              <Input
+                id="transferPassword"
+                type="password"
+                value={transferPassword}
+                onChange={(e) => setTransferPassword(e.target.value)}
+                autoComplete="current-password"
+                required
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setTransferTarget(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" variant="destructive" disabled={transferOwnershipMutation.isPending || !transferPassword}>
+                {transferOwnershipMutation.isPending ? "Transferring..." : "Transfer Ownership"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
\ No newline at end of file
@@ -7,6 +7,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
+import { DEFAULT_PASSWORD_POLICY, describePasswordPolicy, validatePasswordRules } from "@shared/password-policy";
 
 export default function Register() {
   const [organizationName, setOrganizationName] = useState("");
@@ -38,10 +39,12 @@ export default function Register() {
       return;
     }
     
-    if (password.length < 6) {
+    // New organizations start on the default password policy
+    const passwordErrors = validatePasswordRules(password, DEFAULT_PASSWORD_POLICY);
+    if (passwordErrors.length > 0) {
       toast({
         title: "Error",
-        description: "Password must be at least 6 characters",
+        description: passwordErrors.join(". "),
         variant: "destructive",
       });
       return;
@@ -127,11 +130,13 @@ export default function Register() {
               <Input
                 id="password"
                 type="password"
-                placeholder="Enter password (min 6 characters)"
+                placeholder="Enter password"
                 value={password}
                 onChange={(e) => setPassword(e.target.value)}
+                autoComplete="new-password"
                 required
               />
+              <p className="text-xs text-gray-500">{describePasswordPolicy(DEFAULT_PASSWORD_POLICY)}</p>
             </div>
             <Button type="submit" className="w-full" disabled={isRegisterLoading}>
               {isRegisterLoading ? "Creating Organization..." : "Create Organization"}
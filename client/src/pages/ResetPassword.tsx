@@ -0,0 +1,248 @@
+import { useState } from "react";
+import { useLocation, useRoute } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { KeyRound, AlertTriangle, CheckCircle } from "lucide-react";
+import { PASSWORD_MIN_LENGTH_FLOOR } from "@shared/password-policy";
+
+async function postJson(url: string, body: unknown) {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
+    throw new Error(errorData.error || `HTTP ${response.status}`);
+  }
+
+  return await response.json();
+}
+
+// Step 1: request a reset link by email
+function ForgotPasswordForm() {
+  const [, setLocation] = useLocation();
+  const [email, setEmail] = useState("");
+  const [submitted, setSubmitted] = useState(false);
+  const { toast } = useToast();
+
+  const requestResetMutation = useMutation({
+    mutationFn: (email: string) => postJson("/api/auth/forgot-password", { email }),
+    onSuccess: () => setSubmitted(true),
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to request password reset",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (submitted) {
+    return (
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="mx-auto mb-4 flex h-12 w-12 items-center justify-center rounded-full bg-green-100">
+            <CheckCircle className="h-6 w-6 text-green-600" />
+          </div>
+          <CardTitle>Check your email</CardTitle>
+          <CardDescription>
+            If an account exists for {email}, a password reset link is on its way. The link expires in 30 minutes.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Button variant="outline" className="w-full" onClick={() => setLocation("/login")}>
+            Back to sign in
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="w-full max-w-md">
+      <CardHeader className="space-y-1">
+        <div className="mx-auto mb-2 flex h-12 w-12 items-center justify-center rounded-full bg-blue-100">
+          <KeyRound className="h-6 w-6 text-blue-600" />
+        </div>
+        <CardTitle className="text-2xl font-bold text-center">Forgot your password?</CardTitle>
+        <CardDescription className="text-center">
+          Enter your email and we'll send you a link to reset it
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            requestResetMutation.mutate(email);
+          }}
+          className="space-y-4"
+        >
+          <div className="space-y-2">
+            <Label htmlFor="email">Email</Label>
+            <Input
+              id="email"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="your.email@example.com"
+              required
+            />
+          </div>
+          <Button type="submit" className="w-full" disabled={requestResetMutation.isPending}>
+            {requestResetMutation.isPending ? "Sending..." : "Send Reset Link"}
+          </Button>
+          <Button type="button" variant="ghost" className="w-full" onClick={() => setLocation("/login")}>
+            Back to sign in
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
+// Step 2: choose a new password from the emailed link
+function ResetPasswordForm({ token }: { token: string }) {
+  const [, setLocation] = useLocation();
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const { toast } = useToast();
+
+  const { data: resetInfo, isLoading, error } = useQuery<{ email: string; expiresAt: string; passwordRequirements?: string }>({
+    queryKey: ["/api/auth/reset-password", token],
+    retry: false,
+    queryFn: async () => {
+      const response = await fetch(`/api/auth/reset-password/${token}`);
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
+        throw new Error(errorData.error || `HTTP ${response.status}`);
+      }
+      return response.json();
+    },
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: (password: string) => postJson("/api/auth/reset-password", { token, password }),
+    onSuccess: (data) => {
+      toast({
+        title: "Success",
+        description: data.message,
+      });
+      // Any session in this browser was revoked along with the others
+      window.location.href = "/login";
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to reset password",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password.length < PASSWORD_MIN_LENGTH_FLOOR) {
+      toast({
+        title: "Error",
+        description: `Password must be at least ${PASSWORD_MIN_LENGTH_FLOOR} characters long`,
+        variant: "destructive",
+      });
+      return;
+    }
+    if (password !== confirmPassword) {
+      toast({
+        title: "Error",
+        description: "Passwords do not match",
+        variant: "destructive",
+      });
+      return;
+    }
+    resetMutation.mutate(password);
+  };
+
+  if (isLoading) {
+    return <div className="text-lg">Validating reset link...</div>;
+  }
+
+  if (error || !resetInfo) {
+    return (
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="mx-auto mb-4 flex h-12 w-12 items-center justify-center rounded-full bg-red-100">
+            <AlertTriangle className="h-6 w-6 text-red-600" />
+          </div>
+          <CardTitle>Reset link unavailable</CardTitle>
+          <CardDescription>
+            {(error as Error)?.message || "This reset link is invalid or has expired"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Button className="w-full" onClick={() => setLocation("/forgot-password")}>
+            Request a new link
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="w-full max-w-md">
+      <CardHeader className="space-y-1">
+        <CardTitle className="text-2xl font-bold text-center">Choose a new password</CardTitle>
+        <CardDescription className="text-center">
+          For {resetInfo.email}. You will be signed out of all other devices.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="newPassword">New Password</Label>
+            <Input
+              id="newPassword"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoComplete="new-password"
+              required
+            />
+            {resetInfo?.passwordRequirements && (
+              <p className="text-xs text-gray-500">{resetInfo.passwordRequirements}</p>
+            )}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="confirmPassword">Confirm New Password</Label>
+            <Input
+              id="confirmPassword"
+              type="password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              autoComplete="new-password"
+              required
+            />
+          </div>
+          <Button type="submit" className="w-full" disabled={resetMutation.isPending}>
+            {resetMutation.isPending ? "Resetting..." : "Reset Password"}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function ResetPassword() {
+  const [, params] = useRoute("/reset-password/:token");
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      {params?.token ? <ResetPasswordForm token={params.token} /> : <ForgotPasswordForm />}
+    </div>
+  );
+}
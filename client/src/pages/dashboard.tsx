@@ -5,7 +5,8 @@ import { Button } from '@/components/ui/button'
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
 import { Users, Calendar, FileText, TrendingUp, Clock, AlertTriangle, ExternalLink } from 'lucide-react'
-import { format } from 'date-fns'
+import { differenceInCalendarDays, format } from 'date-fns'
+import { addCalendarDays, addCalendarMonths, calendarDateToLocal, todayCalendarDate } from '@shared/dates'
 import { OrganizationSwitcher } from "@/components/OrganizationSwitcher"
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts'
 
@@ -32,7 +33,6 @@ interface Patient {
   authStatus?: string
   scheduleStatus?: string
   lastVoicemailAt?: string
-  notes?: string
 }
 
 interface Appointment {
@@ -101,13 +101,11 @@ export default function Dashboard() {
       scheduleStatusPatients[status].push(patient)
     })
 
-    // Upcoming appointments (next 30 days)
-    const next30Days = new Date(today.getTime() + 30 * 24 * 60 * 60 * 1000)
+    // Upcoming appointments (next 30 days); appointment dates are YYYY-MM-DD and compare as strings
+    const todayDate = todayCalendarDate()
+    const next30Days = addCalendarDays(todayDate, 30)
     const upcomingAppointmentsList = appointmentsArray
-      .filter((apt: Appointment) => {
-        const aptDate = new Date(apt.appointmentDate)
-        return aptDate > today && aptDate <= next30Days
-      })
+      .filter((apt: Appointment) => apt.appointmentDate > todayDate && apt.appointmentDate <= next30Days)
       .map((apt: Appointment) => {
         const patient = patientsArray.find(p => p.id === apt.patientId)
         return {
@@ -115,14 +113,11 @@ export default function Dashboard() {
           patientName: patient ? `${patient.lastName}, ${patient.firstName}` : 'Unknown Patient'
         } as AppointmentWithPatient
       })
-      .sort((a, b) => new Date(a.appointmentDate).getTime() - new Date(b.appointmentDate).getTime())
+      .sort((a, b) => a.appointmentDate.localeCompare(b.appointmentDate))
 
     // Overdue appointments (past appointments without completion)
     const overdueAppointmentsList = appointmentsArray
-      .filter((apt: Appointment) => {
-        const aptDate = new Date(apt.appointmentDate)
-        return aptDate < today && apt.status !== 'Completed'
-      })
+      .filter((apt: Appointment) => apt.appointmentDate < todayDate && apt.status !== 'Completed')
       .map((apt: Appointment) => {
         const patient = patientsArray.find(p => p.id === apt.patientId)
         return {
@@ -130,18 +125,14 @@ export default function Dashboard() {
           patientName: patient ? `${patient.lastName}, ${patient.firstName}` : 'Unknown Patient'
         } as AppointmentWithPatient
       })
-      .sort((a, b) => new Date(b.appointmentDate).getTime() - new Date(a.appointmentDate).getTime())
+      .sort((a, b) => b.appointmentDate.localeCompare(a.appointmentDate))
 
 
 
     // Calculate appointments per month (last 12 months)
-    const twelveMonthsAgo = new Date()
-    twelveMonthsAgo.setMonth(twelveMonthsAgo.getMonth() - 12)
+    const twelveMonthsAgo = addCalendarMonths(todayDate, -12)
     
-    const recentAppointments = appointmentsArray.filter((apt: Appointment) => {
-      const aptDate = new Date(apt.appointmentDate)
-      return aptDate >= twelveMonthsAgo
-    })
+    const recentAppointments = appointmentsArray.filter((apt: Appointment) => apt.appointmentDate >= twelveMonthsAgo)
     
     // Create array of last 12 months with appointment counts
     const monthlyAppointmentsData = []
@@ -149,14 +140,11 @@ export default function Dashboard() {
     
     for (let i = 11; i >= 0; i--) {
       const date = new Date(currentDate.getFullYear(), currentDate.getMonth() - i, 1)
-      const monthKey = date.toISOString().substring(0, 7) // YYYY-MM format
+      const monthKey = format(date, 'yyyy-MM')
       const monthName = date.toLocaleString('default', { month: 'long', year: 'numeric' })
       const shortMonth = date.toLocaleString('default', { month: 'short' })
       
-      const appointmentCount = recentAppointments.filter((apt: Appointment) => {
-        const aptDate = new Date(apt.appointmentDate)
-        return aptDate.toISOString().substring(0, 7) === monthKey
-      }).length
+      const appointmentCount = recentAppointments.filter((apt: Appointment) => apt.appointmentDate.startsWith(monthKey)).length
       
       monthlyAppointmentsData.push({
         month: monthName,
@@ -296,7 +284,7 @@ export default function Dashboard() {
                     {metrics.upcomingAppointmentsList.map((appointment: AppointmentWithPatient) => (
                       <TableRow key={appointment.id}>
                         <TableCell className="font-medium py-2">{appointment.patientName}</TableCell>
-                        <TableCell className="py-2">{format(new Date(appointment.appointmentDate), 'MMM dd')}</TableCell>
+                        <TableCell className="py-2">{format(calendarDateToLocal(appointment.appointmentDate), 'MMM dd')}</TableCell>
                         <TableCell className="py-2">
                           <Badge className="bg-blue-100 text-blue-800 text-xs">
                             {appointment.status || 'Scheduled'}
@@ -362,11 +350,11 @@ export default function Dashboard() {
                   </TableHeader>
                   <TableBody>
                     {metrics.overdueAppointmentsList.map((appointment: AppointmentWithPatient) => {
-                      const daysOverdue = Math.floor((new Date().getTime() - new Date(appointment.appointmentDate).getTime()) / (1000 * 60 * 60 * 24))
+                      const daysOverdue = differenceInCalendarDays(new Date(), calendarDateToLocal(appointment.appointmentDate))
                       return (
                         <TableRow key={appointment.id}>
                           <TableCell className="font-medium py-2">{appointment.patientName}</TableCell>
-                          <TableCell className="py-2">{format(new Date(appointment.appointmentDate), 'MMM dd')}</TableCell>
+                          <TableCell className="py-2">{format(calendarDateToLocal(appointment.appointmentDate), 'MMM dd')}</TableCell>
                           <TableCell className="py-2">
                             <Badge className="bg-red-100 text-red-800 text-xs">
                               {appointment.status || 'Scheduled'}
@@ -118,8 +118,8 @@ export default function ESignatureForm() {
       })
       
       if (!response.ok) {
-        const errorText = await response.text()
-        throw new Error(`Upload failed: ${errorText}`)
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(`Upload failed: ${errorData.error || response.status}`)
       }
       const result = await response.json()
       
@@ -173,7 +173,10 @@ export default function ESignatureForm() {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ epicText: text, patientId: createdPatient?.id })
       })
-      if (!response.ok) throw new Error('Extraction failed')
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || 'Extraction failed')
+      }
       return response.json()
     },
     onSuccess: (data) => {
@@ -216,7 +219,10 @@ export default function ESignatureForm() {
         body: formData,
       })
       
-      if (!response.ok) throw new Error('Failed to add clinical note')
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || 'Failed to add clinical note')
+      }
       return response.json()
     },
     onSuccess: () => {
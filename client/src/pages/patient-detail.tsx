@@ -36,13 +36,22 @@ import {
   X,
   Plus,
   Copy,
+  Download,
   ChevronDown,
   ChevronUp,
   Clipboard
 } from 'lucide-react'
 import { format } from 'date-fns'
+import { calendarDateToLocal, formatCalendarDate, todayCalendarDate } from '@shared/dates'
 import { EpicInsuranceExtractor } from '@/components/EpicInsuranceExtractor'
 import { DragDropFileUpload } from '@/components/DragDropFileUpload'
+import { BreakGlassCard } from '@/components/BreakGlassCard'
+import { PatientRestrictionCard } from '@/components/PatientRestrictionCard'
+import { PatientDisclosuresCard } from '@/components/PatientDisclosuresCard'
+import { PatientChangeHistoryCard } from '@/components/PatientChangeHistoryCard'
+import { PatientVersionsCard } from '@/components/PatientVersionsCard'
+import { PatientNotesCard } from '@/components/PatientNotesCard'
+import { useAuth } from '@/hooks/useAuth'
 
 // Component for expandable text fields
 const ExpandableText = ({ 
@@ -94,131 +103,6 @@ const ExpandableText = ({
   )
 }
 
-// Component to display organized notes with sections
-const OrganizedNotesDisplay = ({ 
-  notes, 
-  expandedFields, 
-  setExpandedFields 
-}: { 
-  notes?: string | null,
-  expandedFields: {[key: string]: boolean},
-  setExpandedFields: (fields: {[key: string]: boolean}) => void
-}) => {
-  if (!notes) {
-    return <div className="text-gray-400 italic">No notes</div>
-  }
-
-  // Parse notes into sections
-  const sections = {
-    userNotes: [] as string[],
-    voicemails: [] as string[],
-    insuranceUpdates: [] as string[]
-  }
-
-  const lines = notes.split('\n')
-  let currentSection = 'userNotes' // Default section for legacy notes
-
-  for (const line of lines) {
-    if (line === '=== USER NOTES ===') {
-      currentSection = 'userNotes'
-      continue
-    } else if (line === '=== VOICEMAILS ===') {
-      currentSection = 'voicemails'
-      continue
-    } else if (line === '=== INSURANCE & AUTH UPDATES ===') {
-      currentSection = 'insuranceUpdates'
-      continue
-    }
-
-    if (line.trim()) {
-      if (currentSection === 'userNotes') {
-        sections.userNotes.push(line)
-      } else if (currentSection === 'voicemails') {
-        sections.voicemails.push(line)
-      } else if (currentSection === 'insuranceUpdates') {
-        sections.insuranceUpdates.push(line)
-      }
-    }
-  }
-
-  // If no sections found, treat as legacy unorganized notes
-  const hasOrganizedSections = notes.includes('=== USER NOTES ===') || notes.includes('=== VOICEMAILS ===') || notes.includes('=== INSURANCE & AUTH UPDATES ===')
-  
-  if (!hasOrganizedSections) {
-    return (
-      <ExpandableText
-        text={notes}
-        fieldKey="legacy-notes"
-        maxLength={300}
-        expandedFields={expandedFields}
-        setExpandedFields={setExpandedFields}
-        className="text-sm text-gray-700"
-      />
-    )
-  }
-
-  return (
-    <div className="space-y-4">
-      {sections.userNotes.length > 0 && (
-        <div>
-          <h4 className="flex items-center gap-2 text-sm font-semibold text-gray-800 mb-2">
-            <FileText className="h-4 w-4" />
-            User Notes
-          </h4>
-          <div className="pl-6">
-            <ExpandableText
-              text={sections.userNotes.join('\n')}
-              fieldKey="user-notes"
-              maxLength={300}
-              expandedFields={expandedFields}
-              setExpandedFields={setExpandedFields}
-              className="text-sm text-gray-700"
-            />
-          </div>
-        </div>
-      )}
-      
-      {sections.voicemails.length > 0 && (
-        <div>
-          <h4 className="flex items-center gap-2 text-sm font-semibold text-gray-800 mb-2">
-            <Phone className="h-4 w-4" />
-            Voicemails
-          </h4>
-          <div className="pl-6">
-            <ExpandableText
-              text={sections.voicemails.join('\n')}
-              fieldKey="voicemails"
-              maxLength={300}
-              expandedFields={expandedFields}
-              setExpandedFields={setExpandedFields}
-              className="text-sm text-blue-700"
-            />
-          </div>
-        </div>
-      )}
-      
-      {sections.insuranceUpdates.length > 0 && (
-        <div>
-          <h4 className="flex items-center gap-2 text-sm font-semibold text-gray-800 mb-2">
-            <Shield className="h-4 w-4" />
-            Insurance & Auth Updates
-          </h4>
-          <div className="pl-6">
-            <ExpandableText
-              text={sections.insuranceUpdates.join('\n')}
-              fieldKey="insurance-updates"
-              maxLength={300}
-              expandedFields={expandedFields}
-              setExpandedFields={setExpandedFields}
-              className="text-sm text-green-700"
-            />
-          </div>
-        </div>
-      )}
-    </div>
-  )
-}
-
 interface Patient {
   id: number
   firstName: string
@@ -244,12 +128,12 @@ interface Patient {
   refNumber?: string
   startDate?: string
   endDate?: string
-  notes?: string
   leqvioCopayProgram?: boolean
   leqvioCvgStatus?: string
   leqvioEffectiveFrom?: string
   leqvioSubscriber?: string
   leqvioSubscriberId?: string
+  isRestricted?: boolean
   createdAt: string
   updatedAt: string
 }
@@ -258,6 +142,7 @@ interface PatientDocument {
   id: number
   documentType: string
   fileName: string
+  fileUrl?: string | null // Set when the original upload is stored
   extractedData?: string
   metadata?: any
   createdAt: string
@@ -277,6 +162,14 @@ export default function PatientDetail() {
   const { toast } = useToast()
   const params = useParams()
   const patientId = parseInt(params.id as string)
+  const { can } = useAuth()
+  const canUpdatePatient = can('patient:update')
+  const canDeletePatient = can('patient:delete')
+  const canManageAppointments = can('appointment:manage')
+  const canUploadDocuments = can('document:upload')
+  const canDeleteDocuments = can('document:delete')
+  const canRestrictPatient = can('patient:restrict')
+  const canReadAudit = can('audit:read')
   
   const [activeTab, setActiveTab] = useState<'patient-info' | 'ai-analysis'>('patient-info')
   const [isEditing, setIsEditing] = useState(false)
@@ -288,7 +181,6 @@ export default function PatientDetail() {
   const [clinicalNotes, setClinicalNotes] = useState('')
   const [showTextExtractor, setShowTextExtractor] = useState(false)
   const [showClinicalNote, setShowClinicalNote] = useState(false)
-  const [userNotes, setUserNotes] = useState('')
   const [processResult, setProcessResult] = useState<any>(null)
   const [showAigentsData, setShowAigentsData] = useState(false)
   const [viewedDocument, setViewedDocument] = useState<PatientDocument | null>(null)
@@ -301,11 +193,7 @@ export default function PatientDetail() {
     furtherAnalysis: false,
     letterOfMedicalNecessity: false,
     approvalLikelihood: false,
-    denialAppealLetter: false,
-    "legacy-notes": false,
-    "user-notes": false,
-    "voicemails": false,
-    "insurance-updates": false
+    denialAppealLetter: false
   })
   
   // Rejection letter states
@@ -314,80 +202,6 @@ export default function PatientDetail() {
   const [isUploadingRejection, setIsUploadingRejection] = useState(false)
   const [showDeleteDialog, setShowDeleteDialog] = useState(false)
 
-  // Helper function to extract user notes from organized notes
-  const extractUserNotes = (notes?: string | null): string => {
-    if (!notes) return ''
-    
-    if (!notes.includes('=== USER NOTES ===')) {
-      // If no organized sections, treat as legacy user notes
-      const hasOtherSections = notes.includes('=== VOICEMAILS ===') || notes.includes('=== INSURANCE & AUTH UPDATES ===')
-      if (!hasOtherSections) {
-        return notes
-      }
-      return ''
-    }
-    
-    const lines = notes.split('\n')
-    const userNotesLines: string[] = []
-    let inUserNotesSection = false
-    
-    for (const line of lines) {
-      if (line === '=== USER NOTES ===') {
-        inUserNotesSection = true
-        continue
-      } else if (line.startsWith('=== ') && line.endsWith(' ===')) {
-        inUserNotesSection = false
-        continue
-      }
-      
-      if (inUserNotesSection) {
-        userNotesLines.push(line)
-      }
-    }
-    
-    return userNotesLines.join('\n').trim()
-  }
-
-  // Helper function to update user notes in organized notes structure
-  const updateUserNotesInOrganized = (currentNotes?: string | null, newUserNotes?: string): string => {
-    if (!currentNotes) {
-      return newUserNotes ? `=== USER NOTES ===\n${newUserNotes}` : ''
-    }
-    
-    const lines = currentNotes.split('\n')
-    const resultLines: string[] = []
-    let inUserNotesSection = false
-    let hasUserNotesSection = false
-    
-    // Process existing notes, replacing user notes section
-    for (const line of lines) {
-      if (line === '=== USER NOTES ===') {
-        hasUserNotesSection = true
-        inUserNotesSection = true
-        if (newUserNotes?.trim()) {
-          resultLines.push('=== USER NOTES ===')
-          resultLines.push(newUserNotes)
-        }
-        continue
-      } else if (line.startsWith('=== ') && line.endsWith(' ===')) {
-        inUserNotesSection = false
-        resultLines.push(line)
-        continue
-      }
-      
-      if (!inUserNotesSection) {
-        resultLines.push(line)
-      }
-    }
-    
-    // If no user notes section existed and we have new user notes, add it at the beginning
-    if (!hasUserNotesSection && newUserNotes?.trim()) {
-      return `=== USER NOTES ===\n${newUserNotes}\n\n${currentNotes}`
-    }
-    
-    return resultLines.join('\n').replace(/\n\n+/g, '\n\n').trim()
-  }
-
   // Helper function to parse AIGENTS response
   const parseAigentsResponse = (response: string) => {
     if (!response || response === 'No response content' || response === 'Webhook received (no response content)') {
@@ -460,10 +274,12 @@ export default function PatientDetail() {
     }
   }
 
-  const { data: patient, isLoading: patientLoading } = useQuery<Patient>({
+  const { data: patient, isLoading: patientLoading, error: patientError } = useQuery<Patient>({
     queryKey: [`/api/patients/${patientId}`],
     enabled: !!patientId
   })
+  // Restricted records the user is not on the access list for come back as 403 BREAK_GLASS_REQUIRED
+  const breakGlassRequired = (patientError as Error | null)?.message?.includes('BREAK_GLASS_REQUIRED') ?? false
 
   const { data: documents = [], isLoading: documentsLoading } = useQuery<PatientDocument[]>({
     queryKey: [`/api/patients/${patientId}/documents`],
@@ -511,6 +327,9 @@ export default function PatientDetail() {
         description: "Patient information updated successfully"
       })
       queryClient.invalidateQueries({ queryKey: [`/api/patients/${patientId}`] })
+      queryClient.invalidateQueries({ queryKey: [`/api/patients/${patientId}/history`] })
+      queryClient.invalidateQueries({ queryKey: [`/api/patients/${patientId}/versions`] })
+      queryClient.invalidateQueries({ queryKey: [`/api/patients/${patientId}/notes`] })
       setIsEditing(false)
       setIsEditingInsurance(false)
       setIsEditingLeqvio(false)
@@ -555,7 +374,10 @@ export default function PatientDetail() {
         method: 'POST',
         body: formData
       })
-      if (!response.ok) throw new Error('Failed to upload document')
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || 'Failed to upload document')
+      }
       return response.json()
     },
     onSuccess: (data) => {
@@ -602,6 +424,8 @@ export default function PatientDetail() {
         // Processing completed successfully
         queryClient.invalidateQueries({ queryKey: [`/api/patients/${patientId}/documents`] })
         queryClient.invalidateQueries({ queryKey: [`/api/patients/${patientId}`] })
+        queryClient.invalidateQueries({ queryKey: [`/api/patients/${patientId}/notes`] })
+        queryClient.invalidateQueries({ queryKey: [`/api/patients/${patientId}/versions`] })
         
         if (status.extractedData) {
           toast({
@@ -666,7 +490,10 @@ export default function PatientDetail() {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' }
       })
-      if (!response.ok) throw new Error('Failed to process patient data')
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || 'Failed to process patient data')
+      }
       return response.json()
     },
     onSuccess: (data) => {
@@ -696,7 +523,10 @@ export default function PatientDetail() {
           rejectionLetterText: rejectionLetterExtracted || rejectionLetterText || ''
         })
       })
-      if (!response.ok) throw new Error('Failed to run Denial AI analysis')
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || 'Failed to run Denial AI analysis')
+      }
       return response.json()
     },
     onSuccess: (data) => {
@@ -708,6 +538,7 @@ export default function PatientDetail() {
       queryClient.invalidateQueries({ queryKey: [`/api/patients/${patientId}/automation-logs`] })
       // Refresh patient data to show the appeal letter
       queryClient.invalidateQueries({ queryKey: [`/api/patients/${patientId}`] })
+      queryClient.invalidateQueries({ queryKey: [`/api/patients/${patientId}/versions`] })
     },
     onError: (error) => {
       toast({
@@ -817,11 +648,8 @@ export default function PatientDetail() {
       authNumber: patient.authNumber || '',
       refNumber: patient.refNumber || '',
       startDate: patient.startDate || '',
-      endDate: patient.endDate || '',
-      notes: patient.notes || ''
+      endDate: patient.endDate || ''
     })
-    // Initialize user notes separately
-    setUserNotes(extractUserNotes(patient.notes))
     setIsEditing(true)
   }
 
@@ -845,9 +673,6 @@ export default function PatientDetail() {
   }
 
   const handleSave = () => {
-    // Update the notes with the new user notes while preserving other sections
-    const updatedNotes = updateUserNotesInOrganized(patient?.notes, userNotes)
-    
     // Only send fields that can be updated
     const updateData: any = {
       firstName: editedData.firstName,
@@ -860,7 +685,6 @@ export default function PatientDetail() {
       address: editedData.address,
       mrn: editedData.mrn,
       campus: editedData.campus,
-      notes: updatedNotes,
       authNumber: editedData.authNumber,
       refNumber: editedData.refNumber,
       startDate: editedData.startDate,
@@ -888,7 +712,6 @@ export default function PatientDetail() {
   const handleCancel = () => {
     setIsEditing(false)
     setEditedData({})
-    setUserNotes('')
   }
 
   const handleSaveInsurance = () => {
@@ -1037,7 +860,8 @@ export default function PatientDetail() {
       })
 
       if (!response.ok) {
-        throw new Error('Failed to save rejection letter document')
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || 'Failed to save rejection letter document')
       }
 
       const result = await response.json()
@@ -1097,6 +921,14 @@ export default function PatientDetail() {
     )
   }
 
+  if (breakGlassRequired) {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-2xl">
+        <BreakGlassCard patientId={patientId} />
+      </div>
+    )
+  }
+
   if (!patient) {
     return (
       <div className="container mx-auto px-4 py-8 max-w-6xl">
@@ -1128,9 +960,18 @@ export default function PatientDetail() {
             <h1 className="text-3xl font-bold text-gray-900">
               {patient.lastName}, {patient.firstName}
             </h1>
-            <p className="text-gray-600 mt-1">Patient ID: {patient.id}</p>
+            <p className="text-gray-600 mt-1 flex items-center gap-2">
+              Patient ID: {patient.id}
+              {patient.isRestricted && (
+                <Badge variant="destructive" className="flex items-center gap-1">
+                  <Shield className="h-3 w-3" />
+                  Restricted
+                </Badge>
+              )}
+            </p>
           </div>
           <div className="flex items-center gap-2">
+            {canDeletePatient && (
             <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
               <AlertDialogTrigger asChild>
                 <Button variant="destructive" size="sm">
@@ -1163,6 +1004,7 @@ export default function PatientDetail() {
                 </AlertDialogFooter>
               </AlertDialogContent>
             </AlertDialog>
+            )}
           </div>
         </div>
       </div>
@@ -1202,7 +1044,7 @@ export default function PatientDetail() {
           <CardHeader>
             <div className="flex justify-between items-center">
               <CardTitle>Patient Information</CardTitle>
-              {!isEditing ? (
+              {!isEditing ? canUpdatePatient && (
                 <Button onClick={handleEdit} variant="outline" size="sm">
                   Edit
                 </Button>
@@ -1394,7 +1236,7 @@ export default function PatientDetail() {
                 <Shield className="h-5 w-5" />
                 Insurance Information
               </CardTitle>
-              {!isEditingInsurance ? (
+              {!isEditingInsurance ? canUpdatePatient && (
                 <Button onClick={handleEditInsurance} variant="outline" size="sm">
                   Edit
                 </Button>
@@ -1566,26 +1408,26 @@ export default function PatientDetail() {
                     <span className="font-medium block">Start Date:</span>
                     {isEditingInsurance ? (
                       <Input
+                        type="date"
                         value={editedData.startDate || ''}
                         onChange={(e) => setEditedData({...editedData, startDate: e.target.value})}
                         className="w-full"
-                        placeholder="MM/DD/YYYY"
                       />
                     ) : (
-                      <span className="block text-gray-600">{patient.startDate || 'Not provided'}</span>
+                      <span className="block text-gray-600">{formatCalendarDate(patient.startDate, 'Not provided')}</span>
                     )}
                   </div>
                   <div className="space-y-1 text-sm">
                     <span className="font-medium block">End Date:</span>
                     {isEditingInsurance ? (
                       <Input
+                        type="date"
                         value={editedData.endDate || ''}
                         onChange={(e) => setEditedData({...editedData, endDate: e.target.value})}
                         className="w-full"
-                        placeholder="MM/DD/YYYY"
                       />
                     ) : (
-                      <span className="block text-gray-600">{patient.endDate || 'Not provided'}</span>
+                      <span className="block text-gray-600">{formatCalendarDate(patient.endDate, 'Not provided')}</span>
                     )}
                   </div>
                 </div>
@@ -1623,7 +1465,7 @@ export default function PatientDetail() {
                             className="w-full"
                           />
                         ) : (
-                          <span className="block text-gray-600">{patient.leqvioEnrollmentDate || 'Not provided'}</span>
+                          <span className="block text-gray-600">{formatCalendarDate(patient.leqvioEnrollmentDate, 'Not provided')}</span>
                         )}
                       </div>
                     </div>
@@ -1698,14 +1540,16 @@ export default function PatientDetail() {
                 <CardTitle>Appointments</CardTitle>
                 <CardDescription>Track patient appointments and doses</CardDescription>
               </div>
-              <Button
-                onClick={() => setShowAddAppointment(true)}
-                size="sm"
-                className="flex items-center gap-2"
-              >
-                <Plus className="h-4 w-4" />
-                Add Appointment
-              </Button>
+              {canManageAppointments && (
+                <Button
+                  onClick={() => setShowAddAppointment(true)}
+                  size="sm"
+                  className="flex items-center gap-2"
+                >
+                  <Plus className="h-4 w-4" />
+                  Add Appointment
+                </Button>
+              )}
             </div>
           </CardHeader>
           <CardContent>
@@ -1728,7 +1572,7 @@ export default function PatientDetail() {
                       <Calendar className="h-5 w-5 text-gray-400" />
                       <div>
                         <p className="font-medium">
-                          {format(new Date(appointment.appointmentDate), 'MMM d, yyyy')}
+                          {format(calendarDateToLocal(appointment.appointmentDate), 'MMM d, yyyy')}
                         </p>
                         <p className="text-sm text-gray-500">
                           Dose #{appointment.doseNumber}
@@ -1737,7 +1581,7 @@ export default function PatientDetail() {
                     </div>
                     <div className="flex items-center gap-3">
                       {/* Only show status dropdown for past appointments */}
-                      {new Date(appointment.appointmentDate) < new Date() ? (
+                      {appointment.appointmentDate <= todayCalendarDate() ? (
                         <select
                           value={appointment.status}
                           onChange={(e) => handleUpdateAppointmentStatus(appointment.id, e.target.value)}
@@ -1753,15 +1597,17 @@ export default function PatientDetail() {
                           Scheduled
                         </span>
                       )}
-                      <Button
-                        size="sm"
-                        variant="outline"
-                        onClick={() => handleDeleteAppointment(appointment.id)}
-                        className="text-red-600 hover:text-red-700"
-                        disabled={deleteAppointmentMutation.isPending}
-                      >
-                        <Trash2 className="h-4 w-4" />
-                      </Button>
+                      {canManageAppointments && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleDeleteAppointment(appointment.id)}
+                          className="text-red-600 hover:text-red-700"
+                          disabled={deleteAppointmentMutation.isPending}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
                     </div>
                   </div>
                 ))}
@@ -1775,76 +1621,10 @@ export default function PatientDetail() {
 
 
         {/* Notes Section */}
-        <Card>
-          <CardHeader>
-            <div className="flex justify-between items-center">
-              <CardTitle className="flex items-center gap-2">
-                <FileText className="h-5 w-5" />
-                Notes
-              </CardTitle>
-              {!isEditing ? (
-                <Button onClick={handleEdit} variant="outline" size="sm">
-                  Edit
-                </Button>
-              ) : (
-                <div className="flex gap-2">
-                  <Button 
-                    onClick={handleSave} 
-                    size="sm"
-                    disabled={updatePatientMutation.isPending}
-                  >
-                    {updatePatientMutation.isPending ? (
-                      <Loader2 className="h-4 w-4 animate-spin" />
-                    ) : (
-                      <Save className="h-4 w-4" />
-                    )}
-                    Save
-                  </Button>
-                  <Button onClick={handleCancel} variant="outline" size="sm">
-                    Cancel
-                  </Button>
-                </div>
-              )}
-            </div>
-          </CardHeader>
-          <CardContent>
-            {isEditing ? (
-              <div className="space-y-4">
-                <div>
-                  <Label className="text-sm font-medium text-gray-700 mb-2 block">User Notes</Label>
-                  <Textarea
-                    value={userNotes}
-                    onChange={(e) => setUserNotes(e.target.value)}
-                    className="w-full min-h-32"
-                    placeholder="Add your notes about this patient..."
-                  />
-                  <p className="text-xs text-gray-500 mt-1">
-                    Only the user notes section will be updated. Voicemails and insurance updates are managed automatically.
-                  </p>
-                </div>
-                
-                {/* Show read-only view of other sections while editing */}
-                <div className="text-sm text-gray-700 p-4 bg-gray-50 rounded border">
-                  <OrganizedNotesDisplay 
-                    notes={patient.notes} 
-                    expandedFields={expandedFields}
-                    setExpandedFields={setExpandedFields}
-                  />
-                </div>
-              </div>
-            ) : (
-              <div className="text-sm text-gray-700 min-h-8 p-4 bg-gray-50 rounded border">
-                <OrganizedNotesDisplay 
-                  notes={patient.notes}
-                  expandedFields={expandedFields}
-                  setExpandedFields={setExpandedFields}
-                />
-              </div>
-            )}
-          </CardContent>
-        </Card>
+        <PatientNotesCard patientId={patientId} canEdit={canUpdatePatient} />
 
         {/* Document Upload */}
+        {canUploadDocuments && (
         <Card>
           <CardHeader>
             <CardTitle>Add Documents</CardTitle>
@@ -1956,6 +1736,8 @@ export default function PatientDetail() {
                     patientId={patient?.id}
                     onDataExtracted={(data) => {
                       queryClient.invalidateQueries({ queryKey: [`/api/patients/${patient?.id}`] });
+                      queryClient.invalidateQueries({ queryKey: [`/api/patients/${patient?.id}/notes`] });
+                      queryClient.invalidateQueries({ queryKey: [`/api/patients/${patient?.id}/versions`] });
                       setShowTextExtractor(false);
                     }}
                   />
@@ -2012,6 +1794,7 @@ export default function PatientDetail() {
             )}
           </CardContent>
         </Card>
+        )}
 
         {/* Documents List */}
         <Card>
@@ -2084,15 +1867,17 @@ export default function PatientDetail() {
                         <Eye className="h-4 w-4 mr-1" />
                         View
                       </Button>
-                      <Button
-                        size="sm"
-                        variant="outline"
-                        onClick={() => handleDeleteDocument(doc.id)}
-                        className="text-red-600 hover:text-red-700"
-                      >
-                        <Trash2 className="h-4 w-4 mr-1" />
-                        Delete
-                      </Button>
+                      {canDeleteDocuments && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleDeleteDocument(doc.id)}
+                          className="text-red-600 hover:text-red-700"
+                        >
+                          <Trash2 className="h-4 w-4 mr-1" />
+                          Delete
+                        </Button>
+                      )}
                     </div>
                   </div>
                 ))}
@@ -2101,6 +1886,13 @@ export default function PatientDetail() {
           </CardContent>
         </Card>
 
+        <PatientChangeHistoryCard patientId={patientId} />
+
+        <PatientVersionsCard patientId={patientId} canRevert={canUpdatePatient} />
+
+        {canRestrictPatient && <PatientRestrictionCard patientId={patientId} />}
+
+        {canReadAudit && <PatientDisclosuresCard patientId={patientId} />}
 
           </div>
         )}
@@ -2658,6 +2450,34 @@ export default function PatientDetail() {
               </p>
             </div>
             <div className="p-6 overflow-y-auto max-h-[calc(90vh-120px)]">
+              {viewedDocument.fileUrl && (
+                <div className="mb-6">
+                  <div className="flex items-center justify-between mb-2">
+                    <h3 className="font-semibold">Original Document</h3>
+                    <Button size="sm" variant="outline" asChild>
+                      <a href={`${viewedDocument.fileUrl}?download=1`}>
+                        <Download className="h-4 w-4 mr-1" />
+                        Download
+                      </a>
+                    </Button>
+                  </div>
+                  {viewedDocument.metadata?.contentType?.startsWith('image/') ? (
+                    <img
+                      src={viewedDocument.fileUrl}
+                      alt={viewedDocument.fileName}
+                      className="max-w-full max-h-[60vh] mx-auto border rounded"
+                    />
+                  ) : viewedDocument.metadata?.contentType === 'application/pdf' ? (
+                    <iframe
+                      src={viewedDocument.fileUrl}
+                      title={viewedDocument.fileName}
+                      className="w-full h-[60vh] border rounded"
+                    />
+                  ) : (
+                    <p className="text-sm text-gray-500">Preview is not available for this file type. Download it to view.</p>
+                  )}
+                </div>
+              )}
               {viewedDocument.documentType === 'clinical_note' && viewedDocument.metadata?.content ? (
                 <div className="whitespace-pre-wrap text-sm">{viewedDocument.metadata.content}</div>
               ) : (viewedDocument.documentType === 'rejection_letter' || viewedDocument.documentType === 'appeal_letter') && viewedDocument.extractedData ? (
@@ -5,10 +5,12 @@ import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { useToast } from '@/hooks/use-toast'
+import { useAuth } from '@/hooks/useAuth'
 import { Link } from 'wouter'
 import { Badge } from '@/components/ui/badge'
-import { UserPlus, Search, Eye, FileSpreadsheet, Download, ArrowUpDown, ArrowUp, ArrowDown, Mic, Calendar, Pencil, Copy } from 'lucide-react'
+import { UserPlus, Search, Eye, FileSpreadsheet, Download, ArrowUpDown, ArrowUp, ArrowDown, Mic, Calendar, Pencil, Copy, Lock } from 'lucide-react'
 import { format } from 'date-fns'
+import { calendarDateToLocal, formatCalendarDate, todayCalendarDate } from '@shared/dates'
 import { queryClient } from '@/lib/queryClient'
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
@@ -30,8 +32,9 @@ interface Patient {
   authStatus?: string
   scheduleStatus?: string
   doseNumber?: number
-  notes?: string
+  notesPreview?: string | null // Pinned or latest user note
   lastVoicemailAt?: string
+  isRestricted?: boolean
   createdAt: string
 }
 
@@ -160,19 +163,20 @@ const PatientRow = ({ patient, onAuthStatusChange, onScheduleStatusChange, onDos
     }
   })
 
+  // Appointment dates are YYYY-MM-DD, so they compare and sort as strings
   const getLastAppointment = () => {
-    const today = new Date()
+    const today = todayCalendarDate()
     const pastAppointments = appointments
-      .filter((apt: any) => new Date(apt.appointmentDate) <= today)
-      .sort((a: any, b: any) => new Date(b.appointmentDate).getTime() - new Date(a.appointmentDate).getTime())
+      .filter((apt: any) => apt.appointmentDate <= today)
+      .sort((a: any, b: any) => b.appointmentDate.localeCompare(a.appointmentDate))
     return pastAppointments[0] || null
   }
 
   const getNextAppointment = () => {
-    const today = new Date()
+    const today = todayCalendarDate()
     const futureAppointments = appointments
-      .filter((apt: any) => new Date(apt.appointmentDate) > today)
-      .sort((a: any, b: any) => new Date(a.appointmentDate).getTime() - new Date(b.appointmentDate).getTime())
+      .filter((apt: any) => apt.appointmentDate > today)
+      .sort((a: any, b: any) => a.appointmentDate.localeCompare(b.appointmentDate))
     return futureAppointments[0] || null
   }
 
@@ -182,42 +186,9 @@ const PatientRow = ({ patient, onAuthStatusChange, onScheduleStatusChange, onDos
   // Check if row should be flagged (light red background)
   const isRowFlagged = patient.authStatus === 'APT SCHEDULED W/O AUTH'
   
-  // Get notes preview (truncated for table display, only actual notes - no voicemails or insurance updates)
+  // Get notes preview (truncated for table display, only user notes - no voicemails or insurance updates)
   const getNotesPreview = () => {
-    if (!patient.notes) return ''
-    
-    // Extract only the actual notes section (before voicemails and insurance updates)
-    const notesText = patient.notes
-    let actualNotes = ''
-    
-    // Check if there are organized sections
-    const voicemailsIndex = notesText.indexOf('=== VOICEMAILS ===')
-    const insuranceIndex = notesText.indexOf('=== INSURANCE & AUTH UPDATES ===')
-    const userNotesIndex = notesText.indexOf('=== USER NOTES ===')
-    
-    if (userNotesIndex !== -1) {
-      // If there's a user notes section, extract content after the header
-      let startIndex = userNotesIndex + '=== USER NOTES ==='.length
-      let endIndex = notesText.length
-      
-      // Find where user notes section ends (before voicemails or insurance sections)
-      if (voicemailsIndex > userNotesIndex && voicemailsIndex < endIndex) {
-        endIndex = voicemailsIndex
-      }
-      if (insuranceIndex > userNotesIndex && insuranceIndex < endIndex) {
-        endIndex = insuranceIndex
-      }
-      
-      actualNotes = notesText.substring(startIndex, endIndex).trim()
-    } else {
-      // If no organized sections, take content until first section marker
-      let endIndex = notesText.length
-      if (voicemailsIndex !== -1) endIndex = Math.min(endIndex, voicemailsIndex)
-      if (insuranceIndex !== -1) endIndex = Math.min(endIndex, insuranceIndex)
-      
-      actualNotes = notesText.substring(0, endIndex).trim()
-    }
-    
+    const actualNotes = patient.notesPreview?.trim()
     if (!actualNotes) return ''
     
     // Truncate to 100 characters and add ellipsis if longer
@@ -291,7 +262,10 @@ const PatientRow = ({ patient, onAuthStatusChange, onScheduleStatusChange, onDos
             }}
             title="Click to view patient details"
           >
-            <div className="font-semibold text-blue-700 hover:text-blue-800">{patient.lastName}, {patient.firstName}</div>
+            <div className="font-semibold text-blue-700 hover:text-blue-800 flex items-center gap-1">
+              {patient.isRestricted && <Lock className="h-3 w-3 text-red-600" aria-label="Restricted record" />}
+              {patient.lastName}, {patient.firstName}
+            </div>
             {patient.mrn && (
               <div className="text-sm text-gray-600 flex items-center gap-1">
                 MRN: {patient.mrn}
@@ -313,7 +287,11 @@ const PatientRow = ({ patient, onAuthStatusChange, onScheduleStatusChange, onDos
                 </Button>
               </div>
             )}
-            <div className="text-sm text-gray-600">DOB: {patient.dateOfBirth}</div>
+            {patient.dateOfBirth ? (
+              <div className="text-sm text-gray-600">DOB: {patient.dateOfBirth}</div>
+            ) : patient.isRestricted && (
+              <div className="text-sm text-red-600">Restricted record</div>
+            )}
           </div>
 
         </div>
@@ -346,8 +324,8 @@ const PatientRow = ({ patient, onAuthStatusChange, onScheduleStatusChange, onDos
       {/* Auth Info */}
       <TableCell className="w-[14%] px-2 py-2 text-xs">
         <div className="space-y-1">
-          <div>Start: {patient.startDate || ''}</div>
-          <div>End: {patient.endDate || ''}</div>
+          <div>Start: {formatCalendarDate(patient.startDate)}</div>
+          <div>End: {formatCalendarDate(patient.endDate)}</div>
           <div>Auth #: {patient.authNumber || ''}</div>
           <div>Ref #: {patient.refNumber || ''}</div>
         </div>
@@ -430,7 +408,7 @@ const PatientRow = ({ patient, onAuthStatusChange, onScheduleStatusChange, onDos
       <TableCell className="w-[10%] px-2 py-2 text-xs">
         {lastAppointment ? (
           <div className="space-y-1">
-            <div className="font-medium">{lastAppointment.appointmentDate}</div>
+            <div className="font-medium">{formatCalendarDate(lastAppointment.appointmentDate)}</div>
             <Select 
               value={lastAppointment.status || 'Scheduled'}
               onValueChange={(status) => onAppointmentStatusChange(lastAppointment.id, status, patient.id)}
@@ -461,7 +439,7 @@ const PatientRow = ({ patient, onAuthStatusChange, onScheduleStatusChange, onDos
       {/* Next Apt */}
       <TableCell className="w-[10%] px-2 py-2 text-xs">
         {nextAppointment ? (
-          <div>{nextAppointment.appointmentDate}</div>
+          <div>{formatCalendarDate(nextAppointment.appointmentDate)}</div>
         ) : (
           <div className="text-gray-400">No upcoming appointments</div>
         )}
@@ -472,7 +450,7 @@ const PatientRow = ({ patient, onAuthStatusChange, onScheduleStatusChange, onDos
         <div className="space-y-1">
           <div className="flex items-start gap-2">
             <div className="flex-1 min-h-6 p-1 bg-gray-50 rounded border">
-              {patient.notes ? (
+              {patient.notesPreview ? (
                 <div className="whitespace-pre-line text-gray-700 text-sm leading-relaxed">
                   {getNotesPreview()}
                 </div>
@@ -509,6 +487,7 @@ const PatientRow = ({ patient, onAuthStatusChange, onScheduleStatusChange, onDos
 
 export default function PatientList() {
   const { toast } = useToast()
+  const { can } = useAuth()
   const [searchTerm, setSearchTerm] = useState('')
   const [sortField, setSortField] = useState<SortField>('createdAt')
   const [sortDirection, setSortDirection] = useState<SortDirection>('desc')
@@ -559,15 +538,12 @@ export default function PatientList() {
   const checkAuthDateCompliance = (patient: Patient, appointments: any[]) => {
     if (!patient.startDate || !patient.endDate) return null
     
-    const authStartDate = new Date(patient.startDate)
-    const authEndDate = new Date(patient.endDate)
-    const today = new Date()
+    const today = todayCalendarDate()
     
-    const futureAppointments = appointments.filter(apt => new Date(apt.appointmentDate) > today)
+    const futureAppointments = appointments.filter(apt => apt.appointmentDate > today)
     
     for (const appointment of futureAppointments) {
-      const appointmentDate = new Date(appointment.appointmentDate)
-      if (appointmentDate < authStartDate || appointmentDate > authEndDate) {
+      if (appointment.appointmentDate < patient.startDate || appointment.appointmentDate > patient.endDate) {
         return 'APT SCHEDULED W/O AUTH'
       }
     }
@@ -576,18 +552,18 @@ export default function PatientList() {
   }
 
   const getLastAppointment = (appointments: any[]) => {
-    const today = new Date()
+    const today = todayCalendarDate()
     const pastAppointments = appointments
-      .filter(apt => new Date(apt.appointmentDate) <= today)
-      .sort((a, b) => new Date(b.appointmentDate).getTime() - new Date(a.appointmentDate).getTime())
+      .filter(apt => apt.appointmentDate <= today)
+      .sort((a, b) => b.appointmentDate.localeCompare(a.appointmentDate))
     return pastAppointments[0] || null
   }
 
   const getNextAppointment = (appointments: any[]) => {
-    const today = new Date()
+    const today = todayCalendarDate()
     const futureAppointments = appointments
-      .filter(apt => new Date(apt.appointmentDate) > today)
-      .sort((a, b) => new Date(a.appointmentDate).getTime() - new Date(b.appointmentDate).getTime())
+      .filter(apt => apt.appointmentDate > today)
+      .sort((a, b) => a.appointmentDate.localeCompare(b.appointmentDate))
     return futureAppointments[0] || null
   }
 
@@ -685,8 +661,9 @@ export default function PatientList() {
       if (!response.ok) throw new Error('Failed to record voicemail')
       return response.json()
     },
-    onSuccess: () => {
+    onSuccess: (_, patientId) => {
       queryClient.invalidateQueries({ queryKey: ['/api/patients'] })
+      queryClient.invalidateQueries({ queryKey: [`/api/patients/${patientId}/notes`] })
       toast({
         title: "Success",
         description: "Voicemail timestamp recorded"
@@ -826,15 +803,11 @@ export default function PatientList() {
           const aAppointments = patientAppointments[a.id] || []
           const bAppointments = patientAppointments[b.id] || []
           
-          const aNext = aAppointments
-            .filter(apt => new Date(apt.appointmentDate) >= new Date())
-            .sort((x, y) => new Date(x.appointmentDate).getTime() - new Date(y.appointmentDate).getTime())[0]
-          const bNext = bAppointments
-            .filter(apt => new Date(apt.appointmentDate) >= new Date())
-            .sort((x, y) => new Date(x.appointmentDate).getTime() - new Date(y.appointmentDate).getTime())[0]
+          const aNext = getNextAppointment(aAppointments)
+          const bNext = getNextAppointment(bAppointments)
             
-          aValue = aNext ? new Date(aNext.appointmentDate).getTime() : 0
-          bValue = bNext ? new Date(bNext.appointmentDate).getTime() : 0
+          aValue = aNext ? calendarDateToLocal(aNext.appointmentDate).getTime() : 0
+          bValue = bNext ? calendarDateToLocal(bNext.appointmentDate).getTime() : 0
           break
           
         case 'lastAppointment':
@@ -842,15 +815,11 @@ export default function PatientList() {
           const aLastAppointments = patientAppointments[a.id] || []
           const bLastAppointments = patientAppointments[b.id] || []
           
-          const aLast = aLastAppointments
-            .filter(apt => new Date(apt.appointmentDate) < new Date())
-            .sort((x, y) => new Date(y.appointmentDate).getTime() - new Date(x.appointmentDate).getTime())[0]
-          const bLast = bLastAppointments
-            .filter(apt => new Date(apt.appointmentDate) < new Date())
-            .sort((x, y) => new Date(y.appointmentDate).getTime() - new Date(x.appointmentDate).getTime())[0]
+          const aLast = getLastAppointment(aLastAppointments)
+          const bLast = getLastAppointment(bLastAppointments)
             
-          aValue = aLast ? new Date(aLast.appointmentDate).getTime() : 0
-          bValue = bLast ? new Date(bLast.appointmentDate).getTime() : 0
+          aValue = aLast ? calendarDateToLocal(aLast.appointmentDate).getTime() : 0
+          bValue = bLast ? calendarDateToLocal(bLast.appointmentDate).getTime() : 0
           break
           
         case 'createdAt':
@@ -1018,14 +987,16 @@ export default function PatientList() {
           </Select>
         </div>
         <div className="flex gap-2">
-          <Button 
-            onClick={handleDownloadCSV}
-            variant="outline"
-            className="flex items-center gap-2"
-          >
-            <Download className="h-4 w-4" />
-            Export CSV
-          </Button>
+          {can('patient:export') && (
+            <Button 
+              onClick={handleDownloadCSV}
+              variant="outline"
+              className="flex items-center gap-2"
+            >
+              <Download className="h-4 w-4" />
+              Export CSV
+            </Button>
+          )}
           {(sheetsStatus as any)?.configured && (
             <Button 
               onClick={() => syncToSheetsMutation.mutate()}
@@ -1037,12 +1008,14 @@ export default function PatientList() {
               {syncToSheetsMutation.isPending ? 'Syncing...' : 'Sync to Sheets'}
             </Button>
           )}
-          <Link href="/patient/new">
-            <Button className="flex items-center gap-2">
-              <UserPlus className="h-4 w-4" />
-              New Patient
-            </Button>
-          </Link>
+          {can('patient:create') && (
+            <Link href="/patient/new">
+              <Button className="flex items-center gap-2">
+                <UserPlus className="h-4 w-4" />
+                New Patient
+              </Button>
+            </Link>
+          )}
         </div>
       </div>
 
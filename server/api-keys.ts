@@ -0,0 +1,58 @@
+import crypto from "crypto";
+import { storage } from "./storage";
+import type { ApiKey } from "@shared/schema";
+
+// Integration scripts send the key in this header instead of a session cookie
+export const API_KEY_HEADER = "x-api-key";
+
+const API_KEY_PREFIX = "lqv_";
+const KEY_PREFIX_LENGTH = API_KEY_PREFIX.length + 8;
+const LAST_USED_RESOLUTION_MS = 60 * 1000; // Avoid a write on every request from busy scripts
+
+export function hashApiKey(rawKey: string): string {
+  return crypto.createHash("sha256").update(rawKey).digest("hex");
+}
+
+/**
+ * Generate a new key. The plaintext is returned to the caller once and never stored.
+ */
+export function generateApiKey(): { key: string; keyPrefix: string; keyHash: string } {
+  const key = API_KEY_PREFIX + crypto.randomBytes(32).toString("base64url");
+  return {
+    key,
+    keyPrefix: key.slice(0, KEY_PREFIX_LENGTH),
+    keyHash: hashApiKey(key),
+  };
+}
+
+export function isApiKeyActive(apiKey: ApiKey, now: Date = new Date()): boolean {
+  if (apiKey.revokedAt) return false;
+  if (apiKey.expiresAt && apiKey.expiresAt <= now) return false;
+  return true;
+}
+
+/**
+ * Resolve a presented key to an active API key record, recording when and where it was used.
+ */
+export async function authenticateApiKey(rawKey: string, ipAddress?: string): Promise<ApiKey | null> {
+  if (!rawKey.startsWith(API_KEY_PREFIX)) {
+    return null;
+  }
+
+  const apiKey = await storage.getApiKeyByHash(hashApiKey(rawKey));
+  if (!apiKey || !isApiKeyActive(apiKey)) {
+    return null;
+  }
+
+  if (!apiKey.lastUsedAt || Date.now() - apiKey.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS || apiKey.lastUsedIp !== ipAddress) {
+    await storage.recordApiKeyUsage(apiKey.id, ipAddress);
+  }
+
+  return apiKey;
+}
+
+// Safe shape for listing keys; never includes the hash
+export function serializeApiKey(apiKey: ApiKey) {
+  const { keyHash, ...rest } = apiKey;
+  return { ...rest, active: isApiKeyActive(apiKey) };
+}
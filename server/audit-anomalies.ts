@@ -0,0 +1,369 @@
+import { and, eq, gte, inArray, isNotNull, lt, notInArray, sql } from "drizzle-orm";
+import { db } from "./db";
+import { storage } from "./storage";
+import { AuditLogger, type AuditContext } from "./audit-service";
+import { sendEmail } from "./email-service";
+import { apiKeys, auditLogs, organizationMemberships, organizations, users, type AuditAlert, type InsertAuditAlert } from "@shared/schema";
+import { AUDIT_ALERT_TYPE_LABELS, DEFAULT_AUDIT_ALERT_SETTINGS, type AuditAlertSettings } from "@shared/audit-alerts";
+import { normalizeRole } from "@shared/permissions";
+
+// Hourly scan of the audit log for activity that deserves a second look: one member opening an unusual
+// number of patients, large exports outside business hours, repeated failed sign-ins and sign-ins from an
+// address the member has not used before. Each finding becomes an audit alert for the organization's owners
+// and admins; re-scanning a window never raises the same finding twice.
+
+const SCAN_WINDOW_MS = 60 * 60 * 1000;
+const NEW_IP_LOOKBACK_DAYS = 90;
+
+// Bulk exports checked against business hours, and what their exportedCount counts
+const EXPORT_ACTIONS: Record<string, string> = {
+  EXPORT_PATIENTS: "patient records",
+  EXPORT_AUDIT_LOGS: "audit log entries",
+};
+
+// Addresses that say nothing about where a sign-in came from
+const IGNORED_IP_ADDRESSES = ["unknown", "system"];
+
+const SYSTEM_CONTEXT: AuditContext = {
+  userId: undefined,
+  ipAddress: "system",
+  userAgent: "scheduled-task",
+  sessionId: "system",
+};
+
+interface ScanWindow {
+  start: Date;
+  end: Date;
+}
+
+type OrganizationSettings = Map<number, AuditAlertSettings>;
+
+function startOfHour(date: Date): Date {
+  const start = new Date(date);
+  start.setMinutes(0, 0, 0);
+  return start;
+}
+
+function inWindow(window: ScanWindow) {
+  return and(gte(auditLogs.timestamp, window.start), lt(auditLogs.timestamp, window.end));
+}
+
+// Organizations with alerts switched on. Stored settings are merged over the defaults so settings saved
+// before a threshold existed still get a value for it.
+async function getEnabledSettings(): Promise<OrganizationSettings> {
+  const rows = await db
+    .select({ id: organizations.id, auditAlertSettings: organizations.auditAlertSettings })
+    .from(organizations);
+
+  const settings: OrganizationSettings = new Map();
+  for (const row of rows) {
+    const merged = { ...DEFAULT_AUDIT_ALERT_SETTINGS, ...row.auditAlertSettings };
+    if (merged.enabled) settings.set(row.id, merged);
+  }
+  return settings;
+}
+
+async function describeUsers(userIds: number[]): Promise<Map<number, string>> {
+  if (userIds.length === 0) return new Map();
+  const rows = await db
+    .select({ id: users.id, name: users.name, email: users.email })
+    .from(users)
+    .where(inArray(users.id, userIds));
+  return new Map(rows.map((row) => [row.id, row.name ? `${row.name} (${row.email})` : row.email]));
+}
+
+// Sign-in events are not tied to one organization, so they count for every organization the user is active in
+async function getActiveOrganizations(userIds: number[]): Promise<Map<number, number[]>> {
+  const organizationsByUser = new Map<number, number[]>();
+  if (userIds.length === 0) return organizationsByUser;
+
+  const rows = await db
+    .select({ userId: organizationMemberships.userId, organizationId: organizationMemberships.organizationId })
+    .from(organizationMemberships)
+    .where(and(inArray(organizationMemberships.userId, userIds), eq(organizationMemberships.isActive, true)));
+  for (const row of rows) {
+    organizationsByUser.set(row.userId, [...(organizationsByUser.get(row.userId) ?? []), row.organizationId]);
+  }
+  return organizationsByUser;
+}
+
+function isOutsideBusinessHours(at: Date, settings: AuditAlertSettings): boolean {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: settings.timeZone,
+    hour: "numeric",
+    hourCycle: "h23",
+    weekday: "short",
+  }).formatToParts(at);
+  const hour = Number(parts.find((part) => part.type === "hour")?.value);
+  const weekday = parts.find((part) => part.type === "weekday")?.value;
+
+  if (settings.businessDaysOnly && (weekday === "Sat" || weekday === "Sun")) return true;
+  return hour < settings.businessHoursStart || hour >= settings.businessHoursEnd;
+}
+
+async function findExcessivePatientViews(window: ScanWindow, settings: OrganizationSettings): Promise<InsertAuditAlert[]> {
+  const rows = await db
+    .select({
+      organizationId: auditLogs.organizationId,
+      userId: auditLogs.userId,
+      patientCount: sql<number>`count(distinct ${auditLogs.resourceId})::int`,
+      viewCount: sql<number>`count(*)::int`,
+    })
+    .from(auditLogs)
+    .where(and(
+      inWindow(window),
+      eq(auditLogs.action, "VIEW_PATIENT"),
+      eq(auditLogs.resourceType, "patient"),
+      isNotNull(auditLogs.organizationId),
+      isNotNull(auditLogs.userId)
+    ))
+    .groupBy(auditLogs.organizationId, auditLogs.userId);
+
+  const flagged = rows.filter((row) => {
+    const threshold = settings.get(row.organizationId!)?.patientViewsPerHour;
+    return !!threshold && row.patientCount >= threshold;
+  });
+  const names = await describeUsers(flagged.map((row) => row.userId!));
+
+  return flagged.map((row) => ({
+    organizationId: row.organizationId!,
+    type: "excessive_patient_views" as const,
+    userId: row.userId,
+    summary: `${names.get(row.userId!) ?? `User ${row.userId}`} opened ${row.patientCount} patient records in one hour`,
+    details: {
+      patientCount: row.patientCount,
+      viewCount: row.viewCount,
+      threshold: settings.get(row.organizationId!)!.patientViewsPerHour,
+    },
+    fingerprint: `excessive_patient_views:user:${row.userId}:${window.start.toISOString()}`,
+    windowStart: window.start,
+    windowEnd: window.end,
+  }));
+}
+
+async function findOffHoursExports(window: ScanWindow, settings: OrganizationSettings): Promise<InsertAuditAlert[]> {
+  const rows = await db
+    .select({
+      id: auditLogs.id,
+      organizationId: auditLogs.organizationId,
+      userId: auditLogs.userId,
+      action: auditLogs.action,
+      details: auditLogs.details,
+      ipAddress: auditLogs.ipAddress,
+      timestamp: auditLogs.timestamp,
+      userName: users.name,
+      userEmail: users.email,
+      apiKeyName: apiKeys.name,
+    })
+    .from(auditLogs)
+    .leftJoin(users, eq(auditLogs.userId, users.id))
+    .leftJoin(apiKeys, eq(auditLogs.apiKeyId, apiKeys.id))
+    .where(and(
+      inWindow(window),
+      inArray(auditLogs.action, Object.keys(EXPORT_ACTIONS)),
+      isNotNull(auditLogs.organizationId)
+    ));
+
+  const alerts: InsertAuditAlert[] = [];
+  for (const row of rows) {
+    const organizationSettings = settings.get(row.organizationId!);
+    const exportedCount = Number((row.details as Record<string, unknown> | null)?.exportedCount);
+    if (!organizationSettings?.exportMinRecords || !Number.isFinite(exportedCount)) continue;
+    if (exportedCount < organizationSettings.exportMinRecords || !isOutsideBusinessHours(row.timestamp, organizationSettings)) continue;
+
+    const actor = row.userEmail
+      ? (row.userName ? `${row.userName} (${row.userEmail})` : row.userEmail)
+      : row.apiKeyName ? `API key "${row.apiKeyName}"` : "An unknown caller";
+    const localTime = row.timestamp.toLocaleString("en-US", { timeZone: organizationSettings.timeZone });
+    alerts.push({
+      organizationId: row.organizationId!,
+      type: "off_hours_export",
+      userId: row.userId,
+      summary: `${actor} exported ${exportedCount} ${EXPORT_ACTIONS[row.action]} at ${localTime} (${organizationSettings.timeZone})`,
+      details: {
+        auditLogId: row.id,
+        action: row.action,
+        exportedCount,
+        ipAddress: row.ipAddress,
+        threshold: organizationSettings.exportMinRecords,
+      },
+      fingerprint: `off_hours_export:entry:${row.id}`,
+      windowStart: window.start,
+      windowEnd: window.end,
+    });
+  }
+  return alerts;
+}
+
+async function findRepeatedLoginFailures(window: ScanWindow, settings: OrganizationSettings): Promise<InsertAuditAlert[]> {
+  const rows = await db
+    .select({
+      userId: auditLogs.userId,
+      failureCount: sql<number>`count(*)::int`,
+      ipAddresses: sql<string[]>`array_remove(array_agg(distinct ${auditLogs.ipAddress}), null)`,
+    })
+    .from(auditLogs)
+    .where(and(inWindow(window), eq(auditLogs.action, "LOGIN_FAILED"), isNotNull(auditLogs.userId)))
+    .groupBy(auditLogs.userId);
+
+  const userIds = rows.map((row) => row.userId!);
+  const organizationsByUser = await getActiveOrganizations(userIds);
+  const names = await describeUsers(userIds);
+
+  const alerts: InsertAuditAlert[] = [];
+  for (const row of rows) {
+    for (const organizationId of organizationsByUser.get(row.userId!) ?? []) {
+      const threshold = settings.get(organizationId)?.failedLoginsPerHour;
+      if (!threshold || row.failureCount < threshold) continue;
+
+      alerts.push({
+        organizationId,
+        type: "repeated_login_failures",
+        userId: row.userId,
+        summary: `${row.failureCount} failed sign-ins for ${names.get(row.userId!) ?? `user ${row.userId}`} in one hour`,
+        details: {
+          failureCount: row.failureCount,
+          ipAddresses: row.ipAddresses,
+          threshold,
+        },
+        fingerprint: `repeated_login_failures:user:${row.userId}:${window.start.toISOString()}`,
+        windowStart: window.start,
+        windowEnd: window.end,
+      });
+    }
+  }
+  return alerts;
+}
+
+async function findNewIpAddresses(window: ScanWindow, settings: OrganizationSettings): Promise<InsertAuditAlert[]> {
+  const rows = await db
+    .select({
+      userId: auditLogs.userId,
+      ipAddress: auditLogs.ipAddress,
+      firstSeen: sql<Date>`min(${auditLogs.timestamp})`.mapWith(auditLogs.timestamp),
+    })
+    .from(auditLogs)
+    .where(and(
+      inWindow(window),
+      eq(auditLogs.action, "LOGIN"),
+      isNotNull(auditLogs.userId),
+      isNotNull(auditLogs.ipAddress),
+      notInArray(auditLogs.ipAddress, IGNORED_IP_ADDRESSES)
+    ))
+    .groupBy(auditLogs.userId, auditLogs.ipAddress);
+
+  // A user's first sign-in in the lookback has nothing to compare against and is not reported
+  const newAddresses: typeof rows = [];
+  for (const row of rows) {
+    const lookbackStart = new Date(row.firstSeen.getTime() - NEW_IP_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+    const [history] = await db
+      .select({
+        total: sql<number>`count(*)::int`,
+        fromAddress: sql<number>`(count(*) filter (where ${auditLogs.ipAddress} = ${row.ipAddress}))::int`,
+      })
+      .from(auditLogs)
+      .where(and(
+        eq(auditLogs.userId, row.userId!),
+        eq(auditLogs.action, "LOGIN"),
+        gte(auditLogs.timestamp, lookbackStart),
+        lt(auditLogs.timestamp, row.firstSeen)
+      ));
+    if (history.total > 0 && history.fromAddress === 0) newAddresses.push(row);
+  }
+
+  const userIds = Array.from(new Set(newAddresses.map((row) => row.userId!)));
+  const organizationsByUser = await getActiveOrganizations(userIds);
+  const names = await describeUsers(userIds);
+
+  const alerts: InsertAuditAlert[] = [];
+  for (const row of newAddresses) {
+    for (const organizationId of organizationsByUser.get(row.userId!) ?? []) {
+      if (!settings.get(organizationId)?.newIpAddress) continue;
+
+      alerts.push({
+        organizationId,
+        type: "new_ip_address",
+        userId: row.userId,
+        summary: `${names.get(row.userId!) ?? `User ${row.userId}`} signed in from ${row.ipAddress}, not used in the previous ${NEW_IP_LOOKBACK_DAYS} days`,
+        details: {
+          ipAddress: row.ipAddress,
+          firstSeen: row.firstSeen.toISOString(),
+        },
+        fingerprint: `new_ip_address:user:${row.userId}:ip:${row.ipAddress}:${window.start.toISOString()}`,
+        windowStart: window.start,
+        windowEnd: window.end,
+      });
+    }
+  }
+  return alerts;
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+async function emailOwners(organizationId: number, alerts: AuditAlert[]): Promise<void> {
+  const members = await storage.getOrganizationMembers(organizationId);
+  const owners = members.filter((member) => normalizeRole(member.role) === "owner");
+  const lines = alerts.map((alert) => `${AUDIT_ALERT_TYPE_LABELS[alert.type]}: ${alert.summary}`);
+
+  await Promise.all(owners.map(async (owner) => {
+    const emailSent = await sendEmail({
+      to: owner.email,
+      from: process.env.SENDGRID_FROM_EMAIL || "noreply@yourdomain.com",
+      subject: `Security alert: ${alerts.length === 1 ? "suspicious activity" : `${alerts.length} suspicious activities`} in your organization`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2 style="color: #2c5aa0;">LEQVIO Patient Management</h2>
+          <p>The hourly audit log review found activity that may need a second look:</p>
+          <ul>
+            ${lines.map((line) => `<li>${escapeHtml(line)}</li>`).join("")}
+          </ul>
+          <p style="color: #666; font-size: 14px;">Review and acknowledge these alerts on the Audit Logs page. Alert thresholds can be changed under Organization settings.</p>
+        </div>
+      `,
+      text: `The hourly audit log review found activity that may need a second look:\n\n${lines.map((line) => `- ${line}`).join("\n")}\n\nReview and acknowledge these alerts on the Audit Logs page.`
+    });
+    if (!emailSent) {
+      console.error(`Failed to send audit alert email to ${owner.email}`);
+    }
+  }));
+}
+
+/**
+ * Scan the hour before windowEnd (by default the last full clock hour) and raise alerts for what it finds.
+ * Returns only alerts that had not already been raised.
+ */
+export async function scanAuditAnomalies(windowEnd: Date = startOfHour(new Date())): Promise<AuditAlert[]> {
+  const window: ScanWindow = { start: new Date(windowEnd.getTime() - SCAN_WINDOW_MS), end: windowEnd };
+  const settings = await getEnabledSettings();
+  if (settings.size === 0) return [];
+
+  const findings = [
+    ...await findExcessivePatientViews(window, settings),
+    ...await findOffHoursExports(window, settings),
+    ...await findRepeatedLoginFailures(window, settings),
+    ...await findNewIpAddresses(window, settings),
+  ];
+  const raised = await storage.createAuditAlerts(findings);
+
+  const alertsByOrganization = new Map<number, AuditAlert[]>();
+  for (const alert of raised) {
+    alertsByOrganization.set(alert.organizationId, [...(alertsByOrganization.get(alert.organizationId) ?? []), alert]);
+    await AuditLogger.log({
+      action: "AUDIT_ANOMALY_DETECTED",
+      resourceType: "audit_alert",
+      resourceId: alert.id,
+      details: { type: alert.type, subjectUserId: alert.userId, summary: alert.summary },
+      context: { ...SYSTEM_CONTEXT, organizationId: alert.organizationId },
+    });
+  }
+
+  for (const [organizationId, alerts] of Array.from(alertsByOrganization)) {
+    if (settings.get(organizationId)?.emailOwners) {
+      await emailOwners(organizationId, alerts);
+    }
+  }
+
+  return raised;
+}
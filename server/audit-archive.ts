@@ -0,0 +1,138 @@
+import crypto from "crypto";
+import path from "path";
+import { gunzipSync, gzipSync } from "zlib";
+import { and, asc, count, eq, isNull, lt, or, sql, type SQL } from "drizzle-orm";
+import { db } from "./db";
+import { LocalDiskBlobStore, type BlobStore } from "./blob-store";
+import { checkArchivedEntries, recordAuditArchive, verifyArchiveSignature } from "./audit-chain";
+import { auditLegalHolds, auditLogs, type AuditArchive, type AuditLegalHold, type AuditLog } from "@shared/schema";
+
+// Retention archive: expired audit entries are written to gzipped JSON Lines files with a SHA-256 checksum
+// before the purge deletes them, and entries under an active legal hold are not purged at all.
+
+const ARCHIVE_BATCH_SIZE = 5000;
+
+// Local directory backend (AUDIT_ARCHIVE_DIR); kept apart from document uploads
+const archiveStore: BlobStore = new LocalDiskBlobStore(
+  process.env.AUDIT_ARCHIVE_DIR || path.resolve(process.cwd(), ".audit-archive")
+);
+
+export interface AuditPurgeResult {
+  deleted: number;
+  archives: number;
+  held: number; // Expired entries kept because of a legal hold
+}
+
+// Entries covered by one hold. Patient holds use the same match as the audit log patient filter.
+function heldEntries(hold: AuditLegalHold): SQL | undefined {
+  const inOrganization = eq(auditLogs.organizationId, hold.organizationId);
+  switch (hold.scope) {
+    case "organization":
+      return inOrganization;
+    case "patient":
+      return and(inOrganization, or(
+        and(eq(auditLogs.resourceType, "patient"), eq(auditLogs.resourceId, hold.subjectId!)),
+        sql`${auditLogs.details}->>'patientId' = ${String(hold.subjectId)}`
+      ));
+    case "user":
+      // Sign-in events have no organization, so a user hold also keeps the user's entries in the system chain
+      return and(eq(auditLogs.userId, hold.subjectId!), or(inOrganization, isNull(auditLogs.organizationId)));
+  }
+}
+
+// Null-safe: an entry is held only when some hold definitely matches it
+function underLegalHold(holds: AuditLegalHold[]): SQL {
+  if (holds.length === 0) return sql`false`;
+  return sql`coalesce(${or(...holds.map(heldEntries))}, false)`;
+}
+
+function sha256(data: Buffer): string {
+  return crypto.createHash("sha256").update(data).digest("hex");
+}
+
+async function archiveChainEntries(organizationId: number | null, entries: AuditLog[]): Promise<AuditArchive> {
+  const data = gzipSync(Buffer.from(entries.map((entry) => JSON.stringify(entry)).join("\n") + "\n"));
+  const checksum = sha256(data);
+  const storageKey = `${organizationId ?? "system"}/${new Date().toISOString().replace(/[:.]/g, "-")}-${entries[0].id}.jsonl.gz`;
+
+  await archiveStore.put(storageKey, data);
+  // Nothing is deleted unless the file reads back intact
+  if (sha256(await archiveStore.get(storageKey)) !== checksum) {
+    throw new Error(`Audit archive ${storageKey} failed its checksum after writing`);
+  }
+
+  return await recordAuditArchive(organizationId, storageKey, checksum, entries);
+}
+
+/**
+ * Archive and delete every expired entry that is not under a legal hold, one chain at a time.
+ */
+export async function archiveExpiredAuditLogs(now: Date = new Date()): Promise<AuditPurgeResult> {
+  const holds = await db.select().from(auditLegalHolds).where(isNull(auditLegalHolds.releasedAt));
+  const expired = lt(auditLogs.retentionDate, now);
+  const held = underLegalHold(holds);
+  const result: AuditPurgeResult = { deleted: 0, archives: 0, held: 0 };
+
+  while (true) {
+    const batch = await db
+      .select()
+      .from(auditLogs)
+      .where(and(expired, sql`not ${held}`))
+      .orderBy(asc(auditLogs.organizationId), asc(auditLogs.chainSeq), asc(auditLogs.id))
+      .limit(ARCHIVE_BATCH_SIZE);
+
+    const chains = new Map<number | null, AuditLog[]>();
+    for (const entry of batch) {
+      chains.set(entry.organizationId, [...(chains.get(entry.organizationId) ?? []), entry]);
+    }
+    for (const [organizationId, entries] of Array.from(chains)) {
+      await archiveChainEntries(organizationId, entries);
+      result.deleted += entries.length;
+      result.archives++;
+    }
+
+    if (batch.length < ARCHIVE_BATCH_SIZE) break;
+  }
+
+  const [{ value }] = await db.select({ value: count() }).from(auditLogs).where(and(expired, held));
+  result.held = value;
+  return result;
+}
+
+export interface ArchiveVerificationResult {
+  valid: boolean;
+  entriesChecked: number;
+  problem?: string;
+  verifiedAt: string;
+}
+
+/**
+ * Check an archive file against its signed manifest: the signature, the file checksum and every entry hash.
+ */
+export async function verifyAuditArchive(archive: AuditArchive): Promise<ArchiveVerificationResult> {
+  const result: ArchiveVerificationResult = { valid: true, entriesChecked: 0, verifiedAt: new Date().toISOString() };
+  const fail = (problem: string) => ({ ...result, valid: false, problem });
+
+  if (!verifyArchiveSignature(archive)) {
+    return fail("The archive manifest has an invalid signature");
+  }
+
+  let data: Buffer;
+  try {
+    data = await archiveStore.get(archive.storageKey);
+  } catch {
+    return fail(`The archive file ${archive.storageKey} is missing`);
+  }
+  if (sha256(data) !== archive.sha256) {
+    return fail("The archive file does not match its checksum");
+  }
+
+  const entries: AuditLog[] = gunzipSync(data).toString("utf8").split("\n").filter(Boolean).map((line) => {
+    const entry = JSON.parse(line);
+    return { ...entry, timestamp: new Date(entry.timestamp), retentionDate: new Date(entry.retentionDate) };
+  });
+  const problem = checkArchivedEntries(archive, entries);
+  if (problem) return fail(problem);
+
+  return { ...result, entriesChecked: entries.length };
+}
@@ -0,0 +1,548 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { and, asc, count, desc, eq, gt, gte, inArray, isNotNull, isNull, sql } from "drizzle-orm";
+import { db } from "./db";
+import {
+  auditLogs,
+  auditCheckpoints,
+  auditArchives,
+  type AuditCheckpoint,
+  type AuditArchive,
+  type AuditArchiveRange,
+  type AuditLog,
+  type InsertAuditLog,
+} from "@shared/schema";
+
+// Tamper evidence for the audit log. Every organization has its own chain (entries without an organization
+// form the system chain): each entry stores a sequence number, the previous entry's hash and a SHA-256 over
+// its own content plus that link. Editing an entry breaks its hash, deleting one leaves a sequence gap, and
+// scheduled checkpoints signed with an Ed25519 key catch a chain rewritten or truncated after the fact.
+
+const GENESIS_HASH = "0".repeat(64);
+const CHAIN_LOCK_NAMESPACE = 7305; // First key of pg_advisory_xact_lock(int, int); the second is the organization
+const VERIFY_BATCH_SIZE = 1000;
+
+const AUDIT_SIGNING_KEYFILE = process.env.AUDIT_SIGNING_KEYFILE
+  || path.resolve(process.cwd(), ".keys", "audit-signing-key.pem");
+
+type ChainId = number | null;
+
+interface SigningKey {
+  id: string;
+  privateKey: crypto.KeyObject;
+  publicKey: crypto.KeyObject;
+}
+
+let signingKey: SigningKey | undefined;
+
+function getSigningKey(): SigningKey {
+  if (signingKey) return signingKey;
+
+  let privateKey: crypto.KeyObject;
+  if (fs.existsSync(AUDIT_SIGNING_KEYFILE)) {
+    privateKey = crypto.createPrivateKey(fs.readFileSync(AUDIT_SIGNING_KEYFILE, "utf8"));
+  } else {
+    // A regenerated key cannot vouch for earlier checkpoints, so production must supply one
+    if (process.env.NODE_ENV === "production") {
+      throw new Error(`Audit signing key not found at ${AUDIT_SIGNING_KEYFILE}`);
+    }
+    privateKey = crypto.generateKeyPairSync("ed25519").privateKey;
+    fs.mkdirSync(path.dirname(AUDIT_SIGNING_KEYFILE), { recursive: true });
+    fs.writeFileSync(AUDIT_SIGNING_KEYFILE, privateKey.export({ type: "pkcs8", format: "pem" }), { mode: 0o600 });
+    console.warn(`[AUDIT CHAIN] Generated development audit signing key at ${AUDIT_SIGNING_KEYFILE}`);
+  }
+
+  const publicKey = crypto.createPublicKey(privateKey);
+  const id = crypto.createHash("sha256").update(publicKey.export({ type: "spki", format: "der" })).digest("hex").slice(0, 16);
+  signingKey = { id, privateKey, publicKey };
+  return signingKey;
+}
+
+// PEM public key for checking checkpoint signatures outside the application
+export function getAuditSigningPublicKey(): { keyId: string; publicKey: string } {
+  const key = getSigningKey();
+  return { keyId: key.id, publicKey: key.publicKey.export({ type: "spki", format: "pem" }).toString() };
+}
+
+// Key order must not matter: jsonb does not preserve it
+function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(canonicalize);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.keys(value as Record<string, unknown>).sort().map((key) => [key, canonicalize((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+}
+
+function canonicalJson(value: unknown): string {
+  // Round-trip first so Dates and undefined normalize the same way they do when stored as jsonb
+  return JSON.stringify(canonicalize(JSON.parse(JSON.stringify(value))));
+}
+
+interface HashedFields {
+  userId?: number | null;
+  apiKeyId?: number | null;
+  organizationId?: number | null;
+  action: string;
+  resourceType?: string | null;
+  resourceId?: number | null;
+  details?: unknown;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+  sessionId?: string | null;
+  timestamp: Date;
+}
+
+/**
+ * Hash of an entry's content and its link to the previous entry. retentionDate is deliberately excluded:
+ * it is retention bookkeeping, not evidence, and may be extended after the entry is written.
+ */
+export function computeAuditHash(entry: HashedFields, chainSeq: number, prevHash: string): string {
+  const payload = canonicalJson({
+    organizationId: entry.organizationId ?? null,
+    chainSeq,
+    prevHash,
+    userId: entry.userId ?? null,
+    apiKeyId: entry.apiKeyId ?? null,
+    action: entry.action,
+    resourceType: entry.resourceType ?? null,
+    resourceId: entry.resourceId ?? null,
+    details: entry.details ?? null,
+    ipAddress: entry.ipAddress ?? null,
+    userAgent: entry.userAgent ?? null,
+    sessionId: entry.sessionId ?? null,
+    timestamp: entry.timestamp.toISOString(),
+  });
+  return crypto.createHash("sha256").update(payload).digest("hex");
+}
+
+export interface ReportSignature {
+  algorithm: "Ed25519";
+  keyId: string;
+  digest: string; // SHA-256 of the canonical JSON that was signed
+  value: string;
+}
+
+// Detached signature for a report built from the audit log, made with the checkpoint key.
+// Verify it against the canonical JSON of the report with the signature field removed.
+export function signAuditReport(report: unknown): ReportSignature {
+  const key = getSigningKey();
+  const payload = Buffer.from(canonicalJson(report));
+  return {
+    algorithm: "Ed25519",
+    keyId: key.id,
+    digest: crypto.createHash("sha256").update(payload).digest("hex"),
+    value: crypto.sign(null, payload, key.privateKey).toString("base64"),
+  };
+}
+
+const entriesInChain = (organizationId: ChainId) =>
+  organizationId === null ? isNull(auditLogs.organizationId) : eq(auditLogs.organizationId, organizationId);
+
+const checkpointsInChain = (organizationId: ChainId) =>
+  organizationId === null ? isNull(auditCheckpoints.organizationId) : eq(auditCheckpoints.organizationId, organizationId);
+
+const archivesInChain = (organizationId: ChainId) =>
+  organizationId === null ? isNull(auditArchives.organizationId) : eq(auditArchives.organizationId, organizationId);
+
+function checkpointPayload(checkpoint: Pick<AuditCheckpoint, "organizationId" | "chainSeq" | "hash" | "createdAt">): Buffer {
+  return Buffer.from(canonicalJson({
+    organizationId: checkpoint.organizationId ?? null,
+    chainSeq: checkpoint.chainSeq,
+    hash: checkpoint.hash,
+    createdAt: checkpoint.createdAt.toISOString(),
+  }));
+}
+
+/**
+ * Insert an audit entry at the head of its organization's chain.
+ */
+export async function appendAuditLog(entry: InsertAuditLog): Promise<void> {
+  const organizationId = entry.organizationId ?? null;
+
+  await db.transaction(async (tx) => {
+    // Serialize writers per chain so two entries never claim the same predecessor
+    await tx.execute(sql`SELECT pg_advisory_xact_lock(${CHAIN_LOCK_NAMESPACE}::int, ${organizationId ?? 0}::int)`);
+
+    let [head] = await tx
+      .select({ chainSeq: auditLogs.chainSeq, hash: auditLogs.hash })
+      .from(auditLogs)
+      .where(and(entriesInChain(organizationId), isNotNull(auditLogs.hash)))
+      .orderBy(desc(auditLogs.chainSeq))
+      .limit(1);
+
+    // A legal hold can keep older entries after newer ones were archived, so the archive may be further along
+    const [archivedHead] = await tx
+      .select({ chainSeq: auditArchives.lastChainSeq, hash: auditArchives.lastHash })
+      .from(auditArchives)
+      .where(and(archivesInChain(organizationId), isNotNull(auditArchives.lastChainSeq)))
+      .orderBy(desc(auditArchives.lastChainSeq))
+      .limit(1);
+    if (archivedHead && archivedHead.chainSeq! > (head?.chainSeq ?? 0)) {
+      head = archivedHead;
+    }
+
+    // Every entry was purged before archiving existed: continue from the last checkpoint rather than restarting
+    if (!head) {
+      [head] = await tx
+        .select({ chainSeq: auditCheckpoints.chainSeq, hash: auditCheckpoints.hash })
+        .from(auditCheckpoints)
+        .where(checkpointsInChain(organizationId))
+        .orderBy(desc(auditCheckpoints.chainSeq))
+        .limit(1);
+    }
+
+    const chainSeq = (head?.chainSeq ?? 0) + 1;
+    const prevHash = head?.hash ?? GENESIS_HASH;
+    const timestamp = new Date();
+
+    await tx.insert(auditLogs).values({
+      ...entry,
+      timestamp,
+      chainSeq,
+      prevHash,
+      hash: computeAuditHash({ ...entry, timestamp }, chainSeq, prevHash),
+    });
+  });
+}
+
+// Runs of consecutive chained entries, in chainSeq order
+function archiveRanges(entries: AuditLog[]): AuditArchiveRange[] {
+  const ranges: AuditArchiveRange[] = [];
+  const chained = entries.filter((entry) => entry.hash !== null).sort((a, b) => a.chainSeq! - b.chainSeq!);
+
+  for (const entry of chained) {
+    const last = ranges[ranges.length - 1];
+    if (last && entry.chainSeq === last.toChainSeq + 1) {
+      last.toChainSeq = entry.chainSeq;
+      last.lastHash = entry.hash!;
+    } else {
+      ranges.push({ fromChainSeq: entry.chainSeq!, toChainSeq: entry.chainSeq!, prevHash: entry.prevHash!, lastHash: entry.hash! });
+    }
+  }
+  return ranges;
+}
+
+function archivePayload(archive: Pick<AuditArchive, "organizationId" | "storageKey" | "sha256" | "entryCount" | "ranges" | "createdAt">): Buffer {
+  return Buffer.from(canonicalJson({
+    organizationId: archive.organizationId ?? null,
+    storageKey: archive.storageKey,
+    sha256: archive.sha256,
+    entryCount: archive.entryCount,
+    ranges: archive.ranges,
+    createdAt: archive.createdAt.toISOString(),
+  }));
+}
+
+/**
+ * Record a signed manifest for entries already written to the archive store, then delete them from the log.
+ * All entries must belong to one chain.
+ */
+export async function recordAuditArchive(organizationId: ChainId, storageKey: string, sha256: string, entries: AuditLog[]): Promise<AuditArchive> {
+  const key = getSigningKey();
+  const ranges = archiveRanges(entries);
+  const manifest = {
+    organizationId,
+    storageKey,
+    sha256,
+    entryCount: entries.length,
+    ranges,
+    lastChainSeq: ranges.length > 0 ? ranges[ranges.length - 1].toChainSeq : null,
+    lastHash: ranges.length > 0 ? ranges[ranges.length - 1].lastHash : null,
+    createdAt: new Date(),
+  };
+
+  return await db.transaction(async (tx) => {
+    // Same lock as appendAuditLog, so a writer never links to an entry that is being removed
+    await tx.execute(sql`SELECT pg_advisory_xact_lock(${CHAIN_LOCK_NAMESPACE}::int, ${organizationId ?? 0}::int)`);
+
+    const [archive] = await tx.insert(auditArchives).values({
+      ...manifest,
+      keyId: key.id,
+      signature: crypto.sign(null, archivePayload(manifest), key.privateKey).toString("base64"),
+    }).returning();
+    await tx.delete(auditLogs).where(inArray(auditLogs.id, entries.map((entry) => entry.id)));
+    return archive;
+  });
+}
+
+export function verifyArchiveSignature(archive: AuditArchive): boolean {
+  const key = getSigningKey();
+  return archive.keyId === key.id
+    && crypto.verify(null, archivePayload(archive), key.publicKey, Buffer.from(archive.signature, "base64"));
+}
+
+/**
+ * Check the entries in an archive file against its manifest: every hash, every link inside a run, and
+ * the runs themselves. Returns a description of the first problem, or undefined.
+ */
+export function checkArchivedEntries(archive: AuditArchive, entries: AuditLog[]): string | undefined {
+  if (entries.length !== archive.entryCount) {
+    return `The file holds ${entries.length} entries but the manifest lists ${archive.entryCount}`;
+  }
+
+  const chained = entries.filter((entry) => entry.hash !== null).sort((a, b) => a.chainSeq! - b.chainSeq!);
+  for (let i = 0; i < chained.length; i++) {
+    const entry = chained[i];
+    if (computeAuditHash(entry, entry.chainSeq!, entry.prevHash!) !== entry.hash) {
+      return `Entry #${entry.chainSeq} was modified after it was written`;
+    }
+    const previous = chained[i - 1];
+    if (previous && entry.chainSeq === previous.chainSeq! + 1 && entry.prevHash !== previous.hash) {
+      return `Entry #${entry.chainSeq} does not link to entry #${previous.chainSeq}`;
+    }
+  }
+
+  if (canonicalJson(archiveRanges(entries)) !== canonicalJson(archive.ranges)) {
+    return "The entries in the file do not match the manifest";
+  }
+  return undefined;
+}
+
+export type ChainBreakReason =
+  | "hash_mismatch" // Entry content changed after it was written
+  | "link_mismatch" // Entry does not point at its predecessor
+  | "sequence_gap" // Entries missing (deleted) or duplicated
+  | "checkpoint_mismatch" // Entry differs from what a checkpoint recorded
+  | "checkpoint_signature_invalid"
+  | "archive_signature_invalid" // An archive manifest was altered, so the entries it accounts for cannot be trusted
+  | "truncated"; // Entries after the latest checkpoint are gone
+
+export interface ChainBreak {
+  reason: ChainBreakReason;
+  chainSeq: number;
+  entryId?: number;
+  message: string;
+}
+
+export interface ChainVerificationResult {
+  organizationId: ChainId;
+  valid: boolean;
+  entriesChecked: number;
+  firstChainSeq: number | null;
+  lastChainSeq: number | null;
+  // The oldest remaining entry is not the start of the chain; earlier entries were purged by retention
+  startsAfterPurge: boolean;
+  unchainedEntries: number; // Written before chaining existed, so not covered
+  archivedEntries: number; // Missing entries accounted for by signed archive manifests
+  checkpointsChecked: number;
+  signingKeyId: string;
+  brokenLink?: ChainBreak;
+  verifiedAt: string;
+}
+
+/**
+ * Walk a chain in order and report the first broken link. Pass an anchor (a verified checkpoint) to check
+ * only the entries after it.
+ */
+export async function verifyAuditChain(
+  organizationId: ChainId,
+  anchor?: { chainSeq: number; hash: string }
+): Promise<ChainVerificationResult> {
+  const key = getSigningKey();
+  const result: ChainVerificationResult = {
+    organizationId,
+    valid: true,
+    entriesChecked: 0,
+    firstChainSeq: null,
+    lastChainSeq: null,
+    startsAfterPurge: false,
+    unchainedEntries: 0,
+    archivedEntries: 0,
+    checkpointsChecked: 0,
+    signingKeyId: key.id,
+    verifiedAt: new Date().toISOString(),
+  };
+  const fail = (brokenLink: ChainBreak) => ({ ...result, valid: false, brokenLink });
+
+  const [{ value: unchainedEntries }] = await db
+    .select({ value: count() })
+    .from(auditLogs)
+    .where(and(entriesInChain(organizationId), isNull(auditLogs.hash)));
+  result.unchainedEntries = unchainedEntries;
+
+  const checkpoints = await db
+    .select()
+    .from(auditCheckpoints)
+    .where(and(checkpointsInChain(organizationId), anchor ? gte(auditCheckpoints.chainSeq, anchor.chainSeq) : undefined))
+    .orderBy(asc(auditCheckpoints.chainSeq));
+
+  const checkpointsBySeq = new Map<number, AuditCheckpoint>();
+  for (const checkpoint of checkpoints) {
+    if (checkpoint.keyId !== key.id) {
+      return fail({
+        reason: "checkpoint_signature_invalid",
+        chainSeq: checkpoint.chainSeq,
+        message: `Checkpoint at entry #${checkpoint.chainSeq} was signed with key ${checkpoint.keyId}, not the current signing key ${key.id}`,
+      });
+    }
+    if (!crypto.verify(null, checkpointPayload(checkpoint), key.publicKey, Buffer.from(checkpoint.signature, "base64"))) {
+      return fail({
+        reason: "checkpoint_signature_invalid",
+        chainSeq: checkpoint.chainSeq,
+        message: `Checkpoint at entry #${checkpoint.chainSeq} has an invalid signature`,
+      });
+    }
+    checkpointsBySeq.set(checkpoint.chainSeq, checkpoint);
+    result.checkpointsChecked++;
+  }
+
+  // Archived runs by their first entry, for crossing gaps left when a legal hold kept older entries
+  const archivedRanges = new Map<number, AuditArchiveRange>();
+  const archives = await db.select().from(auditArchives).where(archivesInChain(organizationId));
+  for (const archive of archives) {
+    if (!verifyArchiveSignature(archive)) {
+      return fail({
+        reason: "archive_signature_invalid",
+        chainSeq: archive.lastChainSeq ?? 0,
+        message: `Archive manifest ${archive.id} (${archive.storageKey}) has an invalid signature`,
+      });
+    }
+    for (const range of archive.ranges) archivedRanges.set(range.fromChainSeq, range);
+  }
+
+  // Follow archived runs from just after `from` to just before `toChainSeq`. Returns the hash of the entry
+  // before toChainSeq, or undefined if the runs do not cover the gap or do not link up.
+  const crossArchivedGap = (from: { chainSeq: number; hash: string }, toChainSeq: number): string | undefined => {
+    let at = from;
+    while (at.chainSeq < toChainSeq - 1) {
+      const range = archivedRanges.get(at.chainSeq + 1);
+      if (!range || range.prevHash !== at.hash || range.toChainSeq >= toChainSeq) return undefined;
+      at = { chainSeq: range.toChainSeq, hash: range.lastHash };
+    }
+    return at.hash;
+  };
+
+  let previous: { chainSeq: number; hash: string } | undefined = anchor;
+  let cursor = anchor?.chainSeq ?? 0;
+
+  while (true) {
+    const batch = await db
+      .select()
+      .from(auditLogs)
+      .where(and(entriesInChain(organizationId), isNotNull(auditLogs.hash), gt(auditLogs.chainSeq, cursor)))
+      .orderBy(asc(auditLogs.chainSeq), asc(auditLogs.id))
+      .limit(VERIFY_BATCH_SIZE);
+
+    for (const entry of batch) {
+      const chainSeq = entry.chainSeq!;
+      const location = { chainSeq, entryId: entry.id };
+
+      if (!previous) {
+        // First remaining entry: it either starts the chain or follows entries removed by retention
+        if (chainSeq === 1 && entry.prevHash !== GENESIS_HASH) {
+          return fail({ reason: "link_mismatch", ...location, message: "The first entry does not start the chain" });
+        }
+        result.startsAfterPurge = chainSeq > 1;
+        result.firstChainSeq = chainSeq;
+      } else if (chainSeq !== previous.chainSeq + 1) {
+        const archivedHash = chainSeq > previous.chainSeq + 1 ? crossArchivedGap(previous, chainSeq) : undefined;
+        if (archivedHash === undefined) {
+          return fail({
+            reason: "sequence_gap",
+            ...location,
+            message: chainSeq === previous.chainSeq
+              ? `Entry #${chainSeq} appears more than once`
+              : `Entries #${previous.chainSeq + 1} to #${chainSeq - 1} are missing`,
+          });
+        }
+        if (entry.prevHash !== archivedHash) {
+          return fail({ reason: "link_mismatch", ...location, message: `Entry #${chainSeq} does not link to archived entry #${chainSeq - 1}` });
+        }
+        result.archivedEntries += chainSeq - previous.chainSeq - 1;
+      } else if (entry.prevHash !== previous.hash) {
+        return fail({ reason: "link_mismatch", ...location, message: `Entry #${chainSeq} does not link to entry #${previous.chainSeq}` });
+      }
+
+      if (computeAuditHash(entry, chainSeq, entry.prevHash!) !== entry.hash) {
+        return fail({ reason: "hash_mismatch", ...location, message: `Entry #${chainSeq} was modified after it was written` });
+      }
+
+      const checkpoint = checkpointsBySeq.get(chainSeq);
+      if (checkpoint && checkpoint.hash !== entry.hash) {
+        return fail({ reason: "checkpoint_mismatch", ...location, message: `Entry #${chainSeq} does not match the checkpoint signed ${checkpoint.createdAt.toISOString()}` });
+      }
+
+      previous = { chainSeq, hash: entry.hash! };
+      result.entriesChecked++;
+      result.lastChainSeq = chainSeq;
+    }
+
+    if (batch.length < VERIFY_BATCH_SIZE) break;
+    cursor = previous!.chainSeq;
+  }
+
+  // The newest entries may all have been archived while a hold kept older ones, or nothing may remain at all
+  if (!previous && archivedRanges.size > 0) {
+    const newest = Array.from(archivedRanges.values()).reduce((a, b) => (b.toChainSeq > a.toChainSeq ? b : a));
+    previous = { chainSeq: newest.toChainSeq, hash: newest.lastHash };
+    result.startsAfterPurge = true;
+  }
+  while (previous && archivedRanges.get(previous.chainSeq + 1)?.prevHash === previous.hash) {
+    const range = archivedRanges.get(previous.chainSeq + 1)!;
+    result.archivedEntries += range.toChainSeq - range.fromChainSeq + 1;
+    previous = { chainSeq: range.toChainSeq, hash: range.lastHash };
+  }
+
+  const latestCheckpoint = checkpoints[checkpoints.length - 1];
+  if (latestCheckpoint && (previous?.chainSeq ?? 0) < latestCheckpoint.chainSeq) {
+    return fail({
+      reason: "truncated",
+      chainSeq: (previous?.chainSeq ?? 0) + 1,
+      message: `Entries up to #${latestCheckpoint.chainSeq} were checkpointed but the chain ends at #${previous?.chainSeq ?? 0}`,
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Sign the head of every chain that has grown since its last checkpoint. Each chain's new entries are
+ * verified first, so a tampered chain is reported rather than signed.
+ */
+export async function writeAuditCheckpoints(): Promise<{ written: number; broken: ChainVerificationResult[] }> {
+  const key = getSigningKey();
+  const heads = await db
+    .select({ organizationId: auditLogs.organizationId, chainSeq: sql<number>`max(${auditLogs.chainSeq})` })
+    .from(auditLogs)
+    .where(isNotNull(auditLogs.hash))
+    .groupBy(auditLogs.organizationId);
+
+  let written = 0;
+  const broken: ChainVerificationResult[] = [];
+
+  for (const head of heads) {
+    const organizationId = head.organizationId ?? null;
+    const [latest] = await db
+      .select()
+      .from(auditCheckpoints)
+      .where(checkpointsInChain(organizationId))
+      .orderBy(desc(auditCheckpoints.chainSeq))
+      .limit(1);
+
+    if (latest && latest.chainSeq >= Number(head.chainSeq)) continue;
+
+    const verification = await verifyAuditChain(organizationId, latest ? { chainSeq: latest.chainSeq, hash: latest.hash } : undefined);
+    if (!verification.valid || verification.lastChainSeq === null) {
+      broken.push(verification);
+      continue;
+    }
+
+    const [entry] = await db
+      .select({ hash: auditLogs.hash })
+      .from(auditLogs)
+      .where(and(entriesInChain(organizationId), eq(auditLogs.chainSeq, verification.lastChainSeq)));
+
+    const checkpoint = { organizationId, chainSeq: verification.lastChainSeq, hash: entry.hash!, createdAt: new Date() };
+    await db.insert(auditCheckpoints).values({
+      ...checkpoint,
+      keyId: key.id,
+      signature: crypto.sign(null, checkpointPayload(checkpoint), key.privateKey).toString("base64"),
+    });
+    written++;
+  }
+
+  return { written, broken };
+}
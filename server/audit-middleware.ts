@@ -14,12 +14,13 @@ interface AuditRequest extends Request {
 // Middleware to automatically log API access
 export function auditMiddleware(req: AuditRequest, res: Response, next: NextFunction): void {
   const start = Date.now();
-  const context = AuditLogger.extractContext(req);
 
   // Track response to log successful operations
   const originalSend = res.send;
   res.send = function(data) {
     const duration = Date.now() - start;
+    // Resolved at response time so route middleware (e.g. API key auth) has already run
+    const context = AuditLogger.extractContext(req);
     
     // Log the request if it succeeded
     if (res.statusCode < 400 && req.auditContext) {
@@ -86,16 +87,17 @@ export function auditPatientAccess(req: AuditRequest, res: Response, next: NextF
   next();
 }
 
-// Middleware for document access logging
+// Middleware for document access logging. Listings and uploads have no document ID in the URL;
+// the route adds the IDs it returned or created with updateAuditContext.
 export function auditDocumentAccess(req: AuditRequest, res: Response, next: NextFunction): void {
-  const documentId = parseInt(req.params.documentId);
+  const documentId = parseInt(req.params.documentId) || undefined;
   const patientId = parseInt(req.params.id || req.params.patientId);
   
-  if (!documentId) {
+  if (!documentId && !patientId) {
     return next();
   }
 
-  let action = 'VIEW_DOCUMENT';
+  let action = documentId ? 'VIEW_DOCUMENT' : 'LIST_DOCUMENTS';
   if (req.method === 'POST') action = 'UPLOAD_DOCUMENT';
   else if (req.method === 'DELETE') action = 'DELETE_DOCUMENT';
 
@@ -113,6 +115,15 @@ export function auditDocumentAccess(req: AuditRequest, res: Response, next: Next
   next();
 }
 
+// Add what a route learned while handling the request (e.g. the ID it created) to the pending audit entry
+export function updateAuditContext(req: Request, updates: { resourceId?: number; details?: Record<string, any> }): void {
+  const auditContext = (req as AuditRequest).auditContext;
+  if (!auditContext) return;
+
+  if (updates.resourceId !== undefined) auditContext.resourceId = updates.resourceId;
+  if (updates.details) auditContext.details = { ...auditContext.details, ...updates.details };
+}
+
 // Middleware for authentication event logging
 export function auditAuthenticationMiddleware(action: 'LOGIN' | 'LOGOUT' | 'LOGIN_FAILED') {
   return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
@@ -1,11 +1,11 @@
-import { db } from "./db";
-import { auditLogs } from "@shared/schema";
 import type { InsertAuditLog } from "@shared/schema";
 import type { Request } from "express";
-import { lt } from "drizzle-orm";
+import { appendAuditLog } from "./audit-chain";
+import { archiveExpiredAuditLogs, type AuditPurgeResult } from "./audit-archive";
 
 export interface AuditContext {
   userId?: number;
+  apiKeyId?: number;
   organizationId?: number;
   ipAddress?: string;
   userAgent?: string;
@@ -14,14 +14,9 @@ export interface AuditContext {
 
 export class AuditLogger {
   private static getClientIp(req: Request): string {
-    // Get client IP, considering proxies and load balancers
-    return (
-      req.headers['x-forwarded-for']?.toString().split(',')[0] ||
-      req.headers['x-real-ip']?.toString() ||
-      req.connection.remoteAddress ||
-      req.socket.remoteAddress ||
-      'unknown'
-    );
+    // req.ip only reads X-Forwarded-For through the proxies trusted by TRUST_PROXY, so clients cannot
+    // pick the address that login throttling and new-IP alerts key on
+    return req.ip || req.socket.remoteAddress || 'unknown';
   }
 
   private static getSessionId(req: Request): string | undefined {
@@ -30,6 +25,17 @@ export class AuditLogger {
   }
 
   public static extractContext(req: Request): AuditContext {
+    // API key requests act for the organization, not for a signed-in user
+    const apiKey = (req as any).apiKey;
+    if (apiKey) {
+      return {
+        apiKeyId: apiKey.id,
+        organizationId: apiKey.organizationId,
+        ipAddress: this.getClientIp(req),
+        userAgent: req.headers['user-agent'] || 'unknown',
+      };
+    }
+
     return {
       userId: req.session?.userId,
       organizationId: req.session?.organizationId,
@@ -49,6 +55,7 @@ export class AuditLogger {
     try {
       const auditEntry: InsertAuditLog = {
         userId: params.context.userId,
+        apiKeyId: params.context.apiKeyId,
         organizationId: params.context.organizationId,
         action: params.action,
         resourceType: params.resourceType,
@@ -60,9 +67,10 @@ export class AuditLogger {
         retentionDate: new Date(Date.now() + (7 * 365 * 24 * 60 * 60 * 1000)), // 7 years
       };
 
-      await db.insert(auditLogs).values(auditEntry);
+      await appendAuditLog(auditEntry);
       
-      console.log(`[AUDIT] ${params.action}${params.resourceType ? ` on ${params.resourceType}` : ''}${params.resourceId ? ` (ID: ${params.resourceId})` : ''} by user ${params.context.userId || 'anonymous'}`);
+      const actor = params.context.apiKeyId ? `API key ${params.context.apiKeyId}` : `user ${params.context.userId || 'anonymous'}`;
+      console.log(`[AUDIT] ${params.action}${params.resourceType ? ` on ${params.resourceType}` : ''}${params.resourceId ? ` (ID: ${params.resourceId})` : ''} by ${actor}`);
     } catch (error) {
       console.error('Failed to write audit log:', error);
       // Don't throw error to avoid disrupting main application flow
@@ -71,7 +79,7 @@ export class AuditLogger {
 
   // Convenience methods for common audit actions
   
-  public static async logAuthentication(action: 'LOGIN' | 'LOGOUT' | 'LOGIN_FAILED', context: AuditContext, details?: Record<string, any>): Promise<void> {
+  public static async logAuthentication(action: 'LOGIN' | 'LOGOUT' | 'LOGIN_FAILED' | 'MFA_ENROLLMENT_STARTED' | 'MFA_ENROLLED' | 'MFA_ENROLLMENT_FAILED' | 'MFA_DISABLED' | 'MFA_CHALLENGE_SUCCESS' | 'MFA_CHALLENGE_FAILED' | 'MFA_RECOVERY_CODE_USED' | 'MFA_RECOVERY_CODES_REGENERATED' | 'ACCOUNT_LOCKED' | 'ACCOUNT_UNLOCKED' | 'PASSWORD_RESET_REQUESTED' | 'PASSWORD_RESET_COMPLETED' | 'PASSWORD_RESET_FAILED' | 'PASSWORD_CHANGED' | 'PASSWORD_EXPIRED' | 'SESSION_REVOKED' | 'SESSIONS_REVOKED' | 'SESSION_EXPIRED', context: AuditContext, details?: Record<string, any>): Promise<void> {
     await this.log({
       action,
       resourceType: 'authentication',
@@ -94,7 +102,7 @@ export class AuditLogger {
     });
   }
 
-  public static async logDocumentAccess(action: 'VIEW_DOCUMENT' | 'UPLOAD_DOCUMENT' | 'DELETE_DOCUMENT', documentId: number, patientId: number, context: AuditContext, details?: Record<string, any>): Promise<void> {
+  public static async logDocumentAccess(action: 'VIEW_DOCUMENT' | 'DOWNLOAD_DOCUMENT' | 'UPLOAD_DOCUMENT' | 'DELETE_DOCUMENT', documentId: number, patientId: number, context: AuditContext, details?: Record<string, any>): Promise<void> {
     await this.log({
       action,
       resourceType: 'patient_document',
@@ -107,6 +115,17 @@ export class AuditLogger {
     });
   }
 
+  // PHI sent outside the application; listed in the patient's accounting of disclosures
+  public static async logDisclosure(patientId: number, context: AuditContext, details: { recipient: string; purpose: string; documentIds?: number[]; [key: string]: any }): Promise<void> {
+    await this.log({
+      action: 'DISCLOSE_PATIENT',
+      resourceType: 'patient',
+      resourceId: patientId,
+      details,
+      context,
+    });
+  }
+
   public static async logUserAccess(action: 'VIEW_USER' | 'CREATE_USER' | 'UPDATE_USER' | 'DELETE_USER', userId: number, context: AuditContext, details?: Record<string, any>): Promise<void> {
     await this.log({
       action,
@@ -127,36 +146,42 @@ export class AuditLogger {
     });
   }
 
-  public static async logDataRetentionCleanup(recordsDeleted: number, context: AuditContext): Promise<void> {
+  public static async logDataRetentionCleanup(result: AuditPurgeResult, context: AuditContext): Promise<void> {
     await this.log({
       action: 'DATA_RETENTION_CLEANUP',
-      details: { recordsDeleted },
+      details: { recordsDeleted: result.deleted, archiveFiles: result.archives, recordsHeld: result.held },
       context,
     });
   }
 
-  public static async logRateLimitExceeded(endpoint: string, context: AuditContext): Promise<void> {
+  public static async logRateLimitExceeded(endpoint: string, context: AuditContext, details?: Record<string, any>): Promise<void> {
     await this.log({
       action: 'RATE_LIMIT_EXCEEDED',
-      details: { endpoint },
+      details: { endpoint, ...details },
+      context,
+    });
+  }
+
+  public static async logWebhookRejected(source: string, reason: string, context: AuditContext, details?: Record<string, any>): Promise<void> {
+    await this.log({
+      action: 'WEBHOOK_REJECTED',
+      resourceType: 'webhook',
+      details: { source, reason, ...details },
       context,
     });
   }
 }
 
 // Data retention cleanup function
-export async function cleanupExpiredAuditLogs(): Promise<number> {
+export async function cleanupExpiredAuditLogs(): Promise<AuditPurgeResult> {
   try {
-    const result = await db.delete(auditLogs).where(
-      lt(auditLogs.retentionDate, new Date())
-    );
-    
-    const deletedCount = Array.isArray(result) ? result.length : (result as any).rowCount || 0;
-    console.log(`[AUDIT CLEANUP] Deleted ${deletedCount} expired audit log records`);
+    // Expired entries are archived before they are deleted; entries under a legal hold are kept
+    const result = await archiveExpiredAuditLogs();
+    console.log(`[AUDIT CLEANUP] Archived and deleted ${result.deleted} expired audit log records in ${result.archives} archive file(s); ${result.held} kept under legal hold`);
     
-    return deletedCount;
+    return result;
   } catch (error) {
     console.error('Failed to cleanup expired audit logs:', error);
-    return 0;
+    return { deleted: 0, archives: 0, held: 0 };
   }
 }
\ No newline at end of file
@@ -1,12 +1,31 @@
 import { randomBytes } from "crypto";
 import { sendEmail } from "./email-service";
 import { storage } from "./storage";
+import type { LoginToken, User } from "@shared/schema";
+
+const INVITATION_EXPIRY_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+const PASSWORD_RESET_EXPIRY_MS = 30 * 60 * 1000; // 30 minutes
+
+/**
+ * Origin used in emailed links and the SSO redirect URI. It comes from PUBLIC_BASE_URL, never from the
+ * request's Host header, which a caller can set to send a victim's reset link to their own server.
+ */
+export function getPublicBaseUrl(): string {
+  const configured = process.env.PUBLIC_BASE_URL?.trim();
+  if (configured) {
+    return configured.replace(/\/+$/, '');
+  }
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('PUBLIC_BASE_URL must be set in production');
+  }
+  return `http://localhost:${process.env.PORT || 3000}`;
+}
 
 export function generateLoginToken(): string {
   return randomBytes(32).toString('hex');
 }
 
-export async function sendMagicLink(email: string, baseUrl: string): Promise<{ success: boolean; magicLink?: string }> {
+export async function sendMagicLink(email: string, baseUrl: string): Promise<{ success: boolean }> {
   try {
     // Generate unique token
     const token = generateLoginToken();
@@ -47,10 +66,12 @@ export async function sendMagicLink(email: string, baseUrl: string): Promise<{ s
       return { success: false };
     }
     
-    // Also log to console for development
-    console.log(`Magic link sent to ${email}: ${magicLink}`);
+    // The link signs its holder in, so it is only written to the console in development
+    if (process.env.NODE_ENV !== "production") {
+      console.log(`Magic link sent to ${email}: ${magicLink}`);
+    }
     
-    return { success: true, magicLink };
+    return { success: true };
   } catch (error) {
     console.error("Error creating magic link:", error);
     return { success: false };
@@ -61,7 +82,8 @@ export async function verifyLoginToken(token: string): Promise<{ success: boolea
   try {
     const tokenRecord = await storage.getLoginToken(token);
     
-    if (!tokenRecord) {
+    // Invitation tokens can only be redeemed through the invitation acceptance flow
+    if (!tokenRecord || tokenRecord.purpose !== 'login') {
       return { success: false, error: "Invalid token" };
     }
     
@@ -101,4 +123,115 @@ export async function verifyLoginToken(token: string): Promise<{ success: boolea
     console.error("Error verifying token:", error);
     return { success: false, error: "Verification failed" };
   }
-}
\ No newline at end of file
+}
+
+export async function createInvitationToken(email: string): Promise<LoginToken> {
+  return await storage.createLoginToken({
+    token: generateLoginToken(),
+    email,
+    expiresAt: new Date(Date.now() + INVITATION_EXPIRY_MS),
+    used: false,
+    purpose: 'invitation',
+  });
+}
+
+export async function sendInvitationEmail(params: {
+  email: string;
+  name?: string | null;
+  organizationName: string;
+  inviterName?: string | null;
+  token: string;
+  expiresAt: Date;
+  baseUrl: string;
+}): Promise<{ success: boolean; inviteLink: string }> {
+  const inviteLink = `${params.baseUrl}/invite/${params.token}`;
+  const inviter = params.inviterName || "A colleague";
+  
+  try {
+    const emailSent = await sendEmail({
+      to: params.email,
+      from: process.env.SENDGRID_FROM_EMAIL || "noreply@yourdomain.com",
+      subject: `You've been invited to join ${params.organizationName} on LEQVIO`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2 style="color: #2c5aa0;">LEQVIO Patient Management</h2>
+          <p>Hi${params.name ? ` ${params.name}` : ""},</p>
+          <p>${inviter} has invited you to join <strong>${params.organizationName}</strong>.</p>
+          <a href="${inviteLink}" style="display: inline-block; background-color: #2c5aa0; color: white; padding: 12px 24px; text-decoration: none; border-radius: 4px; margin: 16px 0;">
+            Accept Invitation
+          </a>
+          <p style="color: #666; font-size: 14px;">This invitation expires on ${params.expiresAt.toLocaleDateString()} and can only be used once.</p>
+          <p style="color: #666; font-size: 12px;">If you weren't expecting this invitation, you can safely ignore this email.</p>
+        </div>
+      `,
+      text: `${inviter} has invited you to join ${params.organizationName} on LEQVIO Patient Management.\n\nAccept the invitation: ${inviteLink}\n\nThis invitation expires on ${params.expiresAt.toLocaleDateString()}.`
+    });
+    
+    if (!emailSent) {
+      console.error("Failed to send invitation email");
+    }
+    
+    return { success: emailSent, inviteLink };
+  } catch (error) {
+    console.error("Error sending invitation email:", error);
+    return { success: false, inviteLink };
+  }
+}
+
+export async function sendPasswordResetEmail(user: User, baseUrl: string): Promise<{ success: boolean }> {
+  try {
+    // Only the most recent reset link should work
+    await storage.invalidateLoginTokensForEmail(user.email, 'password_reset');
+    
+    const token = generateLoginToken();
+    const expiresAt = new Date(Date.now() + PASSWORD_RESET_EXPIRY_MS);
+    
+    await storage.createLoginToken({
+      token,
+      email: user.email,
+      expiresAt,
+      used: false,
+      purpose: 'password_reset',
+    });
+    
+    const resetLink = `${baseUrl}/reset-password/${token}`;
+    
+    const emailSent = await sendEmail({
+      to: user.email,
+      from: process.env.SENDGRID_FROM_EMAIL || "noreply@yourdomain.com",
+      subject: "Reset your LEQVIO password",
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2 style="color: #2c5aa0;">LEQVIO Patient Management</h2>
+          <p>We received a request to reset the password for your account.</p>
+          <a href="${resetLink}" style="display: inline-block; background-color: #2c5aa0; color: white; padding: 12px 24px; text-decoration: none; border-radius: 4px; margin: 16px 0;">
+            Reset Password
+          </a>
+          <p style="color: #666; font-size: 14px;">This link will expire in 30 minutes and can only be used once. Resetting your password signs you out everywhere.</p>
+          <p style="color: #666; font-size: 12px;">If you didn't request a password reset, you can safely ignore this email.</p>
+        </div>
+      `,
+      text: `Reset your LEQVIO Patient Management password: ${resetLink}\n\nThis link will expire in 30 minutes.`
+    });
+    
+    if (!emailSent) {
+      console.error("Failed to send password reset email");
+    }
+    
+    return { success: emailSent };
+  } catch (error) {
+    console.error("Error creating password reset link:", error);
+    return { success: false };
+  }
+}
+
+export async function getValidPasswordResetToken(token: string): Promise<LoginToken | null> {
+  const tokenRecord = await storage.getLoginToken(token);
+  if (!tokenRecord || tokenRecord.purpose !== 'password_reset' || tokenRecord.used) {
+    return null;
+  }
+  if (new Date() > tokenRecord.expiresAt) {
+    return null;
+  }
+  return tokenRecord;
+}
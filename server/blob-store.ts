@@ -0,0 +1,108 @@
+import crypto from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import { Storage } from "@google-cloud/storage";
+import { encryptField, decryptField } from "./encryption-service";
+
+// Blob layout: iv (12 bytes) | auth tag (16 bytes) | AES-256-GCM ciphertext, with the storage key as associated data
+const IV_BYTES = 12;
+const AUTH_TAG_BYTES = 16;
+
+export interface BlobStore {
+  put(key: string, data: Buffer): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  delete(key: string): Promise<void>;
+}
+
+// Development backend: files under a local directory (BLOB_STORE_DIR)
+export class LocalDiskBlobStore implements BlobStore {
+  constructor(private readonly rootDir: string) {}
+
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+    if (!filePath.startsWith(path.resolve(this.rootDir) + path.sep)) {
+      throw new Error(`Invalid blob key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data, { mode: 0o600 });
+  }
+
+  async get(key: string): Promise<Buffer> {
+    return fs.readFile(this.resolve(key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+}
+
+// Production backend: objects in a Google Cloud Storage bucket (GOOGLE_CLOUD_STORAGE_BUCKET)
+export class GcsBlobStore implements BlobStore {
+  private readonly bucket;
+
+  constructor(bucketName: string) {
+    this.bucket = new Storage().bucket(bucketName);
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    await this.bucket.file(key).save(data, { resumable: false, contentType: "application/octet-stream" });
+  }
+
+  async get(key: string): Promise<Buffer> {
+    const [data] = await this.bucket.file(key).download();
+    return data;
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.bucket.file(key).delete({ ignoreNotFound: true });
+  }
+}
+
+export const blobStore: BlobStore = process.env.GOOGLE_CLOUD_STORAGE_BUCKET
+  ? new GcsBlobStore(process.env.GOOGLE_CLOUD_STORAGE_BUCKET)
+  : new LocalDiskBlobStore(process.env.BLOB_STORE_DIR || path.resolve(process.cwd(), ".uploads"));
+
+export interface StoredFile {
+  storageKey: string;
+  encryptedFileKey: string; // Per-file key, wrapped with the active PHI data key
+}
+
+/**
+ * Encrypt a file with its own random key and write it to the blob store.
+ * The wrapped file key is returned for the caller to persist next to the record.
+ */
+export async function storeEncryptedFile(prefix: string, data: Buffer): Promise<StoredFile> {
+  const storageKey = `${prefix}/${crypto.randomUUID()}`;
+  const fileKey = crypto.randomBytes(32);
+  const iv = crypto.randomBytes(IV_BYTES);
+
+  const cipher = crypto.createCipheriv("aes-256-gcm", fileKey, iv);
+  cipher.setAAD(Buffer.from(storageKey));
+  const ciphertext = Buffer.concat([cipher.update(data), cipher.final()]);
+
+  await blobStore.put(storageKey, Buffer.concat([iv, cipher.getAuthTag(), ciphertext]));
+
+  return {
+    storageKey,
+    encryptedFileKey: (await encryptField(fileKey.toString("base64"), storageKey))!,
+  };
+}
+
+export async function readEncryptedFile(file: StoredFile): Promise<Buffer> {
+  const fileKey = Buffer.from((await decryptField(file.encryptedFileKey, file.storageKey))!, "base64");
+  const blob = await blobStore.get(file.storageKey);
+
+  const decipher = crypto.createDecipheriv("aes-256-gcm", fileKey, blob.subarray(0, IV_BYTES));
+  decipher.setAAD(Buffer.from(file.storageKey));
+  decipher.setAuthTag(blob.subarray(IV_BYTES, IV_BYTES + AUTH_TAG_BYTES));
+  return Buffer.concat([decipher.update(blob.subarray(IV_BYTES + AUTH_TAG_BYTES)), decipher.final()]);
+}
+
+export async function deleteStoredFile(storageKey: string): Promise<void> {
+  await blobStore.delete(storageKey);
+}
@@ -0,0 +1,137 @@
+import { storage, type AuditLogEntry } from "./storage";
+import { signAuditReport, type ReportSignature } from "./audit-chain";
+import type { Patient } from "@shared/schema";
+
+// Accounting of disclosures for one patient (HIPAA 45 CFR 164.528), built from the audit log:
+// who opened or changed the record, which documents they touched, and PHI sent outside the application.
+
+// Patients may ask for an accounting of the six years before their request
+export const DISCLOSURE_LOOKBACK_YEARS = 6;
+const DISCLOSURE_REPORT_MAX_ENTRIES = 10000;
+
+export type DisclosureCategory = "access" | "change" | "document" | "disclosure";
+
+const REPORTED_ACTIONS: Record<string, { category: DisclosureCategory; label: string }> = {
+  VIEW_PATIENT: { category: "access", label: "Viewed record" },
+  BREAK_GLASS: { category: "access", label: "Emergency access to restricted record" },
+  CREATE_PATIENT: { category: "change", label: "Created record" },
+  UPDATE_PATIENT: { category: "change", label: "Updated record" },
+  DELETE_PATIENT: { category: "change", label: "Deleted record" },
+  CREATE_PATIENT_NOTE: { category: "change", label: "Added note" },
+  UPDATE_PATIENT_NOTE: { category: "change", label: "Edited note" },
+  LIST_DOCUMENTS: { category: "document", label: "Listed documents" },
+  VIEW_DOCUMENT: { category: "document", label: "Viewed document" },
+  DOWNLOAD_DOCUMENT: { category: "document", label: "Downloaded document" },
+  UPLOAD_DOCUMENT: { category: "document", label: "Uploaded document" },
+  DELETE_DOCUMENT: { category: "document", label: "Deleted document" },
+  DISCLOSE_PATIENT: { category: "disclosure", label: "Disclosed outside the organization" },
+};
+
+export interface DisclosureReportEntry {
+  auditLogId: number;
+  timestamp: string;
+  category: DisclosureCategory;
+  action: string;
+  description: string;
+  actor: string;
+  ipAddress: string | null;
+  documentIds: number[];
+  recipient: string | null;
+  purpose: string | null;
+}
+
+export interface DisclosureReport {
+  patient: { id: number; name: string; dateOfBirth: string | null };
+  organizationId: number;
+  from: string;
+  to: string;
+  generatedAt: string;
+  generatedBy: string;
+  entries: DisclosureReportEntry[]; // Oldest first
+  summary: Record<DisclosureCategory, number>;
+  truncated: boolean; // More than DISCLOSURE_REPORT_MAX_ENTRIES matched; the oldest were left out
+  signature: ReportSignature;
+}
+
+function describeActor(entry: AuditLogEntry): string {
+  if (entry.userName || entry.userEmail) {
+    return entry.userName && entry.userEmail ? `${entry.userName} (${entry.userEmail})` : (entry.userName || entry.userEmail)!;
+  }
+  if (entry.apiKeyId) return `API key: ${entry.apiKeyName ?? entry.apiKeyId}`;
+  return "System";
+}
+
+function toReportEntry(entry: AuditLogEntry): DisclosureReportEntry {
+  const { category, label } = REPORTED_ACTIONS[entry.action];
+  const details = (entry.details ?? {}) as Record<string, any>;
+
+  // Single-document events name the document as the resource; listings and disclosures carry a list
+  const documentIds: number[] = entry.resourceType === "patient_document" && entry.resourceId
+    ? [entry.resourceId]
+    : Array.isArray(details.documentIds) ? details.documentIds : [];
+
+  let description = label;
+  if (category === "change" && Array.isArray(details.phiFields) && details.phiFields.length > 0) {
+    description += ` (${details.phiFields.join(", ")})`;
+  } else if (category === "document" && details.fileName) {
+    description += `: ${details.fileName}`;
+  } else if (entry.action === "BREAK_GLASS" && details.justification) {
+    description += `: ${details.justification}`;
+  }
+
+  return {
+    auditLogId: entry.id,
+    timestamp: new Date(entry.timestamp).toISOString(),
+    category,
+    action: entry.action,
+    description,
+    actor: describeActor(entry),
+    ipAddress: entry.ipAddress,
+    documentIds,
+    recipient: category === "disclosure" ? details.recipient ?? null : null,
+    purpose: category === "disclosure" ? details.purpose ?? null : null,
+  };
+}
+
+/**
+ * Build and sign the accounting of disclosures for a patient over [from, to].
+ */
+export async function buildDisclosureReport(
+  patient: Patient,
+  generatedBy: string,
+  range: { from?: Date; to?: Date }
+): Promise<DisclosureReport> {
+  const to = range.to ?? new Date();
+  const from = range.from ?? new Date(new Date(to).setFullYear(to.getFullYear() - DISCLOSURE_LOOKBACK_YEARS));
+
+  const { entries, total } = await storage.searchAuditLogs(patient.organizationId, {
+    patientId: patient.id,
+    actions: Object.keys(REPORTED_ACTIONS),
+    from,
+    to,
+  }, { limit: DISCLOSURE_REPORT_MAX_ENTRIES, offset: 0 });
+
+  const reportEntries = entries.map(toReportEntry).reverse();
+  const summary: Record<DisclosureCategory, number> = { access: 0, change: 0, document: 0, disclosure: 0 };
+  for (const entry of reportEntries) {
+    summary[entry.category]++;
+  }
+
+  const report: Omit<DisclosureReport, "signature"> = {
+    patient: {
+      id: patient.id,
+      name: `${patient.firstName} ${patient.lastName}`,
+      dateOfBirth: patient.dateOfBirth ?? null,
+    },
+    organizationId: patient.organizationId,
+    from: from.toISOString(),
+    to: to.toISOString(),
+    generatedAt: new Date().toISOString(),
+    generatedBy,
+    entries: reportEntries,
+    summary,
+    truncated: total > entries.length,
+  };
+
+  return { ...report, signature: signAuditReport(report) };
+}
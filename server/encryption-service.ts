@@ -0,0 +1,172 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+
+// Field ciphertext: enc:v1:<keyId>:<iv>:<authTag>:<ciphertext> (base64 parts). Anything else is legacy plaintext.
+const CIPHERTEXT_PREFIX = "enc:v1:";
+const ALGORITHM = "aes-256-gcm";
+const IV_BYTES = 12;
+const KEY_BYTES = 32;
+
+export interface DataKey {
+  id: string;
+  key: Buffer;
+}
+
+/**
+ * Source of encryption keys. The local keyfile provider is the default; a KMS-backed
+ * provider only needs to implement this interface and be passed to setKeyProvider().
+ */
+export interface KeyProvider {
+  getActiveKey(): Promise<DataKey>;
+  getKey(id: string): Promise<DataKey | undefined>;
+  // Blind-index key is separate from the data keys and is not rotated (indexes would need rebuilding)
+  getBlindIndexKey(): Promise<Buffer>;
+  // Create a new data key and make it active. Older keys stay available for decryption.
+  rotateKey(): Promise<DataKey>;
+}
+
+interface Keyfile {
+  activeKeyId: string;
+  keys: Record<string, string>;
+  blindIndexKey: string;
+  rotatedAt?: string;
+}
+
+function newKeyId(): string {
+  return `k${Date.now().toString(36)}`;
+}
+
+export class LocalKeyfileProvider implements KeyProvider {
+  private keyfile?: Keyfile;
+
+  constructor(private readonly keyfilePath: string) {}
+
+  private load(): Keyfile {
+    if (this.keyfile) return this.keyfile;
+
+    if (fs.existsSync(this.keyfilePath)) {
+      this.keyfile = JSON.parse(fs.readFileSync(this.keyfilePath, "utf8")) as Keyfile;
+      return this.keyfile;
+    }
+
+    // Never silently generate keys in production: data encrypted with a lost key is unrecoverable
+    if (process.env.NODE_ENV === "production") {
+      throw new Error(`PHI keyfile not found at ${this.keyfilePath}`);
+    }
+
+    const keyId = newKeyId();
+    this.keyfile = {
+      activeKeyId: keyId,
+      keys: { [keyId]: crypto.randomBytes(KEY_BYTES).toString("base64") },
+      blindIndexKey: crypto.randomBytes(KEY_BYTES).toString("base64"),
+    };
+    this.save();
+    console.warn(`[ENCRYPTION] Generated development PHI keyfile at ${this.keyfilePath}`);
+    return this.keyfile;
+  }
+
+  private save() {
+    fs.mkdirSync(path.dirname(this.keyfilePath), { recursive: true });
+    fs.writeFileSync(this.keyfilePath, JSON.stringify(this.keyfile, null, 2), { mode: 0o600 });
+  }
+
+  async getActiveKey(): Promise<DataKey> {
+    const keyfile = this.load();
+    return { id: keyfile.activeKeyId, key: Buffer.from(keyfile.keys[keyfile.activeKeyId], "base64") };
+  }
+
+  async getKey(id: string): Promise<DataKey | undefined> {
+    const encoded = this.load().keys[id];
+    return encoded ? { id, key: Buffer.from(encoded, "base64") } : undefined;
+  }
+
+  async getBlindIndexKey(): Promise<Buffer> {
+    return Buffer.from(this.load().blindIndexKey, "base64");
+  }
+
+  async rotateKey(): Promise<DataKey> {
+    const keyfile = this.load();
+    const dataKey = { id: newKeyId(), key: crypto.randomBytes(KEY_BYTES) };
+    keyfile.keys[dataKey.id] = dataKey.key.toString("base64");
+    keyfile.activeKeyId = dataKey.id;
+    keyfile.rotatedAt = new Date().toISOString();
+    this.save();
+    return dataKey;
+  }
+}
+
+let keyProvider: KeyProvider = new LocalKeyfileProvider(
+  process.env.PHI_KEYFILE || path.resolve(process.cwd(), ".keys", "phi-keys.json")
+);
+
+export function setKeyProvider(provider: KeyProvider) {
+  keyProvider = provider;
+}
+
+export function getKeyProvider(): KeyProvider {
+  return keyProvider;
+}
+
+export function isEncrypted(value: string | null | undefined): boolean {
+  return typeof value === "string" && value.startsWith(CIPHERTEXT_PREFIX);
+}
+
+// Key id a stored value was encrypted with, or null for plaintext
+export function getCiphertextKeyId(value: string | null | undefined): string | null {
+  return isEncrypted(value) ? value!.slice(CIPHERTEXT_PREFIX.length).split(":")[0] : null;
+}
+
+/**
+ * Encrypt a field value with the active key. The field name is bound as associated data so a
+ * ciphertext cannot be copied into a different column. Empty values are stored as-is. Values that
+ * already look like ciphertext are encrypted too: callers pass plaintext, and skipping them would let
+ * anyone store unencrypted text by writing the prefix.
+ */
+export async function encryptField(value: string | null | undefined, field: string): Promise<string | null | undefined> {
+  if (value === null || value === undefined || value === "") {
+    return value;
+  }
+
+  const { id, key } = await keyProvider.getActiveKey();
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  cipher.setAAD(Buffer.from(field));
+  const ciphertext = Buffer.concat([cipher.update(value, "utf8"), cipher.final()]);
+  const authTag = cipher.getAuthTag();
+
+  return `${CIPHERTEXT_PREFIX}${id}:${iv.toString("base64")}:${authTag.toString("base64")}:${ciphertext.toString("base64")}`;
+}
+
+export async function decryptField(value: string | null | undefined, field: string): Promise<string | null | undefined> {
+  if (!isEncrypted(value)) {
+    return value; // Rows written before encryption was enabled
+  }
+
+  const [keyId, iv, authTag, ciphertext] = value!.slice(CIPHERTEXT_PREFIX.length).split(":");
+  const dataKey = await keyProvider.getKey(keyId);
+  if (!dataKey) {
+    throw new Error(`Encryption key ${keyId} is not available`);
+  }
+
+  const decipher = crypto.createDecipheriv(ALGORITHM, dataKey.key, Buffer.from(iv, "base64"));
+  decipher.setAAD(Buffer.from(field));
+  decipher.setAuthTag(Buffer.from(authTag, "base64"));
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, "base64")), decipher.final()]).toString("utf8");
+}
+
+// Identifiers are compared ignoring case, spaces and dashes ("MRN 123-45" matches "mrn12345")
+export function normalizeIdentifier(value: string): string {
+  return value.replace(/[\s-]/g, "").toUpperCase();
+}
+
+/**
+ * Deterministic keyed hash of a normalized value, stored alongside the ciphertext for exact-match lookups.
+ */
+export async function blindIndex(value: string | null | undefined, field: string): Promise<string | null> {
+  if (!value || !value.trim()) {
+    return null;
+  }
+  const key = await keyProvider.getBlindIndexKey();
+  return crypto.createHmac("sha256", key).update(`${field}:${normalizeIdentifier(value)}`).digest("hex");
+}
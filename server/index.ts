@@ -7,9 +7,16 @@ import cors from "cors";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { initializeScheduledTasks, stopScheduledTasks } from "./scheduled-tasks";
+import { SIGNED_WEBHOOK_PATHS, captureRawBody } from "./webhook-auth";
 
 const app = express();
 
+// Number of reverse proxies in front of the app, so req.ip (used by rate limits, login throttling and the
+// audit log) is the client's address. X-Forwarded-For is ignored unless it comes through these proxies.
+if (process.env.TRUST_PROXY) {
+  app.set('trust proxy', parseInt(process.env.TRUST_PROXY));
+}
+
 // Security Headers with Helmet
 app.use(helmet({
   contentSecurityPolicy: {
@@ -53,6 +60,9 @@ app.use((req: Request, res: Response, next: NextFunction) => {
   next();
 });
 
+// Webhooks keep the raw bytes so their signatures can be verified (see webhook-auth.ts). Other routes do not need a
+// second copy of every body, and the parsers below skip bodies that are already parsed.
+app.use(SIGNED_WEBHOOK_PATHS, express.json({ limit: '50mb', verify: captureRawBody }), express.urlencoded({ extended: true, limit: '50mb', verify: captureRawBody }));
 app.use(express.json({ limit: '50mb' }));
 app.use(express.urlencoded({ extended: true, limit: '50mb' }));
 
@@ -0,0 +1,105 @@
+import type { PatientNoteCategory } from "@shared/schema";
+
+// Parser for the legacy `patients.notes` blob, used once by `npm run notes:migrate`.
+// The blob had up to three sections. The server wrote `=== NOTES ===` or `=== USER NOTES ===` for the first one,
+// depending on the code path, and both are read here. Text before any header predates the sections.
+
+export interface LegacyNote {
+  category: PatientNoteCategory;
+  body: string;
+  writtenAt: Date | null; // From the entry's own timestamp, when it has one
+}
+
+// Written by `npm run dates:migrate` when it runs before patient_notes exists
+export const SYSTEM_NOTES_HEADER = "=== SYSTEM NOTES ===";
+
+const SECTION_HEADERS: Record<string, PatientNoteCategory> = {
+  "=== NOTES ===": "user",
+  "=== USER NOTES ===": "user",
+  "=== VOICEMAILS ===": "voicemail",
+  "=== INSURANCE & AUTH UPDATES ===": "insurance",
+  [SYSTEM_NOTES_HEADER]: "system",
+};
+
+// `[1/5/2025, 3:04:05 PM] Voicemail left for patient` and `[...] Updated: authNumber: ...`
+const BRACKETED_TIMESTAMP = /^\[([^\]]+)\]/;
+// `Updated: Insurance card data - 1/5/2025, 3:04:05 PM`, followed by indented field lines
+const TRAILING_TIMESTAMP = /^Updated: .* - ([^-]+)$/;
+
+function parseTimestamp(line: string): Date | null {
+  const match = line.match(BRACKETED_TIMESTAMP) ?? line.match(TRAILING_TIMESTAMP);
+  if (!match) return null;
+  const parsed = new Date(match[1].trim());
+  return isNaN(parsed.getTime()) ? null : parsed;
+}
+
+// Insurance entries can span lines: an entry starts at an unindented line and indented field lines follow it
+function splitEntries(lines: string[]): string[][] {
+  const entries: string[][] = [];
+  for (const line of lines) {
+    if (!line.trim()) continue;
+    if (/^\s/.test(line) && entries.length > 0) {
+      entries[entries.length - 1].push(line);
+    } else {
+      entries.push([line]);
+    }
+  }
+  return entries;
+}
+
+function toNotes(category: PatientNoteCategory, lines: string[]): LegacyNote[] {
+  // The user section was edited as a single text box, and each system section is one message, so they stay one note
+  if (category === "user" || category === "system") {
+    const body = lines.join("\n").trim();
+    return body ? [{ category, body, writtenAt: null }] : [];
+  }
+  return splitEntries(lines).map((entry) => ({
+    category,
+    body: entry.join("\n").trimEnd(),
+    writtenAt: parseTimestamp(entry[0]),
+  }));
+}
+
+// Blobs written before the sections existed: voicemail and change lines are picked out as the old migration did
+function parseUnsectioned(lines: string[]): LegacyNote[] {
+  const user: string[] = [];
+  const voicemail: string[] = [];
+  const insurance: string[] = [];
+  for (const line of lines) {
+    if (line.includes("Voicemail left for patient")) {
+      voicemail.push(line);
+    } else if (line.includes("Updated:") && /insurance|auth|primary|secondary/i.test(line)) {
+      insurance.push(line);
+    } else {
+      user.push(line);
+    }
+  }
+  return [...toNotes("user", user), ...toNotes("voicemail", voicemail), ...toNotes("insurance", insurance)];
+}
+
+/**
+ * Split a legacy notes blob into notes: the user text as one note, and one note per voicemail or insurance entry.
+ */
+export function parseLegacyNotes(blob: string | null | undefined): LegacyNote[] {
+  if (!blob?.trim()) return [];
+
+  const lines = blob.replace(/\r\n/g, "\n").split("\n");
+  if (!lines.some((line) => SECTION_HEADERS[line.trim()])) {
+    return parseUnsectioned(lines);
+  }
+
+  const sections: Array<{ category: PatientNoteCategory; lines: string[] }> = [];
+  let current: { category: PatientNoteCategory; lines: string[] } | null = null;
+  const preamble: string[] = [];
+  for (const line of lines) {
+    const category = SECTION_HEADERS[line.trim()];
+    if (category) {
+      current = { category, lines: [] };
+      sections.push(current);
+    } else {
+      (current ? current.lines : preamble).push(line);
+    }
+  }
+
+  return [...parseUnsectioned(preamble), ...sections.flatMap((section) => toNotes(section.category, section.lines))];
+}
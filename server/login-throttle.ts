@@ -0,0 +1,149 @@
+import { storage } from "./storage";
+import { AuditLogger, type AuditContext } from "./audit-service";
+import type { User } from "@shared/schema";
+
+// Account lockout: consecutive failures before a temporary lock, doubling for repeat lockouts
+const ACCOUNT_MAX_FAILURES = 5;
+const ACCOUNT_BASE_LOCKOUT_MS = 15 * 60 * 1000;
+const ACCOUNT_MAX_LOCKOUT_MS = 24 * 60 * 60 * 1000;
+
+// Per-IP throttle: failures across any accounts within the window before the IP is blocked
+const IP_MAX_FAILURES = 20;
+const IP_WINDOW_MS = 15 * 60 * 1000;
+const IP_BLOCK_MS = 15 * 60 * 1000;
+
+// Progressive delay applied to every attempt once failures start piling up
+const DELAY_FREE_FAILURES = 2;
+const DELAY_BASE_MS = 1000;
+const DELAY_MAX_MS = 10 * 1000;
+
+interface IpFailureState {
+  failures: number[]; // Timestamps of recent failures
+  blockedUntil?: number;
+}
+
+// IP counters are process-local; they only need to survive as long as an attack does
+const ipFailures = new Map<string, IpFailureState>();
+
+export interface LoginThrottleStatus {
+  allowed: boolean;
+  reason?: 'ip_blocked' | 'account_locked';
+  retryAfterSeconds?: number;
+  delayMs: number;
+}
+
+function getRecentIpFailures(ip: string, now: number): IpFailureState {
+  const state = ipFailures.get(ip) || { failures: [] };
+  state.failures = state.failures.filter((timestamp) => now - timestamp < IP_WINDOW_MS);
+  if (state.blockedUntil && state.blockedUntil <= now) {
+    state.blockedUntil = undefined;
+  }
+  return state;
+}
+
+export function getProgressiveDelayMs(failures: number): number {
+  if (failures <= DELAY_FREE_FAILURES) {
+    return 0;
+  }
+  return Math.min(DELAY_BASE_MS * 2 ** (failures - DELAY_FREE_FAILURES - 1), DELAY_MAX_MS);
+}
+
+function getLockoutDurationMs(failures: number): number {
+  // 5 failures -> 15 min, 10 -> 30 min, 15 -> 60 min, ... capped at 24 hours
+  const lockoutCount = Math.floor(failures / ACCOUNT_MAX_FAILURES);
+  return Math.min(ACCOUNT_BASE_LOCKOUT_MS * 2 ** (lockoutCount - 1), ACCOUNT_MAX_LOCKOUT_MS);
+}
+
+export function isUserLocked(user: Pick<User, 'lockedUntil'>, now: Date = new Date()): boolean {
+  return !!user.lockedUntil && user.lockedUntil > now;
+}
+
+/**
+ * Decide whether a login attempt may proceed and how long to stall it first.
+ * Called before the password is checked so locked accounts never reach bcrypt.
+ */
+export async function checkLoginThrottle(user: User | undefined, context: AuditContext, endpoint: string): Promise<LoginThrottleStatus> {
+  const ip = context.ipAddress || 'unknown';
+  const now = Date.now();
+  const ipState = getRecentIpFailures(ip, now);
+
+  if (ipState.blockedUntil) {
+    await AuditLogger.logRateLimitExceeded(endpoint, context);
+    return {
+      allowed: false,
+      reason: 'ip_blocked',
+      retryAfterSeconds: Math.ceil((ipState.blockedUntil - now) / 1000),
+      delayMs: 0,
+    };
+  }
+
+  if (user && isUserLocked(user)) {
+    return {
+      allowed: false,
+      reason: 'account_locked',
+      retryAfterSeconds: Math.ceil((user.lockedUntil!.getTime() - now) / 1000),
+      delayMs: 0,
+    };
+  }
+
+  const failures = Math.max(ipState.failures.length, user?.failedLoginAttempts || 0);
+  return { allowed: true, delayMs: getProgressiveDelayMs(failures) };
+}
+
+/**
+ * Record a failed attempt against the IP and (if known) the account, locking
+ * either one once its threshold is reached.
+ */
+export async function recordLoginFailure(user: User | undefined, context: AuditContext, endpoint: string): Promise<void> {
+  const ip = context.ipAddress || 'unknown';
+  const now = Date.now();
+  const ipState = getRecentIpFailures(ip, now);
+  ipState.failures.push(now);
+
+  if (ipState.failures.length >= IP_MAX_FAILURES && !ipState.blockedUntil) {
+    ipState.blockedUntil = now + IP_BLOCK_MS;
+    await AuditLogger.logRateLimitExceeded(endpoint, context);
+  }
+  ipFailures.set(ip, ipState);
+
+  if (!user) {
+    return;
+  }
+
+  const updated = await storage.recordFailedLogin(user.id);
+  if (updated.failedLoginAttempts % ACCOUNT_MAX_FAILURES === 0) {
+    const lockedUntil = new Date(now + getLockoutDurationMs(updated.failedLoginAttempts));
+    await storage.lockUser(user.id, lockedUntil);
+
+    await AuditLogger.logAuthentication('ACCOUNT_LOCKED', {
+      ...context,
+      userId: user.id,
+      organizationId: user.currentOrganizationId || undefined,
+    }, {
+      email: user.email,
+      failedAttempts: updated.failedLoginAttempts,
+      lockedUntil: lockedUntil.toISOString(),
+    });
+  }
+}
+
+export async function recordLoginSuccess(user: User): Promise<void> {
+  if (user.failedLoginAttempts > 0 || user.lockedUntil) {
+    await storage.resetFailedLogins(user.id);
+  }
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Drop stale IP entries so the map doesn't grow without bound
+setInterval(() => {
+  const now = Date.now();
+  ipFailures.forEach((state, ip) => {
+    const current = getRecentIpFailures(ip, now);
+    if (current.failures.length === 0 && !current.blockedUntil) {
+      ipFailures.delete(ip);
+    }
+  });
+}, IP_WINDOW_MS).unref();
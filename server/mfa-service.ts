@@ -0,0 +1,149 @@
+import crypto from "crypto";
+import QRCode from "qrcode";
+
+// RFC 6238 TOTP parameters (compatible with Google Authenticator, Authy, 1Password, etc.)
+const TOTP_DIGITS = 6;
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_DRIFT_WINDOWS = 1; // Accept one period before/after to tolerate clock drift
+const MFA_ISSUER = process.env.MFA_ISSUER || "LEQVIO Patient Management";
+
+const RECOVERY_CODE_COUNT = 10;
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+
+  for (let i = 0; i < buffer.length; i++) {
+    value = (value << 8) | buffer[i];
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+function base32Decode(input: string): Buffer {
+  const cleaned = input.replace(/=+$/, "").replace(/\s+/g, "").toUpperCase();
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error("Invalid base32 character in TOTP secret");
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+function generateHotp(secret: Buffer, counter: number): string {
+  const counterBuffer = Buffer.alloc(8);
+  counterBuffer.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = crypto.createHmac("sha1", secret).update(counterBuffer).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, "0");
+}
+
+export function generateTotpSecret(): string {
+  // 160-bit secret as recommended by RFC 4226
+  return base32Encode(crypto.randomBytes(20));
+}
+
+/**
+ * The time step a TOTP code was generated for, or null if it matches none in the drift window.
+ * Steps at or before lastUsedStep are skipped, so an accepted code cannot be used a second time.
+ */
+export function verifyTotpCode(secret: string, code: string, lastUsedStep: number | null = null, now: number = Date.now()): number | null {
+  const normalized = code.replace(/\s+/g, "");
+  if (!/^\d{6}$/.test(normalized)) {
+    return null;
+  }
+
+  const key = base32Decode(secret);
+  const counter = Math.floor(now / 1000 / TOTP_PERIOD_SECONDS);
+
+  for (let drift = -TOTP_DRIFT_WINDOWS; drift <= TOTP_DRIFT_WINDOWS; drift++) {
+    const step = counter + drift;
+    if (lastUsedStep !== null && step <= lastUsedStep) continue;
+
+    const expected = generateHotp(key, step);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+      return step;
+    }
+  }
+
+  return null;
+}
+
+export function buildOtpauthUri(secret: string, accountEmail: string): string {
+  const label = encodeURIComponent(`${MFA_ISSUER}:${accountEmail}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: MFA_ISSUER,
+    algorithm: "SHA1",
+    digits: TOTP_DIGITS.toString(),
+    period: TOTP_PERIOD_SECONDS.toString(),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+export async function buildQrCodeDataUrl(otpauthUri: string): Promise<string> {
+  return QRCode.toDataURL(otpauthUri, { errorCorrectionLevel: "M", margin: 1, width: 220 });
+}
+
+function normalizeRecoveryCode(code: string): string {
+  return code.replace(/[\s-]+/g, "").toLowerCase();
+}
+
+export function hashRecoveryCode(code: string): string {
+  return crypto.createHash("sha256").update(normalizeRecoveryCode(code)).digest("hex");
+}
+
+export function generateRecoveryCodes(): { codes: string[]; hashes: string[] } {
+  const codes: string[] = [];
+  for (let i = 0; i < RECOVERY_CODE_COUNT; i++) {
+    const raw = crypto.randomBytes(5).toString("hex");
+    codes.push(`${raw.slice(0, 5)}-${raw.slice(5)}`);
+  }
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+}
+
+/**
+ * Check a recovery code against the stored hashes. Returns the remaining hashes
+ * (with the matched one removed) when valid, or null when no code matched.
+ */
+export function consumeRecoveryCode(code: string, storedHashes: string[]): string[] | null {
+  const candidate = hashRecoveryCode(code);
+  const index = storedHashes.findIndex((hash) =>
+    hash.length === candidate.length &&
+    crypto.timingSafeEqual(Buffer.from(hash), Buffer.from(candidate))
+  );
+  if (index === -1) {
+    return null;
+  }
+  return storedHashes.filter((_, i) => i !== index);
+}
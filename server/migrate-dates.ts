@@ -0,0 +1,241 @@
+import "dotenv/config";
+import { eq, getTableName, sql } from "drizzle-orm";
+import type { PgColumn, PgTable } from "drizzle-orm/pg-core";
+import { storage } from "./storage";
+import { AuditLogger, type AuditContext } from "./audit-service";
+import { decryptField } from "./encryption-service";
+import { SYSTEM_NOTES_HEADER } from "./legacy-notes";
+import { db, pool } from "./db";
+import { parseCalendarDate } from "@shared/dates";
+import { appointments, auditLogs, patientNotes, patients, patientVersions } from "@shared/schema";
+
+// Usage: npm run dates:migrate [-- --apply]
+// Converts the MM/DD/YYYY text date columns to `date` columns holding YYYY-MM-DD. Run it before `npm run db:push`,
+// which cannot change the column types while they hold text. Without --apply it only reports what it would change.
+// The database may not have the pushed schema yet, so only columns that predate it are read, and tables added by
+// the push (patient notes, record versions) are used only when they exist.
+// Patient dates that cannot be read are cleared, and the original text is kept in a system note on the patient.
+// Before the push there is no patient_notes table, so the note goes into the legacy notes field instead, in a section
+// `npm run notes:migrate` turns into a system note.
+// An appointment cannot be left without a date, so unreadable appointment dates stop the migration until they are fixed.
+// Dates of birth are encrypted and stay text; they are only checked.
+
+const PATIENT_DATE_FIELDS = [
+  { field: "startDate", label: "Authorization start date" },
+  { field: "endDate", label: "Authorization end date" },
+  { field: "leqvioEnrollmentDate", label: "LEQVIO enrollment date" },
+] as const;
+
+type PatientDateField = typeof PATIENT_DATE_FIELDS[number]["field"];
+
+const systemContext: AuditContext = {
+  userId: undefined,
+  organizationId: undefined,
+  ipAddress: 'system',
+  userAgent: 'migrate-dates',
+  sessionId: 'system',
+};
+
+interface UnreadableDate {
+  table: string;
+  id: number;
+  field: string;
+  value: string | null; // Left out for dates of birth, which are PHI
+}
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// The column's type in the database, or undefined when it does not exist yet
+async function columnType(table: PgTable, column: PgColumn): Promise<string | undefined> {
+  const { rows } = await db.execute<{ data_type: string }>(sql`
+    select data_type from information_schema.columns
+    where table_schema = current_schema() and table_name = ${getTableName(table)} and column_name = ${column.name}
+  `);
+  return rows[0]?.data_type;
+}
+
+async function isTextColumn(table: PgTable, column: PgColumn): Promise<boolean> {
+  return (await columnType(table, column)) === "text";
+}
+
+async function tableExists(table: PgTable): Promise<boolean> {
+  const { rows } = await db.execute(sql`
+    select 1 from information_schema.tables where table_schema = current_schema() and table_name = ${getTableName(table)}
+  `);
+  return rows.length > 0;
+}
+
+// Values have already been rewritten as YYYY-MM-DD, which Postgres reads the same way whatever its DateStyle
+async function convertColumn(tx: Transaction, table: PgTable, column: PgColumn): Promise<void> {
+  const name = sql.identifier(column.name);
+  await tx.execute(sql`alter table ${sql.identifier(getTableName(table))} alter column ${name} type date using nullif(trim(${name}), '')::date`);
+}
+
+// Empty text becomes null; anything else is read as a date, or null when it cannot be
+function normalize(value: string | null): { date: string | null; unreadable: boolean } {
+  if (!value?.trim()) return { date: null, unreadable: false };
+  const date = parseCalendarDate(value);
+  return { date, unreadable: date === null };
+}
+
+async function main() {
+  const apply = process.argv.includes("--apply");
+  const unreadable: UnreadableDate[] = [];
+
+  const patientColumns: PatientDateField[] = [];
+  for (const { field } of PATIENT_DATE_FIELDS) {
+    if (await isTextColumn(patients, patients[field])) patientColumns.push(field);
+  }
+  const convertAppointments = await isTextColumn(appointments, appointments.appointmentDate);
+
+  // Patients: the new value of each date that changes, and the text of those that cannot be read
+  const patientRows = await db
+    .select({ id: patients.id, organizationId: patients.organizationId, startDate: patients.startDate, endDate: patients.endDate, leqvioEnrollmentDate: patients.leqvioEnrollmentDate })
+    .from(patients);
+  const patientUpdates = new Map<number, Partial<Record<PatientDateField, string | null>>>();
+  const lostDates = new Map<number, { organizationId: number; lines: string[] }>();
+
+  for (const row of patientRows) {
+    for (const { field, label } of PATIENT_DATE_FIELDS) {
+      if (!patientColumns.includes(field) || row[field] === null) continue;
+
+      const { date, unreadable: cannotRead } = normalize(row[field]);
+      if (date !== row[field]) {
+        patientUpdates.set(row.id, { ...patientUpdates.get(row.id), [field]: date });
+      }
+      if (cannotRead) {
+        unreadable.push({ table: "patients", id: row.id, field, value: row[field] });
+        const lost = lostDates.get(row.id) ?? { organizationId: row.organizationId, lines: [] };
+        lost.lines.push(`${label}: ${row[field]}`);
+        lostDates.set(row.id, lost);
+      }
+    }
+  }
+
+  const appointmentUpdates = new Map<number, string>();
+  if (convertAppointments) {
+    const appointmentRows = await db.select({ id: appointments.id, appointmentDate: appointments.appointmentDate }).from(appointments);
+    for (const row of appointmentRows) {
+      const { date } = normalize(row.appointmentDate);
+      if (!date) {
+        unreadable.push({ table: "appointments", id: row.id, field: "appointmentDate", value: row.appointmentDate });
+      } else if (date !== row.appointmentDate) {
+        appointmentUpdates.set(row.id, date);
+      }
+    }
+  }
+
+  // Dates of birth are not converted, but bad ones are worth knowing about. They may still be plaintext before
+  // `npm run phi:reencrypt`, which decryptField passes through.
+  for (const patient of await db.select({ id: patients.id, dateOfBirth: patients.dateOfBirth }).from(patients)) {
+    const dateOfBirth = await decryptField(patient.dateOfBirth, "dateOfBirth").catch(() => null);
+    if (!parseCalendarDate(dateOfBirth)) {
+      unreadable.push({ table: "patients", id: patient.id, field: "dateOfBirth", value: null });
+    }
+  }
+
+  for (const entry of unreadable) {
+    console.log(`[DATES] Unreadable ${entry.field} on ${entry.table} #${entry.id}${entry.value === null ? "" : `: "${entry.value}"`}`);
+  }
+  console.log(`[DATES] ${patientUpdates.size} patients and ${appointmentUpdates.size} appointments have dates to rewrite; ${unreadable.length} values cannot be read`);
+
+  if (!apply) {
+    console.log('[DATES] Nothing was changed. Rerun with --apply to convert the columns.');
+    return;
+  }
+
+  const unreadableAppointments = unreadable.filter((entry) => entry.table === "appointments");
+  if (unreadableAppointments.length > 0) {
+    throw new Error(`${unreadableAppointments.length} appointments have dates that cannot be read; fix or delete them and rerun`);
+  }
+
+  const hasPatientNotes = await tableExists(patientNotes);
+  const hasPatientVersions = await tableExists(patientVersions);
+
+  // The original text of each date about to be cleared, written in the same transaction so it cannot be lost
+  const lostDateNotes = Array.from(lostDates).map(([patientId, lost]) => ({
+    patientId,
+    organizationId: lost.organizationId,
+    category: "system" as const,
+    body: `Dates cleared when date fields were converted, because they could not be read:\n${lost.lines.join("\n")}`,
+    authorId: null,
+  }));
+  const encryptedLostDateNotes = hasPatientNotes ? await Promise.all(lostDateNotes.map((note) => storage.encryptPatientNote(note))) : [];
+
+  // The rows are rewritten directly rather than through storage.updatePatient, so no versions are added: the dates
+  // change format, not value, and the snapshots below are rewritten alongside them
+  let versionCount = 0;
+  await db.transaction(async (tx) => {
+    if (encryptedLostDateNotes.length > 0) {
+      await tx.insert(patientNotes).values(encryptedLostDateNotes);
+    } else if (!hasPatientNotes) {
+      for (const note of lostDateNotes) {
+        const section = `${SYSTEM_NOTES_HEADER}\n${note.body}`;
+        await tx.update(patients).set({ notes: sql`concat_ws(E'\n', nullif(${patients.notes}, ''), ${section}::text)` }).where(eq(patients.id, note.patientId));
+      }
+    }
+    for (const [id, values] of Array.from(patientUpdates)) {
+      await tx.update(patients).set(values).where(eq(patients.id, id));
+    }
+    for (const field of patientColumns) {
+      await convertColumn(tx, patients, patients[field]);
+    }
+    for (const [id, appointmentDate] of Array.from(appointmentUpdates)) {
+      await tx.update(appointments).set({ appointmentDate }).where(eq(appointments.id, id));
+    }
+    if (convertAppointments) {
+      await convertColumn(tx, appointments, appointments.appointmentDate);
+    }
+
+    // Snapshots are reverted from, so their dates must fit the new columns too
+    const versions = hasPatientVersions
+      ? await tx.select({ id: patientVersions.id, snapshot: patientVersions.snapshot }).from(patientVersions)
+      : [];
+    for (const version of versions) {
+      const snapshot = { ...version.snapshot };
+      let changed = false;
+      for (const { field } of PATIENT_DATE_FIELDS) {
+        const value = snapshot[field];
+        if (typeof value !== "string") continue;
+        const { date } = normalize(value);
+        if (date !== value) {
+          snapshot[field] = date;
+          changed = true;
+        }
+      }
+      if (!changed) continue;
+      await tx.update(patientVersions).set({ snapshot }).where(eq(patientVersions.id, version.id));
+      versionCount++;
+    }
+  });
+
+  console.log(`[DATES] Converted ${patientColumns.length + (convertAppointments ? 1 : 0)} columns, rewrote ${patientUpdates.size} patients, ${appointmentUpdates.size} appointments and ${versionCount} record versions`);
+  if (!hasPatientNotes && lostDates.size > 0) {
+    console.log(`[DATES] The text of cleared dates was added to the notes of ${lostDates.size} patients; run \`npm run notes:migrate\` after \`npm run db:push\``);
+  }
+
+  // Audit entries are hash-chained, which needs the pushed audit_logs columns
+  if (!(await columnType(auditLogs, auditLogs.hash))) {
+    console.log('[DATES] The audit log has not been upgraded yet, so this run is not audited. Run `npm run db:push` next.');
+    return;
+  }
+  await AuditLogger.log({
+    action: 'DATES_MIGRATED',
+    resourceType: 'patient',
+    details: {
+      columns: [...patientColumns, ...(convertAppointments ? ["appointmentDate"] : [])],
+      patientCount: patientUpdates.size,
+      appointmentCount: appointmentUpdates.size,
+      versionCount,
+      clearedDates: unreadable.filter((entry) => entry.table === "patients" && entry.field !== "dateOfBirth").length,
+    },
+    context: systemContext,
+  });
+}
+
+main()
+  .catch((error) => {
+    console.error('[DATES] Date migration failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
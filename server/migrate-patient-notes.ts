@@ -0,0 +1,54 @@
+import "dotenv/config";
+import { storage } from "./storage";
+import { AuditLogger, type AuditContext } from "./audit-service";
+import { parseLegacyNotes } from "./legacy-notes";
+import { pool } from "./db";
+import type { InsertPatientNote } from "@shared/schema";
+
+// Usage: npm run notes:migrate
+// Moves each patient's legacy notes blob into patient_notes and clears the blob. Patients already moved are skipped,
+// so it is safe to rerun. Run `npm run db:push` first so the patient_notes table exists.
+
+const systemContext: AuditContext = {
+  userId: undefined,
+  organizationId: undefined,
+  ipAddress: 'system',
+  userAgent: 'migrate-patient-notes',
+  sessionId: 'system',
+};
+
+async function main() {
+  const legacyPatients = await storage.getPatientsWithLegacyNotes();
+  let noteCount = 0;
+
+  for (const patient of legacyPatients) {
+    // Entries without their own timestamp are dated to the patient's last update, the latest the blob could have changed
+    const notes: InsertPatientNote[] = parseLegacyNotes(patient.notes).map((note) => ({
+      patientId: patient.id,
+      organizationId: patient.organizationId,
+      category: note.category,
+      body: note.body,
+      authorId: null,
+      createdAt: note.writtenAt ?? patient.updatedAt,
+      updatedAt: note.writtenAt ?? patient.updatedAt,
+    }));
+
+    await storage.importLegacyPatientNotes(patient.id, notes);
+    noteCount += notes.length;
+  }
+
+  console.log(`[NOTES] Moved the notes of ${legacyPatients.length} patients into ${noteCount} patient notes`);
+  await AuditLogger.log({
+    action: 'PATIENT_NOTES_MIGRATED',
+    resourceType: 'patient',
+    details: { patientCount: legacyPatients.length, noteCount },
+    context: systemContext,
+  });
+}
+
+main()
+  .catch((error) => {
+    console.error('[NOTES] Notes migration failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
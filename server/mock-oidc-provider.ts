@@ -0,0 +1,166 @@
+import crypto from "crypto";
+import express from "express";
+import { SignJWT, exportJWK, generateKeyPair } from "jose";
+
+// Usage: npm run mock:idp
+// Minimal OpenID Connect provider for trying SSO locally. Any email can sign in; nothing is persisted.
+// Configure the organization with issuer http://localhost:9400 and client ID leqvio-local.
+
+const PORT = parseInt(process.env.MOCK_OIDC_PORT || "9400");
+const ISSUER = process.env.MOCK_OIDC_ISSUER || `http://localhost:${PORT}`;
+const CLIENT_ID = process.env.MOCK_OIDC_CLIENT_ID || "leqvio-local";
+const CLIENT_SECRET = process.env.MOCK_OIDC_CLIENT_SECRET; // Unset: public client, PKCE only
+const CODE_TTL_MS = 60 * 1000;
+
+interface PendingCode {
+  email: string;
+  name: string;
+  redirectUri: string;
+  nonce?: string;
+  codeChallenge?: string;
+  expiresAt: number;
+}
+
+const codes = new Map<string, PendingCode>();
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+// Stable subject per email so repeat logins map to the same linked account
+function subjectFor(email: string): string {
+  return crypto.createHash("sha256").update(email.toLowerCase()).digest("hex").slice(0, 24);
+}
+
+async function main() {
+  const { publicKey, privateKey } = await generateKeyPair("RS256");
+  const jwk = { ...(await exportJWK(publicKey)), kid: "mock-1", alg: "RS256", use: "sig" };
+
+  const app = express();
+  app.use(express.urlencoded({ extended: false }));
+
+  app.get("/.well-known/openid-configuration", (_req, res) => {
+    res.json({
+      issuer: ISSUER,
+      authorization_endpoint: `${ISSUER}/authorize`,
+      token_endpoint: `${ISSUER}/token`,
+      jwks_uri: `${ISSUER}/jwks`,
+      response_types_supported: ["code"],
+      subject_types_supported: ["public"],
+      id_token_signing_alg_values_supported: ["RS256"],
+      code_challenge_methods_supported: ["S256"],
+      token_endpoint_auth_methods_supported: CLIENT_SECRET ? ["client_secret_post", "client_secret_basic"] : ["none"],
+      scopes_supported: ["openid", "email", "profile"],
+    });
+  });
+
+  app.get("/jwks", (_req, res) => {
+    res.json({ keys: [jwk] });
+  });
+
+  // Sign-in form standing in for the IdP's login page; the authorization parameters ride along as hidden fields
+  app.get("/authorize", (req, res) => {
+    const params = req.query as Record<string, string>;
+    if (params.client_id !== CLIENT_ID || params.response_type !== "code" || !params.redirect_uri) {
+      return res.status(400).send("Invalid authorization request");
+    }
+
+    const hiddenFields = ["redirect_uri", "state", "nonce", "code_challenge", "code_challenge_method"]
+      .filter((field) => params[field])
+      .map((field) => `<input type="hidden" name="${field}" value="${escapeHtml(params[field])}">`)
+      .join("");
+
+    res.send(`
+      <html><body style="font-family: Arial, sans-serif; max-width: 400px; margin: 80px auto;">
+        <h2>Mock Identity Provider</h2>
+        <form method="post" action="/authorize">
+          ${hiddenFields}
+          <p><label>Email<br><input name="email" value="${escapeHtml(params.login_hint || "")}" required style="width: 100%"></label></p>
+          <p><label>Name<br><input name="name" value="" style="width: 100%"></label></p>
+          <button type="submit">Sign in</button>
+        </form>
+      </body></html>
+    `);
+  });
+
+  app.post("/authorize", (req, res) => {
+    const { email, name, redirect_uri, state, nonce, code_challenge } = req.body;
+    if (!email || !redirect_uri) {
+      return res.status(400).send("Email is required");
+    }
+
+    const code = crypto.randomBytes(24).toString("base64url");
+    codes.set(code, {
+      email,
+      name: name || email.split("@")[0],
+      redirectUri: redirect_uri,
+      nonce,
+      codeChallenge: code_challenge,
+      expiresAt: Date.now() + CODE_TTL_MS,
+    });
+
+    const redirectUrl = new URL(redirect_uri);
+    redirectUrl.searchParams.set("code", code);
+    if (state) redirectUrl.searchParams.set("state", state);
+    redirectUrl.searchParams.set("iss", ISSUER);
+    res.redirect(redirectUrl.href);
+  });
+
+  app.post("/token", async (req, res) => {
+    const basicAuth = req.headers.authorization?.startsWith("Basic ")
+      ? Buffer.from(req.headers.authorization.slice(6), "base64").toString().split(":").map(decodeURIComponent)
+      : [];
+    const clientId = req.body.client_id || basicAuth[0];
+    const clientSecret = req.body.client_secret || basicAuth[1];
+    const { grant_type, code, redirect_uri, code_verifier } = req.body;
+
+    const pending = codes.get(code);
+    codes.delete(code); // Codes are single-use
+
+    if (grant_type !== "authorization_code" || !pending || pending.expiresAt < Date.now()) {
+      return res.status(400).json({ error: "invalid_grant" });
+    }
+    if (clientId !== CLIENT_ID || (CLIENT_SECRET && clientSecret !== CLIENT_SECRET)) {
+      return res.status(401).json({ error: "invalid_client" });
+    }
+    if (redirect_uri !== pending.redirectUri) {
+      return res.status(400).json({ error: "invalid_grant", error_description: "redirect_uri mismatch" });
+    }
+    if (pending.codeChallenge) {
+      const challenge = crypto.createHash("sha256").update(code_verifier || "").digest("base64url");
+      if (challenge !== pending.codeChallenge) {
+        return res.status(400).json({ error: "invalid_grant", error_description: "PKCE verification failed" });
+      }
+    }
+
+    const idToken = await new SignJWT({
+      email: pending.email,
+      email_verified: true,
+      name: pending.name,
+      ...(pending.nonce ? { nonce: pending.nonce } : {}),
+    })
+      .setProtectedHeader({ alg: "RS256", kid: jwk.kid })
+      .setIssuer(ISSUER)
+      .setSubject(subjectFor(pending.email))
+      .setAudience(CLIENT_ID)
+      .setIssuedAt()
+      .setExpirationTime("5m")
+      .sign(privateKey);
+
+    res.json({
+      access_token: crypto.randomBytes(24).toString("base64url"),
+      token_type: "Bearer",
+      expires_in: 300,
+      id_token: idToken,
+    });
+  });
+
+  app.listen(PORT, () => {
+    console.log(`[MOCK IDP] OpenID provider listening at ${ISSUER} (client ID: ${CLIENT_ID})`);
+  });
+}
+
+main().catch((error) => {
+  console.error("[MOCK IDP] Failed to start:", error);
+  process.exitCode = 1;
+});
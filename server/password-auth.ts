@@ -3,11 +3,52 @@ import { storage } from "./storage";
 import type { UserLogin, UserRegister, User } from "@shared/schema";
 import { AuditLogger } from "./audit-service";
 import type { Request } from "express";
+import {
+  generateTotpSecret,
+  verifyTotpCode,
+  buildOtpauthUri,
+  buildQrCodeDataUrl,
+  generateRecoveryCodes,
+  consumeRecoveryCode,
+} from "./mfa-service";
+import { checkLoginThrottle, recordLoginFailure, recordLoginSuccess, isUserLocked, sleep } from "./login-throttle";
+import { checkNewPassword, formatPasswordErrors, isPasswordExpired, hashPassword } from "./password-policy";
+import { DEFAULT_PASSWORD_POLICY, type PasswordPolicy } from "@shared/password-policy";
 
 export interface AuthResult {
   success: boolean;
   user?: User;
   error?: string;
+  mfaRequired?: boolean; // Password accepted, second factor still outstanding
+  mfaEnrollmentRequired?: boolean; // Organization enforces MFA but the user has not enrolled yet
+  lockout?: 'ip_blocked' | 'account_locked'; // Attempt rejected by the brute-force throttle
+  retryAfterSeconds?: number;
+  passwordExpired?: boolean; // Password accepted but older than the policy's maximum age; replaced after any second factor
+  passwordPolicy?: PasswordPolicy;
+  passwordErrors?: string[]; // New password rejected by the password policy
+}
+
+const LOCKOUT_MESSAGES = {
+  ip_blocked: "Too many failed login attempts. Please try again later.",
+  account_locked: "Account temporarily locked due to repeated failed logins. Try again later or contact your organization administrator.",
+};
+
+export interface MfaResult {
+  success: boolean;
+  error?: string;
+  recoveryCodes?: string[];
+}
+
+export interface MfaEnrollment {
+  secret: string;
+  otpauthUri: string;
+  qrCodeDataUrl: string;
+}
+
+// Strip credentials and MFA secrets before a user object leaves this module
+function sanitizeUser(user: User): User {
+  const { password: _, mfaSecret: __, mfaRecoveryCodes: ___, ...safeUser } = user;
+  return safeUser as User;
 }
 
 export async function registerUser(userData: UserRegister): Promise<AuthResult> {
@@ -18,9 +59,14 @@ export async function registerUser(userData: UserRegister): Promise<AuthResult>
       return { success: false, error: "User already exists with this email" };
     }
 
+    // New accounts have no organization yet, so the default policy applies
+    const passwordCheck = await checkNewPassword(userData.password, DEFAULT_PASSWORD_POLICY);
+    if (!passwordCheck.valid) {
+      return { success: false, error: formatPasswordErrors(passwordCheck.errors), passwordErrors: passwordCheck.errors };
+    }
+
     // Hash password
-    const saltRounds = 10;
-    const hashedPassword = await bcrypt.hash(userData.password, saltRounds);
+    const hashedPassword = await hashPassword(userData.password);
 
     // Create user
     const user = await storage.createUser({
@@ -45,12 +91,37 @@ export async function loginUser(credentials: UserLogin, req?: Request): Promise<
   try {
     // Find user by email
     const user = await storage.getUserByEmail(credentials.email);
+
+    // Reject locked accounts and blocked IPs before touching the password
+    const throttle = await checkLoginThrottle(user, context, '/api/auth/login');
+    if (!throttle.allowed) {
+      await AuditLogger.logAuthentication('LOGIN_FAILED', {
+        ...context,
+        userId: user?.id,
+      }, {
+        email: credentials.email,
+        reason: throttle.reason,
+      });
+      return {
+        success: false,
+        error: LOCKOUT_MESSAGES[throttle.reason!],
+        lockout: throttle.reason,
+        retryAfterSeconds: throttle.retryAfterSeconds,
+      };
+    }
+
+    // Slow down repeated guessing
+    if (throttle.delayMs > 0) {
+      await sleep(throttle.delayMs);
+    }
+
     if (!user) {
       // Log failed login attempt
       await AuditLogger.logAuthentication('LOGIN_FAILED', context, {
         email: credentials.email,
         reason: 'user_not_found',
       });
+      await recordLoginFailure(undefined, context, '/api/auth/login');
       return { success: false, error: "Invalid email or password" };
     }
 
@@ -65,11 +136,45 @@ export async function loginUser(credentials: UserLogin, req?: Request): Promise<
         email: credentials.email,
         reason: 'invalid_password',
       });
+      await recordLoginFailure(user, context, '/api/auth/login');
       return { success: false, error: "Invalid email or password" };
     }
 
+    // Expired passwords must be replaced before the login completes, but only once any second factor
+    // is verified, so a stolen old password alone cannot set a new one
+    const passwordPolicy = await storage.getUserPasswordPolicy(user.id);
+    const passwordExpired = isPasswordExpired(user, passwordPolicy);
+    if (passwordExpired) {
+      await AuditLogger.logAuthentication('PASSWORD_EXPIRED', {
+        ...context,
+        userId: user.id,
+      }, {
+        email: credentials.email,
+        passwordChangedAt: user.passwordChangedAt,
+        maxAgeDays: passwordPolicy.maxAgeDays,
+      });
+    }
+
+    // Hold the login until the second factor is verified
+    const mfaRequired = user.mfaEnabled || await storage.isMfaRequiredForUser(user.id);
+    if (mfaRequired) {
+      return {
+        success: true,
+        user: sanitizeUser(user),
+        mfaRequired: true,
+        mfaEnrollmentRequired: !user.mfaEnabled,
+        passwordExpired,
+        passwordPolicy,
+      };
+    }
+
+    if (passwordExpired) {
+      return { success: true, user: sanitizeUser(user), passwordExpired: true, passwordPolicy };
+    }
+
     // Update last login
     await storage.updateUserLastLogin(user.id);
+    await recordLoginSuccess(user);
 
     // Log successful login
     await AuditLogger.logAuthentication('LOGIN', {
@@ -80,10 +185,7 @@ export async function loginUser(credentials: UserLogin, req?: Request): Promise<
       email: credentials.email,
     });
 
-    // Don't return password in response
-    const { password: _, ...userWithoutPassword } = user;
-    
-    return { success: true, user: userWithoutPassword as User };
+    return { success: true, user: sanitizeUser(user) };
   } catch (error) {
     console.error("Login error:", error);
     // Log system error during login
@@ -96,6 +198,339 @@ export async function loginUser(credentials: UserLogin, req?: Request): Promise<
   }
 }
 
+/**
+ * Check an existing account's password outside the login form (such as accepting an invitation) under
+ * the same lockout, per-IP throttle and progressive delay as a login.
+ */
+export async function verifyAccountPassword(user: User, password: string, req: Request, endpoint: string): Promise<AuthResult> {
+  const context = AuditLogger.extractContext(req);
+
+  const throttle = await checkLoginThrottle(user, context, endpoint);
+  if (!throttle.allowed) {
+    await AuditLogger.logAuthentication('LOGIN_FAILED', { ...context, userId: user.id }, {
+      email: user.email,
+      reason: throttle.reason,
+      endpoint,
+    });
+    return {
+      success: false,
+      error: LOCKOUT_MESSAGES[throttle.reason!],
+      lockout: throttle.reason,
+      retryAfterSeconds: throttle.retryAfterSeconds,
+    };
+  }
+
+  if (throttle.delayMs > 0) {
+    await sleep(throttle.delayMs);
+  }
+
+  if (!(await bcrypt.compare(password, user.password))) {
+    await AuditLogger.logAuthentication('LOGIN_FAILED', { ...context, userId: user.id }, {
+      email: user.email,
+      reason: 'invalid_password',
+      endpoint,
+    });
+    await recordLoginFailure(user, context, endpoint);
+    return { success: false, error: "Incorrect password for this account" };
+  }
+
+  await recordLoginSuccess(user);
+  return { success: true, user: sanitizeUser(user) };
+}
+
+/**
+ * Replace an expired password during login and complete the login. Accounts that need a second factor
+ * must have passed it first (mfaVerified).
+ */
+export async function changeExpiredPassword(userId: number, newPassword: string, req: Request, mfaVerified: boolean): Promise<AuthResult> {
+  const user = await storage.getUser(userId);
+  if (!user) {
+    return { success: false, error: "User not found" };
+  }
+
+  const context = {
+    ...AuditLogger.extractContext(req),
+    userId: user.id,
+    organizationId: user.currentOrganizationId || undefined,
+  };
+
+  const mfaRequired = user.mfaEnabled || await storage.isMfaRequiredForUser(user.id);
+  if (mfaRequired && !mfaVerified) {
+    return { success: false, error: "Verify your second factor before changing your password" };
+  }
+
+  const passwordPolicy = await storage.getUserPasswordPolicy(user.id);
+  const passwordCheck = await checkNewPassword(newPassword, passwordPolicy, user);
+  if (!passwordCheck.valid) {
+    return { success: false, error: formatPasswordErrors(passwordCheck.errors), passwordErrors: passwordCheck.errors };
+  }
+
+  await storage.updateUserPassword(user.id, await hashPassword(newPassword));
+  await AuditLogger.logAuthentication('PASSWORD_CHANGED', context, {
+    email: user.email,
+    reason: 'expired',
+  });
+
+  await storage.updateUserLastLogin(user.id);
+  await recordLoginSuccess(user);
+  await AuditLogger.logAuthentication('LOGIN', context, {
+    email: user.email,
+    passwordRotated: true,
+    ...(mfaVerified ? { mfa: true } : {}),
+  });
+
+  return { success: true, user: sanitizeUser(user) };
+}
+
+// A TOTP code is good once: its time step is claimed, so a replayed code (even a concurrent one) is refused
+async function acceptTotpCode(user: User, code: string): Promise<boolean> {
+  if (!user.mfaSecret) {
+    return false;
+  }
+
+  const step = verifyTotpCode(user.mfaSecret, code, user.mfaLastUsedStep);
+  return step !== null && await storage.claimMfaStep(user.id, step);
+}
+
+// Check a TOTP code first, then fall back to a single-use recovery code
+async function checkSecondFactor(user: User, code: string): Promise<'totp' | 'recovery_code' | null> {
+  if (!user.mfaSecret) {
+    return null;
+  }
+
+  if (await acceptTotpCode(user, code)) {
+    return 'totp';
+  }
+
+  const remainingCodes = consumeRecoveryCode(code, user.mfaRecoveryCodes || []);
+  if (remainingCodes) {
+    await storage.updateUserMfa(user.id, { mfaRecoveryCodes: remainingCodes });
+    return 'recovery_code';
+  }
+
+  return null;
+}
+
+export async function beginMfaEnrollment(userId: number, req: Request): Promise<MfaEnrollment> {
+  const user = await storage.getUser(userId);
+  if (!user) {
+    throw new Error("User not found");
+  }
+
+  // The secret stays unconfirmed (mfaEnabled=false) until the user proves they can generate codes
+  const secret = generateTotpSecret();
+  await storage.updateUserMfa(user.id, { mfaSecret: secret, mfaEnabled: false, mfaRecoveryCodes: null, mfaLastUsedStep: null });
+
+  const otpauthUri = buildOtpauthUri(secret, user.email);
+  const qrCodeDataUrl = await buildQrCodeDataUrl(otpauthUri);
+
+  await AuditLogger.logAuthentication('MFA_ENROLLMENT_STARTED', {
+    ...AuditLogger.extractContext(req),
+    userId: user.id,
+    organizationId: user.currentOrganizationId || undefined,
+  }, {
+    email: user.email,
+  });
+
+  return { secret, otpauthUri, qrCodeDataUrl };
+}
+
+export async function confirmMfaEnrollment(userId: number, code: string, req: Request): Promise<MfaResult> {
+  const user = await storage.getUser(userId);
+  if (!user) {
+    return { success: false, error: "User not found" };
+  }
+
+  const context = {
+    ...AuditLogger.extractContext(req),
+    userId: user.id,
+    organizationId: user.currentOrganizationId || undefined,
+  };
+
+  if (!user.mfaSecret || user.mfaEnabled) {
+    await AuditLogger.logAuthentication('MFA_ENROLLMENT_FAILED', context, {
+      email: user.email,
+      reason: user.mfaEnabled ? 'already_enrolled' : 'no_pending_enrollment',
+    });
+    return { success: false, error: user.mfaEnabled ? "MFA is already enabled" : "No MFA enrollment in progress" };
+  }
+
+  if (!await acceptTotpCode(user, code)) {
+    await AuditLogger.logAuthentication('MFA_ENROLLMENT_FAILED', context, {
+      email: user.email,
+      reason: 'invalid_code',
+    });
+    return { success: false, error: "Invalid verification code" };
+  }
+
+  const { codes, hashes } = generateRecoveryCodes();
+  await storage.updateUserMfa(user.id, {
+    mfaEnabled: true,
+    mfaRecoveryCodes: hashes,
+    mfaEnrolledAt: new Date(),
+  });
+
+  await AuditLogger.logAuthentication('MFA_ENROLLED', context, {
+    email: user.email,
+  });
+
+  return { success: true, recoveryCodes: codes };
+}
+
+/**
+ * Check the second factor of a pending login. With passwordChangePending the login is not complete yet:
+ * it finishes in changeExpiredPassword.
+ */
+export async function verifyMfaChallenge(userId: number, code: string, req: Request, passwordChangePending = false): Promise<AuthResult> {
+  const user = await storage.getUser(userId);
+  if (!user || !user.mfaEnabled) {
+    return { success: false, error: "MFA is not configured for this account" };
+  }
+
+  const context = {
+    ...AuditLogger.extractContext(req),
+    userId: user.id,
+    organizationId: user.currentOrganizationId || undefined,
+  };
+
+  // A lockout triggered mid-challenge (or by another session) ends the attempt
+  if (isUserLocked(user)) {
+    await AuditLogger.logAuthentication('MFA_CHALLENGE_FAILED', context, {
+      email: user.email,
+      reason: 'account_locked',
+    });
+    return {
+      success: false,
+      error: LOCKOUT_MESSAGES.account_locked,
+      lockout: 'account_locked',
+      retryAfterSeconds: Math.ceil((user.lockedUntil!.getTime() - Date.now()) / 1000),
+    };
+  }
+
+  const method = await checkSecondFactor(user, code);
+  if (!method) {
+    await AuditLogger.logAuthentication('MFA_CHALLENGE_FAILED', context, {
+      email: user.email,
+      reason: 'invalid_code',
+    });
+    // Second-factor guesses count toward the same lockout as password guesses
+    await recordLoginFailure(user, context, '/api/auth/login/mfa');
+    return { success: false, error: "Invalid verification code" };
+  }
+
+  if (method === 'recovery_code') {
+    await AuditLogger.logAuthentication('MFA_RECOVERY_CODE_USED', context, {
+      email: user.email,
+      recoveryCodesRemaining: Math.max((user.mfaRecoveryCodes?.length ?? 0) - 1, 0),
+    });
+  }
+
+  return completeMfaLogin(user, method, req, passwordChangePending);
+}
+
+/**
+ * Finish a pending login whose second factor has been accepted, by verifyMfaChallenge or by confirming
+ * an enrollment (the code is used up by then, so it is not checked again here).
+ */
+export async function completeMfaLogin(user: User, method: 'totp' | 'recovery_code', req: Request, passwordChangePending = false): Promise<AuthResult> {
+  const context = {
+    ...AuditLogger.extractContext(req),
+    userId: user.id,
+    organizationId: user.currentOrganizationId || undefined,
+  };
+
+  await AuditLogger.logAuthentication('MFA_CHALLENGE_SUCCESS', context, {
+    email: user.email,
+    method,
+  });
+
+  if (passwordChangePending) {
+    return { success: true, user: sanitizeUser(user) };
+  }
+
+  // Second factor passed - the login is now complete
+  await storage.updateUserLastLogin(user.id);
+  await recordLoginSuccess(user);
+  await AuditLogger.logAuthentication('LOGIN', context, {
+    email: user.email,
+    mfa: true,
+  });
+
+  return { success: true, user: sanitizeUser(user) };
+}
+
+export async function regenerateMfaRecoveryCodes(userId: number, code: string, req: Request): Promise<MfaResult> {
+  const user = await storage.getUser(userId);
+  if (!user || !user.mfaEnabled) {
+    return { success: false, error: "MFA is not enabled for this account" };
+  }
+
+  const context = {
+    ...AuditLogger.extractContext(req),
+    userId: user.id,
+    organizationId: user.currentOrganizationId || undefined,
+  };
+
+  if (!await acceptTotpCode(user, code)) {
+    await AuditLogger.logAuthentication('MFA_CHALLENGE_FAILED', context, {
+      email: user.email,
+      reason: 'invalid_code',
+      operation: 'regenerate_recovery_codes',
+    });
+    return { success: false, error: "Invalid verification code" };
+  }
+
+  const { codes, hashes } = generateRecoveryCodes();
+  await storage.updateUserMfa(user.id, { mfaRecoveryCodes: hashes });
+
+  await AuditLogger.logAuthentication('MFA_RECOVERY_CODES_REGENERATED', context, {
+    email: user.email,
+  });
+
+  return { success: true, recoveryCodes: codes };
+}
+
+export async function disableMfa(userId: number, code: string, req: Request): Promise<MfaResult> {
+  const user = await storage.getUser(userId);
+  if (!user || !user.mfaEnabled) {
+    return { success: false, error: "MFA is not enabled for this account" };
+  }
+
+  const context = {
+    ...AuditLogger.extractContext(req),
+    userId: user.id,
+    organizationId: user.currentOrganizationId || undefined,
+  };
+
+  if (await storage.isMfaRequiredForUser(user.id)) {
+    return { success: false, error: "Your organization requires MFA; it cannot be disabled" };
+  }
+
+  const method = await checkSecondFactor(user, code);
+  if (!method) {
+    await AuditLogger.logAuthentication('MFA_CHALLENGE_FAILED', context, {
+      email: user.email,
+      reason: 'invalid_code',
+      operation: 'disable_mfa',
+    });
+    return { success: false, error: "Invalid verification code" };
+  }
+
+  await storage.updateUserMfa(user.id, {
+    mfaEnabled: false,
+    mfaSecret: null,
+    mfaRecoveryCodes: null,
+    mfaEnrolledAt: null,
+  });
+
+  await AuditLogger.logAuthentication('MFA_DISABLED', context, {
+    email: user.email,
+    method,
+  });
+
+  return { success: true };
+}
+
 export function requireAuth(req: any, res: any, next: any) {
   if (!req.session?.userId) {
     return res.status(401).json({ message: "Authentication required" });
@@ -116,9 +551,8 @@ export async function getUserFromSession(req: any): Promise<User | null> {
       return null;
     }
     
-    // Don't return password in response
-    const { password: _, ...userWithoutPassword } = user;
-    return userWithoutPassword as User;
+    // Don't return password or MFA secrets in response
+    return sanitizeUser(user);
   } catch (error) {
     console.error("Error getting user from session:", error);
     return null;
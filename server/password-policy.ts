@@ -0,0 +1,82 @@
+import fs from "fs";
+import path from "path";
+import bcrypt from "bcryptjs";
+import { storage } from "./storage";
+import { validatePasswordRules, type PasswordPolicy } from "@shared/password-policy";
+import type { User } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Shipped deny-list of breached passwords; BREACHED_PASSWORDS_FILE can point at a larger one
+const BREACHED_PASSWORDS_FILE = process.env.BREACHED_PASSWORDS_FILE
+  || path.resolve(process.cwd(), "server", "data", "breached-passwords.txt");
+
+let breachedPasswords: Set<string> | undefined;
+
+function getBreachedPasswords(): Set<string> {
+  if (breachedPasswords) return breachedPasswords;
+
+  try {
+    breachedPasswords = new Set(
+      fs.readFileSync(BREACHED_PASSWORDS_FILE, "utf8")
+        .split(/\r?\n/)
+        .map((line) => line.trim().toLowerCase())
+        .filter((line) => line && !line.startsWith("#"))
+    );
+  } catch (error) {
+    console.error(`[PASSWORD POLICY] Could not load breached password list from ${BREACHED_PASSWORDS_FILE}:`, error);
+    breachedPasswords = new Set();
+  }
+  return breachedPasswords;
+}
+
+export function isBreachedPassword(password: string): boolean {
+  return getBreachedPasswords().has(password.toLowerCase());
+}
+
+export interface PasswordCheckResult {
+  valid: boolean;
+  errors: string[];
+}
+
+/**
+ * Check a new password against the policy rules, the breached-password list and, for existing users,
+ * their current password plus the previous (historyCount - 1) hashes.
+ */
+export async function checkNewPassword(
+  password: string,
+  policy: PasswordPolicy,
+  user?: Pick<User, 'id' | 'password'>
+): Promise<PasswordCheckResult> {
+  const errors = validatePasswordRules(password, policy);
+
+  if (isBreachedPassword(password)) {
+    errors.push("This password appears in a list of breached passwords");
+  }
+
+  if (user && policy.historyCount > 0) {
+    const recentHashes = [user.password, ...(await storage.getPasswordHistory(user.id, policy.historyCount - 1))];
+    for (const hash of recentHashes) {
+      if (await bcrypt.compare(password, hash)) {
+        errors.push(policy.historyCount === 1
+          ? "New password must be different from your current password"
+          : `Password cannot match any of your last ${policy.historyCount} passwords`);
+        break;
+      }
+    }
+  }
+
+  return { valid: errors.length === 0, errors };
+}
+
+export function formatPasswordErrors(errors: string[]): string {
+  return `${errors.join(". ")}.`;
+}
+
+export function isPasswordExpired(user: Pick<User, 'passwordChangedAt'>, policy: PasswordPolicy, now: Date = new Date()): boolean {
+  return policy.maxAgeDays > 0 && now.getTime() - user.passwordChangedAt.getTime() > policy.maxAgeDays * DAY_MS;
+}
+
+export function hashPassword(password: string): Promise<string> {
+  return bcrypt.hash(password, 10);
+}
@@ -0,0 +1,138 @@
+import type { Request, Response, NextFunction } from "express";
+import { storage } from "./storage";
+import { AuditLogger } from "./audit-service";
+import { sendEmail } from "./email-service";
+import type { MembershipContext } from "./permission-middleware";
+import type { Patient, User, BreakGlassAccess } from "@shared/schema";
+import { normalizeRole } from "@shared/permissions";
+
+export const BREAK_GLASS_DURATION_MS = 60 * 60 * 1000; // 1 hour
+
+// Fields still shown for restricted patients the caller cannot open, so lists can render a placeholder row
+const REDACTED_PATIENT_FIELDS_KEPT = new Set<keyof Patient>([
+  "id",
+  "userId",
+  "organizationId",
+  "status",
+  "campus",
+  "isRestricted",
+  "createdAt",
+  "updatedAt",
+]);
+
+// Required text columns are blanked rather than nulled so existing clients keep working
+const REQUIRED_TEXT_FIELDS = new Set<keyof Patient>(["dateOfBirth", "orderingMD", "diagnosis"]);
+
+// Names are replaced too: a name next to a searchable identifier would say who the restricted patient is
+const REDACTED_NAME: Partial<Record<keyof Patient, string>> = { firstName: "Restricted", lastName: "Patient" };
+
+/**
+ * Whether the caller may open this patient. Unrestricted patients are open to the whole organization.
+ * Restricted ones need an access-list entry or unexpired break-glass access; API keys never qualify.
+ */
+export async function canAccessPatient(patient: Patient, membership: MembershipContext): Promise<boolean> {
+  if (!patient.isRestricted) return true;
+  if (membership.apiKeyId) return false;
+
+  if (await storage.hasPatientAccessGrant(patient.id, membership.userId)) return true;
+  return !!(await storage.getActiveBreakGlassAccess(patient.id, membership.userId));
+}
+
+// Extra fields a caller added to the row (such as a note preview) are cleared along with the rest
+export function redactPatient<T extends Patient>(patient: T): T {
+  const redacted: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(patient)) {
+    const key = field as keyof Patient;
+    redacted[field] = REDACTED_PATIENT_FIELDS_KEPT.has(key) ? value : REDACTED_NAME[key] ?? (REQUIRED_TEXT_FIELDS.has(key) ? "" : null);
+  }
+  return redacted as T;
+}
+
+// Restricted patients the caller may currently open
+export async function getAccessibleRestrictedPatientIds(membership: MembershipContext): Promise<Set<number>> {
+  if (membership.apiKeyId) return new Set();
+  return new Set(await storage.getUserRestrictedPatientAccess(membership.userId, membership.organizationId));
+}
+
+// Redact every restricted patient in a list that the caller cannot open
+export async function redactInaccessiblePatients<T extends Patient>(patients: T[], membership: MembershipContext): Promise<T[]> {
+  if (!patients.some((patient) => patient.isRestricted)) {
+    return patients;
+  }
+
+  const accessible = await getAccessibleRestrictedPatientIds(membership);
+  return patients.map((patient) =>
+    patient.isRestricted && !accessible.has(patient.id) ? redactPatient(patient) : patient
+  );
+}
+
+/**
+ * Email the organization's owner and admins about a break-glass access. The email carries no patient
+ * details beyond the record link; the justification is reviewed in the app.
+ */
+export async function notifyAdminsOfBreakGlass(access: BreakGlassAccess, user: User, baseUrl: string): Promise<void> {
+  const members = await storage.getOrganizationMembers(access.organizationId);
+  const admins = members.filter((member) => {
+    const role = normalizeRole(member.role);
+    return (role === "owner" || role === "admin") && member.id !== user.id;
+  });
+  const recordLink = `${baseUrl}/patient/${access.patientId}`;
+  const accessedBy = user.name ? `${user.name} (${user.email})` : user.email;
+
+  await Promise.all(admins.map(async (admin) => {
+    const emailSent = await sendEmail({
+      to: admin.email,
+      from: process.env.SENDGRID_FROM_EMAIL || "noreply@yourdomain.com",
+      subject: "Restricted patient record accessed (break the glass)",
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2 style="color: #2c5aa0;">LEQVIO Patient Management</h2>
+          <p><strong>${accessedBy}</strong> used break-the-glass access to open a restricted patient record at ${access.createdAt.toLocaleString()}.</p>
+          <a href="${recordLink}" style="display: inline-block; background-color: #2c5aa0; color: white; padding: 12px 24px; text-decoration: none; border-radius: 4px; margin: 16px 0;">
+            Review Access
+          </a>
+          <p style="color: #666; font-size: 14px;">Access expires at ${access.expiresAt.toLocaleString()}. The stated justification is recorded in the audit log.</p>
+        </div>
+      `,
+      text: `${accessedBy} used break-the-glass access to open a restricted patient record at ${access.createdAt.toLocaleString()}.\n\nReview access: ${recordLink}\n\nAccess expires at ${access.expiresAt.toLocaleString()}.`
+    });
+    if (!emailSent) {
+      console.error(`Failed to send break-glass notification to ${admin.email}`);
+    }
+  }));
+}
+
+/**
+ * Route guard for /api/patients/:id/... Must run after requirePermission. Responds 404 for patients outside
+ * the organization and 403 with code BREAK_GLASS_REQUIRED for restricted patients the caller cannot open.
+ */
+export async function requirePatientAccess(req: Request, res: Response, next: NextFunction) {
+  try {
+    const membership = (req as any).membership as MembershipContext;
+    const patientId = parseInt(req.params.id);
+    const patient = await storage.getPatient(patientId, membership.organizationId);
+    if (!patient) {
+      return res.status(404).json({ error: 'Patient not found' });
+    }
+
+    if (!(await canAccessPatient(patient, membership))) {
+      await AuditLogger.log({
+        action: 'RESTRICTED_PATIENT_DENIED',
+        resourceType: 'patient',
+        resourceId: patientId,
+        details: { method: req.method, endpoint: req.originalUrl.split('?')[0] },
+        context: { ...AuditLogger.extractContext(req), organizationId: membership.organizationId },
+      });
+      return res.status(403).json({
+        error: 'This patient record is restricted',
+        code: 'BREAK_GLASS_REQUIRED',
+        patientId,
+      });
+    }
+
+    next();
+  } catch (error) {
+    console.error('Patient access check error:', error);
+    res.status(500).json({ error: 'Failed to verify patient access' });
+  }
+}
@@ -0,0 +1,87 @@
+import { ENCRYPTED_PATIENT_FIELDS, type Patient } from "@shared/schema";
+
+// Field-level before/after values for patient updates, stored in the UPDATE_PATIENT audit entry.
+// Audit details are not encrypted, so the identifiers encrypted at rest are masked here.
+
+export interface PatientFieldChange {
+  field: string;
+  from: string | number | boolean | null;
+  to: string | number | boolean | null;
+  masked?: boolean; // Values are reduced to their last four characters (or hidden entirely)
+  truncated?: boolean; // Long text was cut to MAX_VALUE_LENGTH characters
+}
+
+// Bookkeeping and derived columns that never appear in a diff
+const IGNORED_FIELDS = new Set<string>([
+  "id",
+  "userId",
+  "organizationId",
+  "createdAt",
+  "updatedAt",
+  "mrnIndex",
+  "primaryInsuranceNumberIndex",
+  "leqvioPatientIdIndex",
+]);
+
+// Every encrypted field is masked. Identifiers keep their last four characters so a change can still be recognized;
+// the rest, including any field added to the encrypted list later, are hidden entirely.
+const MASKED_FIELDS = new Set<string>(ENCRYPTED_PATIENT_FIELDS);
+const LAST_FOUR_FIELDS = new Set<string>([
+  "primaryInsuranceNumber",
+  "secondaryInsuranceNumber",
+  "mrn",
+  "phone",
+  "leqvioPatientId",
+  "leqvioCopayIdNumber",
+  "leqvioGroupNumber",
+]);
+
+const MAX_VALUE_LENGTH = 500;
+
+type DiffValue = PatientFieldChange["from"];
+
+function normalize(value: unknown): DiffValue {
+  if (value === undefined || value === null || value === "") return null;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === "number" || typeof value === "boolean") return value;
+  return String(value);
+}
+
+function mask(field: string, value: DiffValue): DiffValue {
+  if (value === null) return null;
+  if (!LAST_FOUR_FIELDS.has(field)) return "••••";
+  const text = String(value);
+  return text.length > 4 ? `••••${text.slice(-4)}` : "••••";
+}
+
+/**
+ * Every field that differs between two versions of a patient, oldest value first.
+ */
+export function diffPatient(before: Patient, after: Patient): PatientFieldChange[] {
+  const changes: PatientFieldChange[] = [];
+
+  for (const field of Object.keys(after)) {
+    if (IGNORED_FIELDS.has(field)) continue;
+
+    const from = normalize((before as Record<string, unknown>)[field]);
+    const to = normalize((after as Record<string, unknown>)[field]);
+    if (from === to) continue;
+
+    if (MASKED_FIELDS.has(field)) {
+      changes.push({ field, from: mask(field, from), to: mask(field, to), masked: true });
+      continue;
+    }
+
+    const change: PatientFieldChange = { field, from, to };
+    for (const key of ["from", "to"] as const) {
+      const value = change[key];
+      if (typeof value === "string" && value.length > MAX_VALUE_LENGTH) {
+        change[key] = `${value.slice(0, MAX_VALUE_LENGTH)}…`;
+        change.truncated = true;
+      }
+    }
+    changes.push(change);
+  }
+
+  return changes;
+}
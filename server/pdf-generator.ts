@@ -1,5 +1,6 @@
 import PDFDocument from 'pdfkit';
 import { Buffer } from 'buffer';
+import type { DisclosureReport } from './disclosure-report';
 
 interface PatientData {
   firstName: string;
@@ -171,4 +172,105 @@ export async function generateLEQVIOPDF(patientData: PatientData): Promise<Buffe
       reject(error);
     }
   });
-}
\ No newline at end of file
+}
+const DISCLOSURE_COLUMNS = [
+  { header: 'Date / Time', x: 50, width: 95 },
+  { header: 'Event', x: 150, width: 190 },
+  { header: 'By', x: 345, width: 125 },
+  { header: 'Documents / Recipient', x: 475, width: 87 },
+];
+
+// Accounting of disclosures, with the report's Ed25519 signature printed at the end
+export async function generateDisclosureReportPDF(report: DisclosureReport, organizationName: string): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    try {
+      const doc = new PDFDocument({ size: 'LETTER', margin: 50 });
+      const buffers: Buffer[] = [];
+
+      doc.on('data', (chunk) => buffers.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(buffers)));
+      doc.on('error', reject);
+
+      // Header
+      doc.fontSize(18).font('Helvetica-Bold').text('Accounting of Disclosures', { align: 'center' });
+      doc.moveDown(0.5);
+      doc.fontSize(10).font('Helvetica').text(organizationName, { align: 'center' });
+      doc.moveDown(1.5);
+
+      doc.fontSize(10).font('Helvetica');
+      doc.text(`Patient: ${report.patient.name} (ID ${report.patient.id})`);
+      doc.text(`Date of Birth: ${report.patient.dateOfBirth || 'Not provided'}`);
+      doc.text(`Period: ${new Date(report.from).toLocaleDateString()} to ${new Date(report.to).toLocaleDateString()}`);
+      doc.text(`Generated: ${new Date(report.generatedAt).toLocaleString()} by ${report.generatedBy}`);
+      doc.moveDown();
+      doc.text(`Record access: ${report.summary.access}    Changes: ${report.summary.change}    Document events: ${report.summary.document}    Disclosures outside the organization: ${report.summary.disclosure}`);
+      if (report.truncated) {
+        doc.moveDown(0.5);
+        doc.font('Helvetica-Bold').text('This period has more events than one report can hold; the oldest are not shown. Request a shorter period.');
+        doc.font('Helvetica');
+      }
+      doc.moveDown();
+
+      const bottom = doc.page.height - doc.page.margins.bottom;
+
+      const drawHeaderRow = () => {
+        const y = doc.y;
+        doc.fontSize(9).font('Helvetica-Bold');
+        DISCLOSURE_COLUMNS.forEach(column => doc.text(column.header, column.x, y, { width: column.width }));
+        doc.moveTo(50, doc.y + 2).lineTo(562, doc.y + 2).stroke();
+        doc.y += 6;
+        doc.font('Helvetica');
+      };
+
+      drawHeaderRow();
+
+      if (report.entries.length === 0) {
+        doc.text('No access or disclosures were recorded in this period.', 50, doc.y);
+      }
+
+      for (const entry of report.entries) {
+        const documents = entry.documentIds.length > 0 ? `Documents ${entry.documentIds.join(', ')}` : '';
+        const cells = [
+          new Date(entry.timestamp).toLocaleString(),
+          entry.purpose ? `${entry.description}: ${entry.purpose}` : entry.description,
+          `${entry.actor}${entry.ipAddress ? `\n${entry.ipAddress}` : ''}`,
+          [entry.recipient, documents].filter(Boolean).join('\n'),
+        ];
+        const rowHeight = Math.max(...cells.map((cell, i) => doc.heightOfString(cell || ' ', { width: DISCLOSURE_COLUMNS[i].width })));
+
+        if (doc.y + rowHeight > bottom) {
+          doc.addPage();
+          drawHeaderRow();
+        }
+
+        const y = doc.y;
+        cells.forEach((cell, i) => doc.text(cell, DISCLOSURE_COLUMNS[i].x, y, { width: DISCLOSURE_COLUMNS[i].width }));
+        doc.y = y + rowHeight + 4;
+      }
+
+      // Signature block
+      if (doc.y + 110 > bottom) {
+        doc.addPage();
+      }
+      doc.moveDown(2);
+      doc.fontSize(12).font('Helvetica-Bold').text('SIGNATURE', 50, doc.y);
+      doc.moveDown(0.5);
+      doc.fontSize(8).font('Helvetica');
+      doc.text(`Signed with the audit signing key (${report.signature.algorithm}, key ${report.signature.keyId}). The signature covers the attached disclosure-report.json with its signature field removed and keys sorted, and can be checked against the public key returned by the audit log verification endpoint.`, { width: 512 });
+      doc.moveDown(0.5);
+      doc.font('Courier').text(`SHA-256: ${report.signature.digest}`, { width: 512 });
+      doc.text(`Signature: ${report.signature.value}`, { width: 512 });
+
+      // The signed data travels with the PDF so the signature can be checked without the application
+      doc.file(Buffer.from(JSON.stringify(report, null, 2)), {
+        name: 'disclosure-report.json',
+        type: 'application/json',
+        description: 'Signed accounting of disclosures data',
+      });
+
+      doc.end();
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
@@ -0,0 +1,123 @@
+import type { Request, Response, NextFunction } from "express";
+import { storage } from "./storage";
+import { AuditLogger } from "./audit-service";
+import { API_KEY_HEADER, authenticateApiKey } from "./api-keys";
+import { hasPermission, normalizeRole, type Permission, type Role } from "@shared/permissions";
+
+export interface MembershipContext {
+  organizationId: number;
+  role: Role | null; // Null when the request is authenticated by an API key
+  userId: number; // Session user, or the user who created the API key
+  apiKeyId?: number;
+}
+
+/**
+ * Require an authenticated session whose role in the current organization grants
+ * the given permission. The resolved membership is attached as req.membership.
+ * Routes opting in with allowApiKey also accept an organization API key whose scopes include the permission.
+ */
+export function requirePermission(permission: Permission, options: { allowApiKey?: boolean } = {}) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const userId = (req.session as any)?.userId;
+    const rawApiKey = req.get(API_KEY_HEADER);
+
+    if (!userId && rawApiKey) {
+      if (!options.allowApiKey) {
+        return res.status(403).json({ error: 'API keys cannot access this endpoint' });
+      }
+      return authorizeApiKey(rawApiKey, permission, req, res, next);
+    }
+
+    if (!userId) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+
+    try {
+      const currentOrg = await storage.getUserCurrentOrganization(userId);
+      const role = normalizeRole(currentOrg?.role);
+
+      if (!currentOrg || !role || !hasPermission(role, permission)) {
+        await AuditLogger.log({
+          action: 'PERMISSION_DENIED',
+          details: {
+            permission,
+            role: currentOrg?.role ?? null,
+            method: req.method,
+            endpoint: req.originalUrl.split('?')[0],
+          },
+          context: {
+            ...AuditLogger.extractContext(req),
+            userId,
+            organizationId: currentOrg?.organization.id,
+          },
+        });
+        return res.status(403).json({ error: 'Insufficient permissions', requiredPermission: permission });
+      }
+
+      (req as any).membership = { organizationId: currentOrg.organization.id, role, userId } as MembershipContext;
+      next();
+    } catch (error) {
+      console.error('Permission check error:', error);
+      res.status(500).json({ error: 'Failed to verify permissions' });
+    }
+  };
+}
+
+async function authorizeApiKey(rawApiKey: string, permission: Permission, req: Request, res: Response, next: NextFunction) {
+  try {
+    const context = AuditLogger.extractContext(req);
+    const apiKey = await authenticateApiKey(rawApiKey, context.ipAddress);
+    if (!apiKey) {
+      await AuditLogger.log({
+        action: 'API_KEY_REJECTED',
+        details: { method: req.method, endpoint: req.originalUrl.split('?')[0] },
+        context,
+      });
+      return res.status(401).json({ error: 'Invalid, expired or revoked API key' });
+    }
+
+    // Audit entries for this request are attributed to the key (see AuditLogger.extractContext)
+    (req as any).apiKey = { id: apiKey.id, name: apiKey.name, organizationId: apiKey.organizationId };
+
+    if (!(apiKey.scopes as string[]).includes(permission)) {
+      await AuditLogger.log({
+        action: 'PERMISSION_DENIED',
+        details: {
+          permission,
+          scopes: apiKey.scopes,
+          method: req.method,
+          endpoint: req.originalUrl.split('?')[0],
+        },
+        context: AuditLogger.extractContext(req),
+      });
+      return res.status(403).json({ error: 'API key is missing the required scope', requiredPermission: permission });
+    }
+
+    // A key never does more than its creator could: scopes beyond the creator's current role are ignored
+    const creatorMembership = await storage.getOrganizationMembership(apiKey.createdBy, apiKey.organizationId);
+    if (!creatorMembership?.isActive || !hasPermission(creatorMembership.role, permission)) {
+      await AuditLogger.log({
+        action: 'PERMISSION_DENIED',
+        details: {
+          permission,
+          creatorRole: creatorMembership?.isActive ? creatorMembership.role : null,
+          method: req.method,
+          endpoint: req.originalUrl.split('?')[0],
+        },
+        context: AuditLogger.extractContext(req),
+      });
+      return res.status(403).json({ error: "The API key's creator no longer has this permission", requiredPermission: permission });
+    }
+
+    (req as any).membership = {
+      organizationId: apiKey.organizationId,
+      role: null,
+      userId: apiKey.createdBy,
+      apiKeyId: apiKey.id,
+    } as MembershipContext;
+    next();
+  } catch (error) {
+    console.error('API key check error:', error);
+    res.status(500).json({ error: 'Failed to verify API key' });
+  }
+}
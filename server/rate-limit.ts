@@ -0,0 +1,126 @@
+import rateLimit, { type RateLimitRequestHandler } from "express-rate-limit";
+import type { Request, RequestHandler } from "express";
+import { AuditLogger } from "./audit-service";
+import { API_KEY_HEADER, hashApiKey } from "./api-keys";
+import type { MembershipContext } from "./permission-middleware";
+
+const MINUTE_MS = 60 * 1000;
+
+type RateLimitScope = "ip" | "account" | "user" | "organization";
+
+interface RateLimitTier {
+  windowMs: number;
+  limits: Partial<Record<RateLimitScope, number>>;
+}
+
+// Budgets per window. Each scope is counted separately and the first one exhausted wins.
+export const RATE_LIMIT_TIERS = {
+  // Every /api request
+  api: { windowMs: MINUTE_MS, limits: { ip: 1000, user: 300, organization: 3000 } },
+  // Endpoints that take credentials or tokens, counted per account (email) from each IP, with a higher
+  // ceiling for the IP as a whole so one shared address (a hospital NAT) does not lock everyone out.
+  // Account lockout covers guessing against a single account from many IPs.
+  auth: { windowMs: 15 * MINUTE_MS, limits: { account: 30, ip: 300 } },
+  // Endpoints that call OpenAI, Mistral or the AIGENTS automation, which are billed per request
+  llm: { windowMs: 60 * MINUTE_MS, limits: { ip: 120, user: 60, organization: 300 } },
+} satisfies Record<string, RateLimitTier>;
+
+export type RateLimitTierName = keyof typeof RATE_LIMIT_TIERS;
+
+// Route-level limiters run after requirePermission, so the resolved membership (including API keys) is available
+function scopeKey(req: Request, scope: RateLimitScope): string | undefined {
+  const membership = (req as any).membership as MembershipContext | undefined;
+  const session = req.session as any;
+
+  switch (scope) {
+    case "ip":
+      return req.ip || req.socket.remoteAddress;
+    case "account": {
+      // The email being signed in with, else the signed-in user; token-only requests share the IP's bucket
+      const email = typeof req.body?.email === "string" ? req.body.email.trim().toLowerCase() : undefined;
+      const account = email ?? (session?.userId ? `user:${session.userId}` : "-");
+      return `${account}|${req.ip || req.socket.remoteAddress}`;
+    }
+    case "user": {
+      if (membership) {
+        return membership.apiKeyId ? `key:${membership.apiKeyId}` : `user:${membership.userId}`;
+      }
+      if (session?.userId) {
+        return `user:${session.userId}`;
+      }
+      // Not yet authenticated: count per presented key so a bad key is limited as tightly as a good one
+      const rawApiKey = req.get(API_KEY_HEADER);
+      return rawApiKey ? `key:${hashApiKey(rawApiKey).slice(0, 32)}` : undefined;
+    }
+    case "organization": {
+      const organizationId = membership?.organizationId ?? session?.organizationId;
+      return organizationId ? `org:${organizationId}` : undefined;
+    }
+  }
+}
+
+function formatRetryAfter(seconds: number): string {
+  if (seconds < 60) {
+    return `${seconds} second${seconds === 1 ? "" : "s"}`;
+  }
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} minute${minutes === 1 ? "" : "s"}`;
+}
+
+function createScopeLimiter(tierName: RateLimitTierName, scope: RateLimitScope, limit: number): RateLimitRequestHandler {
+  const { windowMs } = RATE_LIMIT_TIERS[tierName];
+
+  return rateLimit({
+    windowMs,
+    limit,
+    standardHeaders: "draft-7",
+    legacyHeaders: false,
+    requestPropertyName: `rateLimit_${tierName}_${scope}`,
+    skip: (req) => scopeKey(req, scope) === undefined,
+    keyGenerator: (req) => scopeKey(req, scope)!,
+    handler: (req, res) => {
+      const info = (req as any)[`rateLimit_${tierName}_${scope}`];
+      const resetTime: Date | undefined = info?.resetTime;
+      const retryAfterSeconds = Math.max(1, Math.ceil(((resetTime?.getTime() ?? Date.now() + windowMs) - Date.now()) / 1000));
+
+      // Audit the first rejection in each window rather than every request of a flood
+      if (info?.used === limit + 1) {
+        AuditLogger.logRateLimitExceeded(req.originalUrl.split("?")[0], AuditLogger.extractContext(req), {
+          tier: tierName,
+          scope,
+          limit,
+          windowMs,
+          method: req.method,
+        });
+      }
+
+      res.status(429).json({
+        error: `Too many requests. Please try again in ${formatRetryAfter(retryAfterSeconds)}.`,
+        code: "RATE_LIMIT_EXCEEDED",
+        retryAfter: retryAfterSeconds,
+      });
+    },
+  });
+}
+
+// Runs each scope's limiter in turn; stops at the first that responds with a 429
+function createTierLimiter(tierName: RateLimitTierName): RequestHandler {
+  const limits: Partial<Record<RateLimitScope, number>> = RATE_LIMIT_TIERS[tierName].limits;
+  const limiters = (Object.entries(limits) as [RateLimitScope, number][])
+    .map(([scope, limit]) => createScopeLimiter(tierName, scope, limit));
+
+  return (req, res, next) => {
+    const runLimiter = (index: number): void => {
+      if (index === limiters.length) {
+        return next();
+      }
+      limiters[index](req, res, (error?: unknown) => (error ? next(error) : runLimiter(index + 1)));
+    };
+    runLimiter(0);
+  };
+}
+
+// One instance per tier so every route in a tier draws on the same budget
+export const apiRateLimit = createTierLimiter("api");
+export const authRateLimit = createTierLimiter("auth");
+export const llmRateLimit = createTierLimiter("llm");
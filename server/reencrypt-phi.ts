@@ -0,0 +1,51 @@
+import "dotenv/config";
+import { storage } from "./storage";
+import { getKeyProvider } from "./encryption-service";
+import { AuditLogger, type AuditContext } from "./audit-service";
+import { pool } from "./db";
+
+// Usage: npm run phi:reencrypt [-- --rotate]
+// Encrypts legacy plaintext PHI and moves rows and document file keys off retired keys. With --rotate, a new data key is made active first.
+
+const systemContext: AuditContext = {
+  userId: undefined,
+  organizationId: undefined,
+  ipAddress: 'system',
+  userAgent: 'reencrypt-phi',
+  sessionId: 'system',
+};
+
+async function main() {
+  const provider = getKeyProvider();
+
+  if (process.argv.includes('--rotate')) {
+    const previousKey = await provider.getActiveKey();
+    const newKey = await provider.rotateKey();
+    console.log(`[ENCRYPTION] Rotated PHI data key ${previousKey.id} -> ${newKey.id}`);
+    await AuditLogger.log({
+      action: 'PHI_KEY_ROTATED',
+      details: { previousKeyId: previousKey.id, keyId: newKey.id },
+      context: systemContext,
+    });
+  }
+
+  const activeKey = await provider.getActiveKey();
+  const updatedCount = await storage.reencryptPatients();
+  const rewrappedCount = await storage.rewrapPatientDocumentKeys();
+  const notesCount = await storage.reencryptPatientNotes();
+  const versionsCount = await storage.reencryptPatientVersions();
+  console.log(`[ENCRYPTION] Re-encrypted ${updatedCount} patient records, ${versionsCount} record versions, ${notesCount} notes and ${rewrappedCount} document keys with key ${activeKey.id}`);
+  await AuditLogger.log({
+    action: 'PHI_REENCRYPTED',
+    resourceType: 'patient',
+    details: { keyId: activeKey.id, updatedCount, reencryptedVersions: versionsCount, reencryptedNotes: notesCount, rewrappedDocumentKeys: rewrappedCount },
+    context: systemContext,
+  });
+}
+
+main()
+  .catch((error) => {
+    console.error('[ENCRYPTION] Re-encryption failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
@@ -4,78 +4,42 @@ import multer from "multer";
 import session from "express-session";
 import fetch from "node-fetch";
 import bcrypt from "bcryptjs";
-import { storage } from "./storage";
-import { insertAutomationLogSchema, insertCustomChainSchema, userLoginSchema, userRegisterSchema, insertPatientSchema, auditLogs } from "@shared/schema";
-import { db } from "./db";
-import { desc, sql } from "drizzle-orm";
-import { sendMagicLink, verifyLoginToken } from "./auth";
+import { storage, type AuditLogEntry } from "./storage";
+import { insertAutomationLogSchema, insertCustomChainSchema, userLoginSchema, userRegisterSchema, insertPatientSchema, mfaChallengeSchema, userInviteSchema, invitationAcceptSchema, passwordResetRequestSchema, passwordResetSchema, memberRoleUpdateSchema, ownershipTransferSchema, apiKeyCreateSchema, patientRestrictionSchema, breakGlassSchema, ssoConfigSchema, organizationRegisterSchema, passwordPolicySchema, expiredPasswordChangeSchema, auditLogFilterSchema, auditLogQuerySchema, auditLogExportSchema, auditAlertQuerySchema, auditAlertSettingsSchema, legalHoldSchema, disclosureReportQuerySchema, patientNoteSchema, patientNotePinSchema, patientVersionAsOfSchema, patientRevertSchema, patientUpdateSchema, insertAppointmentSchema, appointmentUpdateSchema, type PatientChangeSource, type User } from "@shared/schema";
+import { sendMagicLink, verifyLoginToken, createInvitationToken, sendInvitationEmail, sendPasswordResetEmail, getValidPasswordResetToken, getPublicBaseUrl } from "./auth";
+import { sessionStore, destroyUserSessions, destroyUserSession, listUserSessions, recordSessionMetadata, isCurrentSession, enforceSessionLifetime, getSessionDeadlines, SESSION_IDLE_TIMEOUT_MS } from "./session-store";
 import { extractPatientDataFromImage, extractInsuranceCardData, extractPatientInfoFromScreenshot, extractPatientInfoFromPDF } from "./openai-service";
-import { generateLEQVIOPDF } from "./pdf-generator";
+import { generateLEQVIOPDF, generateDisclosureReportPDF } from "./pdf-generator";
+import { buildDisclosureReport } from "./disclosure-report";
+import { diffPatient } from "./patient-history";
 import { extractPDFWithMistral, combineExtractionResults, validateMistralKey } from "./mistral-service";
 import { extractMedicalPDFData } from "./pdf-text-extractor";
-import { registerUser, loginUser, requireAuth, getUserFromSession } from "./password-auth";
+import { registerUser, loginUser, requireAuth, getUserFromSession, beginMfaEnrollment, confirmMfaEnrollment, verifyMfaChallenge, completeMfaLogin, regenerateMfaRecoveryCodes, disableMfa, changeExpiredPassword, verifyAccountPassword } from "./password-auth";
+import { checkNewPassword, formatPasswordErrors, hashPassword, isPasswordExpired } from "./password-policy";
+import { isUserLocked } from "./login-throttle";
+import { DEFAULT_PASSWORD_POLICY, PASSWORD_MIN_LENGTH_FLOOR, describePasswordPolicy, type PasswordPolicy } from "@shared/password-policy";
+import { DEFAULT_AUDIT_ALERT_SETTINGS, type AuditAlertSettings } from "@shared/audit-alerts";
+import { addCalendarDays, addCalendarMonths, formatCalendarDate, parseCalendarDate, todayCalendarDate } from "@shared/dates";
 import { AuditLogger } from "./audit-service";
-import { auditMiddleware, auditPatientAccess, auditDocumentAccess } from "./audit-middleware";
+import { auditMiddleware, auditPatientAccess, auditDocumentAccess, updateAuditContext } from "./audit-middleware";
+import { requirePermission, type MembershipContext } from "./permission-middleware";
+import { getPermissions, hasPermission } from "@shared/permissions";
+import { generateApiKey, serializeApiKey } from "./api-keys";
+import { verifyWebhookSignature, captureMultipartRawBody } from "./webhook-auth";
+import { storeEncryptedFile, readEncryptedFile } from "./blob-store";
+import { beginSsoLogin, completeSsoLogin, clearSsoDiscoveryCache, isSsoDomainVerified, serializeSsoConfig } from "./sso";
+import { apiRateLimit, authRateLimit, llmRateLimit } from "./rate-limit";
+import { verifyAuditChain, getAuditSigningPublicKey } from "./audit-chain";
+import { verifyAuditArchive } from "./audit-archive";
+import { requirePatientAccess, canAccessPatient, redactInaccessiblePatients, getAccessibleRestrictedPatientIds, notifyAdminsOfBreakGlass, BREAK_GLASS_DURATION_MS } from "./patient-access";
 // Using the openai instance directly instead of a service object
 
-// Helper function to add insurance changes to patient notes
-async function addInsuranceChangeToNotes(patientId: number, logEntry: string, organizationId: number) {
+// Record an automatic insurance or authorization update in the patient's notes
+async function addInsuranceChangeNote(patientId: number, organizationId: number, body: string, authorId: number | null = null) {
   try {
-    const currentPatient = await storage.getPatient(patientId, organizationId);
-    if (!currentPatient) return;
-    
-    const currentNotes = currentPatient.notes || '';
-    let updatedNotes = '';
-    
-    const notesSection = '=== NOTES ===';
-    const voicemailSection = '=== VOICEMAILS ===';  
-    const insuranceSection = '=== INSURANCE & AUTH UPDATES ===';
-    
-    // Extract existing sections
-    let existingNotes = '';
-    let existingVoicemails = '';
-    let existingInsurance = '';
-    
-    if (currentNotes.includes(notesSection)) {
-      const noteStart = currentNotes.indexOf(notesSection) + notesSection.length;
-      const voicemailStart = currentNotes.indexOf(voicemailSection);
-      const insuranceStart = currentNotes.indexOf(insuranceSection);
-      
-      if (voicemailStart > -1) {
-        existingNotes = currentNotes.substring(noteStart, voicemailStart).trim();
-      } else if (insuranceStart > -1) {
-        existingNotes = currentNotes.substring(noteStart, insuranceStart).trim();
-      } else {
-        existingNotes = currentNotes.substring(noteStart).trim();
-      }
-      
-      if (voicemailStart > -1) {
-        const voicemailEnd = insuranceStart > -1 ? insuranceStart : currentNotes.length;
-        existingVoicemails = currentNotes.substring(voicemailStart + voicemailSection.length, voicemailEnd).trim();
-      }
-      
-      if (insuranceStart > -1) {
-        existingInsurance = currentNotes.substring(insuranceStart + insuranceSection.length).trim();
-      }
-    } else {
-      existingNotes = currentNotes;
-    }
-    
-    // Add new insurance log entry
-    if (existingInsurance) {
-      existingInsurance = `${logEntry}\n\n${existingInsurance}`;
-    } else {
-      existingInsurance = logEntry;
-    }
-    
-    // Rebuild organized notes
-    if (existingNotes) updatedNotes += `${notesSection}\n${existingNotes}\n\n`;
-    if (existingVoicemails) updatedNotes += `${voicemailSection}\n${existingVoicemails}\n\n`;
-    updatedNotes += `${insuranceSection}\n${existingInsurance}`;
-    
-    await storage.updatePatient(patientId, { notes: updatedNotes.trim() }, organizationId);
+    await storage.createPatientNote({ patientId, organizationId, category: 'insurance', body, authorId });
   } catch (error) {
-    console.error('Error adding insurance change to notes:', error);
+    console.error('Error adding insurance change note:', error);
   }
 }
 
@@ -186,6 +150,14 @@ Return ONLY a JSON object with the extracted data using these exact keys:
   }
 };
 
+// Sources recorded in patient versions for the automatic status updates below
+const SCHEDULE_STATUS_RULE: PatientChangeSource = { type: 'system', rule: 'Schedule status check' };
+const AUTHORIZATION_STATUS_RULE: PatientChangeSource = { type: 'system', rule: 'Authorization status check' };
+
+// Who a patient edit is attributed to in its version: the signed-in user, or the API key an integration called with
+const patientChangeSource = ({ userId, apiKeyId }: MembershipContext): PatientChangeSource =>
+  apiKeyId ? { type: 'api_key', apiKeyId } : { type: 'user', userId };
+
 // Helper function to check schedule status based on appointment status changes
 const checkScheduleStatus = async (patientId: number, organizationId: number) => {
   try {
@@ -196,18 +168,18 @@ const checkScheduleStatus = async (patientId: number, organizationId: number) =>
       return;
     }
 
-    // Sort appointments by date to get proper chronological order
+    // Sort appointments by date to get proper chronological order (ISO dates sort as strings)
     const sortedAppointments = appointments.sort((a, b) => 
-      new Date(a.appointmentDate).getTime() - new Date(b.appointmentDate).getTime()
+      a.appointmentDate.localeCompare(b.appointmentDate)
     );
 
-    // Find the most recent completed appointment
-    const now = new Date();
+    // Find the most recent completed appointment; appointments today count as past
+    const today = todayCalendarDate();
     const pastAppointments = sortedAppointments.filter(apt => 
-      new Date(apt.appointmentDate) <= now
+      apt.appointmentDate <= today
     );
     const futureAppointments = sortedAppointments.filter(apt => 
-      new Date(apt.appointmentDate) > now
+      apt.appointmentDate > today
     );
 
     const lastAppointment = pastAppointments[pastAppointments.length - 1]; // Most recent past appointment
@@ -217,21 +189,19 @@ const checkScheduleStatus = async (patientId: number, organizationId: number) =>
     if (lastAppointment && (lastAppointment.status === 'Cancelled' || lastAppointment.status === 'No Show')) {
       await storage.updatePatient(patientId, {
         scheduleStatus: "Needs Rescheduling"
-      }, organizationId);
+      }, organizationId, SCHEDULE_STATUS_RULE);
       console.log(`Patient ${patientId}: Schedule status updated to "Needs Rescheduling" - last appointment status is "${lastAppointment.status}"`);
       return;
     }
 
     // Check if last appointment is at least 3 months ago and no next appointment scheduled
     if (lastAppointment && !nextAppointment) {
-      const lastAppointmentDate = new Date(lastAppointment.appointmentDate);
-      const threeMonthsAgo = new Date();
-      threeMonthsAgo.setMonth(threeMonthsAgo.getMonth() - 3);
+      const threeMonthsAgo = addCalendarMonths(today, -3);
 
-      if (lastAppointmentDate <= threeMonthsAgo) {
+      if (lastAppointment.appointmentDate <= threeMonthsAgo) {
         await storage.updatePatient(patientId, {
           scheduleStatus: "Needs Scheduling–High Priority"
-        }, organizationId);
+        }, organizationId, SCHEDULE_STATUS_RULE);
         console.log(`Patient ${patientId}: Schedule status updated to "Needs Scheduling–High Priority" - last appointment was ${lastAppointment.appointmentDate} (>3 months ago) and no future appointments`);
       }
     }
@@ -260,25 +230,24 @@ const checkAuthorizationStatus = async (patientId: number, organizationId: numbe
       if (appointments.length > 0 && automaticStatuses.includes(currentStatus)) {
         await storage.updatePatient(patientId, {
           authStatus: "APT SCHEDULED W/O AUTH"
-        }, organizationId);
+        }, organizationId, AUTHORIZATION_STATUS_RULE);
         console.log(`Patient ${patientId}: Authorization status updated to "APT SCHEDULED W/O AUTH" - appointments scheduled but no auth info`);
       }
       return; // No auth dates to check against
     }
 
-    // Parse auth dates (MM/DD/YYYY format)
-    const authStartDate = new Date(patient.startDate);
-    const authEndDate = new Date(patient.endDate);
-    const currentDate = new Date();
-    const oneWeekFromNow = new Date();
-    oneWeekFromNow.setDate(currentDate.getDate() + 7);
+    // Auth dates are YYYY-MM-DD and compare as strings; the authorization is valid through its end date
+    const authStartDate = patient.startDate;
+    const authEndDate = patient.endDate;
+    const currentDate = todayCalendarDate();
+    const oneWeekFromNow = addCalendarDays(currentDate, 7);
     
     // Check if authorization expires within a week (only update automatic statuses)
-    if (authEndDate <= oneWeekFromNow && authEndDate > currentDate) {
+    if (authEndDate <= oneWeekFromNow && authEndDate >= currentDate) {
       if (automaticStatuses.includes(currentStatus)) {
         await storage.updatePatient(patientId, {
           authStatus: "Needs Renewal"
-        }, organizationId);
+        }, organizationId, AUTHORIZATION_STATUS_RULE);
         console.log(`Patient ${patientId}: Authorization status updated to "Needs Renewal" - auth expires on ${patient.endDate} (within one week)`);
       }
       return;
@@ -289,7 +258,7 @@ const checkAuthorizationStatus = async (patientId: number, organizationId: numbe
       if (automaticStatuses.includes(currentStatus)) {
         await storage.updatePatient(patientId, {
           authStatus: "Needs Renewal"
-        }, organizationId);
+        }, organizationId, AUTHORIZATION_STATUS_RULE);
         console.log(`Patient ${patientId}: Authorization status updated to "Needs Renewal" - auth expired on ${patient.endDate}`);
       }
       return;
@@ -298,7 +267,7 @@ const checkAuthorizationStatus = async (patientId: number, organizationId: numbe
     // Check if any appointment is outside the auth date range
     let hasAppointmentsOutsideAuthRange = false;
     for (const appointment of appointments) {
-      const appointmentDate = new Date(appointment.appointmentDate);
+      const appointmentDate = appointment.appointmentDate;
       
       if (appointmentDate < authStartDate || appointmentDate > authEndDate) {
         hasAppointmentsOutsideAuthRange = true;
@@ -311,7 +280,7 @@ const checkAuthorizationStatus = async (patientId: number, organizationId: numbe
       if (automaticStatuses.includes(currentStatus)) {
         await storage.updatePatient(patientId, {
           authStatus: "APT SCHEDULED W/O AUTH"
-        }, organizationId);
+        }, organizationId, AUTHORIZATION_STATUS_RULE);
         console.log(`Patient ${patientId}: Authorization status updated to "APT SCHEDULED W/O AUTH" - appointments outside auth range ${patient.startDate} to ${patient.endDate}`);
       }
       return;
@@ -323,7 +292,7 @@ const checkAuthorizationStatus = async (patientId: number, organizationId: numbe
       await storage.updatePatient(patientId, {
         authStatus: "Approved",
         scheduleStatus: "Needs Scheduling"
-      }, organizationId);
+      }, organizationId, AUTHORIZATION_STATUS_RULE);
       console.log(`Patient ${patientId}: Authorization status updated to "Approved" and schedule status to "Needs Scheduling" - patient has valid auth`);
     }
   } catch (error) {
@@ -355,6 +324,39 @@ const checkAllPatientsAuthorizationStatus = async (organizationId: number) => {
   }
 };
 
+// Document uploads: PDFs, raster images and the plain-text rejection letters the patient page saves
+const UPLOAD_CONTENT_TYPES = ['application/pdf', 'image/png', 'image/jpeg', 'image/gif', 'image/webp', 'text/plain'];
+// Stored files the browser may render inline; everything else is served as an opaque download
+const INLINE_CONTENT_TYPES = ['application/pdf', 'image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+
+// Largest audit log export; bigger result sets have to be narrowed with filters first
+const AUDIT_LOG_EXPORT_MAX_ROWS = 50000;
+
+const formatAuditLogsCsv = (entries: AuditLogEntry[]) => {
+  const headers = ['Timestamp', 'User', 'User Email', 'API Key', 'Action', 'Resource Type', 'Resource ID', 'IP Address', 'User Agent', 'Session ID', 'Details'];
+  const rows = entries.map(entry => [
+    new Date(entry.timestamp).toISOString(),
+    entry.userName || '',
+    entry.userEmail || '',
+    entry.apiKeyName || '',
+    entry.action,
+    entry.resourceType || '',
+    entry.resourceId ?? '',
+    entry.ipAddress || '',
+    entry.userAgent || '',
+    entry.sessionId || '',
+    entry.details ? JSON.stringify(entry.details) : '',
+  ]);
+
+  return [headers, ...rows]
+    .map(row => row.map(field => {
+      // Quote every field; a leading formula character is neutralised so spreadsheets don't evaluate it
+      const text = String(field).replace(/\r?\n/g, ' ').replace(/"/g, '""');
+      return `"${/^[=+\-@]/.test(text) ? `'${text}` : text}"`;
+    }).join(','))
+    .join('\n');
+};
+
 // Analytics middleware to track API requests
 const analyticsMiddleware = (req: any, res: any, next: any) => {
   const startTime = Date.now();
@@ -401,6 +403,7 @@ const analyticsMiddleware = (req: any, res: any, next: any) => {
 export async function registerRoutes(app: Express): Promise<Server> {
   // Session configuration with secure settings
   app.use(session({
+    store: sessionStore,
     secret: process.env.SESSION_SECRET || 'fallback-secret-key',
     resave: false,
     saveUninitialized: false,
@@ -409,10 +412,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
       secure: process.env.NODE_ENV === 'production', // Secure in production
       httpOnly: true, // Prevent XSS attacks
       sameSite: 'strict', // CSRF protection
-      maxAge: 15 * 60 * 1000, // 15 minutes for HIPAA compliance
+      maxAge: SESSION_IDLE_TIMEOUT_MS, // 15 minutes of inactivity for HIPAA compliance
     },
   }));
 
+  // Active sessions still end SESSION_MAX_LIFETIME_HOURS after sign-in
+  app.use(enforceSessionLifetime);
+
+  // Request budgets per IP, user and organization; LLM-backed routes add llmRateLimit after their permission check
+  app.use('/api', apiRateLimit);
+  // Exact paths: the MFA, enrollment and expired-password steps after a login have their own attempt limits
+  app.all([
+    '/api/auth/register',
+    '/api/auth/login',
+    '/api/auth/forgot-password',
+    '/api/auth/reset-password',
+    '/api/auth/reset-password/:token',
+    '/api/auth/change-password',
+    '/api/auth/send-magic-link',
+    '/api/auth/verify',
+    '/api/auth/sso/start',
+    '/api/invitations/:token',
+    '/api/invitations/:token/accept',
+  ], authRateLimit);
+
   // Apply analytics middleware to all routes
   app.use(analyticsMiddleware);
   
@@ -422,7 +445,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Authentication Routes
   app.post('/api/auth/register', async (req, res) => {
     try {
-      const { organizationName, organizationDescription, email, password, name } = req.body;
+      const parsed = organizationRegisterSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || 'Invalid registration details' });
+      }
+      const { organizationName, organizationDescription, email, password, name } = parsed.data;
+      
+      // A new organization starts on the default password policy
+      const passwordCheck = await checkNewPassword(password, DEFAULT_PASSWORD_POLICY);
+      if (!passwordCheck.valid) {
+        return res.status(400).json({ error: formatPasswordErrors(passwordCheck.errors), passwordErrors: passwordCheck.errors });
+      }
       
       // Check if user already exists
       const existingUser = await storage.getUserByEmail(email);
@@ -437,7 +470,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
       
       // Hash password
-      const hashedPassword = await bcrypt.hash(password, 10);
+      const hashedPassword = await hashPassword(password);
       
       // Create user with organization set as current
       const user = await storage.createUser({
@@ -456,6 +489,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Create session
       (req.session as any).userId = user.id;
+      recordSessionMetadata(req);
       
       // Update last login
       await storage.updateUserLastLogin(user.id);
@@ -479,6 +513,62 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Pending MFA logins expire quickly and allow a handful of attempts before the password step must be repeated
+  const MFA_PENDING_TTL_MS = 5 * 60 * 1000;
+  const MFA_MAX_ATTEMPTS = 5;
+
+  const getPendingMfa = (req: any): { userId: number; enrollmentRequired: boolean; passwordExpired?: boolean; expiresAt: number; attempts: number } | null => {
+    const pending = (req.session as any).pendingMfa;
+    if (!pending || pending.expiresAt < Date.now() || pending.attempts >= MFA_MAX_ATTEMPTS) {
+      delete (req.session as any).pendingMfa;
+      return null;
+    }
+    return pending;
+  };
+
+  // Finalize a login once all required factors have been verified
+  const completeLogin = async (req: any, user: User) => {
+    delete (req.session as any).pendingMfa;
+    delete (req.session as any).pendingPasswordChange;
+    (req.session as any).userId = user.id;
+    (req.session as any).organizationId = user.currentOrganizationId;
+    recordSessionMetadata(req);
+    
+    // Get user's current organization with role
+    const currentOrg = await storage.getUserCurrentOrganization(user.id);
+    
+    return { 
+      message: 'Login successful',
+      user: { 
+        id: user.id, 
+        email: user.email, 
+        name: user.name, 
+        currentOrganizationId: user.currentOrganizationId,
+        role: currentOrg?.role || 'user',
+        permissions: getPermissions(currentOrg?.role)
+      }
+    };
+  };
+
+  // The second factor passed. An expired password is replaced next; otherwise the login is complete.
+  const finishMfaLogin = async (req: any, pending: { userId: number; passwordExpired?: boolean }, user: User) => {
+    if (!pending.passwordExpired) {
+      return completeLogin(req, user);
+    }
+
+    delete (req.session as any).pendingMfa;
+    (req.session as any).pendingPasswordChange = {
+      userId: user.id,
+      mfaVerified: true,
+      expiresAt: Date.now() + MFA_PENDING_TTL_MS,
+    };
+    const passwordPolicy = await storage.getUserPasswordPolicy(user.id);
+    return {
+      passwordExpired: true,
+      passwordRequirements: describePasswordPolicy(passwordPolicy),
+    };
+  };
+
   app.post('/api/auth/login', async (req, res) => {
     try {
       const { email, password } = req.body;
@@ -486,38 +576,197 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Use the improved loginUser function with audit logging
       const result = await loginUser({ email, password }, req);
       
+      if (result.lockout) {
+        res.set('Retry-After', String(result.retryAfterSeconds || 60));
+        return res.status(429).json({ error: result.error, retryAfterSeconds: result.retryAfterSeconds });
+      }
+      
       if (!result.success || !result.user) {
         return res.status(401).json({ error: result.error || 'Invalid credentials' });
       }
       
-      // Create session
-      (req.session as any).userId = result.user.id;
-      (req.session as any).organizationId = result.user.currentOrganizationId;
-      
-      // Clear temporary password on first successful login
-      if (result.user.tempPassword) {
-        await storage.updateUser(result.user.id, { tempPassword: null });
+      // Password accepted but a second factor is required before the session is authenticated (or an
+      // expired password may be replaced)
+      if (result.mfaRequired) {
+        (req.session as any).pendingMfa = {
+          userId: result.user.id,
+          enrollmentRequired: !!result.mfaEnrollmentRequired,
+          passwordExpired: !!result.passwordExpired,
+          expiresAt: Date.now() + MFA_PENDING_TTL_MS,
+          attempts: 0,
+        };
+        return res.json({
+          mfaRequired: true,
+          enrollmentRequired: !!result.mfaEnrollmentRequired,
+        });
       }
       
-      // Get user's current organization with role
-      const currentOrg = await storage.getUserCurrentOrganization(result.user.id);
+      // Password accepted but too old - it must be replaced before the session is authenticated
+      if (result.passwordExpired) {
+        (req.session as any).pendingPasswordChange = {
+          userId: result.user.id,
+          mfaVerified: false,
+          expiresAt: Date.now() + MFA_PENDING_TTL_MS,
+        };
+        return res.json({
+          passwordExpired: true,
+          passwordRequirements: describePasswordPolicy(result.passwordPolicy!),
+        });
+      }
       
-      res.json({ 
-        message: 'Login successful',
-        user: { 
-          id: result.user.id, 
-          email: result.user.email, 
-          name: result.user.name, 
-          currentOrganizationId: result.user.currentOrganizationId,
-          role: currentOrg?.role || 'user' 
-        }
-      });
+      res.json(await completeLogin(req, result.user));
     } catch (error) {
       console.error('Login error:', error);
       res.status(400).json({ error: 'Login failed' });
     }
   });
 
+  // Replace an expired password (after any second factor) and finish the login
+  app.post('/api/auth/login/password', async (req, res) => {
+    try {
+      const pending = (req.session as any).pendingPasswordChange;
+      if (!pending || pending.expiresAt < Date.now()) {
+        delete (req.session as any).pendingPasswordChange;
+        return res.status(401).json({ error: 'Password change session expired. Please sign in again.' });
+      }
+      
+      const parsed = expiredPasswordChangeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || 'New password is required' });
+      }
+      
+      const result = await changeExpiredPassword(pending.userId, parsed.data.newPassword, req, !!pending.mfaVerified);
+      if (!result.success || !result.user) {
+        return res.status(400).json({ error: result.error, passwordErrors: result.passwordErrors });
+      }
+      
+      res.json(await completeLogin(req, result.user));
+    } catch (error) {
+      console.error('Expired password change error:', error);
+      res.status(500).json({ error: 'Failed to change password' });
+    }
+  });
+
+  // Start TOTP enrollment during login when the organization enforces MFA
+  app.post('/api/auth/login/mfa/enroll', async (req, res) => {
+    try {
+      const pending = getPendingMfa(req);
+      if (!pending || !pending.enrollmentRequired) {
+        return res.status(401).json({ error: 'No pending MFA enrollment. Please sign in again.' });
+      }
+      
+      const enrollment = await beginMfaEnrollment(pending.userId, req);
+      res.json(enrollment);
+    } catch (error) {
+      console.error('MFA enrollment error:', error);
+      res.status(500).json({ error: 'Failed to start MFA enrollment' });
+    }
+  });
+
+  // Second login step: verify a TOTP or recovery code (or confirm a first-time enrollment)
+  app.post('/api/auth/login/mfa', async (req, res) => {
+    try {
+      const pending = getPendingMfa(req);
+      if (!pending) {
+        return res.status(401).json({ error: 'MFA session expired. Please sign in again.' });
+      }
+      
+      const parsed = mfaChallengeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Verification code is required' });
+      }
+      
+      pending.attempts += 1;
+      
+      if (pending.enrollmentRequired) {
+        const enrollment = await confirmMfaEnrollment(pending.userId, parsed.data.code, req);
+        if (!enrollment.success) {
+          return res.status(401).json({ error: enrollment.error });
+        }
+        
+        const user = await storage.getUser(pending.userId);
+        if (!user) {
+          return res.status(401).json({ error: 'User not found' });
+        }
+        
+        // Enrollment proves possession of the authenticator, so it doubles as the login challenge; the code is spent by now
+        const result = await completeMfaLogin(user, 'totp', req, !!pending.passwordExpired);
+        if (!result.success || !result.user) {
+          return res.status(401).json({ error: result.error });
+        }
+        
+        return res.json({
+          ...(await finishMfaLogin(req, pending, result.user)),
+          recoveryCodes: enrollment.recoveryCodes,
+        });
+      }
+      
+      const result = await verifyMfaChallenge(pending.userId, parsed.data.code, req, !!pending.passwordExpired);
+      if (result.lockout) {
+        delete (req.session as any).pendingMfa;
+        res.set('Retry-After', String(result.retryAfterSeconds || 60));
+        return res.status(429).json({ error: result.error, retryAfterSeconds: result.retryAfterSeconds });
+      }
+      if (!result.success || !result.user) {
+        const attemptsRemaining = MFA_MAX_ATTEMPTS - pending.attempts;
+        if (attemptsRemaining <= 0) {
+          delete (req.session as any).pendingMfa;
+        }
+        return res.status(401).json({ error: result.error, attemptsRemaining });
+      }
+      
+      res.json(await finishMfaLogin(req, pending, result.user));
+    } catch (error) {
+      console.error('MFA challenge error:', error);
+      res.status(500).json({ error: 'MFA verification failed' });
+    }
+  });
+
+  // OIDC single sign-on: the email's domain selects the organization's identity provider
+  app.post('/api/auth/sso/start', async (req, res) => {
+    try {
+      const parsed = passwordResetRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Valid email required' });
+      }
+
+      const result = await beginSsoLogin(req, res, parsed.data.email);
+      if (!result.redirectUrl) {
+        return res.status(404).json({ error: result.error });
+      }
+
+      res.json({ redirectUrl: result.redirectUrl });
+    } catch (error) {
+      console.error('SSO start error:', error);
+      res.status(502).json({ error: 'Could not reach the identity provider' });
+    }
+  });
+
+  app.get('/api/auth/sso/callback', async (req, res) => {
+    try {
+      const result = await completeSsoLogin(req, res);
+      if (!result.success || !result.user) {
+        return res.redirect('/login?error=' + encodeURIComponent(result.error || 'Single sign-on failed'));
+      }
+
+      if (result.mfaRequired) {
+        (req.session as any).pendingMfa = {
+          userId: result.user.id,
+          enrollmentRequired: !!result.mfaEnrollmentRequired,
+          expiresAt: Date.now() + MFA_PENDING_TTL_MS,
+          attempts: 0,
+        };
+        return res.redirect('/login?mfa=' + (result.mfaEnrollmentRequired ? 'enroll' : 'challenge'));
+      }
+
+      await completeLogin(req, result.user);
+      res.redirect('/');
+    } catch (error) {
+      console.error('SSO callback error:', error);
+      res.redirect('/login?error=' + encodeURIComponent('Single sign-on failed'));
+    }
+  });
+
   app.post('/api/auth/logout', async (req, res) => {
     try {
       // Log logout event before destroying session
@@ -552,6 +801,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Called by the client's idle timer while the user is active, and by "Stay signed in"
+  app.post('/api/auth/session/keepalive', requireAuth, (req, res) => {
+    res.json(getSessionDeadlines(req));
+  });
+
   app.get('/api/auth/user', async (req, res) => {
     const userId = (req.session as any).userId;
     if (!userId) {
@@ -573,7 +827,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           email: user.email, 
           name: user.name, 
           currentOrganizationId: user.currentOrganizationId,
-          role: currentOrg?.role || 'user'
+          role: currentOrg?.role || 'user',
+          permissions: getPermissions(currentOrg?.role)
         }
       });
     } catch (error) {
@@ -676,11 +931,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: 'Current password is incorrect' });
       }
       
-      // Hash new password
-      const hashedNewPassword = await bcrypt.hash(newPassword, 10);
+      const passwordCheck = await checkNewPassword(newPassword, await storage.getUserPasswordPolicy(userId), user);
+      if (!passwordCheck.valid) {
+        return res.status(400).json({ error: formatPasswordErrors(passwordCheck.errors), passwordErrors: passwordCheck.errors });
+      }
       
       // Update password
-      await storage.updateUserPassword(userId, hashedNewPassword);
+      await storage.updateUserPassword(userId, await hashPassword(newPassword));
+      
+      await AuditLogger.logAuthentication('PASSWORD_CHANGED', {
+        ...AuditLogger.extractContext(req),
+        userId: user.id,
+        organizationId: user.currentOrganizationId || undefined,
+      }, {
+        email: user.email,
+        reason: 'user_initiated',
+      });
       
       res.json({ message: 'Password changed successfully' });
     } catch (error) {
@@ -689,6 +955,260 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Self-service password reset
+  app.post('/api/auth/forgot-password', async (req, res) => {
+    try {
+      const parsed = passwordResetRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Valid email required' });
+      }
+      
+      const email = parsed.data.email.toLowerCase();
+      const user = await storage.getUserByEmail(email);
+      const context = AuditLogger.extractContext(req);
+      
+      if (user) {
+        const result = await sendPasswordResetEmail(user, getPublicBaseUrl());
+        await AuditLogger.logAuthentication('PASSWORD_RESET_REQUESTED', {
+          ...context,
+          userId: user.id,
+          organizationId: user.currentOrganizationId || undefined,
+        }, {
+          email,
+          emailDelivered: result.success,
+        });
+      } else {
+        await AuditLogger.logAuthentication('PASSWORD_RESET_REQUESTED', context, {
+          email,
+          reason: 'user_not_found',
+        });
+      }
+      
+      // Same response either way so the endpoint can't be used to discover accounts
+      res.json({ message: 'If an account exists for that email, a password reset link has been sent.' });
+    } catch (error) {
+      console.error('Forgot password error:', error);
+      res.status(500).json({ error: 'Failed to process password reset request' });
+    }
+  });
+
+  app.get('/api/auth/reset-password/:token', async (req, res) => {
+    try {
+      const tokenRecord = await getValidPasswordResetToken(req.params.token);
+      if (!tokenRecord) {
+        return res.status(410).json({ error: 'This reset link is invalid or has expired' });
+      }
+      
+      const user = await storage.getUserByEmail(tokenRecord.email);
+      const passwordPolicy = user ? await storage.getUserPasswordPolicy(user.id) : DEFAULT_PASSWORD_POLICY;
+      
+      res.json({
+        email: tokenRecord.email,
+        expiresAt: tokenRecord.expiresAt,
+        passwordRequirements: describePasswordPolicy(passwordPolicy),
+      });
+    } catch (error) {
+      console.error('Reset token lookup error:', error);
+      res.status(500).json({ error: 'Failed to validate reset link' });
+    }
+  });
+
+  app.post('/api/auth/reset-password', async (req, res) => {
+    try {
+      const parsed = passwordResetSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: `Password must be at least ${PASSWORD_MIN_LENGTH_FLOOR} characters` });
+      }
+      
+      const context = AuditLogger.extractContext(req);
+      const tokenRecord = await getValidPasswordResetToken(parsed.data.token);
+      if (!tokenRecord) {
+        await AuditLogger.logAuthentication('PASSWORD_RESET_FAILED', context, {
+          reason: 'invalid_or_expired_token',
+        });
+        return res.status(410).json({ error: 'This reset link is invalid or has expired' });
+      }
+      
+      const user = await storage.getUserByEmail(tokenRecord.email);
+      if (!user) {
+        await storage.markTokenAsUsed(tokenRecord.token);
+        return res.status(410).json({ error: 'This reset link is invalid or has expired' });
+      }
+      
+      // The link stays valid so the user can retry with a password that meets the policy
+      const passwordCheck = await checkNewPassword(parsed.data.password, await storage.getUserPasswordPolicy(user.id), user);
+      if (!passwordCheck.valid) {
+        return res.status(400).json({ error: formatPasswordErrors(passwordCheck.errors), passwordErrors: passwordCheck.errors });
+      }
+      
+      await storage.updateUserPassword(user.id, await hashPassword(parsed.data.password));
+      
+      // Burn this link and any other outstanding reset links for the account
+      await storage.invalidateLoginTokensForEmail(tokenRecord.email, 'password_reset');
+      
+      // Resetting the password is the recovery path for locked-out users
+      await storage.resetFailedLogins(user.id);
+      
+      // Anyone holding an old session (including whoever knew the old password) is signed out
+      const revokedSessions = await destroyUserSessions(user.id);
+      
+      await AuditLogger.logAuthentication('PASSWORD_RESET_COMPLETED', {
+        ...context,
+        userId: user.id,
+        organizationId: user.currentOrganizationId || undefined,
+      }, {
+        email: user.email,
+        revokedSessions,
+      });
+      
+      res.json({ message: 'Password has been reset. Please sign in with your new password.' });
+    } catch (error) {
+      console.error('Reset password error:', error);
+      res.status(500).json({ error: 'Failed to reset password' });
+    }
+  });
+
+  // Active session management for the signed-in user
+  app.get('/api/auth/sessions', requireAuth, async (req, res) => {
+    try {
+      const userId = (req.session as any).userId;
+      res.json(await listUserSessions(userId, req.sessionID));
+    } catch (error) {
+      console.error('Error fetching sessions:', error);
+      res.status(500).json({ error: 'Failed to fetch sessions' });
+    }
+  });
+
+  app.delete('/api/auth/sessions/:id', requireAuth, async (req, res) => {
+    try {
+      const userId = (req.session as any).userId;
+      if (isCurrentSession(req, req.params.id)) {
+        return res.status(400).json({ error: 'Use sign out to end your current session' });
+      }
+
+      const revoked = await destroyUserSession(userId, req.params.id);
+      if (!revoked) {
+        return res.status(404).json({ error: 'Session not found' });
+      }
+
+      await AuditLogger.logAuthentication('SESSION_REVOKED', AuditLogger.extractContext(req), { sessionId: req.params.id });
+      res.json({ message: 'Session signed out' });
+    } catch (error) {
+      console.error('Error revoking session:', error);
+      res.status(500).json({ error: 'Failed to sign out session' });
+    }
+  });
+
+  app.post('/api/auth/sessions/revoke-others', requireAuth, async (req, res) => {
+    try {
+      const userId = (req.session as any).userId;
+      const revokedSessions = await destroyUserSessions(userId, req.sessionID);
+
+      await AuditLogger.logAuthentication('SESSIONS_REVOKED', AuditLogger.extractContext(req), { revokedSessions });
+      res.json({ message: `Signed out of ${revokedSessions} other session${revokedSessions === 1 ? '' : 's'}`, revokedSessions });
+    } catch (error) {
+      console.error('Error revoking sessions:', error);
+      res.status(500).json({ error: 'Failed to sign out other sessions' });
+    }
+  });
+
+  // Multi-factor authentication management
+  app.get('/api/auth/mfa', requireAuth, async (req, res) => {
+    try {
+      const userId = (req.session as any).userId;
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(401).json({ error: 'User not found' });
+      }
+      
+      res.json({
+        enabled: user.mfaEnabled,
+        enrolledAt: user.mfaEnrolledAt,
+        requiredByOrganization: await storage.isMfaRequiredForUser(userId),
+        recoveryCodesRemaining: user.mfaEnabled ? (user.mfaRecoveryCodes?.length ?? 0) : 0,
+      });
+    } catch (error) {
+      console.error('Error fetching MFA status:', error);
+      res.status(500).json({ error: 'Failed to fetch MFA status' });
+    }
+  });
+
+  app.post('/api/auth/mfa/setup', requireAuth, async (req, res) => {
+    try {
+      const userId = (req.session as any).userId;
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(401).json({ error: 'User not found' });
+      }
+      if (user.mfaEnabled) {
+        return res.status(400).json({ error: 'MFA is already enabled' });
+      }
+      
+      const enrollment = await beginMfaEnrollment(userId, req);
+      res.json(enrollment);
+    } catch (error) {
+      console.error('Error starting MFA setup:', error);
+      res.status(500).json({ error: 'Failed to start MFA setup' });
+    }
+  });
+
+  app.post('/api/auth/mfa/verify', requireAuth, async (req, res) => {
+    try {
+      const parsed = mfaChallengeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Verification code is required' });
+      }
+      
+      const result = await confirmMfaEnrollment((req.session as any).userId, parsed.data.code, req);
+      if (!result.success) {
+        return res.status(400).json({ error: result.error });
+      }
+      
+      res.json({ message: 'MFA enabled successfully', recoveryCodes: result.recoveryCodes });
+    } catch (error) {
+      console.error('Error verifying MFA setup:', error);
+      res.status(500).json({ error: 'Failed to verify MFA setup' });
+    }
+  });
+
+  app.post('/api/auth/mfa/recovery-codes', requireAuth, async (req, res) => {
+    try {
+      const parsed = mfaChallengeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Verification code is required' });
+      }
+      
+      const result = await regenerateMfaRecoveryCodes((req.session as any).userId, parsed.data.code, req);
+      if (!result.success) {
+        return res.status(400).json({ error: result.error });
+      }
+      
+      res.json({ recoveryCodes: result.recoveryCodes });
+    } catch (error) {
+      console.error('Error regenerating recovery codes:', error);
+      res.status(500).json({ error: 'Failed to regenerate recovery codes' });
+    }
+  });
+
+  app.post('/api/auth/mfa/disable', requireAuth, async (req, res) => {
+    try {
+      const parsed = mfaChallengeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Verification code is required' });
+      }
+      
+      const result = await disableMfa((req.session as any).userId, parsed.data.code, req);
+      if (!result.success) {
+        return res.status(400).json({ error: result.error });
+      }
+      
+      res.json({ message: 'MFA disabled successfully' });
+    } catch (error) {
+      console.error('Error disabling MFA:', error);
+      res.status(500).json({ error: 'Failed to disable MFA' });
+    }
+  });
+
   app.delete('/api/auth/delete-account', async (req, res) => {
     const userId = (req.session as any).userId;
     if (!userId) {
@@ -736,7 +1256,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Organization Management Routes
-  app.get('/api/organization', async (req, res) => {
+  app.get('/api/organization', requirePermission('organization:read'), async (req, res) => {
     const userId = (req.session as any).userId;
     if (!userId) {
       return res.status(401).json({ error: 'Not authenticated' });
@@ -760,7 +1280,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put('/api/organization', async (req, res) => {
+  app.put('/api/organization', requirePermission('organization:update'), async (req, res) => {
     const userId = (req.session as any).userId;
     if (!userId) {
       return res.status(401).json({ error: 'Not authenticated' });
@@ -772,16 +1292,65 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: 'User not associated with an organization' });
       }
 
-      // Get user's current organization role
-      const currentOrg = await storage.getUserCurrentOrganization(userId);
+      const { name, description, requireMfa } = req.body;
       
-      // Only owners and admins can update organization
-      if (currentOrg?.role !== 'owner' && currentOrg?.role !== 'admin') {
-        return res.status(403).json({ error: 'Insufficient permissions' });
+      let passwordPolicy: PasswordPolicy | undefined;
+      if (req.body.passwordPolicy !== undefined) {
+        const parsedPolicy = passwordPolicySchema.safeParse(req.body.passwordPolicy);
+        if (!parsedPolicy.success) {
+          return res.status(400).json({ error: parsedPolicy.error.errors[0]?.message || 'Invalid password policy' });
+        }
+        passwordPolicy = parsedPolicy.data;
+      }
+      
+      let auditAlertSettings: AuditAlertSettings | undefined;
+      if (req.body.auditAlertSettings !== undefined) {
+        const parsedSettings = auditAlertSettingsSchema.safeParse(req.body.auditAlertSettings);
+        if (!parsedSettings.success) {
+          return res.status(400).json({ error: parsedSettings.error.errors[0]?.message || 'Invalid audit alert settings' });
+        }
+        auditAlertSettings = parsedSettings.data;
+      }
+      
+      const previous = await storage.getOrganization(user.currentOrganizationId);
+      const organization = await storage.updateOrganization(user.currentOrganizationId, {
+        name,
+        description,
+        ...(typeof requireMfa === 'boolean' ? { requireMfa } : {}),
+        ...(passwordPolicy ? { passwordPolicy } : {}),
+        ...(auditAlertSettings ? { auditAlertSettings } : {}),
+      });
+      
+      // Security policy changes are audited separately from routine profile edits
+      if (typeof requireMfa === 'boolean' && previous?.requireMfa !== requireMfa) {
+        await AuditLogger.log({
+          action: requireMfa ? 'MFA_REQUIREMENT_ENABLED' : 'MFA_REQUIREMENT_DISABLED',
+          resourceType: 'organization',
+          resourceId: organization.id,
+          details: { previousValue: previous?.requireMfa ?? false, newValue: requireMfa },
+          context: AuditLogger.extractContext(req),
+        });
+      }
+      
+      if (passwordPolicy) {
+        await AuditLogger.log({
+          action: 'PASSWORD_POLICY_UPDATED',
+          resourceType: 'organization',
+          resourceId: organization.id,
+          details: { previousValue: previous?.passwordPolicy ?? DEFAULT_PASSWORD_POLICY, newValue: passwordPolicy },
+          context: AuditLogger.extractContext(req),
+        });
+      }
+      
+      if (auditAlertSettings) {
+        await AuditLogger.log({
+          action: 'AUDIT_ALERT_SETTINGS_UPDATED',
+          resourceType: 'organization',
+          resourceId: organization.id,
+          details: { previousValue: previous?.auditAlertSettings ?? DEFAULT_AUDIT_ALERT_SETTINGS, newValue: auditAlertSettings },
+          context: AuditLogger.extractContext(req),
+        });
       }
-
-      const { name, description } = req.body;
-      const organization = await storage.updateOrganization(user.currentOrganizationId, { name, description });
       
       res.json(organization);
     } catch (error) {
@@ -790,7 +1359,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/organization/members', async (req, res) => {
+  app.get('/api/organization/members', requirePermission('member:read'), async (req, res) => {
     const userId = (req.session as any).userId;
     if (!userId) {
       return res.status(401).json({ error: 'Not authenticated' });
@@ -802,15 +1371,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: 'User not associated with an organization' });
       }
 
-      const members = await storage.getOrganizationMembers(user.currentOrganizationId);
-      res.json(members);
+      // Deactivated memberships are only listed on request, for reactivation
+      const members = await storage.getOrganizationMembers(user.currentOrganizationId, {
+        inactive: req.query.status === 'inactive',
+      });
+      
+      // Never expose password hashes or MFA secrets to other members
+      res.json(members.map(({ password, mfaSecret, mfaRecoveryCodes, ...member }) => member));
     } catch (error) {
       console.error('Error fetching organization members:', error);
       res.status(500).json({ error: 'Failed to fetch organization members' });
     }
   });
 
-  app.post('/api/organization/invite', async (req, res) => {
+  app.post('/api/organization/invite', requirePermission('member:invite'), async (req, res) => {
     const userId = (req.session as any).userId;
     if (!userId) {
       return res.status(401).json({ error: 'Not authenticated' });
@@ -822,109 +1396,73 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: 'User not associated with an organization' });
       }
 
-      // Get user's role in current organization
       const currentOrg = await storage.getUserCurrentOrganization(userId);
       if (!currentOrg) {
         return res.status(400).json({ error: 'No current organization selected' });
       }
 
-      console.log('User attempting to invite:', { id: user.id, role: currentOrg.role, email: user.email });
-
-      // Only owners and admins can invite users
-      if (currentOrg.role === 'user') {
-        console.log('Permission denied - user role:', currentOrg.role);
-        return res.status(403).json({ error: 'Insufficient permissions. Only organization owners and admins can invite users.' });
+      const parsed = userInviteSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'A valid email and name are required' });
       }
+      const { email, name, role } = parsed.data;
 
-      const { email, name } = req.body;
-      console.log('Invite request data:', { email, name });
-      
-      if (!email || !name) {
-        return res.status(400).json({ error: 'Email and name are required' });
+      // Only the owner grants the admin role, here as on the role change route
+      const { role: actorRole } = (req as any).membership as MembershipContext;
+      if (actorRole !== 'owner' && role === 'admin') {
+        return res.status(403).json({ error: 'Only the organization owner can invite admins' });
       }
 
-      // Check if user already exists
+      // Check if the invitee is already an active member
       const existingUser = await storage.getUserByEmail(email);
       if (existingUser) {
-        console.log('User already exists:', email);
-        
-        // Check if user is already a member of this organization
         const userOrgs = await storage.getUserOrganizations(existingUser.id);
-        const isMemberOfCurrentOrg = userOrgs.some(org => org.organization.id === user.currentOrganizationId && org.isActive);
-        
-        if (isMemberOfCurrentOrg) {
+        if (userOrgs.some(org => org.organization.id === user.currentOrganizationId && org.isActive)) {
           return res.status(400).json({ error: 'User is already a member of this organization' });
         }
-        
-        // Add existing user to organization via membership
-        await storage.addOrganizationMember({
-          userId: existingUser.id,
-          organizationId: user.currentOrganizationId,
-          role: 'user',
-          isActive: true
-        });
-
-        // Set as current organization if user doesn't have one
-        if (!existingUser.currentOrganizationId) {
-          await storage.switchUserOrganization(existingUser.id, user.currentOrganizationId);
-        }
-        
-        const updatedUser = await storage.getUser(existingUser.id);
-        
-        if (!updatedUser) {
-          return res.status(500).json({ error: 'Failed to get updated user information' });
-        }
-        
-        console.log('Added existing user to organization:', { id: updatedUser.id, email: updatedUser.email });
-        
-        res.json({ 
-          user: { 
-            id: updatedUser.id, 
-            email: updatedUser.email, 
-            name: updatedUser.name, 
-            role: 'user' // Role is now stored in membership, not user table
-          },
-          isExisting: true,
-          message: 'Existing user added to organization'
-        });
-        return;
       }
 
-      // Create new user with temporary password
-      const tempPassword = Math.random().toString(36).substring(2, 15);
-      console.log('Generated temp password for new user');
-      
-      const hashedPassword = await bcrypt.hash(tempPassword, 10);
+      if (await storage.getPendingInvitationForEmail(user.currentOrganizationId, email)) {
+        return res.status(400).json({ error: 'An invitation is already pending for this email. Resend it instead.' });
+      }
 
-      const newUser = await storage.createUser({
+      const loginToken = await createInvitationToken(email);
+      const invitation = await storage.createInvitation({
+        organizationId: user.currentOrganizationId,
         email,
-        password: hashedPassword,
         name,
-        currentOrganizationId: user.currentOrganizationId,
-        tempPassword, // Store the temporary password for display
+        role,
+        invitedBy: user.id,
+        loginTokenId: loginToken.id,
+        status: 'pending',
+        expiresAt: loginToken.expiresAt,
+        lastSentAt: new Date(),
       });
 
-      // Create organization membership
-      await storage.addOrganizationMember({
-        userId: newUser.id,
-        organizationId: user.currentOrganizationId,
-        role: 'user',
-        isActive: true
+      const emailResult = await sendInvitationEmail({
+        email,
+        name,
+        organizationName: currentOrg.organization.name,
+        inviterName: user.name,
+        token: loginToken.token,
+        expiresAt: loginToken.expiresAt,
+        baseUrl: getPublicBaseUrl(),
       });
 
-      console.log('Successfully created new user:', { id: newUser.id, email: newUser.email });
+      await AuditLogger.log({
+        action: 'INVITATION_SENT',
+        resourceType: 'organization_invitation',
+        resourceId: invitation.id,
+        details: { email, role, existingAccount: !!existingUser, emailDelivered: emailResult.success },
+        context: AuditLogger.extractContext(req),
+      });
 
-      // In a real system, you'd send an email with login instructions
       res.json({ 
-        user: { 
-          id: newUser.id, 
-          email: newUser.email, 
-          name: newUser.name, 
-          role: 'user' // Role is now stored in membership, not user table
-        },
-        tempPassword,
-        isExisting: false,
-        message: 'New user created and added to organization'
+        invitation,
+        emailSent: emailResult.success,
+        message: emailResult.success
+          ? `Invitation sent to ${email}`
+          : `Invitation created, but the email to ${email} could not be delivered. Try resending.`
       });
     } catch (error) {
       console.error('Error inviting user:', error);
@@ -932,42 +1470,377 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete('/api/organization/members/:userId', async (req, res) => {
-    const sessionUserId = (req.session as any).userId;
-    if (!sessionUserId) {
+  app.get('/api/organization/invitations', requirePermission('member:invite'), async (req, res) => {
+    const userId = (req.session as any).userId;
+    if (!userId) {
       return res.status(401).json({ error: 'Not authenticated' });
     }
     
     try {
-      const user = await storage.getUser(sessionUserId);
+      const user = await storage.getUser(userId);
       if (!user || !user.currentOrganizationId) {
         return res.status(400).json({ error: 'User not associated with an organization' });
       }
 
-      // Get user's current organization role
-      const currentOrg = await storage.getUserCurrentOrganization(sessionUserId);
-      
-      // Only owners and admins can remove users
-      if (currentOrg?.role !== 'owner' && currentOrg?.role !== 'admin') {
-        return res.status(403).json({ error: 'Insufficient permissions' });
+      const invitations = await storage.getPendingInvitations(user.currentOrganizationId);
+      res.json(invitations);
+    } catch (error) {
+      console.error('Error fetching invitations:', error);
+      res.status(500).json({ error: 'Failed to fetch invitations' });
+    }
+  });
+
+  app.post('/api/organization/invitations/:id/resend', requirePermission('member:invite'), async (req, res) => {
+    const userId = (req.session as any).userId;
+    if (!userId) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+    
+    try {
+      const user = await storage.getUser(userId);
+      if (!user || !user.currentOrganizationId) {
+        return res.status(400).json({ error: 'User not associated with an organization' });
+      }
+
+      const currentOrg = await storage.getUserCurrentOrganization(userId);
+      if (!currentOrg) {
+        return res.status(400).json({ error: 'No current organization selected' });
+      }
+
+      const invitation = await storage.getInvitation(parseInt(req.params.id), user.currentOrganizationId);
+      if (!invitation || invitation.status !== 'pending') {
+        return res.status(404).json({ error: 'Pending invitation not found' });
+      }
+      const { role: actorRole } = (req as any).membership as MembershipContext;
+      if (actorRole !== 'owner' && invitation.role === 'admin') {
+        return res.status(403).json({ error: 'Only the organization owner can invite admins' });
+      }
+
+      // Issue a fresh link and retire the old one so only the latest email works
+      const loginToken = await createInvitationToken(invitation.email);
+      const updated = await storage.updateInvitation(invitation.id, {
+        loginTokenId: loginToken.id,
+        expiresAt: loginToken.expiresAt,
+        lastSentAt: new Date(),
+      });
+      await storage.markLoginTokenIdAsUsed(invitation.loginTokenId);
+
+      const emailResult = await sendInvitationEmail({
+        email: invitation.email,
+        name: invitation.name,
+        organizationName: currentOrg.organization.name,
+        inviterName: user.name,
+        token: loginToken.token,
+        expiresAt: loginToken.expiresAt,
+        baseUrl: getPublicBaseUrl(),
+      });
+
+      await AuditLogger.log({
+        action: 'INVITATION_RESENT',
+        resourceType: 'organization_invitation',
+        resourceId: invitation.id,
+        details: { email: invitation.email, emailDelivered: emailResult.success },
+        context: AuditLogger.extractContext(req),
+      });
+
+      res.json({
+        invitation: updated,
+        emailSent: emailResult.success,
+        message: emailResult.success ? `Invitation resent to ${invitation.email}` : 'Failed to deliver invitation email',
+      });
+    } catch (error) {
+      console.error('Error resending invitation:', error);
+      res.status(500).json({ error: 'Failed to resend invitation' });
+    }
+  });
+
+  app.delete('/api/organization/invitations/:id', requirePermission('member:invite'), async (req, res) => {
+    const userId = (req.session as any).userId;
+    if (!userId) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+    
+    try {
+      const user = await storage.getUser(userId);
+      if (!user || !user.currentOrganizationId) {
+        return res.status(400).json({ error: 'User not associated with an organization' });
+      }
+
+      const invitation = await storage.getInvitation(parseInt(req.params.id), user.currentOrganizationId);
+      if (!invitation || invitation.status !== 'pending') {
+        return res.status(404).json({ error: 'Pending invitation not found' });
+      }
+
+      await storage.updateInvitation(invitation.id, { status: 'revoked', revokedAt: new Date() });
+      await storage.markLoginTokenIdAsUsed(invitation.loginTokenId);
+
+      await AuditLogger.log({
+        action: 'INVITATION_REVOKED',
+        resourceType: 'organization_invitation',
+        resourceId: invitation.id,
+        details: { email: invitation.email },
+        context: AuditLogger.extractContext(req),
+      });
+
+      res.json({ message: 'Invitation revoked' });
+    } catch (error) {
+      console.error('Error revoking invitation:', error);
+      res.status(500).json({ error: 'Failed to revoke invitation' });
+    }
+  });
+
+  // Public invitation routes - the token itself is the credential
+  const loadActiveInvitation = async (token: string) => {
+    const record = await storage.getInvitationByToken(token);
+    if (!record || record.invitation.status !== 'pending' || record.loginToken.used) {
+      return { error: 'This invitation is no longer valid' };
+    }
+    if (new Date() > record.loginToken.expiresAt) {
+      return { error: 'This invitation has expired. Ask your administrator to resend it.' };
+    }
+    return { record };
+  };
+
+  app.get('/api/invitations/:token', async (req, res) => {
+    try {
+      const { record, error } = await loadActiveInvitation(req.params.token);
+      if (!record) {
+        return res.status(410).json({ error });
+      }
+
+      const organization = await storage.getOrganization(record.invitation.organizationId);
+      const existingUser = await storage.getUserByEmail(record.invitation.email);
+
+      res.json({
+        email: record.invitation.email,
+        name: record.invitation.name,
+        role: record.invitation.role,
+        organizationName: organization?.name,
+        expiresAt: record.invitation.expiresAt,
+        existingAccount: !!existingUser,
+        passwordRequirements: describePasswordPolicy(organization?.passwordPolicy ?? DEFAULT_PASSWORD_POLICY),
+      });
+    } catch (error) {
+      console.error('Error loading invitation:', error);
+      res.status(500).json({ error: 'Failed to load invitation' });
+    }
+  });
+
+  app.post('/api/invitations/:token/accept', async (req, res) => {
+    try {
+      const { record, error } = await loadActiveInvitation(req.params.token);
+      if (!record) {
+        return res.status(410).json({ error });
+      }
+
+      const parsed = invitationAcceptSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || 'Password is required' });
+      }
+
+      const { invitation } = record;
+      const context = AuditLogger.extractContext(req);
+      let user = await storage.getUserByEmail(invitation.email);
+
+      if (user) {
+        // Existing accounts prove ownership with their current password, throttled like a login
+        const check = await verifyAccountPassword(user, parsed.data.password, req, '/api/invitations/accept');
+        if (check.lockout) {
+          res.set('Retry-After', String(check.retryAfterSeconds || 60));
+          return res.status(429).json({ error: check.error, retryAfterSeconds: check.retryAfterSeconds });
+        }
+        if (!check.success) {
+          return res.status(401).json({ error: check.error });
+        }
+      } else {
+        // New accounts choose their own password under the inviting organization's policy
+        const organization = await storage.getOrganization(invitation.organizationId);
+        const passwordCheck = await checkNewPassword(parsed.data.password, organization?.passwordPolicy ?? DEFAULT_PASSWORD_POLICY);
+        if (!passwordCheck.valid) {
+          return res.status(400).json({ error: formatPasswordErrors(passwordCheck.errors), passwordErrors: passwordCheck.errors });
+        }
+        
+        user = await storage.createUser({
+          email: invitation.email,
+          name: parsed.data.name || invitation.name,
+          password: await hashPassword(parsed.data.password),
+          currentOrganizationId: invitation.organizationId,
+        });
+        await AuditLogger.logUserAccess('CREATE_USER', user.id, {
+          ...context,
+          organizationId: invitation.organizationId,
+        }, { email: user.email, source: 'invitation', invitationId: invitation.id });
       }
 
+      await storage.addOrganizationMember({
+        userId: user.id,
+        organizationId: invitation.organizationId,
+        role: invitation.role,
+        isActive: true,
+      });
+
+      if (!user.currentOrganizationId) {
+        await storage.switchUserOrganization(user.id, invitation.organizationId);
+      }
+
+      await storage.markTokenAsUsed(record.loginToken.token);
+      await storage.updateInvitation(invitation.id, { status: 'accepted', acceptedAt: new Date() });
+
+      await AuditLogger.log({
+        action: 'INVITATION_ACCEPTED',
+        resourceType: 'organization_invitation',
+        resourceId: invitation.id,
+        details: { email: invitation.email, role: invitation.role },
+        context: { ...context, userId: user.id, organizationId: invitation.organizationId },
+      });
+
+      // The invitee signs in normally afterwards so MFA and lockout rules still apply
+      res.json({ message: 'Invitation accepted. You can now sign in.' });
+    } catch (error) {
+      console.error('Error accepting invitation:', error);
+      res.status(500).json({ error: 'Failed to accept invitation' });
+    }
+  });
+
+  // Change a member's role. Ownership only moves through the transfer route below.
+  app.patch('/api/organization/members/:userId/role', requirePermission('member:manage'), async (req, res) => {
+    try {
+      const sessionUserId = (req.session as any).userId;
+      const { organizationId, role: actorRole } = (req as any).membership as MembershipContext;
+
+      const parsed = memberRoleUpdateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'A valid role is required' });
+      }
+      const newRole = parsed.data.role;
+
       const targetUserId = parseInt(req.params.userId);
+      if (targetUserId === sessionUserId) {
+        return res.status(400).json({ error: 'You cannot change your own role' });
+      }
+
+      const membership = await storage.getOrganizationMembership(targetUserId, organizationId);
+      if (!membership || !membership.isActive) {
+        return res.status(404).json({ error: 'User not found in organization' });
+      }
+      if (membership.role === 'owner') {
+        return res.status(400).json({ error: 'Transfer ownership to change the owner\'s role' });
+      }
+
+      // Admins manage everyone below them; only the owner grants or revokes admin
+      if (actorRole !== 'owner' && (membership.role === 'admin' || newRole === 'admin')) {
+        return res.status(403).json({ error: 'Only the organization owner can grant or revoke the admin role' });
+      }
+
+      if (membership.role === newRole) {
+        return res.json({ message: 'Role unchanged' });
+      }
+
+      await storage.updateMemberRole(targetUserId, organizationId, newRole);
+
       const targetUser = await storage.getUser(targetUserId);
-      
-      if (!targetUser || targetUser.currentOrganizationId !== user.currentOrganizationId) {
+      await AuditLogger.log({
+        action: 'MEMBER_ROLE_CHANGED',
+        resourceType: 'organization_membership',
+        resourceId: membership.id,
+        details: { targetUserId, email: targetUser?.email, previousRole: membership.role, newRole },
+        context: AuditLogger.extractContext(req),
+      });
+
+      res.json({ message: 'Role updated' });
+    } catch (error) {
+      console.error('Error updating member role:', error);
+      res.status(500).json({ error: 'Failed to update member role' });
+    }
+  });
+
+  // Hand the organization to another active member; the previous owner becomes an admin
+  app.post('/api/organization/transfer-ownership', requirePermission('organization:transfer'), async (req, res) => {
+    try {
+      const sessionUserId = (req.session as any).userId;
+      const { organizationId } = (req as any).membership as MembershipContext;
+
+      const parsed = ownershipTransferSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'A new owner and your password are required' });
+      }
+      const { userId: targetUserId, password } = parsed.data;
+
+      if (targetUserId === sessionUserId) {
+        return res.status(400).json({ error: 'You already own this organization' });
+      }
+
+      const owner = await storage.getUser(sessionUserId);
+      if (!owner || !(await bcrypt.compare(password, owner.password))) {
+        return res.status(400).json({ error: 'Password is incorrect' });
+      }
+
+      const membership = await storage.getOrganizationMembership(targetUserId, organizationId);
+      if (!membership || !membership.isActive) {
         return res.status(404).json({ error: 'User not found in organization' });
       }
 
-      // Get target user's role
-      const targetUserOrg = await storage.getUserCurrentOrganization(targetUserId);
+      await storage.transferOrganizationOwnership(organizationId, sessionUserId, targetUserId);
+
+      const targetUser = await storage.getUser(targetUserId);
+      await AuditLogger.log({
+        action: 'OWNERSHIP_TRANSFERRED',
+        resourceType: 'organization',
+        resourceId: organizationId,
+        details: {
+          previousOwnerId: sessionUserId,
+          newOwnerId: targetUserId,
+          newOwnerEmail: targetUser?.email,
+          newOwnerPreviousRole: membership.role,
+        },
+        context: AuditLogger.extractContext(req),
+      });
+
+      res.json({ message: `Ownership transferred to ${targetUser?.name || targetUser?.email}` });
+    } catch (error) {
+      console.error('Error transferring ownership:', error);
+      res.status(500).json({ error: 'Failed to transfer ownership' });
+    }
+  });
+
+  // Deactivate a membership. The record is kept so the member can be reactivated later.
+  app.delete('/api/organization/members/:userId', requirePermission('member:manage'), async (req, res) => {
+    try {
+      const sessionUserId = (req.session as any).userId;
+      const { organizationId, role: actorRole } = (req as any).membership as MembershipContext;
+
+      const targetUserId = parseInt(req.params.userId);
+      if (targetUserId === sessionUserId) {
+        return res.status(400).json({ error: 'You cannot deactivate your own membership' });
+      }
+
+      const membership = await storage.getOrganizationMembership(targetUserId, organizationId);
+      if (!membership || !membership.isActive) {
+        return res.status(404).json({ error: 'User not found in organization' });
+      }
 
       // Can't remove the owner
-      if (targetUserOrg?.role === 'owner') {
+      if (membership.role === 'owner') {
         return res.status(400).json({ error: 'Cannot remove organization owner' });
       }
+      if (membership.role === 'admin' && actorRole !== 'owner') {
+        return res.status(403).json({ error: 'Only the organization owner can deactivate an admin' });
+      }
+
+      await storage.removeUserFromOrganization(targetUserId, organizationId);
+      // Open sessions and the member's API keys would otherwise keep working after they leave
+      const revokedSessions = await destroyUserSessions(targetUserId);
+      const revokedApiKeys = await storage.revokeUserApiKeys(targetUserId, organizationId);
+
+      const targetUser = await storage.getUser(targetUserId);
+      await AuditLogger.log({
+        action: 'MEMBER_DEACTIVATED',
+        resourceType: 'organization_membership',
+        resourceId: membership.id,
+        details: { targetUserId, email: targetUser?.email, role: membership.role, revokedSessions, revokedApiKeys: revokedApiKeys.map(apiKey => apiKey.keyPrefix) },
+        context: AuditLogger.extractContext(req),
+      });
 
-      await storage.removeUserFromOrganization(targetUserId, user.currentOrganizationId);
       res.json({ message: 'User removed from organization' });
     } catch (error) {
       console.error('Error removing user:', error);
@@ -975,13 +1848,306 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.post('/api/organization/members/:userId/reactivate', requirePermission('member:manage'), async (req, res) => {
+    try {
+      const { organizationId, role: actorRole } = (req as any).membership as MembershipContext;
+
+      const targetUserId = parseInt(req.params.userId);
+      const membership = await storage.getOrganizationMembership(targetUserId, organizationId);
+      if (!membership || membership.isActive) {
+        return res.status(404).json({ error: 'Deactivated member not found' });
+      }
+      if (membership.role === 'admin' && actorRole !== 'owner') {
+        return res.status(403).json({ error: 'Only the organization owner can reactivate an admin' });
+      }
+
+      await storage.reactivateOrganizationMember(targetUserId, organizationId);
+
+      const targetUser = await storage.getUser(targetUserId);
+      await AuditLogger.log({
+        action: 'MEMBER_REACTIVATED',
+        resourceType: 'organization_membership',
+        resourceId: membership.id,
+        details: { targetUserId, email: targetUser?.email, role: membership.role },
+        context: AuditLogger.extractContext(req),
+      });
+
+      res.json({ message: 'Membership reactivated' });
+    } catch (error) {
+      console.error('Error reactivating member:', error);
+      res.status(500).json({ error: 'Failed to reactivate member' });
+    }
+  });
+
+  // Sign a member out of every device, e.g. when a laptop is lost
+  app.post('/api/organization/members/:userId/sign-out', requirePermission('member:manage'), async (req, res) => {
+    try {
+      const sessionUserId = (req.session as any).userId;
+      const { organizationId, role: actorRole } = (req as any).membership as MembershipContext;
+
+      const targetUserId = parseInt(req.params.userId);
+      if (targetUserId === sessionUserId) {
+        return res.status(400).json({ error: 'Use your account settings to sign out your own sessions' });
+      }
+
+      const membership = await storage.getOrganizationMembership(targetUserId, organizationId);
+      if (!membership) {
+        return res.status(404).json({ error: 'User not found in organization' });
+      }
+      if (membership.role === 'owner') {
+        return res.status(400).json({ error: 'Cannot sign out the organization owner' });
+      }
+      if (membership.role === 'admin' && actorRole !== 'owner') {
+        return res.status(403).json({ error: 'Only the organization owner can sign out an admin' });
+      }
+
+      const revokedSessions = await destroyUserSessions(targetUserId);
+
+      const targetUser = await storage.getUser(targetUserId);
+      await AuditLogger.log({
+        action: 'FORCED_LOGOUT',
+        resourceType: 'organization_membership',
+        resourceId: membership.id,
+        details: { targetUserId, email: targetUser?.email, revokedSessions },
+        context: AuditLogger.extractContext(req),
+      });
+
+      res.json({ message: `Signed out of ${revokedSessions} session${revokedSessions === 1 ? '' : 's'}`, revokedSessions });
+    } catch (error) {
+      console.error('Error forcing logout:', error);
+      res.status(500).json({ error: 'Failed to sign out member' });
+    }
+  });
+
+  // Clear a brute-force lockout so the member can sign in again
+  app.post('/api/organization/members/:userId/unlock', requirePermission('member:manage'), async (req, res) => {
+    const sessionUserId = (req.session as any).userId;
+    if (!sessionUserId) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+    
+    try {
+      const user = await storage.getUser(sessionUserId);
+      if (!user || !user.currentOrganizationId) {
+        return res.status(400).json({ error: 'User not associated with an organization' });
+      }
+
+      const targetUserId = parseInt(req.params.userId);
+      const members = await storage.getOrganizationMembers(user.currentOrganizationId);
+      const targetUser = members.find(member => member.id === targetUserId);
+      if (!targetUser) {
+        return res.status(404).json({ error: 'User not found in organization' });
+      }
+
+      await storage.resetFailedLogins(targetUserId);
+      
+      await AuditLogger.logAuthentication('ACCOUNT_UNLOCKED', AuditLogger.extractContext(req), {
+        targetUserId,
+        email: targetUser.email,
+        previousFailedAttempts: targetUser.failedLoginAttempts,
+        wasLockedUntil: targetUser.lockedUntil,
+      });
+      
+      res.json({ message: 'Account unlocked' });
+    } catch (error) {
+      console.error('Error unlocking user:', error);
+      res.status(500).json({ error: 'Failed to unlock user' });
+    }
+  });
+
+  // OIDC single sign-on settings. The client secret is write-only.
+  app.get('/api/organization/sso', requirePermission('organization:update'), async (req, res) => {
+    try {
+      const { organizationId } = (req as any).membership as MembershipContext;
+      const config = await storage.getOrganizationSsoConfig(organizationId);
+      if (!config) {
+        return res.json(null);
+      }
+
+      res.json(serializeSsoConfig(config));
+    } catch (error) {
+      console.error('Error fetching SSO settings:', error);
+      res.status(500).json({ error: 'Failed to fetch SSO settings' });
+    }
+  });
+
+  app.put('/api/organization/sso', requirePermission('organization:update'), async (req, res) => {
+    try {
+      const { organizationId } = (req as any).membership as MembershipContext;
+
+      const parsed = ssoConfigSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || 'Invalid SSO settings' });
+      }
+      const { issuer, clientId, clientSecret, emailDomains, defaultRole, enabled } = parsed.data;
+
+      // A domain can only route to one organization's identity provider
+      for (const domain of emailDomains) {
+        const owner = await storage.getSsoConfigByEmailDomain(domain);
+        if (owner && owner.organizationId !== organizationId) {
+          return res.status(409).json({ error: `${domain} is already used for single sign-on by another organization` });
+        }
+      }
+
+      // New domains start unverified and are not used for sign-in until their TXT record is checked
+      const previous = await storage.getOrganizationSsoConfig(organizationId);
+      const config = await storage.upsertOrganizationSsoConfig({
+        organizationId,
+        issuer: issuer.replace(/\/$/, ''),
+        clientId,
+        clientSecret: clientSecret || previous?.clientSecret || null,
+        emailDomains: Array.from(new Set(emailDomains)),
+        verifiedDomains: (previous?.verifiedDomains ?? []).filter((domain) => emailDomains.includes(domain)),
+        defaultRole,
+        enabled,
+      });
+      clearSsoDiscoveryCache(config.id);
+
+      await AuditLogger.log({
+        action: 'SSO_CONFIG_UPDATED',
+        resourceType: 'organization',
+        resourceId: organizationId,
+        details: {
+          issuer: config.issuer,
+          clientId,
+          emailDomains: config.emailDomains,
+          defaultRole,
+          enabled,
+          clientSecretChanged: !!clientSecret,
+        },
+        context: AuditLogger.extractContext(req),
+      });
+
+      res.json(serializeSsoConfig(config));
+    } catch (error) {
+      console.error('Error updating SSO settings:', error);
+      res.status(500).json({ error: 'Failed to update SSO settings' });
+    }
+  });
+
+  // Prove ownership of an SSO email domain through the TXT record shown in the settings
+  app.post('/api/organization/sso/domains/:domain/verify', requirePermission('organization:update'), async (req, res) => {
+    try {
+      const { organizationId } = (req as any).membership as MembershipContext;
+      const domain = req.params.domain.toLowerCase();
+
+      const config = await storage.getOrganizationSsoConfig(organizationId);
+      if (!config || !config.emailDomains.includes(domain)) {
+        return res.status(404).json({ error: 'Domain is not part of the single sign-on settings' });
+      }
+
+      const owner = await storage.getSsoConfigByEmailDomain(domain);
+      if (owner && owner.organizationId !== organizationId) {
+        return res.status(409).json({ error: `${domain} is already used for single sign-on by another organization` });
+      }
+
+      if (!await isSsoDomainVerified(config, domain)) {
+        return res.status(400).json({ error: `The verification TXT record for ${domain} was not found` });
+      }
+
+      const updated = config.verifiedDomains.includes(domain)
+        ? config
+        : await storage.setVerifiedSsoDomains(organizationId, [...config.verifiedDomains, domain]);
+
+      await AuditLogger.log({
+        action: 'SSO_DOMAIN_VERIFIED',
+        resourceType: 'organization',
+        resourceId: organizationId,
+        details: { domain },
+        context: AuditLogger.extractContext(req),
+      });
+
+      res.json(serializeSsoConfig(updated!));
+    } catch (error) {
+      console.error('Error verifying SSO domain:', error);
+      res.status(500).json({ error: 'Failed to verify SSO domain' });
+    }
+  });
+
+  // Organization API keys for integration scripts (sent in the X-API-Key header)
+  app.get('/api/organization/api-keys', requirePermission('api_key:manage'), async (req, res) => {
+    try {
+      const { organizationId } = (req as any).membership as MembershipContext;
+      const keys = await storage.getOrganizationApiKeys(organizationId);
+      res.json(keys.map(serializeApiKey));
+    } catch (error) {
+      console.error('Error fetching API keys:', error);
+      res.status(500).json({ error: 'Failed to fetch API keys' });
+    }
+  });
+
+  app.post('/api/organization/api-keys', requirePermission('api_key:manage'), async (req, res) => {
+    try {
+      const { organizationId, role, userId } = (req as any).membership as MembershipContext;
+
+      const parsed = apiKeyCreateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'A name and at least one valid scope are required' });
+      }
+      const { name, scopes, expiresInDays } = parsed.data;
+
+      // A key can never do more than the admin who created it
+      if (!scopes.every(scope => hasPermission(role, scope))) {
+        return res.status(403).json({ error: 'You cannot grant scopes you do not have' });
+      }
+
+      const { key, keyPrefix, keyHash } = generateApiKey();
+      const apiKey = await storage.createApiKey({
+        organizationId,
+        name,
+        keyPrefix,
+        keyHash,
+        scopes,
+        createdBy: userId,
+        expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000) : null,
+      });
+
+      await AuditLogger.log({
+        action: 'API_KEY_CREATED',
+        resourceType: 'api_key',
+        resourceId: apiKey.id,
+        details: { name, keyPrefix, scopes, expiresAt: apiKey.expiresAt },
+        context: AuditLogger.extractContext(req),
+      });
+
+      // The plaintext key is only ever returned here
+      res.json({ apiKey: serializeApiKey(apiKey), key });
+    } catch (error) {
+      console.error('Error creating API key:', error);
+      res.status(500).json({ error: 'Failed to create API key' });
+    }
+  });
+
+  app.delete('/api/organization/api-keys/:id', requirePermission('api_key:manage'), async (req, res) => {
+    try {
+      const { organizationId } = (req as any).membership as MembershipContext;
+      const apiKey = await storage.revokeApiKey(parseInt(req.params.id), organizationId);
+      if (!apiKey) {
+        return res.status(404).json({ error: 'API key not found' });
+      }
+
+      await AuditLogger.log({
+        action: 'API_KEY_REVOKED',
+        resourceType: 'api_key',
+        resourceId: apiKey.id,
+        details: { name: apiKey.name, keyPrefix: apiKey.keyPrefix },
+        context: AuditLogger.extractContext(req),
+      });
+
+      res.json({ message: 'API key revoked' });
+    } catch (error) {
+      console.error('Error revoking API key:', error);
+      res.status(500).json({ error: 'Failed to revoke API key' });
+    }
+  });
+
   // Store debug requests in memory for retrieval (moved to top)
   let debugRequests: any[] = [];
 
   // WEBHOOK ROUTES FIRST - these must be registered before any catch-all routes
   
-  // Debug endpoint to accept any POST request and log everything
-  app.post("/webhook/agents/debug", (req, res) => {
+  // Debug endpoint to accept any POST request and log everything (admins only; echoes headers and payloads)
+  app.post("/webhook/agents/debug", requirePermission('automation:manage'), (req, res) => {
     const requestId = Date.now();
     const debugData = {
       requestId,
@@ -1023,15 +2189,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Endpoint to retrieve debug requests
-  app.get("/webhook/agents/debug-logs", (req, res) => {
+  app.get("/webhook/agents/debug-logs", requirePermission('automation:manage'), (req, res) => {
     res.json({
       totalRequests: debugRequests.length,
       requests: debugRequests
     });
   });
 
-  // Production agent webhook endpoint
-  app.post("/webhook/agents", async (req, res) => {
+  // Production agent webhook endpoint (HMAC-signed by AIGENTS)
+  app.post("/webhook/agents", verifyWebhookSignature('aigents'), async (req, res) => {
     try {
       const payload = req.body || {};
       
@@ -1118,7 +2284,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         if (denialAppealLetter && denialAppealLetter.trim()) {
           try {
             // Update patient record with appeal letter
-            await storage.updatePatientDenialAppealLetter(automationLog.patientId, denialAppealLetter.trim());
+            await storage.updatePatientDenialAppealLetter(automationLog.patientId, denialAppealLetter.trim(), automationLog.id);
             
             // Save appeal letter as a document
             const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5);
@@ -1162,8 +2328,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Configure session (duplicate - removing)
   // Session is already configured above with secure settings
 
-  // Configure multer for multipart form data
-  const upload = multer();
+  // Configure multer for multipart form data. Uploads are PDFs, images or plain-text letters; anything
+  // else is refused before it is stored or served back.
+  const upload = multer({
+    fileFilter: (req, file, cb) => {
+      if (UPLOAD_CONTENT_TYPES.includes(file.mimetype)) {
+        return cb(null, true);
+      }
+      cb(Object.assign(new Error(`Unsupported file type: ${file.mimetype}`), { status: 415 }));
+    },
+  });
+  // The email webhook only reads the form fields, so attachments are dropped unread
+  const emailWebhookUpload = multer({ fileFilter: (req, file, cb) => cb(null, false) });
 
 
   // Health check
@@ -1211,14 +2387,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Valid email required" });
       }
       
-      const baseUrl = `${req.protocol}://${req.get('host')}`;
+      const baseUrl = getPublicBaseUrl();
       const result = await sendMagicLink(email, baseUrl);
       
+      // The link only goes to the mailbox; returning it here would let anyone sign in as any address
       if (result.success) {
-        res.json({ 
-          message: "Magic link created successfully",
-          magicLink: result.magicLink 
-        });
+        res.json({ message: "Login link sent" });
       } else {
         res.status(500).json({ error: "Failed to create magic link" });
       }
@@ -1239,141 +2413,357 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const result = await verifyLoginToken(token);
       
       if (result.success && result.user) {
+        // Magic links replace typing the password, not the lockout, the second factor or the password's expiry
+        if (isUserLocked(result.user)) {
+          await AuditLogger.logAuthentication('LOGIN_FAILED', {
+            ...AuditLogger.extractContext(req),
+            userId: result.user.id,
+            organizationId: result.user.currentOrganizationId || undefined,
+          }, { email: result.user.email, method: 'magic_link', reason: 'account_locked' });
+          return res.redirect("/login?error=" + encodeURIComponent("Account temporarily locked due to repeated failed logins. Try again later or contact your organization administrator."));
+        }
+
+        const passwordExpired = isPasswordExpired(result.user, await storage.getUserPasswordPolicy(result.user.id));
+        const mfaRequired = result.user.mfaEnabled || await storage.isMfaRequiredForUser(result.user.id);
+        if (mfaRequired) {
+          (req.session as any).pendingMfa = {
+            userId: result.user.id,
+            enrollmentRequired: !result.user.mfaEnabled,
+            passwordExpired,
+            expiresAt: Date.now() + MFA_PENDING_TTL_MS,
+            attempts: 0,
+          };
+          return res.redirect("/login?mfa=" + (result.user.mfaEnabled ? "challenge" : "enroll"));
+        }
+
+        if (passwordExpired) {
+          (req.session as any).pendingPasswordChange = {
+            userId: result.user.id,
+            mfaVerified: false,
+            expiresAt: Date.now() + MFA_PENDING_TTL_MS,
+          };
+          return res.redirect("/login?password=expired");
+        }
+        
         // Set session
         (req.session as any).userId = result.user.id;
+        recordSessionMetadata(req);
         res.redirect("/");
       } else {
         res.redirect("/login?error=" + encodeURIComponent(result.error || "Login failed"));
       }
     } catch (error) {
-      console.error("Token verification error:", error);
-      res.redirect("/login?error=verification_failed");
+      console.error("Token verification error:", error);
+      res.redirect("/login?error=verification_failed");
+    }
+  });
+
+  app.get("/api/auth/user", (req, res) => {
+    const userId = (req.session as any)?.userId;
+    if (!userId) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    
+    storage.getUser(userId)
+      .then(user => {
+        if (user) {
+          res.json(user);
+        } else {
+          res.status(404).json({ error: "User not found" });
+        }
+      })
+      .catch(error => {
+        console.error("Get user error:", error);
+        res.status(500).json({ error: "Internal server error" });
+      });
+  });
+
+  app.post("/api/auth/logout", (req, res) => {
+    req.session.destroy((err) => {
+      if (err) {
+        console.error("Logout error:", err);
+        return res.status(500).json({ error: "Logout failed" });
+      }
+      res.json({ message: "Logged out successfully" });
+    });
+  });
+
+  // Walk the organization's audit hash chain and report the first broken link
+  app.post('/api/audit-logs/verify', requirePermission('audit:read'), async (req, res) => {
+    try {
+      const membership = (req as any).membership as MembershipContext;
+      const result = await verifyAuditChain(membership.organizationId);
+
+      await AuditLogger.log({
+        action: 'AUDIT_CHAIN_VERIFIED',
+        resourceType: 'audit_log',
+        details: {
+          valid: result.valid,
+          entriesChecked: result.entriesChecked,
+          brokenLink: result.brokenLink,
+        },
+        context: AuditLogger.extractContext(req),
+      });
+
+      res.json({ ...result, publicKey: getAuditSigningPublicKey().publicKey });
+    } catch (error) {
+      console.error('Error verifying audit chain:', error);
+      res.status(500).json({ error: 'Failed to verify audit log integrity' });
+    }
+  });
+
+  // Audit Logs API - requires audit:read (owners and admins). Only the caller's organization is searched.
+  app.get('/api/audit-logs', requirePermission('audit:read'), async (req, res) => {
+    try {
+      const membership = (req as any).membership as MembershipContext;
+
+      const filters = auditLogFilterSchema.safeParse(req.query);
+      const paging = auditLogQuerySchema.safeParse(req.query);
+      if (!filters.success || !paging.success) {
+        const issue = (filters.success ? undefined : filters.error.errors[0]) ?? (paging.success ? undefined : paging.error.errors[0]);
+        return res.status(400).json({ error: issue?.message || 'Invalid audit log filters' });
+      }
+
+      const { page, limit } = paging.data;
+      const { entries, total } = await storage.searchAuditLogs(membership.organizationId, filters.data, {
+        limit,
+        offset: (page - 1) * limit,
+      });
+
+      await AuditLogger.log({
+        action: 'VIEW_AUDIT_LOGS',
+        resourceType: 'audit_log',
+        details: {
+          filters: filters.data,
+          page,
+          resultCount: entries.length,
+        },
+        context: AuditLogger.extractContext(req),
+      });
+
+      res.json({ logs: entries, total, page, limit });
+    } catch (error) {
+      console.error('Error fetching audit logs:', error);
+      res.status(500).json({ error: 'Failed to fetch audit logs' });
+    }
+  });
+
+  // Actions, resource types and users that appear in the organization's audit log
+  app.get('/api/audit-logs/filters', requirePermission('audit:read'), async (req, res) => {
+    try {
+      const membership = (req as any).membership as MembershipContext;
+      res.json(await storage.getAuditLogFilterOptions(membership.organizationId));
+    } catch (error) {
+      console.error('Error fetching audit log filters:', error);
+      res.status(500).json({ error: 'Failed to fetch audit log filters' });
+    }
+  });
+
+  // Download every entry matching the filters as CSV or JSON
+  app.get('/api/audit-logs/export', requirePermission('audit:read'), async (req, res) => {
+    try {
+      const membership = (req as any).membership as MembershipContext;
+
+      const filters = auditLogFilterSchema.safeParse(req.query);
+      const options = auditLogExportSchema.safeParse(req.query);
+      if (!filters.success || !options.success) {
+        const issue = (filters.success ? undefined : filters.error.errors[0]) ?? (options.success ? undefined : options.error.errors[0]);
+        return res.status(400).json({ error: issue?.message || 'Invalid audit log filters' });
+      }
+
+      const { entries, total } = await storage.searchAuditLogs(membership.organizationId, filters.data, {
+        limit: AUDIT_LOG_EXPORT_MAX_ROWS,
+        offset: 0,
+      });
+      if (total > AUDIT_LOG_EXPORT_MAX_ROWS) {
+        return res.status(400).json({
+          error: `${total.toLocaleString()} entries match these filters. Narrow them to at most ${AUDIT_LOG_EXPORT_MAX_ROWS.toLocaleString()} to export.`,
+        });
+      }
+
+      const { format } = options.data;
+      await AuditLogger.log({
+        action: 'EXPORT_AUDIT_LOGS',
+        resourceType: 'audit_log',
+        details: {
+          format,
+          filters: filters.data,
+          exportedCount: entries.length,
+        },
+        context: AuditLogger.extractContext(req),
+      });
+
+      const filename = `audit_logs_${new Date().toISOString().split('T')[0]}.${format}`;
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      if (format === 'json') {
+        res.setHeader('Content-Type', 'application/json');
+        res.send(JSON.stringify(entries, null, 2));
+      } else {
+        res.setHeader('Content-Type', 'text/csv');
+        res.send(formatAuditLogsCsv(entries));
+      }
+    } catch (error) {
+      console.error('Error exporting audit logs:', error);
+      res.status(500).json({ error: 'Failed to export audit logs' });
+    }
+  });
+
+  // Suspicious activity raised by the hourly anomaly scan (server/audit-anomalies.ts), newest first
+  app.get('/api/audit-alerts', requirePermission('audit:read'), async (req, res) => {
+    try {
+      const membership = (req as any).membership as MembershipContext;
+
+      const query = auditAlertQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ error: query.error.errors[0]?.message || 'Invalid alert query' });
+      }
+
+      const { status, limit } = query.data;
+      res.json(await storage.getAuditAlerts(membership.organizationId, { openOnly: status === 'open', limit }));
+    } catch (error) {
+      console.error('Error fetching audit alerts:', error);
+      res.status(500).json({ error: 'Failed to fetch audit alerts' });
+    }
+  });
+
+  app.post('/api/audit-alerts/:id/acknowledge', requirePermission('audit:read'), async (req, res) => {
+    try {
+      const membership = (req as any).membership as MembershipContext;
+      const alertId = parseInt(req.params.id);
+
+      const alert = await storage.acknowledgeAuditAlert(alertId, membership.organizationId, membership.userId);
+      if (!alert) {
+        return res.status(404).json({ error: 'Alert not found or already acknowledged' });
+      }
+
+      await AuditLogger.log({
+        action: 'AUDIT_ALERT_ACKNOWLEDGED',
+        resourceType: 'audit_alert',
+        resourceId: alert.id,
+        details: { type: alert.type, summary: alert.summary },
+        context: AuditLogger.extractContext(req),
+      });
+
+      res.json(alert);
+    } catch (error) {
+      console.error('Error acknowledging audit alert:', error);
+      res.status(500).json({ error: 'Failed to acknowledge audit alert' });
     }
   });
 
-  app.get("/api/auth/user", (req, res) => {
-    const userId = (req.session as any)?.userId;
-    if (!userId) {
-      return res.status(401).json({ error: "Not authenticated" });
+  // Legal holds exempt matching audit entries from the retention purge until released
+  app.get('/api/legal-holds', requirePermission('audit:read'), async (req, res) => {
+    try {
+      const membership = (req as any).membership as MembershipContext;
+      res.json(await storage.getLegalHolds(membership.organizationId));
+    } catch (error) {
+      console.error('Error fetching legal holds:', error);
+      res.status(500).json({ error: 'Failed to fetch legal holds' });
     }
-    
-    storage.getUser(userId)
-      .then(user => {
-        if (user) {
-          res.json(user);
-        } else {
-          res.status(404).json({ error: "User not found" });
-        }
-      })
-      .catch(error => {
-        console.error("Get user error:", error);
-        res.status(500).json({ error: "Internal server error" });
-      });
   });
 
-  app.post("/api/auth/logout", (req, res) => {
-    req.session.destroy((err) => {
-      if (err) {
-        console.error("Logout error:", err);
-        return res.status(500).json({ error: "Logout failed" });
+  app.post('/api/legal-holds', requirePermission('audit:hold'), async (req, res) => {
+    try {
+      const membership = (req as any).membership as MembershipContext;
+
+      const parsed = legalHoldSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || 'Invalid legal hold' });
       }
-      res.json({ message: "Logged out successfully" });
-    });
+
+      const { scope, subjectId, reason } = parsed.data;
+      if (scope === 'patient' && !(await storage.getPatient(subjectId!, membership.organizationId))) {
+        return res.status(404).json({ error: 'Patient not found' });
+      }
+      if (scope === 'user' && !(await storage.getOrganizationMembership(subjectId!, membership.organizationId))) {
+        return res.status(404).json({ error: 'User is not a member of this organization' });
+      }
+
+      const hold = await storage.createLegalHold({
+        organizationId: membership.organizationId,
+        scope,
+        subjectId: subjectId ?? null,
+        reason,
+        createdBy: membership.userId,
+      });
+
+      await AuditLogger.log({
+        action: 'LEGAL_HOLD_PLACED',
+        resourceType: 'legal_hold',
+        resourceId: hold.id,
+        details: { scope, subjectId, reason },
+        context: AuditLogger.extractContext(req),
+      });
+
+      res.status(201).json(hold);
+    } catch (error) {
+      console.error('Error placing legal hold:', error);
+      res.status(500).json({ error: 'Failed to place legal hold' });
+    }
   });
 
-  // Audit Logs API - Admin only
-  app.get('/api/audit-logs', requireAuth, async (req, res) => {
+  app.post('/api/legal-holds/:id/release', requirePermission('audit:hold'), async (req, res) => {
     try {
-      const user = await getUserFromSession(req);
-      if (!user) {
-        return res.status(401).json({ error: 'Authentication required' });
-      }
+      const membership = (req as any).membership as MembershipContext;
 
-      // Check if user is admin (you may need to adjust this based on your role system)
-      const currentOrg = await storage.getUserCurrentOrganization(user.id);
-      if (!currentOrg || (currentOrg.role !== 'admin' && currentOrg.role !== 'owner')) {
-        return res.status(403).json({ error: 'Admin privileges required' });
+      const hold = await storage.releaseLegalHold(parseInt(req.params.id), membership.organizationId, membership.userId);
+      if (!hold) {
+        return res.status(404).json({ error: 'Legal hold not found or already released' });
       }
 
-      // Log the audit log access
-      const context = AuditLogger.extractContext(req);
       await AuditLogger.log({
-        action: 'VIEW_AUDIT_LOGS',
-        context: {
-          ...context,
-          userId: user.id,
-          organizationId: user.currentOrganizationId,
-        },
-        details: {
-          adminUser: user.email,
-        },
+        action: 'LEGAL_HOLD_RELEASED',
+        resourceType: 'legal_hold',
+        resourceId: hold.id,
+        details: { scope: hold.scope, subjectId: hold.subjectId },
+        context: AuditLogger.extractContext(req),
       });
 
-      // Fetch audit logs with pagination
-      const page = parseInt(req.query.page as string) || 1;
-      const limit = parseInt(req.query.limit as string) || 100;
-      const offset = (page - 1) * limit;
-
-      const logs = await db
-        .select({
-          id: auditLogs.id,
-          userId: auditLogs.userId,
-          organizationId: auditLogs.organizationId,
-          action: auditLogs.action,
-          resourceType: auditLogs.resourceType,
-          resourceId: auditLogs.resourceId,
-          details: auditLogs.details,
-          ipAddress: auditLogs.ipAddress,
-          userAgent: auditLogs.userAgent,
-          sessionId: auditLogs.sessionId,
-          timestamp: auditLogs.timestamp,
-        })
-        .from(auditLogs)
-        .orderBy(desc(auditLogs.timestamp))
-        .limit(limit)
-        .offset(offset);
+      res.json(hold);
+    } catch (error) {
+      console.error('Error releasing legal hold:', error);
+      res.status(500).json({ error: 'Failed to release legal hold' });
+    }
+  });
 
-      // Enhance with user and organization names
-      const enhancedLogs = await Promise.all(logs.map(async (log) => {
-        let userName = null;
-        let organizationName = null;
+  // Files the retention purge wrote before deleting expired entries, newest first
+  app.get('/api/audit-archives', requirePermission('audit:read'), async (req, res) => {
+    try {
+      const membership = (req as any).membership as MembershipContext;
+      res.json(await storage.getAuditArchives(membership.organizationId, 100));
+    } catch (error) {
+      console.error('Error fetching audit archives:', error);
+      res.status(500).json({ error: 'Failed to fetch audit archives' });
+    }
+  });
 
-        if (log.userId) {
-          try {
-            const logUser = await storage.getUser(log.userId);
-            userName = logUser?.name || logUser?.email;
-          } catch (error) {
-            // User may have been deleted
-            userName = `User ID: ${log.userId}`;
-          }
-        }
+  app.post('/api/audit-archives/:id/verify', requirePermission('audit:read'), async (req, res) => {
+    try {
+      const membership = (req as any).membership as MembershipContext;
 
-        if (log.organizationId) {
-          try {
-            const org = await storage.getOrganization(log.organizationId);
-            organizationName = org?.name;
-          } catch (error) {
-            // Organization may have been deleted
-            organizationName = `Org ID: ${log.organizationId}`;
-          }
-        }
+      const archive = await storage.getAuditArchive(parseInt(req.params.id), membership.organizationId);
+      if (!archive) {
+        return res.status(404).json({ error: 'Archive not found' });
+      }
 
-        return {
-          ...log,
-          userName,
-          organizationName,
-        };
-      }));
+      const result = await verifyAuditArchive(archive);
+      await AuditLogger.log({
+        action: 'AUDIT_ARCHIVE_VERIFIED',
+        resourceType: 'audit_archive',
+        resourceId: archive.id,
+        details: { valid: result.valid, entriesChecked: result.entriesChecked, problem: result.problem },
+        context: AuditLogger.extractContext(req),
+      });
 
-      res.json(enhancedLogs);
+      res.json(result);
     } catch (error) {
-      console.error('Error fetching audit logs:', error);
-      res.status(500).json({ error: 'Failed to fetch audit logs' });
+      console.error('Error verifying audit archive:', error);
+      res.status(500).json({ error: 'Failed to verify audit archive' });
     }
   });
 
   // Automation logs endpoints
-  app.post("/api/automation-logs", async (req, res) => {
+  app.post("/api/automation-logs", requirePermission('automation:run'), async (req, res) => {
     const requestId = Date.now();
     console.log(`\n=== AUTOMATION TRIGGER API LOGGED ===`);
     console.log(`[API-LOGS-CREATE-${requestId}] Timestamp: ${new Date().toISOString()}`);
@@ -1410,7 +2800,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     console.log(`[API-LOGS-CREATE-${requestId}] === END CREATE LOG ===`);
   });
 
-  app.get("/api/automation-logs", async (req, res) => {
+  app.get("/api/automation-logs", requirePermission('automation:read'), async (req, res) => {
     const requestId = Date.now();
     console.log(`[API-LOGS-GET-${requestId}] === FETCHING AUTOMATION LOGS ===`);
     console.log(`[API-LOGS-GET-${requestId}] Query params:`, req.query);
@@ -1460,7 +2850,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     console.log(`[API-LOGS-GET-${requestId}] === END FETCH LOGS ===`);
   });
 
-  app.delete("/api/automation-logs", async (req, res) => {
+  app.delete("/api/automation-logs", requirePermission('automation:manage'), async (req, res) => {
     try {
       await storage.clearAutomationLogs();
       res.json({ success: true });
@@ -1470,7 +2860,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Custom chains endpoints
-  app.post("/api/custom-chains", async (req, res) => {
+  app.post("/api/custom-chains", requirePermission('automation:manage'), async (req, res) => {
     const requestId = Date.now();
     console.log(`[CUSTOM-CHAIN-CREATE-${requestId}] === CREATING CUSTOM CHAIN ===`);
     console.log(`[CUSTOM-CHAIN-CREATE-${requestId}] Request body:`, JSON.stringify(req.body, null, 2));
@@ -1496,7 +2886,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     console.log(`[CUSTOM-CHAIN-CREATE-${requestId}] === END CREATE CHAIN ===`);
   });
 
-  app.get("/api/custom-chains", async (req, res) => {
+  app.get("/api/custom-chains", requirePermission('automation:read'), async (req, res) => {
     try {
       const chains = await storage.getCustomChains();
       res.json(chains);
@@ -1505,7 +2895,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/custom-chains/:id", async (req, res) => {
+  app.delete("/api/custom-chains/:id", requirePermission('automation:manage'), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       await storage.deleteCustomChain(id);
@@ -1519,13 +2909,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/email-webhook", (req, res) => {
     res.json({ 
       status: "Webhook endpoint is active", 
-      url: `${req.protocol}://${req.get('host')}/api/email-webhook`,
+      url: `${getPublicBaseUrl()}/api/email-webhook`,
       timestamp: new Date().toISOString()
     });
   });
 
-  // Email webhook endpoint for SendGrid Inbound Parse
-  app.post("/api/email-webhook", upload.any(), async (req, res) => {
+  // Email webhook endpoint for SendGrid Inbound Parse (HMAC-signed by the forwarding relay)
+  app.post("/api/email-webhook", captureMultipartRawBody, emailWebhookUpload.any(), verifyWebhookSignature('email'), async (req, res) => {
     try {
       // Log all incoming data for debugging
       console.log("Received email webhook data:", JSON.stringify(req.body, null, 2));
@@ -1635,7 +3025,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // API Analytics endpoints
-  app.get("/api/analytics/summary", async (req, res) => {
+  app.get("/api/analytics/summary", requirePermission('analytics:read'), async (req, res) => {
     try {
       const timeRange = req.query.timeRange as string || '24h';
       const summary = await storage.getAnalyticsSummary(timeRange);
@@ -1645,7 +3035,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/analytics/endpoints", async (req, res) => {
+  app.get("/api/analytics/endpoints", requirePermission('analytics:read'), async (req, res) => {
     try {
       const timeRange = req.query.timeRange as string || '24h';
       const endpointStats = await storage.getEndpointStats(timeRange);
@@ -1655,7 +3045,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/analytics/response-times", async (req, res) => {
+  app.get("/api/analytics/response-times", requirePermission('analytics:read'), async (req, res) => {
     try {
       const timeRange = req.query.timeRange as string || '24h';
       const responseTimeStats = await storage.getResponseTimeStats(timeRange);
@@ -1665,7 +3055,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/analytics/errors", async (req, res) => {
+  app.get("/api/analytics/errors", requirePermission('analytics:read'), async (req, res) => {
     try {
       const timeRange = req.query.timeRange as string || '24h';
       const errorStats = await storage.getErrorRateStats(timeRange);
@@ -1675,7 +3065,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/analytics/raw", async (req, res) => {
+  app.get("/api/analytics/raw", requirePermission('analytics:read'), async (req, res) => {
     try {
       const timeRange = req.query.timeRange as string || '24h';
       const analytics = await storage.getApiAnalytics(timeRange);
@@ -1686,7 +3076,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Photo text extraction endpoint - Basic patient data
-  app.post("/api/extract-patient-data", upload.single('photo'), async (req, res) => {
+  app.post("/api/extract-patient-data", requirePermission('extraction:run'), llmRateLimit, upload.single('photo'), async (req, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ error: "No photo file uploaded" });
@@ -1719,7 +3109,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Patient creation from pasted text
-  app.post('/api/patients/create-from-text', async (req, res) => {
+  app.post('/api/patients/create-from-text', requirePermission('patient:create'), llmRateLimit, async (req, res) => {
     const userId = (req.session as any).userId;
     if (!userId) {
       return res.status(401).json({ message: 'Authentication required' });
@@ -1838,8 +3228,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         status: 'Pending Auth'
       };
 
+      // Validate patient data, which also normalizes the extracted date of birth
+      const validatedPatient = insertPatientSchema.parse(patientData);
+
       // Create the patient
-      const newPatient = await storage.createPatient(patientData, user.id, user.currentOrganizationId);
+      const newPatient = await storage.createPatient(validatedPatient, user.id, user.currentOrganizationId);
       
       console.log("Patient created from pasted text:", {
         textLength: textContent.length,
@@ -1879,7 +3272,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Patient creation from uploaded forms (LEQVIO PDFs, screenshots, etc.)
-  app.post("/api/patients/create-from-upload", upload.single('photo'), async (req, res) => {
+  app.post("/api/patients/create-from-upload", requirePermission('patient:create'), llmRateLimit, upload.single('photo'), async (req, res) => {
     const userId = (req.session as any).userId;
     if (!userId) {
       return res.status(401).json({ message: 'Authentication required' });
@@ -2089,7 +3482,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Patient info extraction from medical system screenshots (updated - no longer creates patients, just extracts)
-  app.post("/api/extract-patient-info", upload.single('photo'), async (req, res) => {
+  app.post("/api/extract-patient-info", requirePermission('extraction:run'), llmRateLimit, upload.single('photo'), async (req, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ error: "No screenshot uploaded" });
@@ -2267,7 +3660,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Insurance card comprehensive extraction endpoint with CardScan.ai integration
-  app.post("/api/extract-insurance-card", upload.single('photo'), async (req, res) => {
+  app.post("/api/extract-insurance-card", requirePermission('extraction:run'), llmRateLimit, upload.single('photo'), async (req, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ error: "No insurance card image uploaded" });
@@ -2315,17 +3708,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Patient Management Routes
   
   // Create a new patient
-  app.post('/api/patients', async (req, res) => {
-    const userId = (req.session as any).userId;
-    if (!userId) {
-      return res.status(401).json({ message: 'Authentication required' });
-    }
-    
+  app.post('/api/patients', requirePermission('patient:create', { allowApiKey: true }), async (req, res) => {
     try {
-      const user = await storage.getUser(userId);
-      if (!user) {
-        return res.status(401).json({ message: 'Authentication required' });
-      }
+      const { organizationId, userId } = (req as any).membership as MembershipContext;
 
       const patientData = req.body;
       const { signatureData, providerSignatureData, recipientEmail, ...patientInfo } = patientData;
@@ -2333,12 +3718,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Validate patient data
       const validatedPatient = insertPatientSchema.parse(patientInfo);
       
-      // Create patient with user ID
-      if (!user.currentOrganizationId) {
-        return res.status(400).json({ error: 'User not associated with an organization' });
-      }
-      
-      const newPatient = await storage.createPatient(validatedPatient, user.id, user.currentOrganizationId);
+      // Create patient with user ID (the key's creator for API key requests)
+      const newPatient = await storage.createPatient(validatedPatient, userId, organizationId);
       
       // If signature data provided, create e-signature form and send PDF
       if (signatureData && providerSignatureData && recipientEmail) {
@@ -2392,6 +3773,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
           });
           
           await storage.updateESignatureFormEmailStatus(formRecord.id, recipientEmail);
+          await AuditLogger.logDisclosure(newPatient.id, { ...AuditLogger.extractContext(req), organizationId }, {
+            recipient: recipientEmail,
+            purpose: 'LEQVIO enrollment form (email)',
+            eSignatureFormId: formRecord.id,
+          });
         } catch (emailError: any) {
           console.error('Failed to send email:', emailError);
           console.error('SendGrid error details:', emailError?.response?.body?.errors || 'No additional error details');
@@ -2409,24 +3795,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get user's patients
-  app.get('/api/patients', auditPatientAccess, async (req, res) => {
-    const userId = (req.session as any).userId;
-    if (!userId) {
-      return res.status(401).json({ message: 'Authentication required' });
-    }
-    
+  app.get('/api/patients', requirePermission('patient:read', { allowApiKey: true }), auditPatientAccess, async (req, res) => {
     try {
-      const user = await storage.getUser(userId);
-      if (!user) {
-        return res.status(401).json({ message: 'Authentication required' });
-      }
-
-      if (!user.currentOrganizationId) {
-        return res.status(400).json({ error: 'User not associated with an organization' });
-      }
-
-      const patients = await storage.getOrganizationPatients(user.currentOrganizationId);
-      res.json(patients);
+      const membership = (req as any).membership as MembershipContext;
+      const { organizationId } = membership;
+
+      // Exact-match lookup on an encrypted identifier, e.g. /api/patients?mrn=12345
+      const identifierField = (['mrn', 'primaryInsuranceNumber', 'leqvioPatientId'] as const).find(field => typeof req.query[field] === 'string');
+      const patients = identifierField
+        ? await storage.findPatientsByIdentifier(identifierField, req.query[identifierField] as string, organizationId)
+        : await storage.getOrganizationPatients(organizationId);
+
+      // Each patient's pinned or latest user note, for list views; redacted along with the rest of a restricted record
+      const previews = await storage.getPatientNotePreviews(organizationId);
+      const withPreviews = patients.map(patient => ({ ...patient, notesPreview: previews.get(patient.id) ?? null }));
+      res.json(await redactInaccessiblePatients(withPreviews, membership));
     } catch (error) {
       console.error('Error fetching patients:', error);
       res.status(500).json({ error: 'Failed to fetch patients' });
@@ -2506,75 +3889,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   };
 
-  // Migrate existing notes to organized format
-  app.post('/api/migrate-notes', async (req, res) => {
-    try {
-      const patients = await storage.getAllPatients();
-      let migratedCount = 0;
-      
-      for (const patient of patients) {
-        if (patient.notes && !patient.notes.includes('=== NOTES ===') && !patient.notes.includes('=== VOICEMAILS ===')) {
-          // Organize existing notes
-          const existingNotes = patient.notes;
-          const lines = existingNotes.split('\n');
-          
-          let notesSection = '';
-          let voicemailsSection = '';
-          let insuranceSection = '';
-          
-          for (const line of lines) {
-            if (line.trim()) {
-              if (line.includes('Voicemail left for patient')) {
-                voicemailsSection += (voicemailsSection ? '\n' : '') + line;
-              } else if (line.includes('Updated:') && (line.includes('Insurance') || line.includes('auth') || line.includes('primary') || line.includes('secondary'))) {
-                insuranceSection += (insuranceSection ? '\n' : '') + line;
-              } else {
-                notesSection += (notesSection ? '\n' : '') + line;
-              }
-            }
-          }
-          
-          // Rebuild organized notes
-          let organizedNotes = '';
-          if (notesSection) {
-            organizedNotes += `=== NOTES ===\n${notesSection}`;
-          }
-          if (voicemailsSection) {
-            organizedNotes += (organizedNotes ? '\n\n' : '') + `=== VOICEMAILS ===\n${voicemailsSection}`;
-          }
-          if (insuranceSection) {
-            organizedNotes += (organizedNotes ? '\n\n' : '') + `=== INSURANCE & AUTH UPDATES ===\n${insuranceSection}`;
-          }
-          
-          if (organizedNotes) {
-            // Note: This migration route needs to be updated to handle user authentication
-            // For now, skip updating if we can't determine the user
-            console.log('Skipping notes migration for patient', patient.id, 'due to authentication requirements');
-            migratedCount++;
-          }
-        }
-      }
-      
-      res.json({ message: `Migrated ${migratedCount} patient notes to organized format` });
-    } catch (error) {
-      console.error('Error migrating notes:', error);
-      res.status(500).json({ error: 'Failed to migrate notes' });
-    }
-  });
-
   // Export patients as CSV (MUST be before /:id route)
-  app.get('/api/patients/export/csv', requireAuth, async (req, res) => {
+  app.get('/api/patients/export/csv', requirePermission('patient:export', { allowApiKey: true }), async (req, res) => {
     try {
-      const user = await getUserFromSession(req);
-      if (!user) {
-        return res.status(401).json({ error: 'Authentication required' });
-      }
-
-      if (!user.currentOrganizationId) {
-        return res.status(400).json({ error: 'User not associated with an organization' });
-      }
+      const membership = (req as any).membership as MembershipContext;
+      const { organizationId } = membership;
       
-      const patients = await storage.getOrganizationPatients(user.currentOrganizationId);
+      // Restricted patients the caller cannot open are left out of exports entirely
+      const accessibleRestricted = await getAccessibleRestrictedPatientIds(membership);
+      const patients = (await storage.getOrganizationPatients(organizationId))
+        .filter(patient => !patient.isRestricted || accessibleRestricted.has(patient.id));
       
       // Get automation logs for all patients to include AI analysis
       const patientsWithAnalysis = await Promise.all(
@@ -2665,6 +3989,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }).join(','))
         .join('\n');
       
+      // Recorded with its size so large off-hours exports can be flagged by the anomaly scan
+      await AuditLogger.log({
+        action: 'EXPORT_PATIENTS',
+        resourceType: 'patient',
+        details: {
+          format: 'csv',
+          exportedCount: patients.length,
+        },
+        context: { ...AuditLogger.extractContext(req), organizationId },
+      });
+      
       // Set headers for CSV download
       res.setHeader('Content-Type', 'text/csv');
       res.setHeader('Content-Disposition', `attachment; filename="patients_with_leqvio_analysis_${new Date().toISOString().split('T')[0]}.csv"`);
@@ -2677,20 +4012,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get specific patient
-  app.get('/api/patients/:id', auditPatientAccess, async (req, res) => {
+  app.get('/api/patients/:id', requirePermission('patient:read', { allowApiKey: true }), requirePatientAccess, auditPatientAccess, async (req, res) => {
     try {
-      const userId = (req.session as any).userId;
-      if (!userId) {
-        return res.status(401).json({ error: 'Authentication required' });
-      }
-
-      const user = await storage.getUser(userId);
-      if (!user || !user.currentOrganizationId) {
-        return res.status(400).json({ error: 'User not associated with an organization' });
-      }
+      const { organizationId } = (req as any).membership as MembershipContext;
       
       const patientId = parseInt(req.params.id);
-      const patient = await storage.getPatient(patientId, user.currentOrganizationId);
+      const patient = await storage.getPatient(patientId, organizationId);
       
       if (!patient) {
         return res.status(404).json({ error: 'Patient not found' });
@@ -2703,122 +4030,219 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Update patient
-  app.patch('/api/patients/:id', requireAuth, auditPatientAccess, async (req, res) => {
+  // Break the glass: time-limited access to a restricted patient for someone not on its access list
+  app.post('/api/patients/:id/break-glass', requirePermission('patient:read'), async (req, res) => {
     try {
-      const user = await getUserFromSession(req);
-      if (!user) {
-        return res.status(401).json({ error: 'Authentication required' });
-      }
-
+      const membership = (req as any).membership as MembershipContext;
       const patientId = parseInt(req.params.id);
-      const updates = req.body;
-      
-      if (!user.currentOrganizationId) {
-        return res.status(400).json({ error: 'User not associated with an organization' });
+
+      const parsed = breakGlassSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || 'A justification is required' });
       }
-      
-      // Get current patient data to check for voicemail logging and auth changes
-      const currentPatient = await storage.getPatient(patientId, user.currentOrganizationId);
-      if (!currentPatient) {
+
+      const patient = await storage.getPatient(patientId, membership.organizationId);
+      if (!patient) {
         return res.status(404).json({ error: 'Patient not found' });
       }
+      if (!patient.isRestricted) {
+        return res.status(400).json({ error: 'This patient record is not restricted' });
+      }
+      if (await canAccessPatient(patient, membership)) {
+        return res.status(400).json({ error: 'You already have access to this patient record' });
+      }
 
-      // Track authorization changes for automatic note logging (removed - already handled below)
-      
-      // Handle timestamp fields that might come as ISO strings
-      if (updates.lastVoicemailAt && typeof updates.lastVoicemailAt === 'string') {
-        updates.lastVoicemailAt = new Date(updates.lastVoicemailAt);
+      const access = await storage.createBreakGlassAccess({
+        patientId,
+        userId: membership.userId,
+        organizationId: membership.organizationId,
+        justification: parsed.data.justification,
+        expiresAt: new Date(Date.now() + BREAK_GLASS_DURATION_MS),
+      });
+
+      await AuditLogger.log({
+        action: 'BREAK_GLASS',
+        resourceType: 'patient',
+        resourceId: patientId,
+        details: { justification: access.justification, expiresAt: access.expiresAt.toISOString() },
+        context: { ...AuditLogger.extractContext(req), organizationId: membership.organizationId },
+      });
+
+      const user = await storage.getUser(membership.userId);
+      if (user) {
+        notifyAdminsOfBreakGlass(access, user, getPublicBaseUrl()).catch(error => {
+          console.error('Error sending break-glass notifications:', error);
+        });
+      }
+
+      res.json({ message: 'Access granted', expiresAt: access.expiresAt });
+    } catch (error) {
+      console.error('Error breaking the glass:', error);
+      res.status(500).json({ error: 'Failed to grant access' });
+    }
+  });
+
+  // Restriction settings for a patient: access list and break-glass history
+  app.get('/api/patients/:id/restriction', requirePermission('patient:restrict'), requirePatientAccess, async (req, res) => {
+    try {
+      const { organizationId } = (req as any).membership as MembershipContext;
+      const patientId = parseInt(req.params.id);
+
+      const patient = await storage.getPatient(patientId, organizationId);
+      const grants = await storage.getPatientAccessGrants(patientId);
+      const breakGlassAccesses = await storage.getPatientBreakGlassAccesses(patientId);
+
+      res.json({
+        isRestricted: !!patient?.isRestricted,
+        allowedUserIds: grants.map(grant => grant.userId),
+        breakGlassAccesses,
+      });
+    } catch (error) {
+      console.error('Error fetching patient restriction:', error);
+      res.status(500).json({ error: 'Failed to fetch patient restriction' });
+    }
+  });
+
+  app.put('/api/patients/:id/restriction', requirePermission('patient:restrict'), requirePatientAccess, async (req, res) => {
+    try {
+      const { organizationId, userId } = (req as any).membership as MembershipContext;
+      const patientId = parseInt(req.params.id);
+
+      const parsed = patientRestrictionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid restriction settings' });
+      }
+      const { isRestricted } = parsed.data;
+
+      // Only active members can be granted access; the member restricting the record always keeps it
+      const members = await storage.getOrganizationMembers(organizationId);
+      const memberIds = new Set(members.map(member => member.id));
+      if (!parsed.data.allowedUserIds.every(id => memberIds.has(id))) {
+        return res.status(400).json({ error: 'Access can only be granted to active members of this organization' });
       }
-      if (updates.createdAt && typeof updates.createdAt === 'string') {
-        updates.createdAt = new Date(updates.createdAt);
+      const allowedUserIds = isRestricted ? Array.from(new Set([...parsed.data.allowedUserIds, userId])) : [];
+
+      await storage.setPatientRestriction(patientId, isRestricted, allowedUserIds, userId);
+
+      await AuditLogger.log({
+        action: 'PATIENT_RESTRICTION_CHANGED',
+        resourceType: 'patient',
+        resourceId: patientId,
+        details: { isRestricted, allowedUserIds },
+        context: { ...AuditLogger.extractContext(req), organizationId },
+      });
+
+      res.json({ isRestricted, allowedUserIds });
+    } catch (error) {
+      console.error('Error updating patient restriction:', error);
+      res.status(500).json({ error: 'Failed to update patient restriction' });
+    }
+  });
+
+  // Accounting of disclosures: who opened, changed or sent on this patient's record (JSON, or a signed PDF)
+  const getDisclosureReport = async (req: any, res: any) => {
+    const { organizationId, userId } = req.membership as MembershipContext;
+
+    const parsed = disclosureReportQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      res.status(400).json({ error: parsed.error.errors[0]?.message || 'Invalid report period' });
+      return null;
+    }
+
+    const patientId = parseInt(req.params.id);
+    const patient = await storage.getPatient(patientId, organizationId);
+    if (!patient) {
+      res.status(404).json({ error: 'Patient not found' });
+      return null;
+    }
+
+    const user = await storage.getUser(userId);
+    const generatedBy = user?.name ? `${user.name} (${user.email})` : user?.email ?? `User ID: ${userId}`;
+    return buildDisclosureReport(patient, generatedBy, parsed.data);
+  };
+
+  app.get('/api/patients/:id/disclosures', requirePermission('audit:read'), requirePatientAccess, async (req, res) => {
+    try {
+      const report = await getDisclosureReport(req, res);
+      if (!report) return;
+
+      await AuditLogger.log({
+        action: 'VIEW_DISCLOSURE_REPORT',
+        resourceType: 'patient',
+        resourceId: report.patient.id,
+        details: { from: report.from, to: report.to, entries: report.entries.length },
+        context: AuditLogger.extractContext(req),
+      });
+
+      res.json(report);
+    } catch (error) {
+      console.error('Error building disclosure report:', error);
+      res.status(500).json({ error: 'Failed to build accounting of disclosures' });
+    }
+  });
+
+  app.get('/api/patients/:id/disclosures/pdf', requirePermission('audit:read'), requirePatientAccess, async (req, res) => {
+    try {
+      const report = await getDisclosureReport(req, res);
+      if (!report) return;
+
+      const organization = await storage.getOrganization(report.organizationId);
+      const pdfBuffer = await generateDisclosureReportPDF(report, organization?.name ?? '');
+
+      await AuditLogger.log({
+        action: 'EXPORT_DISCLOSURE_REPORT',
+        resourceType: 'patient',
+        resourceId: report.patient.id,
+        details: { from: report.from, to: report.to, entries: report.entries.length, digest: report.signature.digest },
+        context: AuditLogger.extractContext(req),
+      });
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="accounting_of_disclosures_${report.patient.id}_${report.generatedAt.split('T')[0]}.pdf"`);
+      res.setHeader('Cache-Control', 'private, no-store');
+      res.send(pdfBuffer);
+    } catch (error) {
+      console.error('Error exporting disclosure report:', error);
+      res.status(500).json({ error: 'Failed to export accounting of disclosures' });
+    }
+  });
+
+  // Update patient
+  app.patch('/api/patients/:id', requirePermission('patient:update', { allowApiKey: true }), requirePatientAccess, auditPatientAccess, async (req, res) => {
+    try {
+      const membership = (req as any).membership as MembershipContext;
+      const { organizationId, userId } = membership;
+
+      const patientId = parseInt(req.params.id);
+
+      // Only editable fields are kept: restriction, ownership and blind indexes have their own paths, and notes are
+      // written through /api/patients/:id/notes (older clients still send the legacy blob). Dates are stored as
+      // YYYY-MM-DD (date of birth as MM/DD/YYYY); either format is accepted and converted.
+      const parsed = patientUpdateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || 'Invalid patient data' });
       }
-      if (updates.updatedAt && typeof updates.updatedAt === 'string') {
-        updates.updatedAt = new Date(updates.updatedAt);
+      const updates: Record<string, any> = parsed.data;
+      
+      // Get current patient data to check for voicemail logging and auth changes
+      const currentPatient = await storage.getPatient(patientId, organizationId);
+      if (!currentPatient) {
+        return res.status(404).json({ error: 'Patient not found' });
       }
-      
-      // Helper function to organize notes into sections
-      const organizeNotes = (existingNotes: string, newEntry: string, section: 'USER_NOTES' | 'VOICEMAILS' | 'INSURANCE_UPDATES'): string => {
-        const sections = {
-          USER_NOTES: '=== USER NOTES ===',
-          VOICEMAILS: '=== VOICEMAILS ===',
-          INSURANCE_UPDATES: '=== INSURANCE & AUTH UPDATES ==='
-        };
-        
-        if (!existingNotes) {
-          return `${sections[section]}\n${newEntry}`;
-        }
-        
-        // Parse existing notes to find sections
-        let userNotesSection = '';
-        let voicemailsSection = '';
-        let insuranceSection = '';
-        
-        const lines = existingNotes.split('\n');
-        let currentSection = 'USER_NOTES'; // Default section for legacy notes
-        
-        for (const line of lines) {
-          if (line === sections.USER_NOTES || line === '=== NOTES ===') { // Handle legacy NOTES section
-            currentSection = 'USER_NOTES';
-            continue;
-          } else if (line === sections.VOICEMAILS) {
-            currentSection = 'VOICEMAILS';
-            continue;
-          } else if (line === sections.INSURANCE_UPDATES) {
-            currentSection = 'INSURANCE_UPDATES';
-            continue;
-          }
-          
-          if (line.trim()) {
-            if (currentSection === 'USER_NOTES') {
-              userNotesSection += (userNotesSection ? '\n' : '') + line;
-            } else if (currentSection === 'VOICEMAILS') {
-              voicemailsSection += (voicemailsSection ? '\n' : '') + line;
-            } else if (currentSection === 'INSURANCE_UPDATES') {
-              insuranceSection += (insuranceSection ? '\n' : '') + line;
-            }
-          }
-        }
-        
-        // Add new entry to appropriate section
-        if (section === 'USER_NOTES') {
-          userNotesSection += (userNotesSection ? '\n' : '') + newEntry;
-        } else if (section === 'VOICEMAILS') {
-          voicemailsSection += (voicemailsSection ? '\n' : '') + newEntry;
-        } else if (section === 'INSURANCE_UPDATES') {
-          insuranceSection += (insuranceSection ? '\n' : '') + newEntry;
-        }
-        
-        // Rebuild notes with sections
-        let result = '';
-        if (userNotesSection) {
-          result += `${sections.USER_NOTES}\n${userNotesSection}`;
-        }
-        if (voicemailsSection) {
-          result += (result ? '\n\n' : '') + `${sections.VOICEMAILS}\n${voicemailsSection}`;
-        }
-        if (insuranceSection) {
-          result += (result ? '\n\n' : '') + `${sections.INSURANCE_UPDATES}\n${insuranceSection}`;
-        }
-        
-        return result;
-      };
 
-      // Check if voicemail is being logged and add to notes
+      const notes: Array<{ category: 'voicemail' | 'insurance'; body: string }> = [];
+
+      // A new voicemail (different timestamp, or the first one) is logged as a note
       if (updates.lastVoicemailAt) {
-        // Check if this is a new voicemail (different timestamp) or first voicemail
         const isNewVoicemail = !currentPatient.lastVoicemailAt || 
           new Date(updates.lastVoicemailAt).getTime() !== new Date(currentPatient.lastVoicemailAt).getTime();
         
         if (isNewVoicemail) {
-          const timestamp = new Date().toLocaleString();
-          const voicemailNote = `[${timestamp}] Voicemail left for patient`;
-          const existingNotes = currentPatient.notes || '';
-          updates.notes = organizeNotes(existingNotes, voicemailNote, 'VOICEMAILS');
+          notes.push({ category: 'voicemail', body: 'Voicemail left for patient' });
         }
       }
 
-      // Check for insurance and authorization changes and log to notes
+      // Check for insurance and authorization changes and log them as a note
       const insuranceFields = [
         'primaryInsurance', 'primaryPlan', 'primaryInsuranceNumber', 'primaryGroupId',
         'secondaryInsurance', 'secondaryPlan', 'secondaryInsuranceNumber', 'secondaryGroupId',
@@ -2828,10 +4252,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const authFieldsToTrack = ['authNumber', 'refNumber', 'startDate', 'endDate', 'authStatus'];
       
       const changeNotes: string[] = [];
-      const changeTimestamp = new Date().toLocaleString();
-      
-      // Check insurance field changes
-      insuranceFields.forEach(field => {
+      [...insuranceFields, ...authFieldsToTrack].forEach(field => {
         if (updates[field] !== undefined && updates[field] !== (currentPatient as any)[field]) {
           const oldValue = (currentPatient as any)[field] || '(empty)';
           const newValue = updates[field] || '(empty)';
@@ -2839,27 +4260,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       });
       
-      // Check authorization field changes
-      authFieldsToTrack.forEach(field => {
-        if (updates[field] !== undefined && updates[field] !== (currentPatient as any)[field]) {
-          const oldValue = (currentPatient as any)[field] || '(empty)';
-          const newValue = updates[field] || '(empty)';
-          changeNotes.push(`${field}: ${oldValue} → ${newValue}`);
-        }
-      });
-      
-      // Add change notes if any were found
       if (changeNotes.length > 0) {
-        const changeNote = `[${changeTimestamp}] Updated: ${changeNotes.join(', ')}`;
-        const existingNotes = updates.notes !== undefined ? updates.notes : (currentPatient.notes || '');
-        updates.notes = organizeNotes(existingNotes, changeNote, 'INSURANCE_UPDATES');
+        notes.push({ category: 'insurance', body: `Updated: ${changeNotes.join(', ')}` });
       }
       
-      const updatedPatient = await storage.updatePatient(patientId, updates, user.currentOrganizationId);
+      const updatedPatient = await storage.updatePatient(patientId, updates, organizationId, patientChangeSource(membership));
       
       if (!updatedPatient) {
         return res.status(404).json({ error: 'Patient not found' });
       }
+      updateAuditContext(req, { details: { changes: diffPatient(currentPatient, updatedPatient) } });
+
+      for (const note of notes) {
+        await storage.createPatientNote({ ...note, patientId, organizationId, authorId: userId });
+      }
 
       // Check authorization status for all patients if auth-related fields (NOT authStatus) were updated
       // If authStatus was manually changed, respect that change and don't override it
@@ -2870,7 +4284,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       if (authDataFieldsUpdated && !manualAuthStatusChange) {
         // Only run automatic check if auth data changed but status wasn't manually set
-        await checkAuthorizationStatus(patientId, user.currentOrganizationId);
+        await checkAuthorizationStatus(patientId, organizationId);
       } else if (authDataFieldsUpdated && manualAuthStatusChange) {
         // If both auth data AND status were changed, respect the manual status but log it
         console.log(`Patient ${patientId}: Manual auth status change to "${updates.authStatus}" - skipping automatic status calculation`);
@@ -2884,20 +4298,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update patient status
-  app.patch('/api/patients/:id/status', requireAuth, async (req, res) => {
+  app.patch('/api/patients/:id/status', requirePermission('patient:update', { allowApiKey: true }), requirePatientAccess, auditPatientAccess, async (req, res) => {
     try {
-      const user = await getUserFromSession(req);
-      if (!user) {
-        return res.status(401).json({ error: 'Authentication required' });
-      }
+      const membership = (req as any).membership as MembershipContext;
+      const { organizationId } = membership;
 
       const patientId = parseInt(req.params.id);
       const { status } = req.body;
-      const updatedPatient = await storage.updatePatientStatus(patientId, status, user.currentOrganizationId!);
+      const currentPatient = await storage.getPatient(patientId, organizationId);
+      const updatedPatient = currentPatient && await storage.updatePatientStatus(patientId, status, organizationId, patientChangeSource(membership));
       
       if (!updatedPatient) {
         return res.status(404).json({ error: 'Patient not found' });
       }
+      updateAuditContext(req, { details: { changes: diffPatient(currentPatient, updatedPatient) } });
       
       res.json(updatedPatient);
     } catch (error) {
@@ -2906,16 +4320,312 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Delete patient
-  app.delete('/api/patients/:id', requireAuth, auditPatientAccess, async (req, res) => {
+  // Field-level change history, newest first, from the before/after values on UPDATE_PATIENT audit entries
+  app.get('/api/patients/:id/history', requirePermission('patient:read'), requirePatientAccess, auditPatientAccess, async (req, res) => {
     try {
-      const user = await getUserFromSession(req);
-      if (!user) {
-        return res.status(401).json({ error: 'Authentication required' });
+      const { organizationId } = (req as any).membership as MembershipContext;
+      const patientId = parseInt(req.params.id);
+
+      const patient = await storage.getPatient(patientId, organizationId);
+      if (!patient) {
+        return res.status(404).json({ error: 'Patient not found' });
+      }
+
+      const paging = auditLogQuerySchema.safeParse(req.query);
+      if (!paging.success) {
+        return res.status(400).json({ error: paging.error.errors[0]?.message || 'Invalid page' });
+      }
+      const { page, limit } = paging.data;
+
+      const { entries, total } = await storage.searchAuditLogs(organizationId, {
+        action: 'UPDATE_PATIENT',
+        resourceType: 'patient',
+        resourceId: patientId,
+      }, { limit, offset: (page - 1) * limit });
+
+      res.json({
+        history: entries.map(entry => ({
+          id: entry.id,
+          timestamp: entry.timestamp,
+          actor: entry.userName || entry.userEmail || (entry.apiKeyId ? `API key: ${entry.apiKeyName ?? entry.apiKeyId}` : 'System'),
+          // Entries written before diffs were recorded only list the PHI fields sent
+          changes: (entry.details as any)?.changes ?? null,
+          fields: (entry.details as any)?.phiFields ?? [],
+        })),
+        total,
+        page,
+        limit,
+      });
+    } catch (error) {
+      console.error('Error fetching patient history:', error);
+      res.status(500).json({ error: 'Failed to fetch patient history' });
+    }
+  });
+
+  // Every saved version of the record, newest first, with where each change came from
+  app.get('/api/patients/:id/versions', requirePermission('patient:read'), requirePatientAccess, auditPatientAccess, async (req, res) => {
+    try {
+      const { organizationId } = (req as any).membership as MembershipContext;
+      const patientId = parseInt(req.params.id);
+
+      const patient = await storage.getPatient(patientId, organizationId);
+      if (!patient) {
+        return res.status(404).json({ error: 'Patient not found' });
+      }
+
+      res.json(await storage.getPatientVersions(patientId, organizationId));
+    } catch (error) {
+      console.error('Error fetching patient versions:', error);
+      res.status(500).json({ error: 'Failed to fetch patient versions' });
+    }
+  });
+
+  // The record as it stood at a moment in time
+  app.get('/api/patients/:id/versions/as-of', requirePermission('patient:read'), requirePatientAccess, auditPatientAccess, async (req, res) => {
+    try {
+      const { organizationId } = (req as any).membership as MembershipContext;
+      const patientId = parseInt(req.params.id);
+
+      const validation = patientVersionAsOfSchema.safeParse(req.query);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0]?.message || 'Invalid date' });
+      }
+
+      const view = await storage.getPatientVersionAsOf(patientId, organizationId, validation.data.asOf);
+      if (!view) {
+        return res.status(404).json({ error: 'No version of this patient exists at that time' });
+      }
+
+      res.json(view);
+    } catch (error) {
+      console.error('Error fetching patient version:', error);
+      res.status(500).json({ error: 'Failed to fetch patient version' });
+    }
+  });
+
+  app.get('/api/patients/:id/versions/:versionId', requirePermission('patient:read'), requirePatientAccess, auditPatientAccess, async (req, res) => {
+    try {
+      const { organizationId } = (req as any).membership as MembershipContext;
+      const patientId = parseInt(req.params.id);
+
+      const view = await storage.getPatientVersion(parseInt(req.params.versionId), patientId, organizationId);
+      if (!view) {
+        return res.status(404).json({ error: 'Version not found' });
+      }
+
+      res.json(view);
+    } catch (error) {
+      console.error('Error fetching patient version:', error);
+      res.status(500).json({ error: 'Failed to fetch patient version' });
+    }
+  });
+
+  // Put selected fields back to their values at an earlier version. The revert is itself saved as a new version.
+  app.post('/api/patients/:id/versions/:versionId/revert', requirePermission('patient:update'), requirePatientAccess, async (req, res) => {
+    try {
+      const { organizationId, userId } = (req as any).membership as MembershipContext;
+      const patientId = parseInt(req.params.id);
+
+      const validation = patientRevertSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0]?.message || 'Invalid fields' });
+      }
+
+      const currentPatient = await storage.getPatient(patientId, organizationId);
+      if (!currentPatient) {
+        return res.status(404).json({ error: 'Patient not found' });
+      }
+
+      const target = await storage.getPatientVersion(parseInt(req.params.versionId), patientId, organizationId);
+      if (!target) {
+        return res.status(404).json({ error: 'Version not found' });
+      }
+
+      const updates: Record<string, unknown> = {};
+      for (const field of validation.data.fields) {
+        updates[field] = target.patient[field];
+      }
+
+      const updatedPatient = await storage.updatePatient(patientId, updates, organizationId, {
+        type: 'user',
+        userId,
+        revertedFromVersion: target.version.version,
+      });
+      if (!updatedPatient) {
+        return res.status(404).json({ error: 'Patient not found' });
+      }
+
+      await AuditLogger.log({
+        action: 'UPDATE_PATIENT',
+        resourceType: 'patient',
+        resourceId: patientId,
+        details: { changes: diffPatient(currentPatient, updatedPatient), revertedFromVersion: target.version.version },
+        context: AuditLogger.extractContext(req),
+      });
+
+      res.json(updatedPatient);
+    } catch (error) {
+      console.error('Error reverting patient:', error);
+      res.status(500).json({ error: 'Failed to revert patient' });
+    }
+  });
+
+  // Notes feed: pinned notes first, then newest first. Filtering by category is done in the client.
+  app.get('/api/patients/:id/notes', requirePermission('patient:read', { allowApiKey: true }), requirePatientAccess, auditPatientAccess, async (req, res) => {
+    try {
+      const { organizationId } = (req as any).membership as MembershipContext;
+      const patientId = parseInt(req.params.id);
+
+      const patient = await storage.getPatient(patientId, organizationId);
+      if (!patient) {
+        return res.status(404).json({ error: 'Patient not found' });
+      }
+
+      res.json(await storage.getPatientNotes(patientId, organizationId));
+    } catch (error) {
+      console.error('Error fetching patient notes:', error);
+      res.status(500).json({ error: 'Failed to fetch patient notes' });
+    }
+  });
+
+  // Notes added with an API key are system notes; voicemail and insurance notes are only written by the server
+  app.post('/api/patients/:id/notes', requirePermission('patient:update', { allowApiKey: true }), requirePatientAccess, async (req, res) => {
+    try {
+      const { organizationId, userId, apiKeyId } = (req as any).membership as MembershipContext;
+      const patientId = parseInt(req.params.id);
+
+      const validation = patientNoteSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0]?.message || 'Invalid note' });
+      }
+
+      const patient = await storage.getPatient(patientId, organizationId);
+      if (!patient) {
+        return res.status(404).json({ error: 'Patient not found' });
+      }
+
+      const note = await storage.createPatientNote({
+        patientId,
+        organizationId,
+        category: apiKeyId ? 'system' : 'user',
+        body: validation.data.body,
+        authorId: userId,
+      });
+
+      await AuditLogger.log({
+        action: 'CREATE_PATIENT_NOTE',
+        resourceType: 'patient_note',
+        resourceId: note.id,
+        details: { patientId, category: note.category },
+        context: AuditLogger.extractContext(req),
+      });
+
+      res.status(201).json(note);
+    } catch (error) {
+      console.error('Error creating patient note:', error);
+      res.status(500).json({ error: 'Failed to create patient note' });
+    }
+  });
+
+  // Edit a user or system note; the replaced text is kept as a revision
+  app.patch('/api/patients/:id/notes/:noteId', requirePermission('patient:update', { allowApiKey: true }), requirePatientAccess, async (req, res) => {
+    try {
+      const { organizationId, userId } = (req as any).membership as MembershipContext;
+      const patientId = parseInt(req.params.id);
+      const noteId = parseInt(req.params.noteId);
+
+      const validation = patientNoteSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0]?.message || 'Invalid note' });
+      }
+
+      const current = await storage.getPatientNote(noteId, patientId, organizationId);
+      if (!current) {
+        return res.status(404).json({ error: 'Note not found' });
+      }
+      if (current.category === 'voicemail' || current.category === 'insurance') {
+        return res.status(400).json({ error: 'Voicemail and insurance notes are recorded automatically and cannot be edited' });
+      }
+      if (current.body === validation.data.body) {
+        return res.json(current);
+      }
+
+      const note = await storage.updatePatientNoteBody(noteId, patientId, organizationId, validation.data.body, userId);
+      if (!note) {
+        return res.status(404).json({ error: 'Note not found' });
+      }
+
+      await AuditLogger.log({
+        action: 'UPDATE_PATIENT_NOTE',
+        resourceType: 'patient_note',
+        resourceId: note.id,
+        details: { patientId, category: note.category },
+        context: AuditLogger.extractContext(req),
+      });
+
+      res.json(note);
+    } catch (error) {
+      console.error('Error updating patient note:', error);
+      res.status(500).json({ error: 'Failed to update patient note' });
+    }
+  });
+
+  app.put('/api/patients/:id/notes/:noteId/pin', requirePermission('patient:update', { allowApiKey: true }), requirePatientAccess, async (req, res) => {
+    try {
+      const { organizationId } = (req as any).membership as MembershipContext;
+      const patientId = parseInt(req.params.id);
+      const noteId = parseInt(req.params.noteId);
+
+      const validation = patientNotePinSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0]?.message || 'Invalid request' });
+      }
+
+      const note = await storage.setPatientNotePinned(noteId, patientId, organizationId, validation.data.pinned);
+      if (!note) {
+        return res.status(404).json({ error: 'Note not found' });
+      }
+
+      await AuditLogger.log({
+        action: note.pinned ? 'PIN_PATIENT_NOTE' : 'UNPIN_PATIENT_NOTE',
+        resourceType: 'patient_note',
+        resourceId: note.id,
+        details: { patientId },
+        context: AuditLogger.extractContext(req),
+      });
+
+      res.json(note);
+    } catch (error) {
+      console.error('Error pinning patient note:', error);
+      res.status(500).json({ error: 'Failed to update patient note' });
+    }
+  });
+
+  // Earlier versions of an edited note, newest first
+  app.get('/api/patients/:id/notes/:noteId/revisions', requirePermission('patient:read', { allowApiKey: true }), requirePatientAccess, auditPatientAccess, async (req, res) => {
+    try {
+      const { organizationId } = (req as any).membership as MembershipContext;
+      const patientId = parseInt(req.params.id);
+
+      const note = await storage.getPatientNote(parseInt(req.params.noteId), patientId, organizationId);
+      if (!note) {
+        return res.status(404).json({ error: 'Note not found' });
       }
 
+      res.json(await storage.getPatientNoteRevisions(note.id));
+    } catch (error) {
+      console.error('Error fetching note revisions:', error);
+      res.status(500).json({ error: 'Failed to fetch note revisions' });
+    }
+  });
+
+  // Delete patient
+  app.delete('/api/patients/:id', requirePermission('patient:delete', { allowApiKey: true }), requirePatientAccess, auditPatientAccess, async (req, res) => {
+    try {
+      const { organizationId } = (req as any).membership as MembershipContext;
+
       const patientId = parseInt(req.params.id);
-      const deleted = await storage.deletePatient(patientId, user.currentOrganizationId!);
+      const deleted = await storage.deletePatient(patientId, organizationId);
       
       if (!deleted) {
         return res.status(404).json({ error: 'Patient not found or could not be deleted' });
@@ -2929,26 +4639,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get patient documents
-  app.get('/api/patients/:id/documents', auditDocumentAccess, async (req, res) => {
+  app.get('/api/patients/:id/documents', requirePermission('document:read', { allowApiKey: true }), requirePatientAccess, auditDocumentAccess, async (req, res) => {
     try {
-      const userId = (req.session as any).userId;
-      if (!userId) {
-        return res.status(401).json({ error: 'Authentication required' });
-      }
-
-      const user = await storage.getUser(userId);
-      if (!user || !user.currentOrganizationId) {
-        return res.status(400).json({ error: 'User not associated with an organization' });
-      }
+      const { organizationId } = (req as any).membership as MembershipContext;
       
       const patientId = parseInt(req.params.id);
       // Verify patient belongs to organization
-      const patient = await storage.getPatient(patientId, user.currentOrganizationId);
+      const patient = await storage.getPatient(patientId, organizationId);
       if (!patient) {
         return res.status(404).json({ error: 'Patient not found' });
       }
 
       const documents = await storage.getPatientDocuments(patientId);
+      updateAuditContext(req, { details: { documentIds: documents.map(doc => doc.id) } });
       res.json(documents);
     } catch (error) {
       console.error('Error fetching patient documents:', error);
@@ -2957,7 +4660,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get automation logs for a specific patient
-  app.get('/api/patients/:id/automation-logs', async (req, res) => {
+  app.get('/api/patients/:id/automation-logs', requirePermission('automation:read'), requirePatientAccess, async (req, res) => {
     try {
       const userId = (req.session as any).userId;
       if (!userId) {
@@ -2985,21 +4688,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Appointment routes
-  app.get('/api/patients/:id/appointments', async (req, res) => {
+  app.get('/api/patients/:id/appointments', requirePermission('appointment:read', { allowApiKey: true }), requirePatientAccess, async (req, res) => {
     try {
-      const userId = (req.session as any).userId;
-      if (!userId) {
-        return res.status(401).json({ error: 'Authentication required' });
-      }
-
-      const user = await storage.getUser(userId);
-      if (!user || !user.currentOrganizationId) {
-        return res.status(400).json({ error: 'User not associated with an organization' });
-      }
+      const { organizationId } = (req as any).membership as MembershipContext;
       
       const patientId = parseInt(req.params.id);
       // Verify patient belongs to organization
-      const patient = await storage.getPatient(patientId, user.currentOrganizationId);
+      const patient = await storage.getPatient(patientId, organizationId);
       if (!patient) {
         return res.status(404).json({ error: 'Patient not found' });
       }
@@ -3012,32 +4707,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/patients/:id/appointments', requireAuth, async (req, res) => {
+  app.post('/api/patients/:id/appointments', requirePermission('appointment:manage', { allowApiKey: true }), requirePatientAccess, async (req, res) => {
     try {
-      const user = await getUserFromSession(req);
-      if (!user) {
-        return res.status(401).json({ error: 'Authentication required' });
-      }
-
-      if (!user.currentOrganizationId) {
-        return res.status(400).json({ error: 'User not associated with an organization' });
-      }
+      const { organizationId } = (req as any).membership as MembershipContext;
       
       const patientId = parseInt(req.params.id);
       // Verify patient belongs to organization
-      const patient = await storage.getPatient(patientId, user.currentOrganizationId);
+      const patient = await storage.getPatient(patientId, organizationId);
       if (!patient) {
         return res.status(404).json({ error: 'Patient not found' });
       }
 
-      const appointmentData = { ...req.body, patientId };
-      const appointment = await storage.createAppointment(appointmentData);
+      const validation = insertAppointmentSchema.safeParse({ ...req.body, patientId });
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0]?.message || 'Invalid appointment' });
+      }
+      const appointment = await storage.createAppointment(validation.data);
       
       // Check authorization status after creating appointment
-      await checkAuthorizationStatus(patientId, user.currentOrganizationId);
+      await checkAuthorizationStatus(patientId, organizationId);
       
       // Check schedule status after creating appointment
-      await checkScheduleStatus(patientId, user.currentOrganizationId);
+      await checkScheduleStatus(patientId, organizationId);
       
       res.json(appointment);
     } catch (error) {
@@ -3046,30 +4737,38 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch('/api/appointments/:id', async (req, res) => {
+  app.patch('/api/appointments/:id', requirePermission('appointment:manage', { allowApiKey: true }), async (req, res) => {
     try {
+      const membership = (req as any).membership as MembershipContext;
+      const { organizationId } = membership;
       const appointmentId = parseInt(req.params.id);
-      const updatedAppointment = await storage.updateAppointment(appointmentId, req.body);
+
+      // Only touch appointments whose patient belongs to the caller's organization
+      const existing = await storage.getAppointment(appointmentId);
+      const patient = existing && await storage.getPatient(existing.patientId, organizationId);
+      if (!existing || !patient) {
+        return res.status(404).json({ error: 'Appointment not found' });
+      }
+      if (!(await canAccessPatient(patient, membership))) {
+        return res.status(403).json({ error: 'This patient record is restricted', code: 'BREAK_GLASS_REQUIRED', patientId: patient.id });
+      }
+
+      const validation = appointmentUpdateSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0]?.message || 'Invalid appointment' });
+      }
+
+      const updatedAppointment = await storage.updateAppointment(appointmentId, validation.data);
       
       if (updatedAppointment) {
-        // First get patient info to find which organization it belongs to
-        const patients = await storage.getAllPatients();
-        const patient = patients.find(p => p.id === updatedAppointment.patientId);
+        // Check authorization status if appointment date was updated
+        if (req.body.appointmentDate) {
+          await checkAuthorizationStatus(updatedAppointment.patientId, organizationId);
+        }
         
-        if (patient) {
-          // Get the full patient data with organization ID
-          const fullPatient = await storage.getPatient(updatedAppointment.patientId, patient.organizationId!);
-          if (fullPatient) {
-            // Check authorization status if appointment date was updated
-            if (req.body.appointmentDate) {
-              await checkAuthorizationStatus(updatedAppointment.patientId, patient.organizationId!);
-            }
-            
-            // Check schedule status if appointment status was updated
-            if (req.body.status) {
-              await checkScheduleStatus(updatedAppointment.patientId, patient.organizationId!);
-            }
-          }
+        // Check schedule status if appointment status was updated
+        if (req.body.status) {
+          await checkScheduleStatus(updatedAppointment.patientId, organizationId);
         }
       }
       
@@ -3080,9 +4779,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete('/api/appointments/:id', async (req, res) => {
+  app.delete('/api/appointments/:id', requirePermission('appointment:manage', { allowApiKey: true }), async (req, res) => {
     try {
+      const membership = (req as any).membership as MembershipContext;
       const appointmentId = parseInt(req.params.id);
+
+      const existing = await storage.getAppointment(appointmentId);
+      const patient = existing && await storage.getPatient(existing.patientId, membership.organizationId);
+      if (!existing || !patient) {
+        return res.status(404).json({ error: 'Appointment not found' });
+      }
+      if (!(await canAccessPatient(patient, membership))) {
+        return res.status(403).json({ error: 'This patient record is restricted', code: 'BREAK_GLASS_REQUIRED', patientId: patient.id });
+      }
+
       await storage.deleteAppointment(appointmentId);
       res.json({ message: 'Appointment deleted successfully' });
     } catch (error) {
@@ -3092,17 +4802,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Bulk check all patients for schedule status updates
-  app.post('/api/patients/check-schedule-status', async (req, res) => {
+  app.post('/api/patients/check-schedule-status', requirePermission('organization:update'), async (req, res) => {
     try {
-      const patients = await storage.getAllPatients();
+      const { organizationId } = (req as any).membership as MembershipContext;
+
+      const patients = await storage.getOrganizationPatients(organizationId);
       let updatedCount = 0;
 
       for (const patient of patients) {
         const previousStatus = patient.scheduleStatus;
-        await checkScheduleStatus(patient.id, patient.organizationId);
+        await checkScheduleStatus(patient.id, organizationId);
         
         // Check if status was actually updated
-        const updatedPatient = await storage.getPatient(patient.id, patient.organizationId);
+        const updatedPatient = await storage.getPatient(patient.id, organizationId);
         if (updatedPatient && updatedPatient.scheduleStatus !== previousStatus) {
           updatedCount++;
         }
@@ -3120,7 +4832,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Epic insurance text extraction endpoint
-  app.post('/api/extract-epic-insurance-text', requireAuth, async (req, res) => {
+  app.post('/api/extract-epic-insurance-text', requirePermission('extraction:run'), llmRateLimit, async (req, res) => {
     try {
       const { epicText, patientId } = req.body;
       
@@ -3151,22 +4863,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
             // Map LEQVIO Copay Program fields (takes priority regardless of where found)
             if (extractedData.leqvioCopayProgram) updates.leqvioCopayProgram = extractedData.leqvioCopayProgram;
             if (extractedData.leqvioPatientId) updates.leqvioPatientId = extractedData.leqvioPatientId;
-            if (extractedData.leqvioEnrollmentDate) updates.leqvioEnrollmentDate = extractedData.leqvioEnrollmentDate;
+            const enrollmentDate = parseCalendarDate(extractedData.leqvioEnrollmentDate);
+            if (enrollmentDate) updates.leqvioEnrollmentDate = enrollmentDate;
             if (extractedData.leqvioCopayIdNumber) updates.leqvioCopayIdNumber = extractedData.leqvioCopayIdNumber;
             if (extractedData.leqvioGroupNumber) updates.leqvioGroupNumber = extractedData.leqvioGroupNumber;
             if (extractedData.leqvioBin) updates.leqvioBin = extractedData.leqvioBin;
             if (extractedData.leqvioPcn) updates.leqvioPcn = extractedData.leqvioPcn;
             
             if (Object.keys(updates).length > 0) {
-              await storage.updatePatient(parseInt(patientId), updates, user.currentOrganizationId);
+              await storage.updatePatient(parseInt(patientId), updates, user.currentOrganizationId, { type: 'user', userId: user.id });
               console.log('Patient insurance information automatically updated from Epic copy-paste:', updates);
               
               // Log the insurance update in patient notes
-              const changeLog = `Updated: Epic insurance copy-paste data - ${new Date().toLocaleString()}`;
               const changeDetails = Object.entries(updates).map(([key, value]) => `  ${key}: ${value}`).join('\n');
-              const logEntry = `${changeLog}\n${changeDetails}`;
-              
-              await addInsuranceChangeToNotes(parseInt(patientId), logEntry, user.currentOrganizationId);
+              await addInsuranceChangeNote(parseInt(patientId), user.currentOrganizationId, `Updated: Epic insurance copy-paste data\n${changeDetails}`, user.id);
             }
             
             return res.json({ 
@@ -3189,14 +4899,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Delete patient document
-  app.delete('/api/patients/:id/documents/:documentId', auditDocumentAccess, async (req, res) => {
+  app.delete('/api/patients/:id/documents/:documentId', requirePermission('document:delete'), requirePatientAccess, auditDocumentAccess, async (req, res) => {
     try {
+      const { organizationId } = (req as any).membership as MembershipContext;
       const patientId = parseInt(req.params.id);
       const documentId = parseInt(req.params.documentId);
       
-      // Verify the document belongs to the patient
-      const documents = await storage.getPatientDocuments(patientId);
-      const document = documents.find(doc => doc.id === documentId);
+      // Verify the patient belongs to the organization and the document to the patient
+      const patient = await storage.getPatient(patientId, organizationId);
+      const document = patient && await storage.getPatientDocument(documentId, patientId);
       
       if (!document) {
         return res.status(404).json({ error: 'Document not found' });
@@ -3266,7 +4977,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
             console.log('Found LEQVIO Patient ID:', extraction.leqvio_copay.patient_id);
             updates.leqvioPatientId = extraction.leqvio_copay.patient_id;
           }
-          if (extraction.leqvio_copay?.effective_from) updates.leqvioEnrollmentDate = extraction.leqvio_copay.effective_from;
+          const enrollmentDate = parseCalendarDate(extraction.leqvio_copay?.effective_from);
+          if (enrollmentDate) updates.leqvioEnrollmentDate = enrollmentDate;
           if (extraction.leqvio_copay?.subscriber_id) {
             console.log('Found LEQVIO Copay ID:', extraction.leqvio_copay.subscriber_id);
             updates.leqvioCopayIdNumber = extraction.leqvio_copay.subscriber_id;
@@ -3278,15 +4990,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
           if ((extraction as any).pharmacy?.pcn) updates.leqvioPcn = (extraction as any).pharmacy.pcn;
           
           if (Object.keys(updates).length > 0) {
-            await storage.updatePatient(patientId, updates, organizationId);
+            await storage.updatePatient(patientId, updates, organizationId, { type: 'document', documentId });
             console.log('Patient insurance information automatically updated from Epic screenshot:', updates);
             
             // Log the insurance update in patient notes
-            const changeLog = `Updated: Epic screenshot insurance data - ${new Date().toLocaleString()}`;
             const changeDetails = Object.entries(updates).map(([key, value]) => `  ${key}: ${value}`).join('\n');
-            const logEntry = `${changeLog}\n${changeDetails}`;
-            
-            await addInsuranceChangeToNotes(patientId, logEntry, organizationId);
+            await addInsuranceChangeNote(patientId, organizationId, `Updated: Epic screenshot insurance data\n${changeDetails}`);
             
             // Store the updated fields to return to frontend
             metadata.updatedFields = updates;
@@ -3349,8 +5058,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
             }
             
             // Map enrollment date from effective_from field
-            if (leqvioData.effective_from && /^\d{2}\/\d{2}\/\d{4}$/.test(leqvioData.effective_from)) {
-              updates.leqvioEnrollmentDate = leqvioData.effective_from;
+            const enrollmentDate = parseCalendarDate(leqvioData.effective_from);
+            if (enrollmentDate) {
+              updates.leqvioEnrollmentDate = enrollmentDate;
             }
             
             // Map LEQVIO Co-pay ID directly from the dedicated field
@@ -3369,15 +5079,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
           if (extraction.pharmacy?.pcn) updates.leqvioPcn = extraction.pharmacy.pcn;
           
           if (Object.keys(updates).length > 0) {
-            await storage.updatePatient(patientId, updates, organizationId);
+            await storage.updatePatient(patientId, updates, organizationId, { type: 'document', documentId });
             console.log('Patient insurance information automatically updated from insurance card:', updates);
             
             // Log the insurance update in patient notes
-            const changeLog = `Updated: Insurance card data - ${new Date().toLocaleString()}`;
             const changeDetails = Object.entries(updates).map(([key, value]) => `  ${key}: ${value}`).join('\n');
-            const logEntry = `${changeLog}\n${changeDetails}`;
-            
-            await addInsuranceChangeToNotes(patientId, logEntry, organizationId);
+            await addInsuranceChangeNote(patientId, organizationId, `Updated: Insurance card data\n${changeDetails}`);
             
             // Store the updated fields to return to frontend
             metadata.updatedFields = updates;
@@ -3478,8 +5185,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   }
 
   // Create patient document with immediate response and async processing
-  app.post('/api/patients/:id/documents', upload.any(), auditDocumentAccess, async (req, res) => {
+  app.post('/api/patients/:id/documents', requirePermission('document:upload'), requirePatientAccess, llmRateLimit, upload.any(), auditDocumentAccess, async (req, res) => {
     try {
+      const { organizationId } = (req as any).membership as MembershipContext;
       const patientId = parseInt(req.params.id);
       const { documentType } = req.body;
       const files = req.files as Express.Multer.File[] | undefined;
@@ -3489,18 +5197,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: 'No file uploaded' });
       }
 
-      // Get user organization for async processing
-      const user = await getUserFromSession(req);
-      if (!user || !user.currentOrganizationId) {
-        return res.status(401).json({ error: 'User not authenticated or not associated with an organization' });
+      const patient = await storage.getPatient(patientId, organizationId);
+      if (!patient) {
+        return res.status(404).json({ error: 'Patient not found' });
       }
 
+      // Keep the original upload, encrypted, so it can be viewed later
+      const storedFile = await storeEncryptedFile(`patients/${patientId}`, file.buffer);
+
       // Create document record immediately with pending status
-      const document = await storage.createPatientDocument({
+      const createdDocument = await storage.createPatientDocument({
         patientId,
         documentType,
         fileName: file.originalname,
-        fileUrl: '', // In production, upload to cloud storage
+        fileUrl: null,
+        storageKey: storedFile.storageKey,
+        encryptedFileKey: storedFile.encryptedFileKey,
         extractedData: '',
         metadata: {
           contentType: file.mimetype,
@@ -3509,6 +5221,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         },
         processingStatus: 'pending'
       });
+      const document = await storage.updatePatientDocument(createdDocument.id, {
+        fileUrl: `/api/patients/${patientId}/documents/${createdDocument.id}/file`
+      }) ?? createdDocument;
+      updateAuditContext(req, { resourceId: document.id, details: { documentType, fileName: file.originalname } });
 
       // Return immediate response
       res.json({ 
@@ -3529,7 +5245,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         documentType, 
         file.buffer, 
         file.originalname, 
-        user.currentOrganizationId
+        organizationId
       ).catch(error => {
         console.error('Async processing error:', error);
       });
@@ -3540,8 +5256,51 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Stream the decrypted original upload (inline preview, or attachment with ?download=1)
+  app.get('/api/patients/:id/documents/:documentId/file', requirePermission('document:read', { allowApiKey: true }), requirePatientAccess, async (req, res) => {
+    try {
+      const { organizationId } = (req as any).membership as MembershipContext;
+      const patientId = parseInt(req.params.id);
+      const documentId = parseInt(req.params.documentId);
+
+      const patient = await storage.getPatient(patientId, organizationId);
+      const document = patient && await storage.getPatientDocument(documentId, patientId);
+      if (!document) {
+        return res.status(404).json({ error: 'Document not found' });
+      }
+      if (!document.storageKey || !document.encryptedFileKey) {
+        return res.status(404).json({ error: 'No original file is stored for this document' });
+      }
+
+      const fileBuffer = await readEncryptedFile({ storageKey: document.storageKey, encryptedFileKey: document.encryptedFileKey });
+      const storedContentType = (document.metadata as any)?.contentType || 'application/octet-stream';
+      // Only PDFs and raster images are shown in the browser; anything else, including files stored before
+      // uploads were filtered, is an opaque download
+      const inlineType = INLINE_CONTENT_TYPES.includes(storedContentType);
+      const download = req.query.download === '1' || !inlineType;
+      const contentType = inlineType ? storedContentType : 'application/octet-stream';
+
+      await AuditLogger.logDocumentAccess(download ? 'DOWNLOAD_DOCUMENT' : 'VIEW_DOCUMENT', documentId, patientId, {
+        ...AuditLogger.extractContext(req),
+        organizationId,
+      }, { fileName: document.fileName, contentType: storedContentType, original: true });
+
+      res.setHeader('Content-Type', contentType);
+      res.setHeader('Content-Disposition', `${download ? 'attachment' : 'inline'}; filename*=UTF-8''${encodeURIComponent(document.fileName || `document-${documentId}`)}`);
+      res.setHeader('Cache-Control', 'private, no-store');
+      res.setHeader('X-Frame-Options', 'SAMEORIGIN'); // Allow the in-app PDF preview frame
+      // Uploaded content never runs script in the app's origin, even if its type is misreported
+      res.setHeader('Content-Security-Policy', 'sandbox');
+      res.setHeader('X-Content-Type-Options', 'nosniff');
+      res.send(fileBuffer);
+    } catch (error) {
+      console.error('Error reading document file:', error);
+      res.status(500).json({ error: 'Failed to read document file' });
+    }
+  });
+
   // Get document processing status
-  app.get('/api/patients/:id/documents/:documentId/status', async (req, res) => {
+  app.get('/api/patients/:id/documents/:documentId/status', requirePermission('document:read'), requirePatientAccess, async (req, res) => {
     try {
       const documentId = parseInt(req.params.documentId);
       const documents = await storage.getPatientDocuments(parseInt(req.params.id));
@@ -3567,11 +5326,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
 
   // Process patient data and send to AIGENTS
-  app.post('/api/patients/:id/process', async (req, res) => {
+  app.post('/api/patients/:id/process', requirePermission('automation:run'), requirePatientAccess, llmRateLimit, async (req, res) => {
     try {
       const patientId = parseInt(req.params.id);
-      // Note: This route needs authentication - temporarily bypass for backward compatibility
-      const patient = await storage.getAllPatients().then(patients => patients.find(p => p.id === patientId));
+      const { organizationId } = (req as any).membership as MembershipContext;
+      // A single-record read, so unreadable PHI fails the run instead of being sent masked
+      const patient = await storage.getPatient(patientId, organizationId);
       
       if (!patient) {
         return res.status(404).json({ error: 'Patient not found' });
@@ -3991,6 +5751,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         timestamp: new Date()
       });
 
+      await AuditLogger.logDisclosure(patientId, { ...AuditLogger.extractContext(req), organizationId: patient.organizationId }, {
+        recipient: 'AIGENTS',
+        purpose: 'Insurance and authorization analysis (leqvio_app chain)',
+        chainRunId: chainRunId || uniqueId,
+        documentIds: [...insuranceDocuments, ...clinicalDocuments].map(doc => doc.id),
+      });
+
       console.log('AIGENTS chain triggered for patient:', patient.id);
       
       res.json({ 
@@ -4014,7 +5781,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Denial AI endpoint - trigger Denial_AI chain with same patient data
-  app.post('/api/patients/:id/denial-ai', async (req, res) => {
+  app.post('/api/patients/:id/denial-ai', requirePermission('automation:run'), requirePatientAccess, llmRateLimit, async (req, res) => {
     try {
       const user = await getUserFromSession(req);
       if (!user) {
@@ -4196,8 +5963,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           Patient_Campus: patient.campus || 'Mount Sinai West',
           Patient_Auth_Number: patient.authNumber || '',
           Patient_Ref_Number: patient.refNumber || '',
-          Patient_Start_Date: patient.startDate || '',
-          Patient_End_Date: patient.endDate || '',
+          Patient_Start_Date: formatCalendarDate(patient.startDate),
+          Patient_End_Date: formatCalendarDate(patient.endDate),
           Insurance_JSON: insuranceText,
           Clinical_JSON: clinicalText,
           Patient_Primary_Insurance: patient.primaryInsurance || '',
@@ -4256,6 +6023,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         timestamp: new Date()
       });
 
+      await AuditLogger.logDisclosure(patientId, { ...AuditLogger.extractContext(req), organizationId: patient.organizationId }, {
+        recipient: 'AIGENTS',
+        purpose: 'Denial appeal analysis (Denial_AI chain)',
+        chainRunId: chainRunId || uniqueId,
+        documentIds: [...insuranceDocuments, ...clinicalDocuments].map(doc => doc.id),
+      });
+
       console.log('Denial AI chain triggered for patient:', patient.id);
       
       res.json({ 
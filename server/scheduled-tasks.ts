@@ -1,5 +1,7 @@
 import cron from 'node-cron';
 import { cleanupExpiredAuditLogs, AuditLogger } from './audit-service';
+import { writeAuditCheckpoints } from './audit-chain';
+import { scanAuditAnomalies } from './audit-anomalies';
 
 // Data retention policy configuration
 export const retentionPolicy = {
@@ -18,10 +20,10 @@ export function initializeScheduledTasks(): void {
     console.log('[SCHEDULER] Starting daily audit log cleanup...');
     
     try {
-      const deletedCount = await cleanupExpiredAuditLogs();
+      const result = await cleanupExpiredAuditLogs();
       
       // Log the cleanup activity
-      await AuditLogger.logDataRetentionCleanup(deletedCount, {
+      await AuditLogger.logDataRetentionCleanup(result, {
         userId: undefined, // System operation
         organizationId: undefined,
         ipAddress: 'system',
@@ -29,7 +31,7 @@ export function initializeScheduledTasks(): void {
         sessionId: 'system',
       });
       
-      console.log(`[SCHEDULER] Audit log cleanup completed. Deleted ${deletedCount} expired records.`);
+      console.log(`[SCHEDULER] Audit log cleanup completed. Archived and deleted ${result.deleted} expired records.`);
     } catch (error) {
       console.error('[SCHEDULER] Error during audit log cleanup:', error);
     }
@@ -38,6 +40,53 @@ export function initializeScheduledTasks(): void {
     timezone: "America/New_York" // Adjust timezone as needed
   });
   
+  // Hourly signed checkpoints of every audit hash chain
+  cron.schedule('5 * * * *', async () => {
+    try {
+      const { written, broken } = await writeAuditCheckpoints();
+      console.log(`[SCHEDULER] Wrote ${written} audit chain checkpoint(s).`);
+
+      // Broken chains are not checkpointed; report them every run until someone investigates
+      for (const chain of broken) {
+        console.error(`[SCHEDULER] Audit chain for organization ${chain.organizationId ?? 'system'} is broken: ${chain.brokenLink?.message}`);
+        await AuditLogger.log({
+          action: 'AUDIT_CHAIN_BROKEN',
+          resourceType: 'audit_log',
+          context: {
+            userId: undefined,
+            organizationId: chain.organizationId ?? undefined,
+            ipAddress: 'system',
+            userAgent: 'scheduled-task',
+            sessionId: 'system',
+          },
+          details: {
+            brokenLink: chain.brokenLink,
+          },
+        });
+      }
+    } catch (error) {
+      console.error('[SCHEDULER] Error writing audit chain checkpoints:', error);
+    }
+  }, {
+    scheduled: true,
+    timezone: "America/New_York"
+  });
+  
+  // Hourly anomaly scan of the previous clock hour, after that hour's checkpoint
+  cron.schedule('10 * * * *', async () => {
+    try {
+      const raised = await scanAuditAnomalies();
+      if (raised.length > 0) {
+        console.log(`[SCHEDULER] Raised ${raised.length} audit alert(s).`);
+      }
+    } catch (error) {
+      console.error('[SCHEDULER] Error scanning audit logs for anomalies:', error);
+    }
+  }, {
+    scheduled: true,
+    timezone: "America/New_York"
+  });
+  
   // Weekly system health check on Sundays at 3:00 AM
   cron.schedule('0 3 * * 0', async () => {
     console.log('[SCHEDULER] Starting weekly system health check...');
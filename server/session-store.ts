@@ -0,0 +1,168 @@
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import crypto from "crypto";
+import type { Request, Response, NextFunction } from "express";
+import { and, desc, eq, gt, ne, sql } from "drizzle-orm";
+import { db, pool } from "./db";
+import { sessions } from "@shared/schema";
+import { AuditLogger } from "./audit-service";
+
+const PgSessionStore = connectPg(session);
+
+// Sessions live in Postgres so restarts keep users signed in and security flows can reach other devices
+export const sessionStore = new PgSessionStore({
+  pool,
+  tableName: "sessions",
+  createTableIfMissing: false, // Created by `npm run db:push` from shared/schema.ts
+  pruneSessionInterval: 15 * 60, // Seconds between sweeps of expired rows
+});
+
+// The cookie rolls on every request, so this is the inactivity limit
+export const SESSION_IDLE_TIMEOUT_MS = 15 * 60 * 1000;
+// Hard cap from sign-in, however active the session is
+export const SESSION_MAX_LIFETIME_MS = (parseFloat(process.env.SESSION_MAX_LIFETIME_HOURS || "") || 12) * 60 * 60 * 1000;
+
+export interface ActiveSession {
+  id: string;
+  current: boolean;
+  ipAddress?: string;
+  userAgent?: string;
+  createdAt?: string;
+  lastActivityAt: string;
+}
+
+// Raw session IDs are bearer credentials, so clients only ever see a hash of them
+const toPublicSessionId = (sid: string) =>
+  crypto.createHash('sha256').update(sid).digest('hex').slice(0, 32);
+
+const activeSessionsFor = (userId: number) => and(
+  sql`${sessions.sess}->>'userId' = ${String(userId)}`,
+  gt(sessions.expire, new Date()),
+);
+
+/**
+ * Stamp the device details shown in the active sessions list. Call whenever a session becomes authenticated.
+ */
+export function recordSessionMetadata(req: Request): void {
+  const context = AuditLogger.extractContext(req);
+  (req.session as any).createdAt = new Date().toISOString();
+  (req.session as any).ipAddress = context.ipAddress;
+  (req.session as any).userAgent = context.userAgent;
+}
+
+export interface SessionDeadlines {
+  idleExpiresAt: string;
+  absoluteExpiresAt: string;
+}
+
+function absoluteExpiry(session: any): number {
+  return new Date(session.createdAt).getTime() + SESSION_MAX_LIFETIME_MS;
+}
+
+/**
+ * When the current session ends if left alone, and when it ends regardless. Reading this counts as activity.
+ */
+export function getSessionDeadlines(req: Request): SessionDeadlines {
+  return {
+    idleExpiresAt: new Date(Date.now() + SESSION_IDLE_TIMEOUT_MS).toISOString(),
+    absoluteExpiresAt: new Date(absoluteExpiry(req.session)).toISOString(),
+  };
+}
+
+/**
+ * Destroy signed-in sessions that have outlived SESSION_MAX_LIFETIME_MS. API calls get a 401 with
+ * code SESSION_EXPIRED so the client can tell a lapsed session from one that never signed in.
+ */
+export function enforceSessionLifetime(req: Request, res: Response, next: NextFunction): void {
+  const data = req.session as any;
+  if (!data?.userId) {
+    return next();
+  }
+
+  // Sessions signed in before the lifetime cap existed start their clock now
+  if (!data.createdAt) {
+    data.createdAt = new Date().toISOString();
+    return next();
+  }
+
+  if (Date.now() < absoluteExpiry(data)) {
+    return next();
+  }
+
+  const context = AuditLogger.extractContext(req);
+  AuditLogger.logAuthentication('SESSION_EXPIRED', context, {
+    reason: 'max_lifetime',
+    signedInAt: data.createdAt,
+  });
+
+  req.session.destroy((err) => {
+    if (err) {
+      console.error('Error destroying expired session:', err);
+    }
+    if (req.path.startsWith('/api/')) {
+      res.status(401).json({ error: 'Your session has expired. Please sign in again.', code: 'SESSION_EXPIRED' });
+    } else {
+      next();
+    }
+  });
+}
+
+export async function listUserSessions(userId: number, currentSessionId?: string): Promise<ActiveSession[]> {
+  const rows = await db
+    .select()
+    .from(sessions)
+    .where(activeSessionsFor(userId))
+    .orderBy(desc(sessions.expire));
+
+  return rows.map(row => {
+    const data = row.sess as any;
+    // Sessions roll on every request, so expiry minus lifetime is the last time the session was used
+    const lifetimeMs = data?.cookie?.originalMaxAge ?? 0;
+    return {
+      id: toPublicSessionId(row.sid),
+      current: row.sid === currentSessionId,
+      ipAddress: data?.ipAddress,
+      userAgent: data?.userAgent,
+      createdAt: data?.createdAt,
+      lastActivityAt: new Date(row.expire.getTime() - lifetimeMs).toISOString(),
+    };
+  });
+}
+
+/**
+ * Destroy one of a user's sessions by its public ID. Returns false if it does not belong to the user.
+ */
+export async function destroyUserSession(userId: number, publicSessionId: string): Promise<boolean> {
+  const rows = await db
+    .select({ sid: sessions.sid })
+    .from(sessions)
+    .where(activeSessionsFor(userId));
+
+  const target = rows.find(row => toPublicSessionId(row.sid) === publicSessionId);
+  if (!target) {
+    return false;
+  }
+
+  await db.delete(sessions).where(eq(sessions.sid, target.sid));
+  return true;
+}
+
+/**
+ * Destroy every session belonging to a user, optionally sparing the caller's own session.
+ * Returns the number of sessions revoked.
+ */
+export async function destroyUserSessions(userId: number, exceptSessionId?: string): Promise<number> {
+  const revoked = await db
+    .delete(sessions)
+    .where(and(
+      sql`${sessions.sess}->>'userId' = ${String(userId)}`,
+      exceptSessionId ? ne(sessions.sid, exceptSessionId) : undefined,
+    ))
+    .returning({ sid: sessions.sid });
+
+  return revoked.length;
+}
+
+export function isCurrentSession(req: Request, publicSessionId: string): boolean {
+  return toPublicSessionId(req.sessionID) === publicSessionId;
+}
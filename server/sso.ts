@@ -0,0 +1,357 @@
+import crypto from "crypto";
+import { promises as dns } from "dns";
+import bcrypt from "bcryptjs";
+import * as oidc from "openid-client";
+import type { Request, Response } from "express";
+import { storage } from "./storage";
+import { getPublicBaseUrl } from "./auth";
+import { AuditLogger } from "./audit-service";
+import { isUserLocked, recordLoginSuccess } from "./login-throttle";
+import { encryptField, decryptField, isEncrypted } from "./encryption-service";
+import type { OrganizationSsoConfig, User } from "@shared/schema";
+
+// The IdP round trip (including its own login and MFA prompts) must finish within this window
+const SSO_PENDING_TTL_MS = 10 * 60 * 1000;
+// Discovery documents and JWKS locations are refetched after this long
+const DISCOVERY_CACHE_TTL_MS = 60 * 60 * 1000;
+
+// The session cookie is SameSite=Strict and is not sent on the IdP's redirect back, so the pending login
+// travels in its own encrypted, SameSite=Lax cookie scoped to the SSO routes
+const SSO_COOKIE = "leqvio_sso";
+const SSO_COOKIE_OPTIONS = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'lax' as const,
+  path: "/api/auth/sso",
+};
+
+interface PendingSsoLogin {
+  organizationId: number;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  expiresAt: number;
+}
+
+export interface SsoLoginResult {
+  success: boolean;
+  user?: User;
+  error?: string;
+  mfaRequired?: boolean; // IdP login accepted, app second factor still outstanding
+  mfaEnrollmentRequired?: boolean;
+}
+
+const discoveryCache = new Map<string, { configuration: oidc.Configuration; fetchedAt: number }>();
+
+export function getEmailDomain(email: string): string | null {
+  const at = email.lastIndexOf("@");
+  return at > 0 ? email.slice(at + 1).trim().toLowerCase() : null;
+}
+
+export function getSsoCallbackUrl(): string {
+  return `${getPublicBaseUrl()}/api/auth/sso/callback`;
+}
+
+// Domain ownership is proven with a TXT record on this subdomain holding the organization's token
+const DOMAIN_VERIFICATION_PREFIX = "_leqvio-verification";
+
+export function getDomainVerificationRecord(domain: string, token: string): { name: string; value: string } {
+  return { name: `${DOMAIN_VERIFICATION_PREFIX}.${domain}`, value: `leqvio-verification=${token}` };
+}
+
+/**
+ * Check that the domain publishes the organization's verification TXT record. Lookup failures
+ * (no such record, no such domain) count as not verified.
+ */
+export async function isSsoDomainVerified(config: OrganizationSsoConfig, domain: string): Promise<boolean> {
+  // The local mock IdP serves made-up domains, so outside production a plain-http issuer skips the lookup
+  if (new URL(config.issuer).protocol === "http:" && process.env.NODE_ENV !== "production") {
+    return true;
+  }
+
+  const { name, value } = getDomainVerificationRecord(domain, config.domainVerificationToken);
+  try {
+    const records = await dns.resolveTxt(name);
+    return records.some((chunks) => chunks.join("") === value);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Resolve the IdP's endpoints through OIDC discovery. Plain-http issuers (such as the local mock IdP)
+ * are only accepted outside production.
+ */
+async function getClientConfiguration(config: OrganizationSsoConfig): Promise<oidc.Configuration> {
+  const cacheKey = `${config.id}:${config.updatedAt.getTime()}`;
+  const cached = discoveryCache.get(cacheKey);
+  if (cached && Date.now() - cached.fetchedAt < DISCOVERY_CACHE_TTL_MS) {
+    return cached.configuration;
+  }
+
+  const issuerUrl = new URL(config.issuer);
+  const allowHttp = issuerUrl.protocol === "http:" && process.env.NODE_ENV !== "production";
+  const configuration = await oidc.discovery(
+    issuerUrl,
+    config.clientId,
+    undefined,
+    config.clientSecret ? oidc.ClientSecretPost(config.clientSecret) : oidc.None(),
+    allowHttp ? { execute: [oidc.allowInsecureRequests] } : undefined
+  );
+
+  discoveryCache.set(cacheKey, { configuration, fetchedAt: Date.now() });
+  return configuration;
+}
+
+/**
+ * Settings as shown to admins: the client secret never leaves the server, and each domain comes with
+ * the TXT record that verifies it.
+ */
+export function serializeSsoConfig(config: OrganizationSsoConfig) {
+  const { clientSecret, domainVerificationToken, ...settings } = config;
+  return {
+    ...settings,
+    hasClientSecret: !!clientSecret,
+    callbackUrl: getSsoCallbackUrl(),
+    domains: config.emailDomains.map((domain) => ({
+      domain,
+      verified: config.verifiedDomains.includes(domain),
+      record: getDomainVerificationRecord(domain, domainVerificationToken),
+    })),
+  };
+}
+
+// Drop cached discovery results for an organization after its settings change
+export function clearSsoDiscoveryCache(configId: number) {
+  for (const key of Array.from(discoveryCache.keys())) {
+    if (key.startsWith(`${configId}:`)) {
+      discoveryCache.delete(key);
+    }
+  }
+}
+
+/**
+ * First step of an SSO login: find the organization that owns the email's domain and build the IdP
+ * authorization URL. State, nonce and the PKCE verifier are kept in a cookie for the callback.
+ */
+export async function beginSsoLogin(req: Request, res: Response, email: string): Promise<{ redirectUrl?: string; error?: string }> {
+  const domain = getEmailDomain(email);
+  const config = domain ? await storage.getSsoConfigByEmailDomain(domain) : undefined;
+  if (!config || !config.enabled) {
+    return { error: "Single sign-on is not configured for this email domain" };
+  }
+
+  const configuration = await getClientConfiguration(config);
+  const pending: PendingSsoLogin = {
+    organizationId: config.organizationId,
+    state: oidc.randomState(),
+    nonce: oidc.randomNonce(),
+    codeVerifier: oidc.randomPKCECodeVerifier(),
+    expiresAt: Date.now() + SSO_PENDING_TTL_MS,
+  };
+  res.cookie(SSO_COOKIE, await encryptField(JSON.stringify(pending), SSO_COOKIE), {
+    ...SSO_COOKIE_OPTIONS,
+    maxAge: SSO_PENDING_TTL_MS,
+  });
+
+  const redirectUrl = oidc.buildAuthorizationUrl(configuration, {
+    redirect_uri: getSsoCallbackUrl(),
+    scope: "openid email profile",
+    state: pending.state,
+    nonce: pending.nonce,
+    code_challenge: await oidc.calculatePKCECodeChallenge(pending.codeVerifier),
+    code_challenge_method: "S256",
+    login_hint: email,
+  });
+
+  return { redirectUrl: redirectUrl.href };
+}
+
+/**
+ * Find the account for an IdP identity. Linked accounts match on issuer + subject. An existing account
+ * with the same email is only linked when it is already an active member of the organization, since
+ * the IdP proves control of the mailbox to that organization, not to every tenant the account belongs to.
+ * A new account is created as a last resort. SSO-only accounts get a random password nobody knows,
+ * so password login stays closed to them.
+ */
+async function findOrProvisionUser(
+  organizationId: number,
+  issuer: string,
+  subject: string,
+  email: string,
+  name: string | null
+): Promise<{ user?: User; created?: boolean; error?: string }> {
+  const linkedUser = await storage.getUserBySsoIdentity(issuer, subject);
+  if (linkedUser) {
+    return { user: linkedUser };
+  }
+
+  const existingUser = await storage.getUserByEmail(email);
+  if (existingUser) {
+    if (existingUser.ssoSubject) {
+      return { error: 'identity_mismatch' };
+    }
+    const membership = await storage.getOrganizationMembership(existingUser.id, organizationId);
+    if (!membership) {
+      return { error: 'existing_account' };
+    }
+    if (!membership.isActive) {
+      return { error: 'membership_deactivated' };
+    }
+    await storage.linkUserSsoIdentity(existingUser.id, issuer, subject);
+    return { user: { ...existingUser, ssoIssuer: issuer, ssoSubject: subject } };
+  }
+
+  const user = await storage.createUser({
+    email,
+    name,
+    password: await bcrypt.hash(crypto.randomBytes(32).toString("hex"), 10),
+  });
+  await storage.linkUserSsoIdentity(user.id, issuer, subject);
+  return { user: { ...user, ssoIssuer: issuer, ssoSubject: subject }, created: true };
+}
+
+async function readPendingSsoLogin(req: Request): Promise<PendingSsoLogin | undefined> {
+  const cookie = (req.headers.cookie || "")
+    .split(";")
+    .map((part) => part.trim())
+    .find((part) => part.startsWith(`${SSO_COOKIE}=`));
+  const value = cookie ? decodeURIComponent(cookie.slice(SSO_COOKIE.length + 1)) : undefined;
+  if (!isEncrypted(value)) return undefined;
+
+  try {
+    return JSON.parse((await decryptField(value, SSO_COOKIE))!);
+  } catch {
+    return undefined; // Tampered or written with a retired key
+  }
+}
+
+const SSO_ERROR_MESSAGES: Record<string, string> = {
+  sso_session_expired: "Single sign-on session expired. Please try again.",
+  sso_not_configured: "Single sign-on is not configured for this organization",
+  missing_email: "Your identity provider did not return an email address",
+  email_not_verified: "Your identity provider has not verified your email address",
+  email_domain_mismatch: "Your email domain is not allowed for this organization's single sign-on",
+  identity_mismatch: "This account is already linked to a different single sign-on identity",
+  existing_account: "An account with this email already exists. Sign in with your password, or ask your organization administrator to invite you before using single sign-on.",
+  account_locked: "Account temporarily locked due to repeated failed logins. Try again later or contact your organization administrator.",
+  membership_deactivated: "Your access to this organization has been deactivated",
+};
+
+/**
+ * Second step of an SSO login, run on the IdP callback: exchange the code, validate the ID token and
+ * provision the user into the organization (with its default role) if this is their first login.
+ */
+export async function completeSsoLogin(req: Request, res: Response): Promise<SsoLoginResult> {
+  const context = AuditLogger.extractContext(req);
+  const pending = await readPendingSsoLogin(req);
+  res.clearCookie(SSO_COOKIE, SSO_COOKIE_OPTIONS);
+
+  let email: string | undefined;
+  let userId: number | undefined;
+
+  const fail = async (reason: string, details?: Record<string, any>): Promise<SsoLoginResult> => {
+    await AuditLogger.logAuthentication('LOGIN_FAILED', {
+      ...context,
+      userId,
+      organizationId: pending?.organizationId,
+    }, {
+      email,
+      method: 'oidc',
+      reason,
+      ...details,
+    });
+    return { success: false, error: SSO_ERROR_MESSAGES[reason] || "Single sign-on failed" };
+  };
+
+  try {
+    if (!pending || pending.expiresAt < Date.now()) {
+      return fail('sso_session_expired');
+    }
+
+    const config = await storage.getOrganizationSsoConfig(pending.organizationId);
+    if (!config || !config.enabled) {
+      return fail('sso_not_configured');
+    }
+
+    const configuration = await getClientConfiguration(config);
+    const currentUrl = new URL(req.originalUrl, getPublicBaseUrl());
+    const tokens = await oidc.authorizationCodeGrant(configuration, currentUrl, {
+      pkceCodeVerifier: pending.codeVerifier,
+      expectedState: pending.state,
+      expectedNonce: pending.nonce,
+      idTokenExpected: true,
+    });
+
+    const claims = tokens.claims()!;
+    email = typeof claims.email === "string" ? claims.email.trim().toLowerCase() : undefined;
+    if (!email) {
+      return fail('missing_email', { issuer: claims.iss, subject: claims.sub });
+    }
+    // The IdP must vouch for the address; a missing claim is treated as unverified
+    if (claims.email_verified !== true) {
+      return fail('email_not_verified');
+    }
+    // Only accept identities from the domains this organization has proven it owns
+    const domain = getEmailDomain(email);
+    if (!domain || !config.verifiedDomains.includes(domain)) {
+      return fail('email_domain_mismatch');
+    }
+
+    const name = typeof claims.name === "string" ? claims.name : null;
+    const provisioned = await findOrProvisionUser(config.organizationId, claims.iss, claims.sub, email, name);
+    if (!provisioned.user) {
+      return fail(provisioned.error!);
+    }
+    let user = provisioned.user;
+    userId = user.id;
+
+    if (isUserLocked(user)) {
+      return fail('account_locked');
+    }
+
+    const membership = await storage.getOrganizationMembership(user.id, config.organizationId);
+    if (!membership) {
+      await storage.addOrganizationMember({
+        userId: user.id,
+        organizationId: config.organizationId,
+        role: config.defaultRole,
+      });
+      await AuditLogger.log({
+        action: 'SSO_MEMBER_PROVISIONED',
+        resourceType: 'user',
+        resourceId: user.id,
+        details: { email, role: config.defaultRole, issuer: claims.iss, newUser: !!provisioned.created },
+        context: { ...context, userId: user.id, organizationId: config.organizationId },
+      });
+    } else if (!membership.isActive) {
+      return fail('membership_deactivated');
+    }
+
+    await storage.switchUserOrganization(user.id, config.organizationId);
+    user = { ...user, currentOrganizationId: config.organizationId };
+
+    // SSO replaces the password, not the app's second factor
+    const mfaRequired = user.mfaEnabled || await storage.isMfaRequiredForUser(user.id);
+    if (mfaRequired) {
+      return { success: true, user, mfaRequired: true, mfaEnrollmentRequired: !user.mfaEnabled };
+    }
+
+    await storage.updateUserLastLogin(user.id);
+    await recordLoginSuccess(user);
+    await AuditLogger.logAuthentication('LOGIN', {
+      ...context,
+      userId: user.id,
+      organizationId: config.organizationId,
+    }, {
+      email,
+      method: 'oidc',
+      issuer: claims.iss,
+    });
+
+    return { success: true, user };
+  } catch (error) {
+    console.error("SSO login error:", error);
+    return fail('system_error', { error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+}
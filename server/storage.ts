@@ -3,13 +3,27 @@ import {
   organizations,
   organizationMemberships,
   loginTokens,
+  organizationInvitations,
+  apiKeys,
+  organizationSsoConfigs,
+  passwordHistory,
+  patientAccessGrants,
+  breakGlassAccesses,
   automationLogs, 
   customChains,
   apiAnalytics,
   patients,
+  ENCRYPTED_PATIENT_FIELDS,
   patientDocuments,
+  patientNotes,
+  patientNoteRevisions,
+  patientVersions,
   eSignatureForms,
   appointments,
+  auditLogs,
+  auditAlerts,
+  auditArchives,
+  auditLegalHolds,
   type User, 
   type InsertUser,
   type Organization,
@@ -18,6 +32,15 @@ import {
   type InsertOrganizationMembership,
   type LoginToken,
   type InsertLoginToken,
+  type OrganizationInvitation,
+  type InsertOrganizationInvitation,
+  type ApiKey,
+  type InsertApiKey,
+  type OrganizationSsoConfig,
+  type InsertOrganizationSsoConfig,
+  type PatientAccessGrant,
+  type BreakGlassAccess,
+  type InsertBreakGlassAccess,
   type AutomationLog,
   type InsertAutomationLog,
   type CustomChain,
@@ -28,23 +51,116 @@ import {
   type InsertPatient,
   type PatientDocument,
   type InsertPatientDocument,
+  type PatientNote,
+  type InsertPatientNote,
+  type PatientNoteRevision,
+  type PatientVersion,
+  type PatientChangeSource,
   type ESignatureForm,
   type InsertESignatureForm,
   type Appointment,
-  type InsertAppointment
+  type InsertAppointment,
+  type AuditLog,
+  type AuditLogFilters,
+  type AuditAlert,
+  type InsertAuditAlert,
+  type AuditArchive,
+  type AuditLegalHold,
+  type InsertAuditLegalHold
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, gte, and } from "drizzle-orm";
+import { eq, desc, gte, lt, lte, and, or, inArray, isNull, max, sql, getTableColumns, type SQL } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import { encryptField, decryptField, blindIndex, getCiphertextKeyId, getKeyProvider } from "./encryption-service";
+import { deleteStoredFile } from "./blob-store";
+import { DEFAULT_PASSWORD_POLICY, PASSWORD_HISTORY_MAX, strictestPasswordPolicy, type PasswordPolicy } from "@shared/password-policy";
+import type { AuditAlertSettings } from "@shared/audit-alerts";
+import { addCalendarDays, todayCalendarDate } from "@shared/dates";
+import { diffPatient } from "./patient-history";
+
+// Shown in patient lists in place of a field that cannot be decrypted, so one bad value does not hide every patient
+const UNREADABLE_FIELD_MASK = "[unreadable]";
+
+// Emails are compared and stored lowercase, so invitations and SSO find the same account however it was typed
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+// Encrypted identifiers that keep a blind index for exact-match lookups
+const PATIENT_BLIND_INDEXES = {
+  mrn: "mrnIndex",
+  primaryInsuranceNumber: "primaryInsuranceNumberIndex",
+  leqvioPatientId: "leqvioPatientIdIndex",
+} as const;
+
+export type PatientIdentifierField = keyof typeof PATIENT_BLIND_INDEXES;
+
+// Columns left out of version snapshots: blind indexes are derived, and legacy notes moved to their own table
+const UNVERSIONED_PATIENT_FIELDS = ["mrnIndex", "primaryInsuranceNumberIndex", "leqvioPatientIdIndex", "notes"] as const;
+
+// Timestamp columns come back from a jsonb snapshot as ISO strings
+const PATIENT_TIMESTAMP_FIELDS = ["lastVoicemailAt", "createdAt", "updatedAt"] as const;
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Audit log row as shown to administrators, with the actor's name joined in. Chain fields stay server-side.
+export type AuditLogEntry = Omit<AuditLog, "retentionDate" | "chainSeq" | "prevHash" | "hash"> & {
+  userName: string | null;
+  userEmail: string | null;
+  apiKeyName: string | null;
+};
+
+// Reports can ask for several actions at once; the public query string takes one
+export type AuditLogSearch = AuditLogFilters & { actions?: string[] };
+
+export interface AuditLogFilterOptions {
+  actions: string[];
+  resourceTypes: string[];
+  users: Array<{ id: number; name: string | null; email: string }>;
+}
+
+// Alert with the name of the member whose activity raised it and of whoever acknowledged it
+export type AuditAlertEntry = AuditAlert & {
+  userName: string | null;
+  userEmail: string | null;
+  acknowledgedByName: string | null;
+};
+
+// Legal hold with the people involved and what it covers, for display
+export type AuditLegalHoldEntry = AuditLegalHold & {
+  subjectName: string | null; // Patient or user name; null for organization holds
+  createdByName: string | null;
+  releasedByName: string | null;
+};
+
+// Patient note with the names of its author and last editor, and how many earlier versions it has
+export type PatientNoteEntry = PatientNote & {
+  authorName: string | null;
+  updatedByName: string | null;
+  revisionCount: number;
+};
+
+export type PatientNoteRevisionEntry = PatientNoteRevision & { writtenByName: string | null };
+
+// Version as listed on the patient page; snapshots are only read one at a time
+export type PatientVersionEntry = Omit<PatientVersion, "snapshot"> & { changedByName: string | null };
+
+// The patient record as it stood at one version, decrypted
+export type PatientVersionView = { version: PatientVersionEntry; patient: Patient };
+
+// Associated data for note ciphertext; revisions hold copies of note bodies, so both use the same name
+const NOTE_BODY_FIELD = "patientNoteBody";
 
 export interface IStorage {
   // Organization management
   createOrganization(organization: InsertOrganization): Promise<Organization>;
   getOrganization(id: number): Promise<Organization | undefined>;
-  updateOrganization(organizationId: number, updates: { name?: string; description?: string }): Promise<Organization>;
-  getOrganizationMembers(organizationId: number): Promise<User[]>;
+  updateOrganization(organizationId: number, updates: { name?: string; description?: string; requireMfa?: boolean; passwordPolicy?: PasswordPolicy; auditAlertSettings?: AuditAlertSettings }): Promise<Organization>;
+  getOrganizationMembers(organizationId: number, options?: { inactive?: boolean }): Promise<Array<User & { role: string; isActive: boolean }>>;
+  getOrganizationMembership(userId: number, organizationId: number): Promise<OrganizationMembership | undefined>;
   addOrganizationMember(membership: InsertOrganizationMembership): Promise<OrganizationMembership>;
   removeOrganizationMember(userId: number, organizationId: number): Promise<void>;
   removeUserFromOrganization(userId: number, organizationId: number): Promise<void>;
+  reactivateOrganizationMember(userId: number, organizationId: number): Promise<void>;
+  transferOrganizationOwnership(organizationId: number, fromUserId: number, toUserId: number): Promise<void>;
   
   // Multi-organization support
   getUserOrganizations(userId: number): Promise<Array<{ organization: Organization; role: string; isActive: boolean }>>;
@@ -60,16 +176,55 @@ export interface IStorage {
   updateUserLastLogin(id: number): Promise<void>;
   updateUserProfile(id: number, updates: { name: string; email: string }): Promise<User>;
   updateUserPassword(id: number, hashedPassword: string): Promise<void>;
+  getPasswordHistory(userId: number, limit: number): Promise<string[]>;
+  getUserPasswordPolicy(userId: number): Promise<PasswordPolicy>;
   deleteUser(id: number): Promise<void>;
   deleteOrganization(id: number): Promise<void>;
   assignUserToDefaultOrganization(userId: number): Promise<void>;
   
+  // Multi-factor authentication
+  updateUserMfa(id: number, updates: { mfaEnabled?: boolean; mfaSecret?: string | null; mfaRecoveryCodes?: string[] | null; mfaEnrolledAt?: Date | null; mfaLastUsedStep?: number | null }): Promise<User>;
+  claimMfaStep(userId: number, step: number): Promise<boolean>;
+  isMfaRequiredForUser(userId: number): Promise<boolean>;
+  
+  // Login lockout
+  recordFailedLogin(userId: number): Promise<User>;
+  lockUser(userId: number, lockedUntil: Date): Promise<void>;
+  resetFailedLogins(userId: number): Promise<void>;
+  
   // Login tokens
   createLoginToken(token: InsertLoginToken): Promise<LoginToken>;
   getLoginToken(token: string): Promise<LoginToken | undefined>;
   markTokenAsUsed(token: string): Promise<void>;
+  markLoginTokenIdAsUsed(id: number): Promise<void>;
+  invalidateLoginTokensForEmail(email: string, purpose: string): Promise<void>;
   cleanupExpiredTokens(): Promise<void>;
   
+  // Organization invitations
+  createInvitation(invitation: InsertOrganizationInvitation): Promise<OrganizationInvitation>;
+  getInvitation(id: number, organizationId: number): Promise<OrganizationInvitation | undefined>;
+  getInvitationByToken(token: string): Promise<{ invitation: OrganizationInvitation; loginToken: LoginToken } | undefined>;
+  getPendingInvitations(organizationId: number): Promise<OrganizationInvitation[]>;
+  getPendingInvitationForEmail(organizationId: number, email: string): Promise<OrganizationInvitation | undefined>;
+  updateInvitation(id: number, updates: Partial<InsertOrganizationInvitation>): Promise<OrganizationInvitation>;
+  
+  // Organization API keys
+  createApiKey(apiKey: InsertApiKey): Promise<ApiKey>;
+  getApiKey(id: number): Promise<ApiKey | undefined>;
+  getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined>;
+  getOrganizationApiKeys(organizationId: number): Promise<ApiKey[]>;
+  revokeApiKey(id: number, organizationId: number): Promise<ApiKey | undefined>;
+  revokeUserApiKeys(userId: number, organizationId: number): Promise<ApiKey[]>;
+  recordApiKeyUsage(id: number, ipAddress?: string): Promise<void>;
+  
+  // Single sign-on
+  getOrganizationSsoConfig(organizationId: number): Promise<OrganizationSsoConfig | undefined>;
+  getSsoConfigByEmailDomain(domain: string): Promise<OrganizationSsoConfig | undefined>;
+  upsertOrganizationSsoConfig(config: InsertOrganizationSsoConfig): Promise<OrganizationSsoConfig>;
+  setVerifiedSsoDomains(organizationId: number, domains: string[]): Promise<OrganizationSsoConfig | undefined>;
+  getUserBySsoIdentity(issuer: string, subject: string): Promise<User | undefined>;
+  linkUserSsoIdentity(userId: number, issuer: string, subject: string): Promise<void>;
+  
   // Automation logs
   createAutomationLog(log: InsertAutomationLog): Promise<AutomationLog>;
   getAutomationLogs(limit?: number, dateFilter?: Date | null): Promise<AutomationLog[]>;
@@ -97,15 +252,48 @@ export interface IStorage {
   getOrganizationPatients(organizationId: number): Promise<Patient[]>;
   getUserPatients(userId: number): Promise<Patient[]>; // Keep for backward compatibility
   getAllPatients(): Promise<Patient[]>; // Keep for backward compatibility
-  updatePatient(id: number, patient: Partial<InsertPatient>, organizationId: number): Promise<Patient | undefined>;
-  updatePatientStatus(id: number, status: string, organizationId: number): Promise<Patient | undefined>;
+  updatePatient(id: number, patient: Partial<InsertPatient>, organizationId: number, source: PatientChangeSource): Promise<Patient | undefined>;
+  updatePatientStatus(id: number, status: string, organizationId: number, source: PatientChangeSource): Promise<Patient | undefined>;
+  updatePatientDenialAppealLetter(patientId: number, appealLetter: string, automationLogId: number): Promise<Patient | undefined>;
   deletePatient(id: number, organizationId: number): Promise<boolean>;
+  findPatientsByIdentifier(field: PatientIdentifierField, value: string, organizationId: number): Promise<Patient[]>;
+  reencryptPatients(): Promise<number>;
+
+  // Patient versions
+  getPatientVersions(patientId: number, organizationId: number): Promise<PatientVersionEntry[]>;
+  getPatientVersion(id: number, patientId: number, organizationId: number): Promise<PatientVersionView | undefined>;
+  getPatientVersionAsOf(patientId: number, organizationId: number, asOf: Date): Promise<PatientVersionView | undefined>;
+  reencryptPatientVersions(): Promise<number>;
+
+  // Restricted patients
+  setPatientRestriction(patientId: number, isRestricted: boolean, allowedUserIds: number[], grantedBy: number): Promise<void>;
+  getPatientAccessGrants(patientId: number): Promise<PatientAccessGrant[]>;
+  hasPatientAccessGrant(patientId: number, userId: number): Promise<boolean>;
+  createBreakGlassAccess(access: InsertBreakGlassAccess): Promise<BreakGlassAccess>;
+  getActiveBreakGlassAccess(patientId: number, userId: number): Promise<BreakGlassAccess | undefined>;
+  getPatientBreakGlassAccesses(patientId: number): Promise<Array<BreakGlassAccess & { userName: string | null; userEmail: string }>>;
+  getUserRestrictedPatientAccess(userId: number, organizationId: number): Promise<number[]>;
+
+  // Patient notes
+  getPatientNotes(patientId: number, organizationId: number): Promise<PatientNoteEntry[]>;
+  getPatientNote(id: number, patientId: number, organizationId: number): Promise<PatientNote | undefined>;
+  getPatientNoteRevisions(noteId: number): Promise<PatientNoteRevisionEntry[]>;
+  getPatientNotePreviews(organizationId: number): Promise<Map<number, string>>;
+  createPatientNote(note: InsertPatientNote): Promise<PatientNote>;
+  encryptPatientNote(note: InsertPatientNote): Promise<InsertPatientNote>;
+  updatePatientNoteBody(id: number, patientId: number, organizationId: number, body: string, userId: number): Promise<PatientNote | undefined>;
+  setPatientNotePinned(id: number, patientId: number, organizationId: number, pinned: boolean): Promise<PatientNote | undefined>;
+  getPatientsWithLegacyNotes(): Promise<Array<Pick<Patient, "id" | "organizationId" | "notes" | "updatedAt">>>;
+  importLegacyPatientNotes(patientId: number, notes: InsertPatientNote[]): Promise<void>;
+  reencryptPatientNotes(): Promise<number>;
   
   // Patient Documents
   createPatientDocument(document: InsertPatientDocument): Promise<PatientDocument>;
   getPatientDocuments(patientId: number): Promise<PatientDocument[]>;
-  updatePatientDocument(documentId: number, updates: { processingStatus?: string; processingError?: string; extractedData?: string; metadata?: any }): Promise<PatientDocument | undefined>;
+  getPatientDocument(documentId: number, patientId: number): Promise<PatientDocument | undefined>;
+  updatePatientDocument(documentId: number, updates: { processingStatus?: string; processingError?: string; extractedData?: string; metadata?: any; fileUrl?: string }): Promise<PatientDocument | undefined>;
   deletePatientDocument(documentId: number): Promise<boolean>;
+  rewrapPatientDocumentKeys(): Promise<number>;
   
   // E-Signature Forms
   createESignatureForm(form: InsertESignatureForm): Promise<ESignatureForm>;
@@ -115,8 +303,25 @@ export interface IStorage {
   // Appointments
   createAppointment(appointment: InsertAppointment): Promise<Appointment>;
   getPatientAppointments(patientId: number): Promise<Appointment[]>;
+  getAppointment(id: number): Promise<Appointment | undefined>;
   updateAppointment(id: number, appointment: Partial<InsertAppointment>): Promise<Appointment | undefined>;
   deleteAppointment(id: number): Promise<boolean>;
+
+  // Audit log search
+  searchAuditLogs(organizationId: number, filters: AuditLogSearch, page: { limit: number; offset: number }): Promise<{ entries: AuditLogEntry[]; total: number }>;
+  getAuditLogFilterOptions(organizationId: number): Promise<AuditLogFilterOptions>;
+
+  // Audit anomaly alerts
+  createAuditAlerts(alerts: InsertAuditAlert[]): Promise<AuditAlert[]>;
+  getAuditAlerts(organizationId: number, options: { openOnly: boolean; limit: number }): Promise<{ alerts: AuditAlertEntry[]; openCount: number }>;
+  acknowledgeAuditAlert(id: number, organizationId: number, userId: number): Promise<AuditAlert | undefined>;
+
+  // Retention archive and legal holds
+  getAuditArchives(organizationId: number, limit: number): Promise<AuditArchive[]>;
+  getAuditArchive(id: number, organizationId: number): Promise<AuditArchive | undefined>;
+  createLegalHold(hold: InsertAuditLegalHold): Promise<AuditLegalHold>;
+  getLegalHolds(organizationId: number): Promise<AuditLegalHoldEntry[]>;
+  releaseLegalHold(id: number, organizationId: number, userId: number): Promise<AuditLegalHold | undefined>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -131,7 +336,7 @@ export class DatabaseStorage implements IStorage {
     return org;
   }
 
-  async updateOrganization(organizationId: number, updates: { name?: string; description?: string }): Promise<Organization> {
+  async updateOrganization(organizationId: number, updates: { name?: string; description?: string; requireMfa?: boolean; passwordPolicy?: PasswordPolicy; auditAlertSettings?: AuditAlertSettings }): Promise<Organization> {
     const [organization] = await db
       .update(organizations)
       .set({ ...updates, updatedAt: new Date() })
@@ -140,7 +345,7 @@ export class DatabaseStorage implements IStorage {
     return organization;
   }
 
-  async getOrganizationMembers(organizationId: number): Promise<User[]> {
+  async getOrganizationMembers(organizationId: number, options: { inactive?: boolean } = {}): Promise<Array<User & { role: string; isActive: boolean }>> {
     const memberships = await db
       .select({
         user: users,
@@ -150,17 +355,42 @@ export class DatabaseStorage implements IStorage {
       .leftJoin(users, eq(organizationMemberships.userId, users.id))
       .where(and(
         eq(organizationMemberships.organizationId, organizationId),
-        eq(organizationMemberships.isActive, true)
+        eq(organizationMemberships.isActive, !options.inactive)
       ));
 
     return memberships.map(m => ({
       ...m.user!,
       role: m.membership.role, // Use role from membership, not user table
-      tempPassword: m.user!.tempPassword // Include temp password for display
+      isActive: m.membership.isActive,
     }));
   }
 
+  async getOrganizationMembership(userId: number, organizationId: number): Promise<OrganizationMembership | undefined> {
+    const [membership] = await db
+      .select()
+      .from(organizationMemberships)
+      .where(and(
+        eq(organizationMemberships.userId, userId),
+        eq(organizationMemberships.organizationId, organizationId)
+      ))
+      // Older data can hold several rows for a pair; the active, most recent one wins
+      .orderBy(desc(organizationMemberships.isActive), desc(organizationMemberships.createdAt), desc(organizationMemberships.id))
+      .limit(1);
+    return membership;
+  }
+
+  // Joining an organization again (such as a re-invited deactivated member) reuses the existing row
   async addOrganizationMember(membership: InsertOrganizationMembership): Promise<OrganizationMembership> {
+    const existing = await this.getOrganizationMembership(membership.userId, membership.organizationId);
+    if (existing) {
+      const [member] = await db
+        .update(organizationMemberships)
+        .set({ role: membership.role ?? existing.role, isActive: membership.isActive ?? true })
+        .where(eq(organizationMemberships.id, existing.id))
+        .returning();
+      return member;
+    }
+
     const [member] = await db.insert(organizationMemberships).values(membership).returning();
     return member;
   }
@@ -195,25 +425,73 @@ export class DatabaseStorage implements IStorage {
         .where(eq(users.id, userId));
     }
   }
+
+  async reactivateOrganizationMember(userId: number, organizationId: number): Promise<void> {
+    await db
+      .update(organizationMemberships)
+      .set({ isActive: true })
+      .where(and(
+        eq(organizationMemberships.userId, userId),
+        eq(organizationMemberships.organizationId, organizationId)
+      ));
+
+    // Give the user somewhere to land if deactivation left them without a current organization
+    const user = await this.getUser(userId);
+    if (user && !user.currentOrganizationId) {
+      await db
+        .update(users)
+        .set({ currentOrganizationId: organizationId })
+        .where(eq(users.id, userId));
+    }
+  }
+
+  async transferOrganizationOwnership(organizationId: number, fromUserId: number, toUserId: number): Promise<void> {
+    // Both role changes land together so the organization never has zero or two owners
+    await db.transaction(async (tx) => {
+      await tx
+        .update(organizationMemberships)
+        .set({ role: 'owner' })
+        .where(and(
+          eq(organizationMemberships.userId, toUserId),
+          eq(organizationMemberships.organizationId, organizationId)
+        ));
+      await tx
+        .update(organizationMemberships)
+        .set({ role: 'admin' })
+        .where(and(
+          eq(organizationMemberships.userId, fromUserId),
+          eq(organizationMemberships.organizationId, organizationId)
+        ));
+    });
+  }
   async getUser(id: number): Promise<User | undefined> {
     const [user] = await db.select().from(users).where(eq(users.id, id));
     return user || undefined;
   }
 
   async getUserByEmail(email: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.email, email));
+    const [user] = await db.select().from(users).where(sql`lower(${users.email}) = ${normalizeEmail(email)}`);
     return user || undefined;
   }
 
   async createUser(insertUser: InsertUser): Promise<User> {
     const [user] = await db
       .insert(users)
-      .values(insertUser)
+      .values({ ...insertUser, email: normalizeEmail(insertUser.email) })
       .returning();
     return user;
   }
 
   async updateUser(id: number, updates: Partial<InsertUser>): Promise<User> {
+    const [user] = await db
+      .update(users)
+      .set(updates.email === undefined ? updates : { ...updates, email: normalizeEmail(updates.email) })
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
+  async updateUserMfa(id: number, updates: { mfaEnabled?: boolean; mfaSecret?: string | null; mfaRecoveryCodes?: string[] | null; mfaEnrolledAt?: Date | null; mfaLastUsedStep?: number | null }): Promise<User> {
     const [user] = await db
       .update(users)
       .set(updates)
@@ -222,6 +500,57 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  // Record a TOTP time step as used. Fails when this or a later step was already taken, including by a concurrent request.
+  async claimMfaStep(userId: number, step: number): Promise<boolean> {
+    const [claimed] = await db
+      .update(users)
+      .set({ mfaLastUsedStep: step })
+      .where(and(eq(users.id, userId), or(isNull(users.mfaLastUsedStep), lt(users.mfaLastUsedStep, step))))
+      .returning({ id: users.id });
+    return !!claimed;
+  }
+
+  async isMfaRequiredForUser(userId: number): Promise<boolean> {
+    // MFA is mandatory if any organization the user actively belongs to enforces it
+    const [enforcing] = await db
+      .select({ id: organizations.id })
+      .from(organizationMemberships)
+      .innerJoin(organizations, eq(organizationMemberships.organizationId, organizations.id))
+      .where(and(
+        eq(organizationMemberships.userId, userId),
+        eq(organizationMemberships.isActive, true),
+        eq(organizations.requireMfa, true)
+      ))
+      .limit(1);
+    return !!enforcing;
+  }
+
+  async recordFailedLogin(userId: number): Promise<User> {
+    const [user] = await db
+      .update(users)
+      .set({
+        failedLoginAttempts: sql`${users.failedLoginAttempts} + 1`,
+        lastFailedLoginAt: new Date(),
+      })
+      .where(eq(users.id, userId))
+      .returning();
+    return user;
+  }
+
+  async lockUser(userId: number, lockedUntil: Date): Promise<void> {
+    await db
+      .update(users)
+      .set({ lockedUntil })
+      .where(eq(users.id, userId));
+  }
+
+  async resetFailedLogins(userId: number): Promise<void> {
+    await db
+      .update(users)
+      .set({ failedLoginAttempts: 0, lockedUntil: null })
+      .where(eq(users.id, userId));
+  }
+
   async updateUserLastLogin(id: number): Promise<void> {
     await db
       .update(users)
@@ -343,20 +672,61 @@ export class DatabaseStorage implements IStorage {
   async updateUserProfile(id: number, updates: { name: string; email: string }): Promise<User> {
     const [user] = await db
       .update(users)
-      .set({ name: updates.name, email: updates.email })
+      .set({ name: updates.name, email: normalizeEmail(updates.email) })
       .where(eq(users.id, id))
       .returning();
     return user;
   }
 
+  // The replaced hash moves into the password history, which keeps the most recent PASSWORD_HISTORY_MAX entries
   async updateUserPassword(id: number, hashedPassword: string): Promise<void> {
-    await db
-      .update(users)
-      .set({ password: hashedPassword })
-      .where(eq(users.id, id));
+    await db.transaction(async (tx) => {
+      const [user] = await tx.select({ password: users.password }).from(users).where(eq(users.id, id));
+      if (user) {
+        await tx.insert(passwordHistory).values({ userId: id, passwordHash: user.password });
+      }
+
+      await tx
+        .update(users)
+        .set({ password: hashedPassword, passwordChangedAt: new Date() })
+        .where(eq(users.id, id));
+
+      await tx.delete(passwordHistory).where(and(
+        eq(passwordHistory.userId, id),
+        sql`${passwordHistory.id} not in (
+          select ${passwordHistory.id} from ${passwordHistory}
+          where ${passwordHistory.userId} = ${id}
+          order by ${passwordHistory.createdAt} desc
+          limit ${PASSWORD_HISTORY_MAX}
+        )`
+      ));
+    });
+  }
+
+  // Most recent previous password hashes, newest first
+  async getPasswordHistory(userId: number, limit: number): Promise<string[]> {
+    if (limit <= 0) return [];
+    const entries = await db
+      .select({ passwordHash: passwordHistory.passwordHash })
+      .from(passwordHistory)
+      .where(eq(passwordHistory.userId, userId))
+      .orderBy(desc(passwordHistory.createdAt))
+      .limit(limit);
+    return entries.map((entry) => entry.passwordHash);
+  }
+
+  // Strictest policy across the user's active organizations
+  async getUserPasswordPolicy(userId: number): Promise<PasswordPolicy> {
+    const rows = await db
+      .select({ passwordPolicy: organizations.passwordPolicy })
+      .from(organizationMemberships)
+      .innerJoin(organizations, eq(organizationMemberships.organizationId, organizations.id))
+      .where(and(eq(organizationMemberships.userId, userId), eq(organizationMemberships.isActive, true)));
+    return strictestPasswordPolicy(rows.map((row) => row.passwordPolicy ?? DEFAULT_PASSWORD_POLICY));
   }
 
   async deleteUser(id: number): Promise<void> {
+    await db.delete(passwordHistory).where(eq(passwordHistory.userId, id));
     await db.delete(users).where(eq(users.id, id));
   }
 
@@ -387,12 +757,203 @@ export class DatabaseStorage implements IStorage {
       .where(eq(loginTokens.token, token));
   }
 
+  async markLoginTokenIdAsUsed(id: number): Promise<void> {
+    await db
+      .update(loginTokens)
+      .set({ used: true })
+      .where(eq(loginTokens.id, id));
+  }
+
+  async invalidateLoginTokensForEmail(email: string, purpose: string): Promise<void> {
+    await db
+      .update(loginTokens)
+      .set({ used: true })
+      .where(and(
+        eq(loginTokens.email, email),
+        eq(loginTokens.purpose, purpose),
+        eq(loginTokens.used, false)
+      ));
+  }
+
   async cleanupExpiredTokens(): Promise<void> {
     await db
       .delete(loginTokens)
       .where(eq(loginTokens.expiresAt, new Date()));
   }
 
+  // Organization invitation methods
+  async createInvitation(invitation: InsertOrganizationInvitation): Promise<OrganizationInvitation> {
+    const [newInvitation] = await db
+      .insert(organizationInvitations)
+      .values({ ...invitation, email: normalizeEmail(invitation.email) })
+      .returning();
+    return newInvitation;
+  }
+
+  async getInvitation(id: number, organizationId: number): Promise<OrganizationInvitation | undefined> {
+    const [invitation] = await db
+      .select()
+      .from(organizationInvitations)
+      .where(and(
+        eq(organizationInvitations.id, id),
+        eq(organizationInvitations.organizationId, organizationId)
+      ));
+    return invitation;
+  }
+
+  async getInvitationByToken(token: string): Promise<{ invitation: OrganizationInvitation; loginToken: LoginToken } | undefined> {
+    const [result] = await db
+      .select({
+        invitation: organizationInvitations,
+        loginToken: loginTokens,
+      })
+      .from(organizationInvitations)
+      .innerJoin(loginTokens, eq(organizationInvitations.loginTokenId, loginTokens.id))
+      .where(and(
+        eq(loginTokens.token, token),
+        eq(loginTokens.purpose, 'invitation')
+      ));
+    return result;
+  }
+
+  async getPendingInvitations(organizationId: number): Promise<OrganizationInvitation[]> {
+    return await db
+      .select()
+      .from(organizationInvitations)
+      .where(and(
+        eq(organizationInvitations.organizationId, organizationId),
+        eq(organizationInvitations.status, 'pending')
+      ))
+      .orderBy(desc(organizationInvitations.createdAt));
+  }
+
+  async getPendingInvitationForEmail(organizationId: number, email: string): Promise<OrganizationInvitation | undefined> {
+    const [invitation] = await db
+      .select()
+      .from(organizationInvitations)
+      .where(and(
+        eq(organizationInvitations.organizationId, organizationId),
+        sql`lower(${organizationInvitations.email}) = ${normalizeEmail(email)}`,
+        eq(organizationInvitations.status, 'pending')
+      ));
+    return invitation;
+  }
+
+  async updateInvitation(id: number, updates: Partial<InsertOrganizationInvitation>): Promise<OrganizationInvitation> {
+    const [invitation] = await db
+      .update(organizationInvitations)
+      .set(updates)
+      .where(eq(organizationInvitations.id, id))
+      .returning();
+    return invitation;
+  }
+
+  async createApiKey(apiKey: InsertApiKey): Promise<ApiKey> {
+    const [newKey] = await db.insert(apiKeys).values(apiKey).returning();
+    return newKey;
+  }
+
+  async getApiKey(id: number): Promise<ApiKey | undefined> {
+    const [apiKey] = await db.select().from(apiKeys).where(eq(apiKeys.id, id));
+    return apiKey;
+  }
+
+  async getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined> {
+    const [apiKey] = await db.select().from(apiKeys).where(eq(apiKeys.keyHash, keyHash));
+    return apiKey;
+  }
+
+  async getOrganizationApiKeys(organizationId: number): Promise<ApiKey[]> {
+    return db
+      .select()
+      .from(apiKeys)
+      .where(eq(apiKeys.organizationId, organizationId))
+      .orderBy(desc(apiKeys.createdAt));
+  }
+
+  async revokeApiKey(id: number, organizationId: number): Promise<ApiKey | undefined> {
+    const [apiKey] = await db
+      .update(apiKeys)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(apiKeys.id, id), eq(apiKeys.organizationId, organizationId)))
+      .returning();
+    return apiKey;
+  }
+
+  // Keys act with their creator's organization access, so they go when the creator's membership does
+  async revokeUserApiKeys(userId: number, organizationId: number): Promise<ApiKey[]> {
+    return db
+      .update(apiKeys)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(apiKeys.createdBy, userId), eq(apiKeys.organizationId, organizationId), isNull(apiKeys.revokedAt)))
+      .returning();
+  }
+
+  async recordApiKeyUsage(id: number, ipAddress?: string): Promise<void> {
+    await db
+      .update(apiKeys)
+      .set({ lastUsedAt: new Date(), lastUsedIp: ipAddress })
+      .where(eq(apiKeys.id, id));
+  }
+
+  // The client secret is stored encrypted and returned decrypted
+  private async decryptSsoConfig(config: OrganizationSsoConfig | undefined): Promise<OrganizationSsoConfig | undefined> {
+    if (!config) return undefined;
+    return { ...config, clientSecret: (await decryptField(config.clientSecret, "ssoClientSecret")) ?? null };
+  }
+
+  async getOrganizationSsoConfig(organizationId: number): Promise<OrganizationSsoConfig | undefined> {
+    const [config] = await db
+      .select()
+      .from(organizationSsoConfigs)
+      .where(eq(organizationSsoConfigs.organizationId, organizationId));
+    return this.decryptSsoConfig(config);
+  }
+
+  async getSsoConfigByEmailDomain(domain: string): Promise<OrganizationSsoConfig | undefined> {
+    const [config] = await db
+      .select()
+      .from(organizationSsoConfigs)
+      .where(sql`${organizationSsoConfigs.verifiedDomains} @> ${JSON.stringify([domain.toLowerCase()])}::jsonb`)
+      .limit(1);
+    return this.decryptSsoConfig(config);
+  }
+
+  async upsertOrganizationSsoConfig(config: InsertOrganizationSsoConfig): Promise<OrganizationSsoConfig> {
+    const values = {
+      ...config,
+      clientSecret: (await encryptField(config.clientSecret, "ssoClientSecret")) ?? null,
+      updatedAt: new Date(),
+    };
+    const [saved] = await db
+      .insert(organizationSsoConfigs)
+      .values(values)
+      .onConflictDoUpdate({ target: organizationSsoConfigs.organizationId, set: values })
+      .returning();
+    return (await this.decryptSsoConfig(saved))!;
+  }
+
+  async setVerifiedSsoDomains(organizationId: number, domains: string[]): Promise<OrganizationSsoConfig | undefined> {
+    const [saved] = await db
+      .update(organizationSsoConfigs)
+      .set({ verifiedDomains: domains, updatedAt: new Date() })
+      .where(eq(organizationSsoConfigs.organizationId, organizationId))
+      .returning();
+    return this.decryptSsoConfig(saved);
+  }
+
+  async getUserBySsoIdentity(issuer: string, subject: string): Promise<User | undefined> {
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(and(eq(users.ssoIssuer, issuer), eq(users.ssoSubject, subject)));
+    return user;
+  }
+
+  async linkUserSsoIdentity(userId: number, issuer: string, subject: string): Promise<void> {
+    await db.update(users).set({ ssoIssuer: issuer, ssoSubject: subject }).where(eq(users.id, userId));
+  }
+
   async createAutomationLog(log: InsertAutomationLog): Promise<AutomationLog> {
     const [newLog] = await db
       .insert(automationLogs)
@@ -731,28 +1292,121 @@ export class DatabaseStorage implements IStorage {
     };
   }
   
+  // Encrypt the PHI fields present in a patient write and refresh the matching blind indexes
+  private async encryptPatientFields<T extends Partial<InsertPatient>>(patient: T): Promise<T & Partial<Pick<Patient, typeof PATIENT_BLIND_INDEXES[PatientIdentifierField]>>> {
+    const encrypted: any = { ...patient };
+    for (const field of ENCRYPTED_PATIENT_FIELDS) {
+      if (patient[field] !== undefined) {
+        encrypted[field] = await encryptField(patient[field], field);
+      }
+    }
+    for (const [field, indexField] of Object.entries(PATIENT_BLIND_INDEXES)) {
+      const value = patient[field as PatientIdentifierField];
+      if (value !== undefined) {
+        encrypted[indexField] = await blindIndex(value, field);
+      }
+    }
+    return encrypted;
+  }
+
+  private async decryptPatient(patient: Patient): Promise<Patient> {
+    const decrypted: any = { ...patient };
+    for (const field of ENCRYPTED_PATIENT_FIELDS) {
+      decrypted[field] = await decryptField(patient[field], field);
+    }
+    return decrypted;
+  }
+
+  // List reads mask fields that fail to decrypt; single-record reads, which feed edits, still throw
+  private decryptPatients(rows: Patient[]): Promise<Patient[]> {
+    return Promise.all(rows.map(async (row) => {
+      const decrypted: any = { ...row };
+      for (const field of ENCRYPTED_PATIENT_FIELDS) {
+        try {
+          decrypted[field] = await decryptField(row[field], field);
+        } catch (error) {
+          console.error(`Error decrypting ${field} for patient ${row.id}:`, error);
+          decrypted[field] = UNREADABLE_FIELD_MASK;
+        }
+      }
+      return decrypted as Patient;
+    }));
+  }
+
   // Patient Management methods
   async createPatient(patient: InsertPatient, userId: number, organizationId: number): Promise<Patient> {
-    const [newPatient] = await db.insert(patients).values({ ...patient, userId, organizationId }).returning();
-    return newPatient;
+    const values = await this.encryptPatientFields(patient);
+    const newPatient = await db.transaction(async (tx) => {
+      const [created] = await tx.insert(patients).values({ ...values, userId, organizationId }).returning();
+      await this.recordPatientVersion(tx, undefined, created, { type: "user", userId });
+      return created;
+    });
+    return this.decryptPatient(newPatient);
   }
 
   async getPatient(id: number, organizationId: number): Promise<Patient | undefined> {
     const [patient] = await db.select().from(patients).where(eq(patients.id, id));
     // Only return patient if it belongs to the organization
-    return patient && patient.organizationId === organizationId ? patient : undefined;
+    return patient && patient.organizationId === organizationId ? this.decryptPatient(patient) : undefined;
   }
 
   async getOrganizationPatients(organizationId: number): Promise<Patient[]> {
-    return db.select().from(patients).where(eq(patients.organizationId, organizationId)).orderBy(desc(patients.createdAt));
+    return this.decryptPatients(
+      await db.select().from(patients).where(eq(patients.organizationId, organizationId)).orderBy(desc(patients.createdAt))
+    );
   }
 
   async getUserPatients(userId: number): Promise<Patient[]> {
-    return db.select().from(patients).where(eq(patients.userId, userId)).orderBy(desc(patients.createdAt));
+    return this.decryptPatients(
+      await db.select().from(patients).where(eq(patients.userId, userId)).orderBy(desc(patients.createdAt))
+    );
   }
 
   async getAllPatients(): Promise<Patient[]> {
-    return db.select().from(patients).orderBy(desc(patients.createdAt));
+    return this.decryptPatients(await db.select().from(patients).orderBy(desc(patients.createdAt)));
+  }
+
+  // Exact match on an encrypted identifier via its blind index (case, spaces and dashes are ignored)
+  async findPatientsByIdentifier(field: PatientIdentifierField, value: string, organizationId: number): Promise<Patient[]> {
+    const index = await blindIndex(value, field);
+    if (!index) return [];
+
+    const rows = await db
+      .select()
+      .from(patients)
+      .where(and(eq(patients.organizationId, organizationId), eq(patients[PATIENT_BLIND_INDEXES[field]], index)))
+      .orderBy(desc(patients.createdAt));
+    return this.decryptPatients(rows);
+  }
+
+  /**
+   * Rewrite patient rows that hold plaintext PHI, use a retired key or lack blind indexes.
+   * Run after enabling encryption and after every key rotation. Returns the number of rows rewritten.
+   */
+  async reencryptPatients(): Promise<number> {
+    const activeKey = await getKeyProvider().getActiveKey();
+    const rows = await db.select().from(patients);
+    let updatedCount = 0;
+
+    for (const row of rows) {
+      const stale = ENCRYPTED_PATIENT_FIELDS.some((field) => row[field] && getCiphertextKeyId(row[field]) !== activeKey.id) ||
+        Object.entries(PATIENT_BLIND_INDEXES).some(([field, indexField]) =>
+          row[field as PatientIdentifierField] && !row[indexField as keyof Patient]
+        );
+      if (!stale) continue;
+
+      const decrypted = await this.decryptPatient(row);
+      const phi: Partial<InsertPatient> = {};
+      for (const field of ENCRYPTED_PATIENT_FIELDS) {
+        (phi as any)[field] = decrypted[field];
+      }
+
+      // updatedAt is left alone: re-encryption is not a change to the record
+      await db.update(patients).set(await this.encryptPatientFields(phi)).where(eq(patients.id, row.id));
+      updatedCount++;
+    }
+
+    return updatedCount;
   }
 
   // Helper function to determine auth status based on auth info
@@ -770,10 +1424,10 @@ export class DatabaseStorage implements IStorage {
 
     // Check expiration status if we have an end date
     if (endDate && endDate.trim()) {
-      const authEndDate = new Date(endDate);
-      const currentDate = new Date();
-      const oneWeekFromNow = new Date();
-      oneWeekFromNow.setDate(currentDate.getDate() + 7);
+      // YYYY-MM-DD dates compare as strings; the authorization is valid through its end date
+      const authEndDate = endDate;
+      const currentDate = todayCalendarDate();
+      const oneWeekFromNow = addCalendarDays(currentDate, 7);
       
       // Check if authorization has already expired
       if (authEndDate < currentDate) {
@@ -822,7 +1476,7 @@ export class DatabaseStorage implements IStorage {
     return currentAuthStatus;
   }
 
-  async updatePatient(id: number, patient: Partial<InsertPatient>, organizationId: number): Promise<Patient | undefined> {
+  async updatePatient(id: number, patient: Partial<InsertPatient>, organizationId: number, source: PatientChangeSource): Promise<Patient | undefined> {
     // Check if patient belongs to organization first
     const existingPatient = await this.getPatient(id, organizationId);
     if (!existingPatient) return undefined;
@@ -839,25 +1493,164 @@ export class DatabaseStorage implements IStorage {
     }
     // If authStatus was manually provided, use it as-is (don't override)
 
-    const [updatedPatient] = await db
-      .update(patients)
-      .set({ ...patient, updatedAt: new Date() })
-      .where(eq(patients.id, id))
-      .returning();
-    return updatedPatient;
+    const values = await this.encryptPatientFields(patient);
+    return this.writePatientVersioned(id, { ...values, updatedAt: new Date() }, source);
   }
 
-  async updatePatientStatus(id: number, status: string, organizationId: number): Promise<Patient | undefined> {
+  async updatePatientStatus(id: number, status: string, organizationId: number, source: PatientChangeSource): Promise<Patient | undefined> {
     // Check if patient belongs to organization first
     const existingPatient = await this.getPatient(id, organizationId);
     if (!existingPatient) return undefined;
 
-    const [updatedPatient] = await db
-      .update(patients)
-      .set({ status, updatedAt: new Date() })
-      .where(eq(patients.id, id))
-      .returning();
-    return updatedPatient;
+    return this.writePatientVersioned(id, { status, updatedAt: new Date() }, source);
+  }
+
+  // Update a patient row and record the resulting version, with the row locked so versions are numbered in order
+  private async writePatientVersioned(id: number, values: Partial<typeof patients.$inferInsert>, source: PatientChangeSource): Promise<Patient | undefined> {
+    const updatedPatient = await db.transaction(async (tx) => {
+      const [previous] = await tx.select().from(patients).where(eq(patients.id, id)).for("update");
+      if (!previous) return undefined;
+
+      const [updated] = await tx.update(patients).set(values).where(eq(patients.id, id)).returning();
+      await this.recordPatientVersion(tx, previous, updated, source);
+      return updated;
+    });
+    return updatedPatient && this.decryptPatient(updatedPatient);
+  }
+
+  /**
+   * Store a snapshot of a patient row after a change. Writes that change nothing add no version.
+   * Patients created before versioning get their prior state recorded first, so the first change can be reverted.
+   */
+  private async recordPatientVersion(tx: Transaction, previous: Patient | undefined, current: Patient, source: PatientChangeSource): Promise<void> {
+    const changedFields = previous
+      ? diffPatient(await this.decryptPatient(previous), await this.decryptPatient(current)).map((change) => change.field)
+      : [];
+    if (previous && changedFields.length === 0) return;
+
+    const [{ latest }] = await tx
+      .select({ latest: max(patientVersions.version) })
+      .from(patientVersions)
+      .where(eq(patientVersions.patientId, current.id));
+    let version = latest ?? 0;
+
+    if (previous && version === 0) {
+      await tx.insert(patientVersions).values({
+        patientId: previous.id,
+        organizationId: previous.organizationId,
+        version: ++version,
+        snapshot: this.toVersionSnapshot(previous),
+        changedFields: [],
+        source: "system",
+        rule: "Recorded before versioning",
+        createdAt: previous.updatedAt,
+      });
+    }
+
+    await tx.insert(patientVersions).values({
+      patientId: current.id,
+      organizationId: current.organizationId,
+      version: version + 1,
+      snapshot: this.toVersionSnapshot(current),
+      changedFields,
+      source: source.type,
+      changedBy: source.type === "user" ? source.userId : null,
+      apiKeyId: source.type === "api_key" ? source.apiKeyId : null,
+      documentId: source.type === "document" ? source.documentId : null,
+      automationLogId: source.type === "aigents" ? source.automationLogId : null,
+      rule: source.type === "system" ? source.rule : null,
+      revertedFromVersion: source.type === "user" ? source.revertedFromVersion ?? null : null,
+      createdAt: current.updatedAt,
+    });
+  }
+
+  // The stored row as it is, PHI still encrypted
+  private toVersionSnapshot(row: Patient): Record<string, unknown> {
+    const snapshot: Record<string, unknown> = { ...row };
+    for (const field of UNVERSIONED_PATIENT_FIELDS) {
+      delete snapshot[field];
+    }
+    return snapshot;
+  }
+
+  private async fromVersionSnapshot(snapshot: Record<string, unknown>): Promise<Patient> {
+    const row: Record<string, unknown> = { ...snapshot };
+    for (const field of PATIENT_TIMESTAMP_FIELDS) {
+      if (typeof row[field] === "string") row[field] = new Date(row[field] as string);
+    }
+    return this.decryptPatient(row as Patient);
+  }
+
+  // Version history, newest first, with who made each user change
+  async getPatientVersions(patientId: number, organizationId: number): Promise<PatientVersionEntry[]> {
+    const { snapshot, ...columns } = getTableColumns(patientVersions);
+    return db
+      .select({ ...columns, changedByName: sql<string | null>`coalesce(${users.name}, ${users.email}, ${apiKeys.name})` })
+      .from(patientVersions)
+      .leftJoin(users, eq(patientVersions.changedBy, users.id))
+      .leftJoin(apiKeys, eq(patientVersions.apiKeyId, apiKeys.id))
+      .where(and(eq(patientVersions.patientId, patientId), eq(patientVersions.organizationId, organizationId)))
+      .orderBy(desc(patientVersions.version));
+  }
+
+  async getPatientVersion(id: number, patientId: number, organizationId: number): Promise<PatientVersionView | undefined> {
+    return this.readPatientVersion(and(
+      eq(patientVersions.id, id),
+      eq(patientVersions.patientId, patientId),
+      eq(patientVersions.organizationId, organizationId)
+    ));
+  }
+
+  // The version in effect at a moment: the last one written at or before it
+  async getPatientVersionAsOf(patientId: number, organizationId: number, asOf: Date): Promise<PatientVersionView | undefined> {
+    return this.readPatientVersion(and(
+      eq(patientVersions.patientId, patientId),
+      eq(patientVersions.organizationId, organizationId),
+      lte(patientVersions.createdAt, asOf)
+    ));
+  }
+
+  private async readPatientVersion(condition: SQL | undefined): Promise<PatientVersionView | undefined> {
+    const [row] = await db
+      .select({ version: patientVersions, changedByName: sql<string | null>`coalesce(${users.name}, ${users.email}, ${apiKeys.name})` })
+      .from(patientVersions)
+      .leftJoin(users, eq(patientVersions.changedBy, users.id))
+      .leftJoin(apiKeys, eq(patientVersions.apiKeyId, apiKeys.id))
+      .where(condition)
+      .orderBy(desc(patientVersions.version))
+      .limit(1);
+    if (!row) return undefined;
+
+    const { snapshot, ...version } = row.version;
+    return {
+      version: { ...version, changedByName: row.changedByName },
+      patient: await this.fromVersionSnapshot(snapshot),
+    };
+  }
+
+  // Snapshots hold PHI ciphertext too, so they are rewritten after a key rotation like the rows themselves
+  async reencryptPatientVersions(): Promise<number> {
+    const activeKey = await getKeyProvider().getActiveKey();
+    const rows = await db.select({ id: patientVersions.id, snapshot: patientVersions.snapshot }).from(patientVersions);
+    let updatedCount = 0;
+
+    for (const row of rows) {
+      const stale = ENCRYPTED_PATIENT_FIELDS.some((field) => {
+        const value = row.snapshot[field];
+        return typeof value === "string" && value && getCiphertextKeyId(value) !== activeKey.id;
+      });
+      if (!stale) continue;
+
+      const snapshot = { ...row.snapshot };
+      for (const field of ENCRYPTED_PATIENT_FIELDS) {
+        const value = await decryptField(snapshot[field] as string | null, field);
+        snapshot[field] = await encryptField(value, field);
+      }
+      await db.update(patientVersions).set({ snapshot }).where(eq(patientVersions.id, row.id));
+      updatedCount++;
+    }
+
+    return updatedCount;
   }
 
   async deletePatient(id: number, organizationId: number): Promise<boolean> {
@@ -866,11 +1659,24 @@ export class DatabaseStorage implements IStorage {
       const existingPatient = await this.getPatient(id, organizationId);
       if (!existingPatient) return false;
 
-      // Delete related records first (cascade delete)
-      await db.delete(patientDocuments).where(eq(patientDocuments.patientId, id));
+      // Delete related records first (cascade delete), including stored original files
+      const deletedDocuments = await db.delete(patientDocuments).where(eq(patientDocuments.patientId, id)).returning();
+      for (const document of deletedDocuments) {
+        if (document.storageKey) {
+          await deleteStoredFile(document.storageKey);
+        }
+      }
       await db.delete(appointments).where(eq(appointments.patientId, id));
       await db.delete(automationLogs).where(eq(automationLogs.patientId, id));
       await db.delete(eSignatureForms).where(eq(eSignatureForms.patientId, id));
+      await db.delete(patientAccessGrants).where(eq(patientAccessGrants.patientId, id));
+      await db.delete(breakGlassAccesses).where(eq(breakGlassAccesses.patientId, id));
+      await db.delete(patientNoteRevisions).where(inArray(
+        patientNoteRevisions.noteId,
+        db.select({ id: patientNotes.id }).from(patientNotes).where(eq(patientNotes.patientId, id))
+      ));
+      await db.delete(patientNotes).where(eq(patientNotes.patientId, id));
+      await db.delete(patientVersions).where(eq(patientVersions.patientId, id));
       
       // Delete the patient record
       await db.delete(patients).where(eq(patients.id, id));
@@ -896,7 +1702,15 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(patientDocuments.createdAt));
   }
 
-  async updatePatientDocument(documentId: number, updates: { processingStatus?: string; processingError?: string; extractedData?: string; metadata?: any }): Promise<PatientDocument | undefined> {
+  async getPatientDocument(documentId: number, patientId: number): Promise<PatientDocument | undefined> {
+    const [document] = await db
+      .select()
+      .from(patientDocuments)
+      .where(and(eq(patientDocuments.id, documentId), eq(patientDocuments.patientId, patientId)));
+    return document;
+  }
+
+  async updatePatientDocument(documentId: number, updates: { processingStatus?: string; processingError?: string; extractedData?: string; metadata?: any; fileUrl?: string }): Promise<PatientDocument | undefined> {
     try {
       const [updatedDocument] = await db
         .update(patientDocuments)
@@ -912,7 +1726,10 @@ export class DatabaseStorage implements IStorage {
 
   async deletePatientDocument(documentId: number): Promise<boolean> {
     try {
-      await db.delete(patientDocuments).where(eq(patientDocuments.id, documentId));
+      const [deletedDocument] = await db.delete(patientDocuments).where(eq(patientDocuments.id, documentId)).returning();
+      if (deletedDocument?.storageKey) {
+        await deleteStoredFile(deletedDocument.storageKey);
+      }
       return true;
     } catch (error) {
       console.error('Error deleting patient document:', error);
@@ -920,6 +1737,254 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  // Restricted patient methods
+  async setPatientRestriction(patientId: number, isRestricted: boolean, allowedUserIds: number[], grantedBy: number): Promise<void> {
+    // Restricting a record changes it, so it gets a version like any other write
+    await db.transaction(async (tx) => {
+      const [previous] = await tx.select().from(patients).where(eq(patients.id, patientId)).for("update");
+      if (!previous) return;
+
+      const [updated] = await tx.update(patients).set({ isRestricted, updatedAt: new Date() }).where(eq(patients.id, patientId)).returning();
+      await this.recordPatientVersion(tx, previous, updated, { type: "user", userId: grantedBy });
+      await tx.delete(patientAccessGrants).where(eq(patientAccessGrants.patientId, patientId));
+      if (isRestricted && allowedUserIds.length > 0) {
+        await tx.insert(patientAccessGrants).values(
+          allowedUserIds.map((userId) => ({ patientId, userId, grantedBy }))
+        );
+      }
+    });
+  }
+
+  async getPatientAccessGrants(patientId: number): Promise<PatientAccessGrant[]> {
+    return db.select().from(patientAccessGrants).where(eq(patientAccessGrants.patientId, patientId));
+  }
+
+  async hasPatientAccessGrant(patientId: number, userId: number): Promise<boolean> {
+    const [grant] = await db
+      .select({ id: patientAccessGrants.id })
+      .from(patientAccessGrants)
+      .where(and(eq(patientAccessGrants.patientId, patientId), eq(patientAccessGrants.userId, userId)));
+    return !!grant;
+  }
+
+  async createBreakGlassAccess(access: InsertBreakGlassAccess): Promise<BreakGlassAccess> {
+    const [created] = await db.insert(breakGlassAccesses).values(access).returning();
+    return created;
+  }
+
+  async getActiveBreakGlassAccess(patientId: number, userId: number): Promise<BreakGlassAccess | undefined> {
+    const [access] = await db
+      .select()
+      .from(breakGlassAccesses)
+      .where(and(
+        eq(breakGlassAccesses.patientId, patientId),
+        eq(breakGlassAccesses.userId, userId),
+        gte(breakGlassAccesses.expiresAt, new Date())
+      ))
+      .orderBy(desc(breakGlassAccesses.expiresAt))
+      .limit(1);
+    return access;
+  }
+
+  async getPatientBreakGlassAccesses(patientId: number): Promise<Array<BreakGlassAccess & { userName: string | null; userEmail: string }>> {
+    const rows = await db
+      .select({ access: breakGlassAccesses, userName: users.name, userEmail: users.email })
+      .from(breakGlassAccesses)
+      .innerJoin(users, eq(breakGlassAccesses.userId, users.id))
+      .where(eq(breakGlassAccesses.patientId, patientId))
+      .orderBy(desc(breakGlassAccesses.createdAt));
+    return rows.map((row) => ({ ...row.access, userName: row.userName, userEmail: row.userEmail }));
+  }
+
+  // Restricted patients the user may open: on the access list, or with unexpired break-glass access
+  async getUserRestrictedPatientAccess(userId: number, organizationId: number): Promise<number[]> {
+    const grants = await db
+      .select({ patientId: patientAccessGrants.patientId })
+      .from(patientAccessGrants)
+      .where(eq(patientAccessGrants.userId, userId));
+    const breakGlass = await db
+      .select({ patientId: breakGlassAccesses.patientId })
+      .from(breakGlassAccesses)
+      .where(and(
+        eq(breakGlassAccesses.userId, userId),
+        eq(breakGlassAccesses.organizationId, organizationId),
+        gte(breakGlassAccesses.expiresAt, new Date())
+      ));
+    return Array.from(new Set([...grants, ...breakGlass].map((row) => row.patientId)));
+  }
+
+  // Patient notes, pinned first and then newest first
+  async getPatientNotes(patientId: number, organizationId: number): Promise<PatientNoteEntry[]> {
+    const authors = alias(users, "authors");
+    const editors = alias(users, "editors");
+    const rows = await db
+      .select({
+        note: patientNotes,
+        authorName: sql<string | null>`coalesce(${authors.name}, ${authors.email})`,
+        updatedByName: sql<string | null>`coalesce(${editors.name}, ${editors.email})`,
+        revisionCount: sql<number>`(select count(*) from ${patientNoteRevisions} where ${patientNoteRevisions.noteId} = ${patientNotes.id})`.mapWith(Number),
+      })
+      .from(patientNotes)
+      .leftJoin(authors, eq(patientNotes.authorId, authors.id))
+      .leftJoin(editors, eq(patientNotes.updatedBy, editors.id))
+      .where(and(eq(patientNotes.patientId, patientId), eq(patientNotes.organizationId, organizationId)))
+      .orderBy(desc(patientNotes.pinned), desc(patientNotes.createdAt), desc(patientNotes.id));
+
+    return Promise.all(rows.map(async (row) => ({
+      ...(await this.decryptPatientNote(row.note)),
+      authorName: row.authorName,
+      updatedByName: row.updatedByName,
+      revisionCount: row.revisionCount,
+    })));
+  }
+
+  async getPatientNote(id: number, patientId: number, organizationId: number): Promise<PatientNote | undefined> {
+    const [note] = await db
+      .select()
+      .from(patientNotes)
+      .where(and(eq(patientNotes.id, id), eq(patientNotes.patientId, patientId), eq(patientNotes.organizationId, organizationId)));
+    return note && this.decryptPatientNote(note);
+  }
+
+  // Earlier versions of a note, newest first
+  async getPatientNoteRevisions(noteId: number): Promise<PatientNoteRevisionEntry[]> {
+    const rows = await db
+      .select({ revision: patientNoteRevisions, writtenByName: sql<string | null>`coalesce(${users.name}, ${users.email})` })
+      .from(patientNoteRevisions)
+      .leftJoin(users, eq(patientNoteRevisions.writtenBy, users.id))
+      .where(eq(patientNoteRevisions.noteId, noteId))
+      .orderBy(desc(patientNoteRevisions.writtenAt), desc(patientNoteRevisions.id));
+
+    return Promise.all(rows.map(async (row) => ({
+      ...row.revision,
+      body: (await decryptField(row.revision.body, NOTE_BODY_FIELD)) ?? "",
+      writtenByName: row.writtenByName,
+    })));
+  }
+
+  // The note shown in patient lists: each patient's pinned or most recent user note
+  async getPatientNotePreviews(organizationId: number): Promise<Map<number, string>> {
+    const rows = await db
+      .selectDistinctOn([patientNotes.patientId], { patientId: patientNotes.patientId, body: patientNotes.body })
+      .from(patientNotes)
+      .where(and(eq(patientNotes.organizationId, organizationId), eq(patientNotes.category, "user")))
+      .orderBy(patientNotes.patientId, desc(patientNotes.pinned), desc(patientNotes.createdAt));
+
+    const previews = new Map<number, string>();
+    for (const row of rows) {
+      previews.set(row.patientId, (await decryptField(row.body, NOTE_BODY_FIELD)) ?? "");
+    }
+    return previews;
+  }
+
+  async createPatientNote(note: InsertPatientNote): Promise<PatientNote> {
+    const [created] = await db.insert(patientNotes).values(await this.encryptPatientNote(note)).returning();
+    return this.decryptPatientNote(created);
+  }
+
+  // The note as stored, for scripts that insert notes inside their own transaction
+  async encryptPatientNote(note: InsertPatientNote): Promise<InsertPatientNote> {
+    return { ...note, body: (await encryptField(note.body, NOTE_BODY_FIELD))! };
+  }
+
+  // Replace a note's text, keeping the version it replaces as a revision
+  async updatePatientNoteBody(id: number, patientId: number, organizationId: number, body: string, userId: number): Promise<PatientNote | undefined> {
+    const encryptedBody = (await encryptField(body, NOTE_BODY_FIELD))!;
+    const updated = await db.transaction(async (tx) => {
+      const [current] = await tx
+        .select()
+        .from(patientNotes)
+        .where(and(eq(patientNotes.id, id), eq(patientNotes.patientId, patientId), eq(patientNotes.organizationId, organizationId)))
+        .for("update");
+      if (!current) return undefined;
+
+      await tx.insert(patientNoteRevisions).values({
+        noteId: current.id,
+        body: current.body,
+        writtenBy: current.updatedBy ?? current.authorId,
+        writtenAt: current.updatedAt,
+      });
+      const [note] = await tx
+        .update(patientNotes)
+        .set({ body: encryptedBody, updatedBy: userId, updatedAt: new Date() })
+        .where(eq(patientNotes.id, current.id))
+        .returning();
+      return note;
+    });
+    return updated && this.decryptPatientNote(updated);
+  }
+
+  // Pinning is not an edit, so updatedAt is left alone
+  async setPatientNotePinned(id: number, patientId: number, organizationId: number, pinned: boolean): Promise<PatientNote | undefined> {
+    const [note] = await db
+      .update(patientNotes)
+      .set({ pinned })
+      .where(and(eq(patientNotes.id, id), eq(patientNotes.patientId, patientId), eq(patientNotes.organizationId, organizationId)))
+      .returning();
+    return note && this.decryptPatientNote(note);
+  }
+
+  async getPatientsWithLegacyNotes(): Promise<Array<Pick<Patient, "id" | "organizationId" | "notes" | "updatedAt">>> {
+    return db
+      .select({ id: patients.id, organizationId: patients.organizationId, notes: patients.notes, updatedAt: patients.updatedAt })
+      .from(patients)
+      .where(sql`coalesce(trim(${patients.notes}), '') <> ''`)
+      .orderBy(patients.id);
+  }
+
+  // Insert the notes parsed from a patient's legacy blob and clear the blob, together so a rerun skips the patient
+  async importLegacyPatientNotes(patientId: number, notes: InsertPatientNote[]): Promise<void> {
+    const values = await Promise.all(notes.map((note) => this.encryptPatientNote(note)));
+    await db.transaction(async (tx) => {
+      if (values.length > 0) {
+        await tx.insert(patientNotes).values(values);
+      }
+      await tx.update(patients).set({ notes: null }).where(eq(patients.id, patientId));
+    });
+  }
+
+  // Note bodies and their revisions on a retired key (or in plaintext) are rewritten with the active key
+  async reencryptPatientNotes(): Promise<number> {
+    const activeKey = await getKeyProvider().getActiveKey();
+    let updatedCount = 0;
+
+    for (const table of [patientNotes, patientNoteRevisions]) {
+      const rows = await db.select({ id: table.id, body: table.body }).from(table);
+      for (const row of rows) {
+        if (getCiphertextKeyId(row.body) === activeKey.id) continue;
+        const body = await decryptField(row.body, NOTE_BODY_FIELD);
+        await db.update(table).set({ body: (await encryptField(body, NOTE_BODY_FIELD))! }).where(eq(table.id, row.id));
+        updatedCount++;
+      }
+    }
+
+    return updatedCount;
+  }
+
+  private async decryptPatientNote(note: PatientNote): Promise<PatientNote> {
+    return { ...note, body: (await decryptField(note.body, NOTE_BODY_FIELD)) ?? "" };
+  }
+
+  // After a key rotation, re-wrap per-file keys with the active data key. The stored blobs are unchanged.
+  async rewrapPatientDocumentKeys(): Promise<number> {
+    const activeKey = await getKeyProvider().getActiveKey();
+    const documents = await db.select().from(patientDocuments).where(sql`${patientDocuments.encryptedFileKey} is not null`);
+    let updatedCount = 0;
+
+    for (const document of documents) {
+      if (!document.storageKey || getCiphertextKeyId(document.encryptedFileKey) === activeKey.id) continue;
+
+      const fileKey = await decryptField(document.encryptedFileKey, document.storageKey);
+      await db
+        .update(patientDocuments)
+        .set({ encryptedFileKey: await encryptField(fileKey, document.storageKey) })
+        .where(eq(patientDocuments.id, document.id));
+      updatedCount++;
+    }
+
+    return updatedCount;
+  }
+
   // E-Signature Forms methods
   async createESignatureForm(form: InsertESignatureForm): Promise<ESignatureForm> {
     const [newForm] = await db.insert(eSignatureForms).values(form).returning();
@@ -954,6 +2019,11 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(appointments.createdAt));
   }
 
+  async getAppointment(id: number): Promise<Appointment | undefined> {
+    const [appointment] = await db.select().from(appointments).where(eq(appointments.id, id));
+    return appointment;
+  }
+
   async updateAppointment(id: number, appointment: Partial<InsertAppointment>): Promise<Appointment | undefined> {
     const [updatedAppointment] = await db
       .update(appointments)
@@ -983,13 +2053,230 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Patient denial appeal letter method
-  async updatePatientDenialAppealLetter(patientId: number, appealLetter: string): Promise<Patient | undefined> {
-    const [updatedPatient] = await db
-      .update(patients)
-      .set({ denialAppealLetter: appealLetter, updatedAt: new Date() })
-      .where(eq(patients.id, patientId))
+  async updatePatientDenialAppealLetter(patientId: number, appealLetter: string, automationLogId: number): Promise<Patient | undefined> {
+    return this.writePatientVersioned(
+      patientId,
+      { denialAppealLetter: appealLetter, updatedAt: new Date() },
+      { type: "aigents", automationLogId }
+    );
+  }
+
+  // Audit log search methods
+  private auditLogConditions(organizationId: number, filters: AuditLogSearch): SQL | undefined {
+    const conditions: Array<SQL | undefined> = [eq(auditLogs.organizationId, organizationId)];
+
+    if (filters.userId) conditions.push(eq(auditLogs.userId, filters.userId));
+    if (filters.action) conditions.push(eq(auditLogs.action, filters.action));
+    if (filters.actions) conditions.push(inArray(auditLogs.action, filters.actions));
+    if (filters.resourceType) conditions.push(eq(auditLogs.resourceType, filters.resourceType));
+    if (filters.resourceId) conditions.push(eq(auditLogs.resourceId, filters.resourceId));
+    if (filters.ipAddress) conditions.push(eq(auditLogs.ipAddress, filters.ipAddress));
+    if (filters.from) conditions.push(gte(auditLogs.timestamp, filters.from));
+    if (filters.to) conditions.push(lte(auditLogs.timestamp, filters.to));
+    if (filters.patientId) {
+      // Patient entries carry the patient as the resource; document entries name it in details
+      conditions.push(or(
+        and(eq(auditLogs.resourceType, "patient"), eq(auditLogs.resourceId, filters.patientId)),
+        sql`${auditLogs.details}->>'patientId' = ${String(filters.patientId)}`
+      ));
+    }
+
+    return and(...conditions);
+  }
+
+  async searchAuditLogs(organizationId: number, filters: AuditLogSearch, page: { limit: number; offset: number }): Promise<{ entries: AuditLogEntry[]; total: number }> {
+    const where = this.auditLogConditions(organizationId, filters);
+
+    const entries = await db
+      .select({
+        id: auditLogs.id,
+        userId: auditLogs.userId,
+        apiKeyId: auditLogs.apiKeyId,
+        organizationId: auditLogs.organizationId,
+        action: auditLogs.action,
+        resourceType: auditLogs.resourceType,
+        resourceId: auditLogs.resourceId,
+        details: auditLogs.details,
+        ipAddress: auditLogs.ipAddress,
+        userAgent: auditLogs.userAgent,
+        sessionId: auditLogs.sessionId,
+        timestamp: auditLogs.timestamp,
+        userName: users.name,
+        userEmail: users.email,
+        apiKeyName: apiKeys.name,
+      })
+      .from(auditLogs)
+      .leftJoin(users, eq(auditLogs.userId, users.id))
+      .leftJoin(apiKeys, eq(auditLogs.apiKeyId, apiKeys.id))
+      .where(where)
+      .orderBy(desc(auditLogs.timestamp), desc(auditLogs.id))
+      .limit(page.limit)
+      .offset(page.offset);
+
+    const [{ total }] = await db
+      .select({ total: sql<number>`count(*)::int` })
+      .from(auditLogs)
+      .where(where);
+
+    return { entries, total };
+  }
+
+  // Values actually present in the organization's log, for the filter dropdowns
+  async getAuditLogFilterOptions(organizationId: number): Promise<AuditLogFilterOptions> {
+    const inOrganization = eq(auditLogs.organizationId, organizationId);
+
+    const actions = await db
+      .selectDistinct({ action: auditLogs.action })
+      .from(auditLogs)
+      .where(inOrganization)
+      .orderBy(auditLogs.action);
+    const resourceTypes = await db
+      .selectDistinct({ resourceType: auditLogs.resourceType })
+      .from(auditLogs)
+      .where(and(inOrganization, sql`${auditLogs.resourceType} is not null`))
+      .orderBy(auditLogs.resourceType);
+    const actors = await db
+      .selectDistinct({ id: users.id, name: users.name, email: users.email })
+      .from(auditLogs)
+      .innerJoin(users, eq(auditLogs.userId, users.id))
+      .where(inOrganization)
+      .orderBy(users.email);
+
+    return {
+      actions: actions.map((row) => row.action),
+      resourceTypes: resourceTypes.map((row) => row.resourceType!),
+      users: actors,
+    };
+  }
+
+  // Findings already raised (same organization and fingerprint) are skipped; only new alerts are returned
+  async createAuditAlerts(alerts: InsertAuditAlert[]): Promise<AuditAlert[]> {
+    if (alerts.length === 0) return [];
+    return await db
+      .insert(auditAlerts)
+      .values(alerts)
+      .onConflictDoNothing({ target: [auditAlerts.organizationId, auditAlerts.fingerprint] })
+      .returning();
+  }
+
+  async getAuditAlerts(organizationId: number, options: { openOnly: boolean; limit: number }): Promise<{ alerts: AuditAlertEntry[]; openCount: number }> {
+    const inOrganization = eq(auditAlerts.organizationId, organizationId);
+    const open = and(inOrganization, isNull(auditAlerts.acknowledgedAt));
+    const acknowledgers = alias(users, "acknowledgers");
+
+    const rows = await db
+      .select({
+        alert: auditAlerts,
+        userName: users.name,
+        userEmail: users.email,
+        acknowledgedByName: sql<string | null>`coalesce(${acknowledgers.name}, ${acknowledgers.email})`,
+      })
+      .from(auditAlerts)
+      .leftJoin(users, eq(auditAlerts.userId, users.id))
+      .leftJoin(acknowledgers, eq(auditAlerts.acknowledgedBy, acknowledgers.id))
+      .where(options.openOnly ? open : inOrganization)
+      .orderBy(desc(auditAlerts.createdAt), desc(auditAlerts.id))
+      .limit(options.limit);
+
+    const [{ openCount }] = await db
+      .select({ openCount: sql<number>`count(*)::int` })
+      .from(auditAlerts)
+      .where(open);
+
+    return {
+      alerts: rows.map((row) => ({
+        ...row.alert,
+        userName: row.userName,
+        userEmail: row.userEmail,
+        acknowledgedByName: row.acknowledgedByName,
+      })),
+      openCount,
+    };
+  }
+
+  async acknowledgeAuditAlert(id: number, organizationId: number, userId: number): Promise<AuditAlert | undefined> {
+    const [alert] = await db
+      .update(auditAlerts)
+      .set({ acknowledgedAt: new Date(), acknowledgedBy: userId })
+      .where(and(
+        eq(auditAlerts.id, id),
+        eq(auditAlerts.organizationId, organizationId),
+        isNull(auditAlerts.acknowledgedAt)
+      ))
+      .returning();
+    return alert;
+  }
+
+  async getAuditArchives(organizationId: number, limit: number): Promise<AuditArchive[]> {
+    return await db
+      .select()
+      .from(auditArchives)
+      .where(eq(auditArchives.organizationId, organizationId))
+      .orderBy(desc(auditArchives.createdAt), desc(auditArchives.id))
+      .limit(limit);
+  }
+
+  async getAuditArchive(id: number, organizationId: number): Promise<AuditArchive | undefined> {
+    const [archive] = await db
+      .select()
+      .from(auditArchives)
+      .where(and(eq(auditArchives.id, id), eq(auditArchives.organizationId, organizationId)));
+    return archive;
+  }
+
+  async createLegalHold(hold: InsertAuditLegalHold): Promise<AuditLegalHold> {
+    const [created] = await db.insert(auditLegalHolds).values(hold).returning();
+    return created;
+  }
+
+  // Active holds first, then released ones, newest first within each
+  async getLegalHolds(organizationId: number): Promise<AuditLegalHoldEntry[]> {
+    const creators = alias(users, "creators");
+    const releasers = alias(users, "releasers");
+    const subjectUsers = alias(users, "subject_users");
+
+    const rows = await db
+      .select({
+        hold: auditLegalHolds,
+        patientFirstName: patients.firstName,
+        patientLastName: patients.lastName,
+        subjectUserName: sql<string | null>`coalesce(${subjectUsers.name}, ${subjectUsers.email})`,
+        createdByName: sql<string | null>`coalesce(${creators.name}, ${creators.email})`,
+        releasedByName: sql<string | null>`coalesce(${releasers.name}, ${releasers.email})`,
+      })
+      .from(auditLegalHolds)
+      .leftJoin(patients, and(
+        eq(auditLegalHolds.scope, "patient"),
+        eq(auditLegalHolds.subjectId, patients.id),
+        eq(patients.organizationId, organizationId)
+      ))
+      .leftJoin(subjectUsers, and(eq(auditLegalHolds.scope, "user"), eq(auditLegalHolds.subjectId, subjectUsers.id)))
+      .leftJoin(creators, eq(auditLegalHolds.createdBy, creators.id))
+      .leftJoin(releasers, eq(auditLegalHolds.releasedBy, releasers.id))
+      .where(eq(auditLegalHolds.organizationId, organizationId))
+      .orderBy(sql`${auditLegalHolds.releasedAt} is not null`, desc(auditLegalHolds.createdAt));
+
+    return rows.map((row) => ({
+      ...row.hold,
+      subjectName: row.patientFirstName !== null
+        ? `${row.patientFirstName} ${row.patientLastName}`
+        : row.subjectUserName,
+      createdByName: row.createdByName,
+      releasedByName: row.releasedByName,
+    }));
+  }
+
+  async releaseLegalHold(id: number, organizationId: number, userId: number): Promise<AuditLegalHold | undefined> {
+    const [hold] = await db
+      .update(auditLegalHolds)
+      .set({ releasedAt: new Date(), releasedBy: userId })
+      .where(and(
+        eq(auditLegalHolds.id, id),
+        eq(auditLegalHolds.organizationId, organizationId),
+        isNull(auditLegalHolds.releasedAt)
+      ))
       .returning();
-    return updatedPatient;
+    return hold;
   }
 }
 
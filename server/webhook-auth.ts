@@ -0,0 +1,117 @@
+import crypto from "crypto";
+import type { Request, Response, NextFunction } from "express";
+import { AuditLogger } from "./audit-service";
+
+// Senders sign `${timestamp}.${rawBody}` with HMAC-SHA256 and send the hex digest as `sha256=<digest>`
+export const WEBHOOK_SIGNATURE_HEADER = "x-webhook-signature";
+export const WEBHOOK_TIMESTAMP_HEADER = "x-webhook-timestamp";
+
+// Routes protected by verifyWebhookSignature; only their bodies are kept in raw form
+export const SIGNED_WEBHOOK_PATHS = ["/webhook/agents", "/api/email-webhook"];
+
+// Requests older (or further in the future) than this are treated as replays
+const TIMESTAMP_TOLERANCE_SECONDS = 5 * 60;
+
+export type WebhookSource = "aigents" | "email";
+
+// Each source has its own secret. A comma-separated list allows rotating without downtime.
+const WEBHOOK_SECRET_ENV: Record<WebhookSource, string> = {
+  aigents: "AIGENTS_WEBHOOK_SECRET",
+  email: "EMAIL_WEBHOOK_SECRET",
+};
+
+// Signatures accepted within the tolerance window, so an intercepted request cannot be resent as-is
+const seenSignatures = new Map<string, number>();
+
+function getWebhookSecrets(source: WebhookSource): string[] {
+  return (process.env[WEBHOOK_SECRET_ENV[source]] || "")
+    .split(",")
+    .map((secret) => secret.trim())
+    .filter(Boolean);
+}
+
+export function signWebhookPayload(secret: string, timestamp: string, rawBody: Buffer | string): string {
+  return "sha256=" + crypto.createHmac("sha256", secret).update(`${timestamp}.`).update(rawBody).digest("hex");
+}
+
+function signaturesMatch(expected: string, presented: string): boolean {
+  const expectedBuffer = Buffer.from(expected);
+  const presentedBuffer = Buffer.from(presented);
+  return expectedBuffer.length === presentedBuffer.length && crypto.timingSafeEqual(expectedBuffer, presentedBuffer);
+}
+
+function pruneSeenSignatures(now: number) {
+  seenSignatures.forEach((expiresAt, signature) => {
+    if (expiresAt <= now) {
+      seenSignatures.delete(signature);
+    }
+  });
+}
+
+/**
+ * Express body parsers on SIGNED_WEBHOOK_PATHS call this with the unparsed body so signatures can be checked against
+ * the exact bytes sent.
+ */
+export function captureRawBody(req: Request, _res: Response, buf: Buffer) {
+  (req as any).rawBody = buf;
+}
+
+/**
+ * Multipart bodies are consumed by multer, so copy the chunks as they stream past. Must run before the multer middleware.
+ */
+export function captureMultipartRawBody(req: Request, _res: Response, next: NextFunction) {
+  const chunks: Buffer[] = [];
+  req.on("data", (chunk: Buffer) => chunks.push(chunk));
+  req.on("end", () => {
+    (req as any).rawBody = Buffer.concat(chunks);
+  });
+  next();
+}
+
+/**
+ * Reject webhook deliveries that are not signed with the source's shared secret or fall outside the replay window.
+ * Every rejection is written to the audit log.
+ */
+export function verifyWebhookSignature(source: WebhookSource) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const reject = async (status: number, reason: string, error: string) => {
+      await AuditLogger.logWebhookRejected(source, reason, AuditLogger.extractContext(req), {
+        endpoint: req.originalUrl.split("?")[0],
+      });
+      return res.status(status).json({ error });
+    };
+
+    const secrets = getWebhookSecrets(source);
+    if (secrets.length === 0) {
+      console.error(`Webhook secret ${WEBHOOK_SECRET_ENV[source]} is not configured; rejecting ${source} webhook`);
+      return reject(503, "secret_not_configured", "Webhook verification is not configured");
+    }
+
+    const signature = req.get(WEBHOOK_SIGNATURE_HEADER);
+    const timestamp = req.get(WEBHOOK_TIMESTAMP_HEADER);
+    if (!signature || !timestamp) {
+      return reject(401, "missing_signature", "Missing webhook signature");
+    }
+
+    const timestampSeconds = Number(timestamp);
+    const nowSeconds = Math.floor(Date.now() / 1000);
+    if (!Number.isInteger(timestampSeconds) || Math.abs(nowSeconds - timestampSeconds) > TIMESTAMP_TOLERANCE_SECONDS) {
+      return reject(401, "stale_timestamp", "Webhook timestamp is outside the allowed window");
+    }
+
+    const rawBody: Buffer = (req as any).rawBody || Buffer.alloc(0);
+    const valid = secrets.some((secret) => signaturesMatch(signWebhookPayload(secret, timestamp, rawBody), signature));
+    if (!valid) {
+      return reject(401, "invalid_signature", "Invalid webhook signature");
+    }
+
+    const now = Date.now();
+    pruneSeenSignatures(now);
+    if (seenSignatures.has(signature)) {
+      return reject(409, "replayed", "Webhook delivery has already been processed");
+    }
+    seenSignatures.set(signature, now + TIMESTAMP_TOLERANCE_SECONDS * 2 * 1000);
+
+    next();
+  };
+}
@@ -0,0 +1,45 @@
+// Organization thresholds for the hourly audit log anomaly scan (server/audit-anomalies.ts).
+// Stored on the organization; organizations without settings use the defaults.
+
+export const AUDIT_ALERT_TYPES = [
+  "excessive_patient_views",
+  "off_hours_export",
+  "repeated_login_failures",
+  "new_ip_address",
+] as const;
+export type AuditAlertType = typeof AUDIT_ALERT_TYPES[number];
+
+export const AUDIT_ALERT_TYPE_LABELS: Record<AuditAlertType, string> = {
+  excessive_patient_views: "Unusual number of patients viewed",
+  off_hours_export: "Bulk export outside business hours",
+  repeated_login_failures: "Repeated failed sign-ins",
+  new_ip_address: "Sign-in from a new IP address",
+};
+
+export interface AuditAlertSettings {
+  enabled: boolean;
+  emailOwners: boolean; // In-app alerts are always raised; this adds an email to every owner
+  patientViewsPerHour: number; // Alert when one user opens at least this many distinct patients in an hour; 0 disables the check
+  failedLoginsPerHour: number; // Alert at this many failed sign-ins for one account in an hour; 0 disables the check
+  exportMinRecords: number; // Alert on exports of at least this many records outside business hours; 0 disables the check
+  businessHoursStart: number; // Hour of day, 0-23
+  businessHoursEnd: number; // Hour of day, 1-24 (exclusive)
+  businessDaysOnly: boolean; // Saturdays and Sundays count as outside business hours
+  timeZone: string; // IANA time zone the business hours are in
+  newIpAddress: boolean; // Flag sign-ins from an address the user has not used in the last 90 days
+}
+
+export const DEFAULT_AUDIT_ALERT_SETTINGS: AuditAlertSettings = {
+  enabled: true,
+  emailOwners: true,
+  patientViewsPerHour: 50,
+  failedLoginsPerHour: 5,
+  exportMinRecords: 100,
+  businessHoursStart: 7,
+  businessHoursEnd: 19,
+  businessDaysOnly: true,
+  timeZone: "America/New_York",
+  newIpAddress: true,
+};
+
+export const AUDIT_ALERT_THRESHOLD_MAX = 100000;
@@ -0,0 +1,102 @@
+import { z } from "zod";
+
+// Calendar dates (authorization periods, enrollment, appointments) are stored in `date` columns and sent as ISO
+// `YYYY-MM-DD` strings. ISO strings sort and compare correctly as plain strings, so nothing here goes through
+// `new Date(string)`, which reads `YYYY-MM-DD` as UTC midnight and other formats according to the locale.
+
+export type CalendarDate = string;
+
+const ISO_DATE = /^(\d{4})-(\d{1,2})-(\d{1,2})(?:T.*)?$/;
+// The MM/DD/YYYY format the text columns used, also with dashes or dots and two-digit years
+const US_DATE = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4}|\d{2})$/;
+
+const pad = (value: number, length = 2) => String(value).padStart(length, "0");
+
+function toCalendarDateParts(year: number, month: number, day: number): CalendarDate | null {
+  if (month < 1 || month > 12 || day < 1) return null;
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  if (day > daysInMonth) return null;
+  return `${pad(year, 4)}-${pad(month)}-${pad(day)}`;
+}
+
+/**
+ * Read a date written as YYYY-MM-DD or MM/DD/YYYY. Returns null for empty or impossible dates.
+ */
+export function parseCalendarDate(value: string | null | undefined): CalendarDate | null {
+  const text = value?.trim();
+  if (!text) return null;
+
+  const iso = text.match(ISO_DATE);
+  if (iso) return toCalendarDateParts(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+
+  const us = text.match(US_DATE);
+  if (us) {
+    // Two-digit years: 00-49 are this century, 50-99 the last
+    const year = us[3].length === 2 ? Number(us[3]) + (Number(us[3]) < 50 ? 2000 : 1900) : Number(us[3]);
+    return toCalendarDateParts(year, Number(us[1]), Number(us[2]));
+  }
+
+  return null;
+}
+
+// The local calendar date of a moment
+export function toCalendarDate(date: Date): CalendarDate {
+  return `${pad(date.getFullYear(), 4)}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export function todayCalendarDate(): CalendarDate {
+  return toCalendarDate(new Date());
+}
+
+// Local midnight of a calendar date, for date pickers and date-fns
+export function calendarDateToLocal(date: CalendarDate): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(year, month - 1, day);
+}
+
+export function addCalendarDays(date: CalendarDate, days: number): CalendarDate {
+  const local = calendarDateToLocal(date);
+  local.setDate(local.getDate() + days);
+  return toCalendarDate(local);
+}
+
+export function addCalendarMonths(date: CalendarDate, months: number): CalendarDate {
+  const local = calendarDateToLocal(date);
+  local.setMonth(local.getMonth() + months);
+  return toCalendarDate(local);
+}
+
+/**
+ * MM/DD/YYYY for display and for integrations that expect it. Values that are not ISO dates are shown unchanged.
+ */
+export function formatCalendarDate(date: CalendarDate | null | undefined, fallback = ""): string {
+  if (!date) return fallback;
+  const match = date.match(ISO_DATE);
+  return match ? `${pad(Number(match[2]))}/${pad(Number(match[3]))}/${match[1]}` : date;
+}
+
+const INVALID_DATE_MESSAGE = "Enter a valid date (MM/DD/YYYY)";
+
+// Required date; accepts YYYY-MM-DD or MM/DD/YYYY and always yields YYYY-MM-DD
+export const calendarDateSchema = z.string().transform((value, ctx) => {
+  const date = parseCalendarDate(value);
+  if (!date) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: INVALID_DATE_MESSAGE });
+    return z.NEVER;
+  }
+  return date;
+});
+
+// Date that can be left out or cleared: empty strings and null become null
+export const optionalCalendarDateSchema = z.string().nullable().transform((value, ctx) => {
+  if (!value?.trim()) return null;
+  const date = parseCalendarDate(value);
+  if (!date) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: INVALID_DATE_MESSAGE });
+    return z.NEVER;
+  }
+  return date;
+}).optional();
+
+// Date of birth is encrypted, so it stays MM/DD/YYYY text; it is read like any other date and written back in that format
+export const dateOfBirthSchema = calendarDateSchema.transform((date) => formatCalendarDate(date));
@@ -0,0 +1,85 @@
+// Organization password policy. Stored on the organization; organizations without one use the default.
+
+export interface PasswordPolicy {
+  minLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireNumber: boolean;
+  requireSymbol: boolean;
+  maxAgeDays: number; // 0 disables forced rotation
+  historyCount: number; // Previous passwords that cannot be reused; 0 allows reuse
+}
+
+// No organization may allow passwords shorter than this
+export const PASSWORD_MIN_LENGTH_FLOOR = 8;
+export const PASSWORD_MAX_LENGTH = 128;
+export const PASSWORD_HISTORY_MAX = 24;
+
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  minLength: 12,
+  requireUppercase: true,
+  requireLowercase: true,
+  requireNumber: true,
+  requireSymbol: false,
+  maxAgeDays: 0,
+  historyCount: 5,
+};
+
+/**
+ * Users in several organizations follow the strictest combination of their policies.
+ */
+export function strictestPasswordPolicy(policies: PasswordPolicy[]): PasswordPolicy {
+  if (policies.length === 0) return DEFAULT_PASSWORD_POLICY;
+
+  const maxAges = policies.map((policy) => policy.maxAgeDays).filter((days) => days > 0);
+  return {
+    minLength: Math.max(...policies.map((policy) => policy.minLength)),
+    requireUppercase: policies.some((policy) => policy.requireUppercase),
+    requireLowercase: policies.some((policy) => policy.requireLowercase),
+    requireNumber: policies.some((policy) => policy.requireNumber),
+    requireSymbol: policies.some((policy) => policy.requireSymbol),
+    maxAgeDays: maxAges.length > 0 ? Math.min(...maxAges) : 0,
+    historyCount: Math.max(...policies.map((policy) => policy.historyCount)),
+  };
+}
+
+// Length and character-class rules only; the breached-password and reuse checks run on the server
+export function validatePasswordRules(password: string, policy: PasswordPolicy): string[] {
+  const errors: string[] = [];
+
+  if (password.length < policy.minLength) {
+    errors.push(`Password must be at least ${policy.minLength} characters`);
+  }
+  if (password.length > PASSWORD_MAX_LENGTH) {
+    errors.push(`Password must be at most ${PASSWORD_MAX_LENGTH} characters`);
+  }
+  if (policy.requireUppercase && !/[A-Z]/.test(password)) {
+    errors.push("Password must contain an uppercase letter");
+  }
+  if (policy.requireLowercase && !/[a-z]/.test(password)) {
+    errors.push("Password must contain a lowercase letter");
+  }
+  if (policy.requireNumber && !/[0-9]/.test(password)) {
+    errors.push("Password must contain a number");
+  }
+  if (policy.requireSymbol && !/[^A-Za-z0-9]/.test(password)) {
+    errors.push("Password must contain a symbol");
+  }
+
+  return errors;
+}
+
+export function describePasswordPolicy(policy: PasswordPolicy): string {
+  const classes = [
+    policy.requireUppercase && "an uppercase letter",
+    policy.requireLowercase && "a lowercase letter",
+    policy.requireNumber && "a number",
+    policy.requireSymbol && "a symbol",
+  ].filter(Boolean);
+
+  if (classes.length === 0) {
+    return `At least ${policy.minLength} characters.`;
+  }
+  const list = classes.length > 1 ? `${classes.slice(0, -1).join(", ")} and ${classes[classes.length - 1]}` : classes[0];
+  return `At least ${policy.minLength} characters, including ${list}.`;
+}
@@ -0,0 +1,133 @@
+// Central role -> capability matrix shared by the API (enforcement) and the client (hiding actions)
+
+export const ROLES = ["owner", "admin", "coordinator", "scheduler", "read_only"] as const;
+export type Role = typeof ROLES[number];
+
+// Roles that can be granted by invitation or role change; ownership moves only by transfer
+export const ASSIGNABLE_ROLES = ["admin", "coordinator", "scheduler", "read_only"] as const;
+export type AssignableRole = typeof ASSIGNABLE_ROLES[number];
+
+export const PERMISSIONS = [
+  // Patients
+  "patient:read",
+  "patient:create",
+  "patient:update",
+  "patient:delete",
+  "patient:export",
+  "patient:restrict", // mark records restricted and manage their access lists
+  // Patient documents
+  "document:read",
+  "document:upload",
+  "document:delete",
+  // Appointments
+  "appointment:read",
+  "appointment:manage",
+  // AI extraction and external automations (AIGENTS, Denial AI)
+  "extraction:run",
+  "automation:run",
+  "automation:read",
+  "automation:manage",
+  // Organization administration
+  "organization:read",
+  "organization:update",
+  "organization:transfer", // owner only
+  "member:read",
+  "member:invite",
+  "member:manage",
+  "api_key:manage",
+  // Compliance and monitoring
+  "audit:read",
+  "audit:hold", // place and release legal holds that exempt audit entries from the retention purge
+  "analytics:read",
+] as const;
+export type Permission = typeof PERMISSIONS[number];
+
+const READ_ONLY_PERMISSIONS: Permission[] = [
+  "patient:read",
+  "document:read",
+  "appointment:read",
+  "automation:read",
+  "organization:read",
+  "member:read",
+];
+
+const SCHEDULER_PERMISSIONS: Permission[] = [
+  ...READ_ONLY_PERMISSIONS,
+  "appointment:manage",
+];
+
+const COORDINATOR_PERMISSIONS: Permission[] = [
+  ...SCHEDULER_PERMISSIONS,
+  "patient:create",
+  "patient:update",
+  "patient:export",
+  "document:upload",
+  "document:delete",
+  "extraction:run",
+  "automation:run",
+];
+
+const ADMIN_PERMISSIONS: Permission[] = [
+  ...COORDINATOR_PERMISSIONS,
+  "patient:delete",
+  "patient:restrict",
+  "automation:manage",
+  "organization:update",
+  "member:invite",
+  "member:manage",
+  "api_key:manage",
+  "audit:read",
+  "audit:hold",
+  "analytics:read",
+];
+
+// Permissions an organization API key can be granted. Keys never get administrative access.
+export const API_KEY_SCOPES = [
+  "patient:read",
+  "patient:create",
+  "patient:update",
+  "patient:delete",
+  "patient:export",
+  "document:read",
+  "appointment:read",
+  "appointment:manage",
+] as const satisfies readonly Permission[];
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  owner: [...PERMISSIONS],
+  admin: ADMIN_PERMISSIONS,
+  coordinator: COORDINATOR_PERMISSIONS,
+  scheduler: SCHEDULER_PERMISSIONS,
+  read_only: READ_ONLY_PERMISSIONS,
+};
+
+export const ROLE_LABELS: Record<Role, string> = {
+  owner: "Owner",
+  admin: "Admin",
+  coordinator: "Coordinator",
+  scheduler: "Scheduler",
+  read_only: "Read-only",
+};
+
+// Memberships created before the matrix existed used 'user' (and invites used 'member')
+const LEGACY_ROLE_ALIASES: Record<string, Role> = {
+  user: "coordinator",
+  member: "coordinator",
+};
+
+export function normalizeRole(role: string | null | undefined): Role | null {
+  if (!role) return null;
+  if ((ROLES as readonly string[]).includes(role)) return role as Role;
+  return LEGACY_ROLE_ALIASES[role] ?? null;
+}
+
+export function hasPermission(role: string | null | undefined, permission: Permission): boolean {
+  const normalized = normalizeRole(role);
+  return normalized ? ROLE_PERMISSIONS[normalized].includes(permission) : false;
+}
+
+export function getPermissions(role: string | null | undefined): Permission[] {
+  const normalized = normalizeRole(role);
+  return normalized ? ROLE_PERMISSIONS[normalized] : [];
+}
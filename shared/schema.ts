@@ -1,13 +1,20 @@
-import { pgTable, text, serial, integer, boolean, timestamp, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, date, jsonb, varchar, index, unique, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
-import { relations } from "drizzle-orm";
+import { relations, sql } from "drizzle-orm";
+import { ASSIGNABLE_ROLES, API_KEY_SCOPES, type ApiKeyScope } from "./permissions";
+import { PASSWORD_MIN_LENGTH_FLOOR, PASSWORD_MAX_LENGTH, PASSWORD_HISTORY_MAX, type PasswordPolicy } from "./password-policy";
+import { AUDIT_ALERT_THRESHOLD_MAX, type AuditAlertSettings, type AuditAlertType } from "./audit-alerts";
+import { calendarDateSchema, dateOfBirthSchema, optionalCalendarDateSchema } from "./dates";
 
 // Organizations table
 export const organizations = pgTable("organizations", {
   id: serial("id").primaryKey(),
   name: text("name").notNull(),
   description: text("description"),
+  requireMfa: boolean("require_mfa").default(false).notNull(), // Force TOTP MFA for every member
+  passwordPolicy: jsonb("password_policy").$type<PasswordPolicy>(), // Null uses DEFAULT_PASSWORD_POLICY (shared/password-policy.ts)
+  auditAlertSettings: jsonb("audit_alert_settings").$type<AuditAlertSettings>(), // Null uses DEFAULT_AUDIT_ALERT_SETTINGS (shared/audit-alerts.ts)
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -17,28 +24,79 @@ export const users = pgTable("users", {
   email: text("email").notNull().unique(),
   name: text("name"),
   password: text("password").notNull(), // Hashed password for authentication
+  passwordChangedAt: timestamp("password_changed_at").defaultNow().notNull(), // Drives forced rotation under the password policy
   currentOrganizationId: integer("current_organization_id").references(() => organizations.id), // Currently selected organization
-  tempPassword: text("temp_password"), // Store temporary password for display (only for newly invited users)
+  mfaEnabled: boolean("mfa_enabled").default(false).notNull(),
+  mfaSecret: text("mfa_secret"), // Base32 TOTP secret (set during enrollment, confirmed once verified)
+  mfaRecoveryCodes: jsonb("mfa_recovery_codes").$type<string[]>(), // SHA-256 hashes of unused recovery codes
+  mfaEnrolledAt: timestamp("mfa_enrolled_at"),
+  mfaLastUsedStep: integer("mfa_last_used_step"), // TOTP time step of the last accepted code; older and equal steps are refused
+  failedLoginAttempts: integer("failed_login_attempts").default(0).notNull(), // Consecutive failures since last successful login
+  lastFailedLoginAt: timestamp("last_failed_login_at"),
+  lockedUntil: timestamp("locked_until"), // Temporary lockout after repeated failures
+  ssoIssuer: text("sso_issuer"), // OIDC issuer and subject the account is linked to after its first SSO login
+  ssoSubject: text("sso_subject"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   lastLoginAt: timestamp("last_login_at"),
-});
+}, (table) => [
+  unique("users_sso_identity_unique").on(table.ssoIssuer, table.ssoSubject),
+  // Emails are stored lowercase; the index also stops case-only duplicates written before that
+  uniqueIndex("users_email_lower_unique").on(sql`lower(${table.email})`),
+]);
+
+// Previous password hashes, checked so users cannot cycle back to a recent password
+export const passwordHistory = pgTable("password_history", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  passwordHash: text("password_hash").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("IDX_password_history_user").on(table.userId, table.createdAt),
+]);
 
 // Organization memberships for handling multiple organization membership
 export const organizationMemberships = pgTable("organization_memberships", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").references(() => users.id).notNull(),
   organizationId: integer("organization_id").references(() => organizations.id).notNull(),
-  role: text("role").default("user").notNull(), // 'owner', 'admin', 'user'
+  role: text("role").default("coordinator").notNull(), // 'owner', 'admin', 'coordinator', 'scheduler', 'read_only' (see shared/permissions.ts)
   createdAt: timestamp("created_at").defaultNow().notNull(),
   isActive: boolean("is_active").default(true).notNull(), // For soft delete of memberships
 });
 
+// Express sessions, written by connect-pg-simple so a restart doesn't sign everyone out
+export const sessions = pgTable("sessions", {
+  sid: varchar("sid").primaryKey(),
+  sess: jsonb("sess").notNull(), // Serialized session: userId, organizationId, device metadata, cookie
+  expire: timestamp("expire", { precision: 6 }).notNull(),
+}, (table) => [
+  index("IDX_sessions_expire").on(table.expire),
+]);
+
 export const loginTokens = pgTable("login_tokens", {
   id: serial("id").primaryKey(),
   token: text("token").notNull().unique(),
   email: text("email").notNull(),
   expiresAt: timestamp("expires_at").notNull(),
   used: boolean("used").default(false),
+  purpose: text("purpose").default("login").notNull(), // 'login' (magic link) | 'invitation' | 'password_reset'
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Pending organization invitations - the single-use link token lives in login_tokens
+export const organizationInvitations = pgTable("organization_invitations", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
+  email: text("email").notNull(),
+  name: text("name"),
+  role: text("role").default("coordinator").notNull(), // Role granted on acceptance
+  invitedBy: integer("invited_by").references(() => users.id),
+  loginTokenId: integer("login_token_id").references(() => loginTokens.id).notNull(), // Current link; replaced on resend
+  status: text("status").default("pending").notNull(), // 'pending' | 'accepted' | 'revoked'
+  expiresAt: timestamp("expires_at").notNull(),
+  lastSentAt: timestamp("last_sent_at").defaultNow().notNull(),
+  acceptedAt: timestamp("accepted_at"),
+  revokedAt: timestamp("revoked_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -94,19 +152,51 @@ export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
   createdAt: true,
   lastLoginAt: true,
+  // MFA fields are only written through the enrollment flow
+  mfaEnabled: true,
+  mfaSecret: true,
+  mfaRecoveryCodes: true,
+  mfaEnrolledAt: true,
+  mfaLastUsedStep: true,
+  // Lockout state is only written by the login throttle
+  failedLoginAttempts: true,
+  lastFailedLoginAt: true,
+  lockedUntil: true,
+  passwordChangedAt: true,
+  // SSO identity is only linked by the OIDC login flow
+  ssoIssuer: true,
+  ssoSubject: true,
 });
 
 // Schema for user login (without password in response)
 export const userLoginSchema = z.object({
-  email: z.string().email(),
+  email: z.string().trim().toLowerCase().email(),
   password: z.string().min(6),
 });
 
+// Schema for the second login step (TOTP code or recovery code)
+export const mfaChallengeSchema = z.object({
+  code: z.string().min(6).max(32),
+});
+
+// Schemas for the forgot/reset password flow
+export const passwordResetRequestSchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+});
+
+// New passwords: the full organization policy is checked on the server (server/password-policy.ts)
+const newPasswordField = z.string().min(PASSWORD_MIN_LENGTH_FLOOR).max(PASSWORD_MAX_LENGTH);
+
+export const passwordResetSchema = z.object({
+  token: z.string().min(1),
+  password: newPasswordField,
+});
+
 // Schema for user registration
 export const userRegisterSchema = z.object({
-  email: z.string().email(),
+  email: z.string().trim().toLowerCase().email(),
   name: z.string().min(1),
-  password: z.string().min(6),
+  password: newPasswordField,
 });
 
 export const insertLoginTokenSchema = createInsertSchema(loginTokens).omit({
@@ -135,6 +225,7 @@ export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 export type UserLogin = z.infer<typeof userLoginSchema>;
 export type UserRegister = z.infer<typeof userRegisterSchema>;
+export type MfaChallenge = z.infer<typeof mfaChallengeSchema>;
 export type LoginToken = typeof loginTokens.$inferSelect;
 export type InsertLoginToken = z.infer<typeof insertLoginTokenSchema>;
 export type AutomationLog = typeof automationLogs.$inferSelect;
@@ -146,13 +237,27 @@ export type InsertApiAnalytics = z.infer<typeof insertApiAnalyticsSchema>;
 
 // LEQVIO Patient Management Tables
 
+// PHI columns stored as AES-GCM ciphertext; storage encrypts and decrypts them, and audit diffs mask them
+export const ENCRYPTED_PATIENT_FIELDS = [
+  "dateOfBirth",
+  "primaryInsuranceNumber",
+  "secondaryInsuranceNumber",
+  "phone",
+  "address",
+  "mrn",
+  "leqvioPatientId",
+  "leqvioCopayIdNumber",
+  "leqvioGroupNumber",
+] as const;
+
+// PHI columns marked "encrypted" hold AES-GCM ciphertext written by DatabaseStorage (see server/encryption-service.ts)
 export const patients = pgTable("patients", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull().references(() => users.id), // Link each patient to a user
   organizationId: integer("organization_id").notNull().references(() => organizations.id), // Link each patient to an organization
   firstName: text("first_name").notNull(),
   lastName: text("last_name").notNull(),
-  dateOfBirth: text("date_of_birth").notNull(),
+  dateOfBirth: text("date_of_birth").notNull(), // encrypted, so it stays text (MM/DD/YYYY)
   orderingMD: text("ordering_md").notNull(),
   diagnosis: text("diagnosis").notNull(),
   status: text("status").notNull().default("Pending Auth"),
@@ -160,54 +265,153 @@ export const patients = pgTable("patients", {
   // Primary Insurance (optional)
   primaryInsurance: text("primary_insurance"),
   primaryPlan: text("primary_plan"),
-  primaryInsuranceNumber: text("primary_insurance_number"),
+  primaryInsuranceNumber: text("primary_insurance_number"), // encrypted
   primaryGroupId: text("primary_group_id"),
   
   // Secondary Insurance (optional)
   secondaryInsurance: text("secondary_insurance"),
   secondaryPlan: text("secondary_plan"),
-  secondaryInsuranceNumber: text("secondary_insurance_number"),
+  secondaryInsuranceNumber: text("secondary_insurance_number"), // encrypted
   secondaryGroupId: text("secondary_group_id"),
   
   // Additional fields
-  phone: text("phone"),
+  phone: text("phone"), // encrypted
   email: text("email"),
-  address: text("address"),
-  mrn: text("mrn"), // Medical Record Number (optional)
+  address: text("address"), // encrypted
+  mrn: text("mrn"), // Medical Record Number (optional), encrypted
   campus: text("campus").default("Mount Sinai West"), // Hospital campus location
   
   // Authorization fields
   authNumber: text("auth_number"),
   refNumber: text("ref_number"),
-  startDate: text("start_date"), // MM/DD/YYYY format
-  endDate: text("end_date"), // MM/DD/YYYY format
+  startDate: date("start_date"), // YYYY-MM-DD, see shared/dates.ts
+  endDate: date("end_date"),
   authStatus: text("auth_status").default("Pending Review"), // Pending Review, No PA Required, Approved, Denied, etc.
   scheduleStatus: text("schedule_status").default("Pending Auth"), // Pending Auth, Scheduled, Needs Scheduling, etc.
   doseNumber: integer("dose_number").default(1),
-  notes: text("notes").default(""),
+  notes: text("notes").default(""), // Legacy sectioned notes; moved into patient_notes by `npm run notes:migrate` and no longer written
   lastVoicemailAt: timestamp("last_voicemail_at"),
   denialAppealLetter: text("denial_appeal_letter"), // Generated appeal letter from Denial_AI chain
   
   // LEQVIO Copay Program fields (only if opted in)
   leqvioCopayProgram: boolean("leqvio_copay_program").default(false),
-  leqvioPatientId: text("leqvio_patient_id"),
-  leqvioEnrollmentDate: text("leqvio_enrollment_date"),
-  leqvioCopayIdNumber: text("leqvio_copay_id_number"),
-  leqvioGroupNumber: text("leqvio_group_number"),
+  leqvioPatientId: text("leqvio_patient_id"), // encrypted
+  leqvioEnrollmentDate: date("leqvio_enrollment_date"),
+  leqvioCopayIdNumber: text("leqvio_copay_id_number"), // encrypted
+  leqvioGroupNumber: text("leqvio_group_number"), // encrypted
   leqvioBin: text("leqvio_bin"),
   leqvioPcn: text("leqvio_pcn"),
+
+  // Restricted ("break the glass") records are only open to members on the access list
+  isRestricted: boolean("is_restricted").default(false).notNull(),
+
+  // Blind indexes (keyed hashes) so encrypted identifiers can still be matched exactly
+  mrnIndex: text("mrn_bidx"),
+  primaryInsuranceNumberIndex: text("primary_insurance_number_bidx"),
+  leqvioPatientIdIndex: text("leqvio_patient_id_bidx"),
   
   // Metadata
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("IDX_patients_mrn_bidx").on(table.organizationId, table.mrnIndex),
+  index("IDX_patients_primary_insurance_number_bidx").on(table.organizationId, table.primaryInsuranceNumberIndex),
+  index("IDX_patients_leqvio_patient_id_bidx").on(table.organizationId, table.leqvioPatientIdIndex),
+]);
+
+// Members allowed to open a restricted patient without breaking the glass
+export const patientAccessGrants = pgTable("patient_access_grants", {
+  id: serial("id").primaryKey(),
+  patientId: integer("patient_id").notNull().references(() => patients.id),
+  userId: integer("user_id").notNull().references(() => users.id),
+  grantedBy: integer("granted_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique("patient_access_grants_patient_user").on(table.patientId, table.userId),
+]);
+
+// Emergency access to a restricted patient by someone not on its access list; time-limited and justified
+export const breakGlassAccesses = pgTable("break_glass_accesses", {
+  id: serial("id").primaryKey(),
+  patientId: integer("patient_id").notNull().references(() => patients.id),
+  userId: integer("user_id").notNull().references(() => users.id),
+  organizationId: integer("organization_id").notNull().references(() => organizations.id),
+  justification: text("justification").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Where a change to a patient record came from
+export const PATIENT_CHANGE_SOURCES = ["user", "api_key", "document", "aigents", "system"] as const;
+export type PatientChangeSourceType = typeof PATIENT_CHANGE_SOURCES[number];
+
+export type PatientChangeSource =
+  | { type: "user"; userId: number; revertedFromVersion?: number }
+  | { type: "api_key"; apiKeyId: number } // Integrations calling the API with an organization key
+  | { type: "document"; documentId: number } // OCR of an uploaded document
+  | { type: "aigents"; automationLogId: number }
+  | { type: "system"; rule: string }; // Automatic status rules
+
+// Full snapshot of a patient after each change. Encrypted fields stay ciphertext in the snapshot.
+export const patientVersions = pgTable("patient_versions", {
+  id: serial("id").primaryKey(),
+  patientId: integer("patient_id").notNull().references(() => patients.id),
+  organizationId: integer("organization_id").notNull().references(() => organizations.id),
+  version: integer("version").notNull(),
+  snapshot: jsonb("snapshot").$type<Record<string, unknown>>().notNull(),
+  changedFields: jsonb("changed_fields").$type<string[]>().notNull(),
+  source: varchar("source", { length: 20 }).$type<PatientChangeSourceType>().notNull(),
+  changedBy: integer("changed_by").references(() => users.id),
+  apiKeyId: integer("api_key_id").references(() => apiKeys.id),
+  documentId: integer("document_id"),
+  automationLogId: integer("automation_log_id"),
+  rule: text("rule"),
+  revertedFromVersion: integer("reverted_from_version"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique("patient_versions_patient_version").on(table.patientId, table.version),
+  index("IDX_patient_versions_patient_created").on(table.patientId, table.createdAt),
+]);
+
+// Kinds of patient note. Voicemail and insurance notes are written automatically; system notes come from API keys.
+export const PATIENT_NOTE_CATEGORIES = ["user", "voicemail", "insurance", "system"] as const;
+export type PatientNoteCategory = typeof PATIENT_NOTE_CATEGORIES[number];
+
+export const patientNotes = pgTable("patient_notes", {
+  id: serial("id").primaryKey(),
+  patientId: integer("patient_id").notNull().references(() => patients.id),
+  organizationId: integer("organization_id").notNull().references(() => organizations.id),
+  category: varchar("category", { length: 20 }).$type<PatientNoteCategory>().notNull(),
+  body: text("body").notNull(), // encrypted
+  authorId: integer("author_id").references(() => users.id), // Null for notes imported from the legacy notes field
+  updatedBy: integer("updated_by").references(() => users.id),
+  pinned: boolean("pinned").default(false).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("IDX_patient_notes_patient").on(table.patientId, table.createdAt),
+]);
+
+// Earlier versions of an edited note, each with who wrote it and when
+export const patientNoteRevisions = pgTable("patient_note_revisions", {
+  id: serial("id").primaryKey(),
+  noteId: integer("note_id").notNull().references(() => patientNotes.id),
+  body: text("body").notNull(), // encrypted
+  writtenBy: integer("written_by").references(() => users.id),
+  writtenAt: timestamp("written_at").notNull(),
+  replacedAt: timestamp("replaced_at").defaultNow().notNull(),
+}, (table) => [
+  index("IDX_patient_note_revisions_note").on(table.noteId),
+]);
+
 export const patientDocuments = pgTable("patient_documents", {
   id: serial("id").primaryKey(),
   patientId: integer("patient_id").notNull().references(() => patients.id),
   documentType: text("document_type").notNull(), // 'clinical_note', 'insurance_screenshot', 'epic_screenshot'
   fileName: text("file_name"),
   fileUrl: text("file_url"),
+  storageKey: text("storage_key"), // Blob store key of the encrypted original upload
+  encryptedFileKey: text("encrypted_file_key"), // Per-file key, wrapped with the PHI data key
   extractedData: text("extracted_data"), // OCR extracted text
   metadata: jsonb("metadata"), // Additional structured data from OCR
   processingStatus: text("processing_status").default("pending"), // 'pending', 'processing', 'completed', 'failed'
@@ -231,7 +435,7 @@ export const eSignatureForms = pgTable("e_signature_forms", {
 export const appointments = pgTable("appointments", {
   id: serial("id").primaryKey(),
   patientId: integer("patient_id").notNull().references(() => patients.id),
-  appointmentDate: text("appointment_date").notNull(), // MM/DD/YYYY format
+  appointmentDate: date("appointment_date").notNull(), // YYYY-MM-DD
   doseNumber: integer("dose_number").notNull(),
   status: text("status").notNull().default("Scheduled"), // Scheduled, Completed, Cancelled, No Show
   createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -243,6 +447,7 @@ export const organizationsRelations = relations(organizations, ({ many }) => ({
   users: many(users),
   patients: many(patients),
   memberships: many(organizationMemberships),
+  invitations: many(organizationInvitations),
 }));
 
 export const usersRelations = relations(users, ({ one, many }) => ({
@@ -265,6 +470,21 @@ export const organizationMembershipsRelations = relations(organizationMembership
   }),
 }));
 
+export const organizationInvitationsRelations = relations(organizationInvitations, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [organizationInvitations.organizationId],
+    references: [organizations.id],
+  }),
+  inviter: one(users, {
+    fields: [organizationInvitations.invitedBy],
+    references: [users.id],
+  }),
+  loginToken: one(loginTokens, {
+    fields: [organizationInvitations.loginTokenId],
+    references: [loginTokens.id],
+  }),
+}));
+
 export const patientsRelations = relations(patients, ({ one, many }) => ({
   user: one(users, {
     fields: [patients.userId],
@@ -300,10 +520,44 @@ export const appointmentsRelations = relations(appointments, ({ one }) => ({
   }),
 }));
 
+// Organization-scoped API keys for integration scripts. Only a SHA-256 hash of the key is stored.
+export const apiKeys = pgTable("api_keys", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
+  name: text("name").notNull(),
+  keyPrefix: text("key_prefix").notNull(), // First characters of the key, shown so admins can tell keys apart
+  keyHash: text("key_hash").notNull().unique(),
+  scopes: jsonb("scopes").$type<ApiKeyScope[]>().notNull(),
+  createdBy: integer("created_by").references(() => users.id).notNull(),
+  expiresAt: timestamp("expires_at"), // Null means the key does not expire
+  lastUsedAt: timestamp("last_used_at"),
+  lastUsedIp: text("last_used_ip"),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Per-organization OIDC single sign-on. Users whose email domain is listed and verified sign in through
+// the IdP and are provisioned into the organization with the default role on first login.
+export const organizationSsoConfigs = pgTable("organization_sso_configs", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull().unique(),
+  issuer: text("issuer").notNull(), // OIDC issuer URL; endpoints come from its discovery document
+  clientId: text("client_id").notNull(),
+  clientSecret: text("client_secret"), // encrypted; null for public clients (PKCE only)
+  emailDomains: jsonb("email_domains").$type<string[]>().notNull(), // Lowercase domains this IdP serves
+  verifiedDomains: jsonb("verified_domains").$type<string[]>().default([]).notNull(), // Subset of emailDomains proven through DNS; only these are routed
+  domainVerificationToken: text("domain_verification_token").default(sql`md5(random()::text || clock_timestamp()::text)`).notNull(), // Published in a TXT record to prove a domain is the organization's
+  defaultRole: text("default_role").default("read_only").notNull(), // Role given to just-in-time provisioned users
+  enabled: boolean("enabled").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
 // Audit Logs table for HIPAA compliance
 export const auditLogs = pgTable("audit_logs", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").references(() => users.id),
+  apiKeyId: integer("api_key_id").references(() => apiKeys.id), // Set instead of userId for API key requests
   organizationId: integer("organization_id").references(() => organizations.id),
   action: text("action").notNull(), // VIEW_PATIENT, UPDATE_PATIENT, DELETE_PATIENT, LOGIN, LOGOUT, etc.
   resourceType: text("resource_type"), // 'patient', 'user', 'organization', etc.
@@ -315,7 +569,91 @@ export const auditLogs = pgTable("audit_logs", {
   timestamp: timestamp("timestamp").defaultNow().notNull(),
   // Fields for data retention policy
   retentionDate: timestamp("retention_date").notNull(), // When this record should be purged (7 years)
-});
+  // Tamper evidence: each organization's entries form a hash chain (see server/audit-chain.ts).
+  // Null on entries written before chaining was introduced.
+  chainSeq: integer("chain_seq"),
+  prevHash: text("prev_hash"),
+  hash: text("hash"),
+}, (table) => [
+  index("IDX_audit_logs_chain").on(table.organizationId, table.chainSeq),
+  index("IDX_audit_logs_org_timestamp").on(table.organizationId, table.timestamp),
+]);
+
+// Signed snapshots of a chain head, so rewriting or truncating the chain after a checkpoint is detectable
+export const auditCheckpoints = pgTable("audit_checkpoints", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").references(() => organizations.id), // Null for the system chain
+  chainSeq: integer("chain_seq").notNull(),
+  hash: text("hash").notNull(),
+  keyId: text("key_id").notNull(), // Fingerprint of the signing public key
+  signature: text("signature").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("IDX_audit_checkpoints_chain").on(table.organizationId, table.chainSeq),
+]);
+
+// A run of consecutive chained entries in an archive file, with the hashes on either side of it
+export interface AuditArchiveRange {
+  fromChainSeq: number;
+  toChainSeq: number;
+  prevHash: string; // prevHash of the first entry in the run
+  lastHash: string; // hash of the last entry in the run
+}
+
+// Expired audit entries written to the retention archive before the purge deleted them. The manifest
+// is signed with the checkpoint key so the chain can be verified across the rows that are gone.
+export const auditArchives = pgTable("audit_archives", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").references(() => organizations.id), // Null for the system chain
+  storageKey: text("storage_key").notNull(), // Gzipped JSON Lines file in the archive store
+  sha256: text("sha256").notNull(), // Of the compressed file
+  entryCount: integer("entry_count").notNull(),
+  ranges: jsonb("ranges").$type<AuditArchiveRange[]>().notNull(),
+  lastChainSeq: integer("last_chain_seq"), // Highest chained entry in the file; null if it only holds unchained entries
+  lastHash: text("last_hash"),
+  keyId: text("key_id").notNull(),
+  signature: text("signature").notNull(),
+  createdAt: timestamp("created_at").notNull(), // Signed with the manifest, so set by the writer
+}, (table) => [
+  index("IDX_audit_archives_chain").on(table.organizationId, table.lastChainSeq),
+]);
+
+export const LEGAL_HOLD_SCOPES = ["organization", "patient", "user"] as const;
+export type LegalHoldScope = typeof LEGAL_HOLD_SCOPES[number];
+
+// Litigation holds: audit entries matching an active hold are never purged, however old
+export const auditLegalHolds = pgTable("audit_legal_holds", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").notNull().references(() => organizations.id),
+  scope: text("scope").$type<LegalHoldScope>().notNull(),
+  subjectId: integer("subject_id"), // Patient or user ID; null for the whole organization
+  reason: text("reason").notNull(),
+  createdBy: integer("created_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  releasedAt: timestamp("released_at"),
+  releasedBy: integer("released_by").references(() => users.id),
+}, (table) => [
+  index("IDX_audit_legal_holds_org").on(table.organizationId),
+]);
+
+// Suspicious activity found by the hourly audit log scan, shown to owners and admins until acknowledged
+export const auditAlerts = pgTable("audit_alerts", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").notNull().references(() => organizations.id),
+  type: text("type").$type<AuditAlertType>().notNull(),
+  userId: integer("user_id").references(() => users.id), // Whose activity raised the alert
+  summary: text("summary").notNull(),
+  details: jsonb("details"), // Counts, IP addresses and the audit log entries behind the finding
+  fingerprint: text("fingerprint").notNull(), // Identifies the finding so a re-scan does not raise it twice
+  windowStart: timestamp("window_start").notNull(),
+  windowEnd: timestamp("window_end").notNull(),
+  acknowledgedAt: timestamp("acknowledged_at"),
+  acknowledgedBy: integer("acknowledged_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique("audit_alerts_org_fingerprint").on(table.organizationId, table.fingerprint),
+  index("IDX_audit_alerts_org_created").on(table.organizationId, table.createdAt),
+]);
 
 export const auditLogsRelations = relations(auditLogs, ({ one }) => ({
   user: one(users, {
@@ -345,15 +683,173 @@ export const insertOrganizationMembershipSchema = createInsertSchema(organizatio
 export const organizationRegisterSchema = z.object({
   organizationName: z.string().min(1),
   organizationDescription: z.string().optional(),
-  email: z.string().email(),
+  email: z.string().trim().toLowerCase().email(),
   name: z.string().min(1),
-  password: z.string().min(6),
+  password: newPasswordField,
 });
 
 // User invitation schema
 export const userInviteSchema = z.object({
-  email: z.string().email(),
-  role: z.enum(["owner", "admin", "member"]).default("member"),
+  email: z.string().trim().toLowerCase().email(),
+  name: z.string().min(1),
+  role: z.enum(ASSIGNABLE_ROLES).default("coordinator"),
+});
+
+// Changing an existing member's role
+export const memberRoleUpdateSchema = z.object({
+  role: z.enum(ASSIGNABLE_ROLES),
+});
+
+// Creating an API key; the plaintext key is only returned once
+export const apiKeyCreateSchema = z.object({
+  name: z.string().min(1).max(100),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1),
+  expiresInDays: z.number().int().min(1).max(365).optional(),
+});
+
+export const passwordPolicySchema = z.object({
+  minLength: z.number().int().min(PASSWORD_MIN_LENGTH_FLOOR).max(PASSWORD_MAX_LENGTH),
+  requireUppercase: z.boolean(),
+  requireLowercase: z.boolean(),
+  requireNumber: z.boolean(),
+  requireSymbol: z.boolean(),
+  maxAgeDays: z.number().int().min(0).max(730),
+  historyCount: z.number().int().min(0).max(PASSWORD_HISTORY_MAX),
+});
+
+const alertThreshold = z.number().int().min(0).max(AUDIT_ALERT_THRESHOLD_MAX);
+
+export const auditAlertSettingsSchema = z.object({
+  enabled: z.boolean(),
+  emailOwners: z.boolean(),
+  patientViewsPerHour: alertThreshold,
+  failedLoginsPerHour: alertThreshold,
+  exportMinRecords: alertThreshold,
+  businessHoursStart: z.number().int().min(0).max(23),
+  businessHoursEnd: z.number().int().min(1).max(24),
+  businessDaysOnly: z.boolean(),
+  timeZone: z.string().refine((timeZone) => {
+    try {
+      new Intl.DateTimeFormat("en-US", { timeZone });
+      return true;
+    } catch {
+      return false;
+    }
+  }, "Unknown time zone"),
+  newIpAddress: z.boolean(),
+}).refine((settings) => settings.businessHoursStart < settings.businessHoursEnd, {
+  message: "Business hours must end after they start",
+  path: ["businessHoursEnd"],
+});
+
+// Replacing an expired password during login
+export const expiredPasswordChangeSchema = z.object({
+  newPassword: newPasswordField,
+});
+
+// Organization SSO settings; an omitted client secret keeps the stored one
+export const ssoConfigSchema = z.object({
+  issuer: z.string().trim().url(),
+  clientId: z.string().trim().min(1),
+  clientSecret: z.string().optional(),
+  emailDomains: z.array(
+    z.string().trim().toLowerCase().regex(/^[a-z0-9-]+(\.[a-z0-9-]+)+$/, "Invalid email domain")
+  ).min(1),
+  defaultRole: z.enum(ASSIGNABLE_ROLES).default("read_only"),
+  enabled: z.boolean().default(true),
+});
+
+// Restricting a patient and replacing its access list
+export const patientRestrictionSchema = z.object({
+  isRestricted: z.boolean(),
+  allowedUserIds: z.array(z.number().int().positive()).default([]),
+});
+
+// Reason given when opening a restricted patient without being on its access list
+export const breakGlassSchema = z.object({
+  justification: z.string().trim().min(10, "Please describe why you need access (at least 10 characters)").max(1000),
+});
+
+// Audit log search filters (query string). Every filter is optional and they combine with AND.
+export const auditLogFilterSchema = z.object({
+  userId: z.coerce.number().int().positive().optional(),
+  action: z.string().trim().min(1).max(100).optional(),
+  resourceType: z.string().trim().min(1).max(100).optional(),
+  resourceId: z.coerce.number().int().positive().optional(),
+  patientId: z.coerce.number().int().positive().optional(), // Patient entries and entries about the patient's documents
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  ipAddress: z.string().trim().min(1).max(100).optional(),
+}).refine((filters) => !filters.from || !filters.to || filters.from <= filters.to, {
+  message: "The start date must be before the end date",
+  path: ["from"],
+});
+
+export const AUDIT_LOG_PAGE_SIZE_MAX = 500;
+
+export const auditLogQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(AUDIT_LOG_PAGE_SIZE_MAX).default(100),
+});
+
+export const auditLogExportSchema = z.object({
+  format: z.enum(["csv", "json"]).default("csv"),
+});
+
+export const auditAlertQuerySchema = z.object({
+  status: z.enum(["open", "all"]).default("open"),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+// Placing a legal hold; patient and user holds name their subject
+export const legalHoldSchema = z.object({
+  scope: z.enum(LEGAL_HOLD_SCOPES),
+  subjectId: z.number().int().positive().optional(),
+  reason: z.string().trim().min(10, "Please describe the matter the hold is for (at least 10 characters)").max(1000),
+}).refine((hold) => (hold.scope === "organization") === (hold.subjectId === undefined), {
+  message: "Choose the patient or user to hold",
+  path: ["subjectId"],
+});
+
+// Point-in-time view of a patient record
+export const patientVersionAsOfSchema = z.object({
+  asOf: z.coerce.date(),
+});
+
+// Notes written from the app are user notes; the other categories are written by the server
+export const patientNoteSchema = z.object({
+  body: z.string().trim().min(1, "Note cannot be empty").max(10000),
+});
+
+export const patientNotePinSchema = z.object({
+  pinned: z.boolean(),
+});
+
+// Period covered by a patient's accounting of disclosures; defaults are applied on the server
+export const disclosureReportQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+}).refine((range) => !range.from || !range.to || range.from <= range.to, {
+  message: "The start date must be before the end date",
+  path: ["from"],
+});
+
+// Handing the organization to another active member; the current owner re-enters their password
+export const ownershipTransferSchema = z.object({
+  userId: z.number().int().positive(),
+  password: z.string().min(1),
+});
+
+export const insertOrganizationInvitationSchema = createInsertSchema(organizationInvitations).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Accepting an invitation: new accounts choose a name and password, existing accounts confirm theirs
+// The password is an existing account's current one, or a new account's, which the server checks against the policy
+export const invitationAcceptSchema = z.object({
+  name: z.string().min(1).optional(),
+  password: z.string().min(1, "Password is required").max(PASSWORD_MAX_LENGTH),
 });
 
 export const insertPatientSchema = createInsertSchema(patients).omit({
@@ -362,8 +858,28 @@ export const insertPatientSchema = createInsertSchema(patients).omit({
   organizationId: true, // Will be set from authenticated user context
   createdAt: true,
   updatedAt: true,
+  isRestricted: true, // Changed only through the restriction endpoint
+  mrnIndex: true, // Blind indexes are derived by storage
+  primaryInsuranceNumberIndex: true,
+  leqvioPatientIdIndex: true,
+  notes: true, // Notes are written through the patient notes endpoints
 }).extend({
   status: z.string().default("Pending Auth"),
+  dateOfBirth: dateOfBirthSchema,
+  startDate: optionalCalendarDateSchema,
+  endDate: optionalCalendarDateSchema,
+  leqvioEnrollmentDate: optionalCalendarDateSchema,
+});
+
+// Body of a patient update: only the fields sent are checked, and fields a patient update may not write
+// (ownership, restriction, blind indexes, notes) are dropped
+export const patientUpdateSchema = insertPatientSchema.partial().extend({
+  lastVoicemailAt: z.coerce.date().nullable().optional(), // Sent as an ISO string
+});
+
+// Fields to take back from an earlier version; only fields a patient update may write
+export const patientRevertSchema = z.object({
+  fields: z.array(insertPatientSchema.keyof()).min(1, "Choose at least one field to revert"),
 });
 
 export const insertPatientDocumentSchema = createInsertSchema(patientDocuments).omit({
@@ -383,11 +899,17 @@ export const insertAppointmentSchema = createInsertSchema(appointments).omit({
   updatedAt: true,
 }).extend({
   status: z.string().default("Scheduled"),
+  appointmentDate: calendarDateSchema,
 });
 
+export const appointmentUpdateSchema = insertAppointmentSchema.omit({ patientId: true }).partial();
+
 export const insertAuditLogSchema = createInsertSchema(auditLogs).omit({
   id: true,
   timestamp: true,
+  chainSeq: true,
+  prevHash: true,
+  hash: true,
 }).extend({
   // Auto-calculate retention date as 7 years from now
   retentionDate: z.date().default(() => {
@@ -404,10 +926,32 @@ export type OrganizationMembership = typeof organizationMemberships.$inferSelect
 export type InsertOrganizationMembership = z.infer<typeof insertOrganizationMembershipSchema>;
 export type OrganizationRegister = z.infer<typeof organizationRegisterSchema>;
 export type UserInvite = z.infer<typeof userInviteSchema>;
+export type OrganizationInvitation = typeof organizationInvitations.$inferSelect;
+export type InsertOrganizationInvitation = z.infer<typeof insertOrganizationInvitationSchema>;
+export type InvitationAccept = z.infer<typeof invitationAcceptSchema>;
+export type MemberRoleUpdate = z.infer<typeof memberRoleUpdateSchema>;
+export type OwnershipTransfer = z.infer<typeof ownershipTransferSchema>;
+export type ApiKey = typeof apiKeys.$inferSelect;
+export type InsertApiKey = typeof apiKeys.$inferInsert;
+export type ApiKeyCreate = z.infer<typeof apiKeyCreateSchema>;
+export type PatientAccessGrant = typeof patientAccessGrants.$inferSelect;
+export type BreakGlassAccess = typeof breakGlassAccesses.$inferSelect;
+export type InsertBreakGlassAccess = typeof breakGlassAccesses.$inferInsert;
+export type PatientRestriction = z.infer<typeof patientRestrictionSchema>;
+export type OrganizationSsoConfig = typeof organizationSsoConfigs.$inferSelect;
+export type InsertOrganizationSsoConfig = typeof organizationSsoConfigs.$inferInsert;
+export type SsoConfigInput = z.infer<typeof ssoConfigSchema>;
+export type PasswordHistoryEntry = typeof passwordHistory.$inferSelect;
+export type AuditLogFilters = z.infer<typeof auditLogFilterSchema>;
 
 // Types for new tables
 export type Patient = typeof patients.$inferSelect;
 export type InsertPatient = z.infer<typeof insertPatientSchema>;
+export type PatientVersion = typeof patientVersions.$inferSelect;
+export type PatientNote = typeof patientNotes.$inferSelect;
+export type InsertPatientNote = typeof patientNotes.$inferInsert;
+export type PatientNoteRevision = typeof patientNoteRevisions.$inferSelect;
+export type PatientNoteInput = z.infer<typeof patientNoteSchema>;
 export type PatientDocument = typeof patientDocuments.$inferSelect;
 export type InsertPatientDocument = z.infer<typeof insertPatientDocumentSchema>;
 export type ESignatureForm = typeof eSignatureForms.$inferSelect;
@@ -416,3 +960,11 @@ export type Appointment = typeof appointments.$inferSelect;
 export type InsertAppointment = z.infer<typeof insertAppointmentSchema>;
 export type AuditLog = typeof auditLogs.$inferSelect;
 export type InsertAuditLog = z.infer<typeof insertAuditLogSchema>;
+export type AuditCheckpoint = typeof auditCheckpoints.$inferSelect;
+export type AuditArchive = typeof auditArchives.$inferSelect;
+export type InsertAuditArchive = typeof auditArchives.$inferInsert;
+export type AuditLegalHold = typeof auditLegalHolds.$inferSelect;
+export type InsertAuditLegalHold = typeof auditLegalHolds.$inferInsert;
+export type LegalHoldInput = z.infer<typeof legalHoldSchema>;
+export type AuditAlert = typeof auditAlerts.$inferSelect;
+export type InsertAuditAlert = typeof auditAlerts.$inferInsert;